@@ -1,4 +1,4 @@
-import { Switch, Route, Redirect } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { lazy, Suspense, type ComponentType, type LazyExoticComponent } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -17,7 +17,9 @@ const Login = lazy(() => import("@/pages/login"));
 const Leads = lazy(() => import("@/pages/leads"));
 const Clients = lazy(() => import("@/pages/clients"));
 const Projects = lazy(() => import("@/pages/projects"));
+const ProjectTemplates = lazy(() => import("@/pages/project-templates"));
 const Tasks = lazy(() => import("@/pages/tasks"));
+const Timesheets = lazy(() => import("@/pages/timesheets"));
 const Team = lazy(() => import("@/pages/team"));
 const AttendancePage = lazy(() => import("@/pages/attendance"));
 const Finance = lazy(() => import("@/pages/finance"));
@@ -27,6 +29,10 @@ const Files = lazy(() => import("@/pages/files"));
 const Chat = lazy(() => import("@/pages/chat"));
 const AuditLogs = lazy(() => import("@/pages/audit-logs"));
 const Settings = lazy(() => import("@/pages/settings"));
+const Sessions = lazy(() => import("@/pages/sessions"));
+const ForgotPassword = lazy(() => import("@/pages/forgot-password"));
+const ResetPassword = lazy(() => import("@/pages/reset-password"));
+const ChangePassword = lazy(() => import("@/pages/change-password"));
 const Employees = lazy(() => import("@/pages/employees"));
 const Departments = lazy(() => import("@/pages/departments"));
 const HRAttendance = lazy(() => import("@/pages/hr-attendance"));
@@ -47,10 +53,17 @@ const LeaveSummaryReport = lazy(() => import("@/pages/leave-summary-report"));
 const OfficeSettings = lazy(() => import("@/pages/office-settings"));
 const ProjectCredentials = lazy(() => import("@/pages/project-credentials"));
 const EmailTemplates = lazy(() => import("@/pages/email-templates"));
+const EmailSequences = lazy(() => import("@/pages/email-sequences"));
+const EmailSuppressions = lazy(() => import("@/pages/email-suppressions"));
+const LeadStages = lazy(() => import("@/pages/lead-stages"));
+const LeadScoring = lazy(() => import("@/pages/lead-scoring"));
+const LeadDuplicates = lazy(() => import("@/pages/lead-duplicates"));
+const LeadAssignment = lazy(() => import("@/pages/lead-assignment"));
 const NotFound = lazy(() => import("@/pages/not-found"));
 
 function ProtectedRoute({ component: Component }: { component: ComponentType<any> | LazyExoticComponent<any> }) {
   const { user, isLoading } = useAuth();
+  const [location] = useLocation();
 
   if (isLoading) {
     return (
@@ -64,6 +77,10 @@ function ProtectedRoute({ component: Component }: { component: ComponentType<any
     return <Redirect to="/login" />;
   }
 
+  if (user.mustChangePassword && location !== "/change-password") {
+    return <Redirect to="/change-password" />;
+  }
+
   return <Component />;
 }
 
@@ -88,6 +105,10 @@ function ProtectedRouteWithRoles({
     return <Redirect to="/login" />;
   }
 
+  if (user.mustChangePassword) {
+    return <Redirect to="/change-password" />;
+  }
+
   if (!allowedRoles.includes(user.role)) {
     return <Redirect to="/" />;
   }
@@ -123,11 +144,22 @@ function AppRouter() {
       <Switch>
         <Route path="/login" component={() => <AuthRoute component={Login} />} />
         <Route path="/" component={() => <AuthRoute component={Login} />} />
+        <Route path="/forgot-password" component={() => <AuthRoute component={ForgotPassword} />} />
+        <Route path="/reset-password" component={() => <AuthRoute component={ResetPassword} />} />
+        <Route path="/change-password" component={() => <ProtectedRoute component={ChangePassword} />} />
         <Route path="/dashboard" component={() => <ProtectedRoute component={Dashboard} />} />
         <Route path="/leads" component={() => <ProtectedRoute component={Leads} />} />
+        <Route path="/leads/sequences" component={() => <ProtectedRoute component={EmailSequences} />} />
+        <Route path="/leads/suppressions" component={() => <ProtectedRoute component={EmailSuppressions} />} />
+        <Route path="/leads/stages" component={() => <ProtectedRoute component={LeadStages} />} />
+        <Route path="/leads/scoring" component={() => <ProtectedRoute component={LeadScoring} />} />
+        <Route path="/leads/duplicates" component={() => <ProtectedRoute component={LeadDuplicates} />} />
+        <Route path="/leads/assignment" component={() => <ProtectedRoute component={LeadAssignment} />} />
         <Route path="/clients" component={() => <ProtectedRoute component={Clients} />} />
+        <Route path="/projects/templates" component={() => <ProtectedRoute component={ProjectTemplates} />} />
         <Route path="/projects" component={() => <ProtectedRoute component={Projects} />} />
         <Route path="/tasks" component={() => <ProtectedRoute component={Tasks} />} />
+        <Route path="/timesheets" component={() => <ProtectedRoute component={Timesheets} />} />
         <Route path="/team" component={() => <ProtectedRoute component={Team} />} />
         <Route path="/attendance" component={() => <ProtectedRoute component={AttendancePage} />} />
         <Route path="/finance" component={() => <ProtectedRoute component={Finance} />} />
@@ -156,6 +188,7 @@ function AppRouter() {
         <Route path="/hr/attendance-report" component={() => <ProtectedRouteWithRoles component={HRAttendanceReport} allowedRoles={["admin", "operational_head"]} />} />
         <Route path="/hr/leave-summary" component={() => <ProtectedRouteWithRoles component={LeaveSummaryReport} allowedRoles={["admin", "operational_head"]} />} />
         <Route path="/project-credentials" component={() => <ProtectedRouteWithRoles component={ProjectCredentials} allowedRoles={["admin", "operational_head"]} />} />
+        <Route path="/settings/sessions" component={() => <ProtectedRoute component={Sessions} />} />
         <Route path="/settings/email-templates" component={() => <ProtectedRoute component={EmailTemplates} />} />
         <Route component={NotFound} />
       </Switch>
@@ -166,7 +199,8 @@ function AppRouter() {
 function AppLayout() {
   const { user } = useAuth();
 
-  if (!user) {
+  // A forced password change happens full-screen, before the rest of the app loads
+  if (!user || user.mustChangePassword) {
     return <AppRouter />;
   }
 
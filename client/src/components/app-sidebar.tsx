@@ -20,6 +20,7 @@ import {
 import { useAuth } from "@/lib/auth-context";
 import { useQuery } from "@tanstack/react-query";
 import type { Role } from "@shared/schema";
+import { normalizePermissions, hasPermission as hasResourcePermission } from "@shared/permissions";
 
 // Main Menu Items
 const mainMenuItems = [
@@ -53,6 +54,12 @@ const mainMenuItems = [
     icon: CheckSquare,
     roles: ["admin", "operational_head", "developer", "client"],
   },
+  {
+    title: "Timesheets",
+    url: "/timesheets",
+    icon: Clock,
+    roles: ["admin", "operational_head", "developer"],
+  },
   {
     title: "Team",
     url: "/team",
@@ -255,8 +262,10 @@ export function AppSidebar() {
 
     // If item has a URL, check if that URL is in permissions (or mapped resource ID)
     // Map URL to resource ID (simple mapping based on URL start)
-    const permissions = userRoleConfig.permissions as string[];
-    if (!permissions) return false;
+    // A resource shows up in the menu when the role may view it
+    if (!userRoleConfig.permissions) return false;
+    const permissions = Object.keys(normalizePermissions(userRoleConfig.permissions))
+      .filter(resourceId => hasResourcePermission(userRoleConfig.permissions, resourceId, "view"));
 
     // Simple Mapping Strategy:
     // If permission name is part of the URL, grant access.
@@ -277,6 +286,9 @@ export function AppSidebar() {
       if (item.url.startsWith("/hr/")) return permissions.includes("hr");
       if (item.url.startsWith("/attendance")) return permissions.includes("hr");
 
+      // Time tracking is part of projects
+      if (item.url.startsWith("/timesheets")) return permissions.includes("projects");
+
       // Handle Accounts
       if (item.url.startsWith("/accounts/")) return permissions.includes("finance");
       if (item.url.startsWith("/invoices") || item.url.startsWith("/payments")) return permissions.includes("finance");
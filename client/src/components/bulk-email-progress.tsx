@@ -0,0 +1,99 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pause, Play, X, Send } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BulkEmailJob } from "@shared/schema";
+
+const ACTIVE_JOBS_KEY = "/api/bulk-email-jobs?active=true";
+
+/**
+ * Progress of queued bulk sends with pause/resume/cancel. Updates arrive over
+ * the WebSocket (see NotificationBell); polling covers dropped connections.
+ */
+export function BulkEmailProgress() {
+  const { toast } = useToast();
+
+  const { data: jobs = [] } = useQuery<BulkEmailJob[]>({
+    queryKey: [ACTIVE_JOBS_KEY],
+    refetchInterval: (query) => ((query.state.data?.length ?? 0) > 0 ? 5000 : false),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "pause" | "resume" | "cancel" }) =>
+      apiRequest<BulkEmailJob>("POST", `/api/bulk-email-jobs/${id}/${action}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ACTIVE_JOBS_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {jobs.map(job => {
+        const processed = job.sentCount + job.failedCount + job.skippedCount;
+        const percent = job.totalRecipients > 0 ? Math.round((processed / job.totalRecipients) * 100) : 100;
+
+        return (
+          <Card key={job.id} data-testid={`bulk-email-job-${job.id}`}>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Send className="w-4 h-4 flex-shrink-0" />
+                  <span className="font-medium truncate">{job.subject}</span>
+                  <Badge variant={job.status === "paused" ? "secondary" : "default"}>{job.status}</Badge>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {job.status === "paused" ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => actionMutation.mutate({ id: job.id, action: "resume" })}
+                      disabled={actionMutation.isPending}
+                      data-testid={`button-resume-job-${job.id}`}
+                    >
+                      <Play className="w-4 h-4 mr-1" /> Resume
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => actionMutation.mutate({ id: job.id, action: "pause" })}
+                      disabled={actionMutation.isPending}
+                      data-testid={`button-pause-job-${job.id}`}
+                    >
+                      <Pause className="w-4 h-4 mr-1" /> Pause
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-destructive"
+                    onClick={() => actionMutation.mutate({ id: job.id, action: "cancel" })}
+                    disabled={actionMutation.isPending}
+                    data-testid={`button-cancel-job-${job.id}`}
+                  >
+                    <X className="w-4 h-4 mr-1" /> Cancel
+                  </Button>
+                </div>
+              </div>
+              <Progress value={percent} />
+              <p className="text-xs text-muted-foreground">
+                {processed} of {job.totalRecipients} processed · {job.sentCount} sent
+                {job.failedCount > 0 && ` · ${job.failedCount} failed`}
+                {job.skippedCount > 0 && ` · ${job.skippedCount} skipped`}
+              </p>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
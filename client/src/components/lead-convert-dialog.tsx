@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Lead } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { UserCheck } from "lucide-react";
+
+interface LeadConvertDialogProps {
+  lead: Lead | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const inDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+/**
+ * Converts a lead into a client, with an optional first project and draft opening invoice
+ */
+export function LeadConvertDialog({ lead, onOpenChange }: LeadConvertDialogProps) {
+  const { toast } = useToast();
+  const [client, setClient] = useState({ name: "", email: "", phone: "", company: "", website: "" });
+  const [withProject, setWithProject] = useState(false);
+  const [project, setProject] = useState({ name: "", description: "", budget: "", deadline: "" });
+  const [withInvoice, setWithInvoice] = useState(false);
+  const [invoice, setInvoice] = useState({ description: "", amount: "", dueDate: "" });
+
+  useEffect(() => {
+    if (!lead) return;
+    setClient({
+      name: lead.name,
+      email: lead.email || "",
+      phone: lead.phone || "",
+      company: lead.name,
+      website: lead.website || "",
+    });
+    setWithProject(false);
+    setProject({ name: lead.name, description: lead.notes || "", budget: "", deadline: "" });
+    setWithInvoice(false);
+    setInvoice({ description: "Project advance", amount: "", dueDate: inDays(14) });
+  }, [lead]);
+
+  const convertMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/leads/${lead!.id}/convert`, {
+      client: { ...client, website: client.website || null },
+      project: withProject
+        ? { ...project, budget: project.budget || null, description: project.description || null }
+        : null,
+      invoice: withInvoice ? invoice : null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Success", description: `${client.name} is now a client` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleConvert = () => {
+    if (!client.name.trim() || !client.email.trim()) {
+      toast({ title: "Error", description: "Client name and email are required", variant: "destructive" });
+      return;
+    }
+    if (withProject && !project.name.trim()) {
+      toast({ title: "Error", description: "Project name is required", variant: "destructive" });
+      return;
+    }
+    if (withInvoice && (!(Number(invoice.amount) > 0) || !invoice.dueDate)) {
+      toast({ title: "Error", description: "Invoice amount and due date are required", variant: "destructive" });
+      return;
+    }
+    convertMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!lead} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5" /> Convert to Client
+          </DialogTitle>
+          <DialogDescription>
+            Creates a client from this lead. The lead is marked converted and its email history stays visible on the client.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="convert-name">Name</Label>
+              <Input
+                id="convert-name"
+                value={client.name}
+                onChange={(e) => setClient(c => ({ ...c, name: e.target.value }))}
+                data-testid="input-convert-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="convert-company">Company</Label>
+              <Input
+                id="convert-company"
+                value={client.company}
+                onChange={(e) => setClient(c => ({ ...c, company: e.target.value }))}
+                data-testid="input-convert-company"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="convert-email">Email</Label>
+              <Input
+                id="convert-email"
+                type="email"
+                value={client.email}
+                onChange={(e) => setClient(c => ({ ...c, email: e.target.value }))}
+                data-testid="input-convert-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="convert-phone">Phone</Label>
+              <Input
+                id="convert-phone"
+                value={client.phone}
+                onChange={(e) => setClient(c => ({ ...c, phone: e.target.value }))}
+                data-testid="input-convert-phone"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="convert-website">Website</Label>
+              <Input
+                id="convert-website"
+                value={client.website}
+                onChange={(e) => setClient(c => ({ ...c, website: e.target.value }))}
+                data-testid="input-convert-website"
+              />
+            </div>
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="convert-with-project"
+                checked={withProject}
+                onCheckedChange={(checked) => setWithProject(!!checked)}
+                data-testid="checkbox-convert-project"
+              />
+              <Label htmlFor="convert-with-project">Create a first project</Label>
+            </div>
+            {withProject && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="convert-project-name">Project Name</Label>
+                  <Input
+                    id="convert-project-name"
+                    value={project.name}
+                    onChange={(e) => setProject(p => ({ ...p, name: e.target.value }))}
+                    data-testid="input-convert-project-name"
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="convert-project-description">Description</Label>
+                  <Textarea
+                    id="convert-project-description"
+                    value={project.description}
+                    onChange={(e) => setProject(p => ({ ...p, description: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-project-budget">Budget</Label>
+                  <Input
+                    id="convert-project-budget"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={project.budget}
+                    onChange={(e) => setProject(p => ({ ...p, budget: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-project-deadline">Deadline</Label>
+                  <Input
+                    id="convert-project-deadline"
+                    type="date"
+                    value={project.deadline}
+                    onChange={(e) => setProject(p => ({ ...p, deadline: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="convert-with-invoice"
+                checked={withInvoice}
+                onCheckedChange={(checked) => setWithInvoice(!!checked)}
+                data-testid="checkbox-convert-invoice"
+              />
+              <Label htmlFor="convert-with-invoice">Create a draft opening invoice</Label>
+            </div>
+            {withInvoice && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="convert-invoice-description">Line Item</Label>
+                  <Input
+                    id="convert-invoice-description"
+                    value={invoice.description}
+                    onChange={(e) => setInvoice(i => ({ ...i, description: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-invoice-amount">Amount</Label>
+                  <Input
+                    id="convert-invoice-amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={invoice.amount}
+                    onChange={(e) => setInvoice(i => ({ ...i, amount: e.target.value }))}
+                    data-testid="input-convert-invoice-amount"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-invoice-due">Due Date</Label>
+                  <Input
+                    id="convert-invoice-due"
+                    type="date"
+                    value={invoice.dueDate}
+                    onChange={(e) => setInvoice(i => ({ ...i, dueDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleConvert} disabled={convertMutation.isPending} data-testid="button-confirm-convert">
+              {convertMutation.isPending ? "Converting..." : "Convert"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
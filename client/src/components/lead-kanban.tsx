@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Mail, Phone } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { Lead, LeadStage } from "@shared/schema";
+
+interface LeadKanbanProps {
+  leads: Lead[];
+  stages: LeadStage[];
+  onStageChange: (lead: Lead, stageKey: string) => void;
+  onOpen: (lead: Lead) => void;
+}
+
+/**
+ * Pipeline board: one column per stage, leads are moved by drag and drop.
+ * Leads whose status matches no stage are collected in a trailing column.
+ */
+export function LeadKanban({ leads, stages, onStageChange, onOpen }: LeadKanbanProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<string | null>(null);
+
+  const stageKeys = new Set(stages.map(stage => stage.key));
+  const unassigned = leads.filter(lead => !stageKeys.has(lead.status));
+
+  const handleDrop = (stageKey: string) => {
+    const lead = leads.find(l => l.id === draggedId);
+    setDraggedId(null);
+    setOverStage(null);
+    if (lead && lead.status !== stageKey) onStageChange(lead, stageKey);
+  };
+
+  const renderCard = (lead: Lead) => (
+    <Card
+      key={lead.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        setDraggedId(lead.id);
+      }}
+      onDragEnd={() => {
+        setDraggedId(null);
+        setOverStage(null);
+      }}
+      onClick={() => onOpen(lead)}
+      className={`cursor-grab active:cursor-grabbing hover:shadow-md ${draggedId === lead.id ? "opacity-50" : ""}`}
+      data-testid={`kanban-card-${lead.id}`}
+    >
+      <CardContent className="p-3 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-medium text-sm truncate">{lead.name}</p>
+          <span className="text-xs text-muted-foreground flex-shrink-0" title="Lead score">{lead.score}</span>
+        </div>
+        {lead.category && <Badge variant="outline" className="text-xs">{lead.category}</Badge>}
+        {lead.email && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+            <Mail className="w-3 h-3 flex-shrink-0" /> {lead.email}
+          </p>
+        )}
+        {lead.phone && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Phone className="w-3 h-3 flex-shrink-0" /> {lead.phone}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" data-testid="lead-kanban">
+      {stages.map(stage => {
+        const stageLeads = leads.filter(lead => lead.status === stage.key);
+        return (
+          <div
+            key={stage.id}
+            className={`flex-shrink-0 w-72 rounded-lg bg-muted/40 border-t-4 ${overStage === stage.key ? "ring-2 ring-primary" : ""}`}
+            style={{ borderTopColor: stage.color }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              if (overStage !== stage.key) setOverStage(stage.key);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setOverStage(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(stage.key);
+            }}
+            data-testid={`kanban-column-${stage.key}`}
+          >
+            <div className="flex items-center justify-between p-3">
+              <span className="font-semibold text-sm">{stage.name}</span>
+              <div className="flex items-center gap-1">
+                <Badge variant="secondary">{stageLeads.length}</Badge>
+                <span className="text-xs text-muted-foreground">{stage.probability}%</span>
+              </div>
+            </div>
+            <div className="space-y-2 p-2 pt-0 min-h-24">
+              {stageLeads.map(renderCard)}
+            </div>
+          </div>
+        );
+      })}
+
+      {unassigned.length > 0 && (
+        <div className="flex-shrink-0 w-72 rounded-lg bg-muted/40 border-t-4 border-dashed">
+          <div className="flex items-center justify-between p-3">
+            <span className="font-semibold text-sm">No stage</span>
+            <Badge variant="secondary">{unassigned.length}</Badge>
+          </div>
+          <div className="space-y-2 p-2 pt-0">
+            {unassigned.map(renderCard)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
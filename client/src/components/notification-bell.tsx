@@ -93,6 +93,16 @@ export function NotificationBell() {
             // Invalidate query to refetch notifications and update badge
             queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
           }
+
+          // Bulk email job progress (leads page)
+          if (data.type === "bulk_email_progress") {
+            queryClient.invalidateQueries({ queryKey: ["/api/bulk-email-jobs?active=true"] });
+          }
+
+          // New comments or changes on a task (task activity dialog)
+          if (data.type === "task_activity") {
+            queryClient.invalidateQueries({ queryKey: ["/api/tasks", data.taskId, "activity"] });
+          }
         } catch (error) {
           console.error("Notification Bell: Error parsing WebSocket message:", error);
         }
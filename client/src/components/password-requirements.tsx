@@ -0,0 +1,15 @@
+import { PASSWORD_REQUIREMENTS } from "@shared/password-policy";
+import { CheckCircle2 } from "lucide-react";
+
+export function PasswordRequirements() {
+  return (
+    <ul className="space-y-1 text-xs text-muted-foreground" data-testid="list-password-requirements">
+      {PASSWORD_REQUIREMENTS.map(requirement => (
+        <li key={requirement} className="flex items-center gap-2">
+          <CheckCircle2 className="w-3 h-3" />
+          {requirement}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,147 @@
+import { useQuery } from "@tanstack/react-query";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import type { Project } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { GanttChart } from "lucide-react";
+
+interface GanttTask {
+  id: string;
+  title: string;
+  status: string;
+  parentTaskId: string | null;
+  depth: number;
+  start: string;
+  end: string;
+  scheduled: boolean;
+  critical: boolean;
+  dependsOn: string[];
+}
+
+interface ProjectGantt {
+  progress: number;
+  start: string | null;
+  end: string | null;
+  tasks: GanttTask[];
+  criticalPath: string[];
+}
+
+interface ProjectGanttDialogProps {
+  project: Project | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const barColor = (task: GanttTask) => {
+  if (task.status === "done") return "bg-green-500";
+  if (task.critical) return "bg-red-500";
+  return "bg-primary";
+};
+
+/**
+ * Gantt timeline of a project's tasks, with the critical path highlighted
+ */
+export function ProjectGanttDialog({ project, onOpenChange }: ProjectGanttDialogProps) {
+  const { data: gantt, isLoading } = useQuery<ProjectGantt>({
+    queryKey: ["/api/projects", project?.id, "gantt"],
+    queryFn: () => apiRequest("GET", `/api/projects/${project!.id}/gantt`),
+    enabled: !!project,
+  });
+
+  const titles = new Map((gantt?.tasks ?? []).map(t => [t.id, t.title]));
+  const start = gantt?.start ? parseISO(gantt.start) : null;
+  const totalDays = start && gantt?.end ? differenceInCalendarDays(parseISO(gantt.end), start) + 1 : 0;
+  // Label roughly eight points along the axis
+  const tickStep = Math.max(1, Math.ceil(totalDays / 8));
+  const ticks = start ? Array.from({ length: Math.ceil(totalDays / tickStep) }, (_, i) => i * tickStep) : [];
+  const todayOffset = start ? differenceInCalendarDays(new Date(), start) : -1;
+
+  const position = (task: GanttTask) => {
+    const offset = differenceInCalendarDays(parseISO(task.start), start!);
+    const length = differenceInCalendarDays(parseISO(task.end), parseISO(task.start)) + 1;
+    return { left: `${(offset / totalDays) * 100}%`, width: `${(length / totalDays) * 100}%` };
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GanttChart className="w-5 h-5" /> {project?.name} Timeline
+          </DialogTitle>
+          <DialogDescription>
+            Bars run from each task's start date to its deadline. Tasks without dates are placed from when they were created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p>Loading timeline...</p>
+        ) : !gantt || gantt.tasks.length === 0 || !start ? (
+          <p className="text-sm text-muted-foreground text-center py-8">This project has no tasks yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-muted-foreground whitespace-nowrap">{gantt.progress}% complete</span>
+              <Progress value={gantt.progress} className="flex-1" />
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-500" /> Critical path</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-primary" /> Task</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500" /> Done</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm border border-dashed border-muted-foreground" /> Dates inferred</span>
+            </div>
+
+            <div className="grid grid-cols-[14rem_1fr] text-sm">
+              <div />
+              <div className="relative h-6 border-b">
+                {ticks.map(day => (
+                  <span
+                    key={day}
+                    className="absolute text-xs text-muted-foreground -translate-x-1/2"
+                    style={{ left: `${(day / totalDays) * 100}%` }}
+                  >
+                    {format(addDays(start, day), "MMM d")}
+                  </span>
+                ))}
+              </div>
+
+              {gantt.tasks.map(task => (
+                <div key={task.id} className="contents" data-testid={`gantt-row-${task.id}`}>
+                  <div
+                    className={`truncate py-2 pr-2 border-b ${task.depth === 0 ? "font-medium" : "text-muted-foreground"}`}
+                    style={{ paddingLeft: task.depth * 16 }}
+                    title={task.title}
+                  >
+                    {task.title}
+                  </div>
+                  <div className="relative border-b">
+                    {todayOffset >= 0 && todayOffset < totalDays && (
+                      <div className="absolute inset-y-0 w-px bg-orange-400" style={{ left: `${(todayOffset / totalDays) * 100}%` }} />
+                    )}
+                    <div
+                      className={`absolute top-1/2 -translate-y-1/2 h-4 rounded-sm ${barColor(task)} ${task.scheduled ? "" : "opacity-60 border border-dashed border-background"} ${task.depth === 0 && gantt.tasks.some(t => t.parentTaskId === task.id) ? "h-2" : ""}`}
+                      style={position(task)}
+                      title={[
+                        `${task.title}: ${format(parseISO(task.start), "MMM d")} – ${format(parseISO(task.end), "MMM d")}`,
+                        task.dependsOn.length > 0 ? `After ${task.dependsOn.map(id => titles.get(id) ?? "another task").join(", ")}` : "",
+                      ].filter(Boolean).join("\n")}
+                      data-testid={`gantt-bar-${task.id}`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {gantt.criticalPath.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">Critical path:</span>{" "}
+                {gantt.criticalPath.map(id => titles.get(id)).join(" → ")}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
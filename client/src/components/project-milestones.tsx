@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { formatCurrency } from "@shared/currency";
+import type { Invoice, Project, ProjectMilestone } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Calendar, FileText, Flag, Pencil, Send, Trash } from "lucide-react";
+import Swal from "sweetalert2";
+
+export type MilestoneWithProject = ProjectMilestone & { projectName: string; clientId: string; invoiceNumber: string | null };
+
+export const MILESTONE_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  submitted: "Awaiting approval",
+  approved: "Approved",
+  changes_requested: "Changes requested",
+};
+
+export const getMilestoneStatusColor = (status: string) => {
+  switch (status) {
+    case "submitted": return "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300";
+    case "approved": return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300";
+    case "changes_requested": return "bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300";
+    default: return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300";
+  }
+};
+
+interface ProjectMilestonesDialogProps {
+  project: Project | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = { title: "", amount: "", dueDate: "", description: "", deliverables: "" };
+
+/**
+ * Milestones of a project: plan them, submit them for client sign-off and invoice approved ones
+ */
+export function ProjectMilestonesDialog({ project, onOpenChange }: ProjectMilestonesDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const canInvoice = user?.role === "admin" || user?.role === "operational_head";
+
+  useEffect(() => {
+    setForm(emptyForm);
+    setEditingId(null);
+  }, [project]);
+
+  const { data: milestones = [] } = useQuery<MilestoneWithProject[]>({
+    queryKey: ["/api/milestones", project?.id],
+    queryFn: () => apiRequest("GET", `/api/milestones?projectId=${project!.id}`),
+    enabled: !!project,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/milestones"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        title: form.title,
+        amount: form.amount,
+        dueDate: form.dueDate || null,
+        description: form.description || null,
+        deliverables: form.deliverables.split("\n").map(line => line.trim()).filter(Boolean),
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/milestones/${editingId}`, data)
+        : apiRequest("POST", "/api/milestones", { ...data, projectId: project!.id });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editingId ? "Milestone updated" : "Milestone added" });
+      setForm(emptyForm);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/milestones/${id}/submit`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Milestone sent to the client for approval" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/milestones/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: (id: string) => apiRequest<Invoice>("POST", `/api/milestones/${id}/invoice`),
+    onSuccess: (invoice) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Invoice created", description: `Draft invoice ${invoice.invoiceNumber} is ready to review and send` });
+    },
+    onError,
+  });
+
+  const handleEdit = (milestone: MilestoneWithProject) => {
+    setEditingId(milestone.id);
+    setForm({
+      title: milestone.title,
+      amount: milestone.amount,
+      dueDate: milestone.dueDate ? new Date(milestone.dueDate).toISOString().split("T")[0] : "",
+      description: milestone.description ?? "",
+      deliverables: milestone.deliverables.join("\n"),
+    });
+  };
+
+  const handleDelete = async (milestone: MilestoneWithProject) => {
+    const result = await Swal.fire({
+      title: `Delete "${milestone.title}"?`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) {
+      deleteMutation.mutate(milestone.id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!form.title.trim() || !(Number(form.amount) > 0)) {
+      toast({ title: "Error", description: "Enter a title and an amount", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const total = milestones.reduce((sum, m) => sum + Number(m.amount), 0);
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5" /> {project?.name} Milestones
+          </DialogTitle>
+          <DialogDescription>
+            {milestones.length > 0
+              ? `${milestones.length} milestone${milestones.length === 1 ? "" : "s"} worth ${formatCurrency(total)}`
+              : "Split the project into milestones the client signs off and you invoice"}
+            {project?.budget && ` · Budget ${formatCurrency(project.budget)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {milestones.map(milestone => {
+            const editable = milestone.status === "pending" || milestone.status === "changes_requested";
+            return (
+              <Card key={milestone.id} data-testid={`milestone-${milestone.id}`}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{milestone.title}</p>
+                      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                        <span>{formatCurrency(milestone.amount)}</span>
+                        {milestone.dueDate && (
+                          <span className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" /> {new Date(milestone.dueDate).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {milestone.invoiceNumber && (
+                        <Badge variant="outline" data-testid={`badge-milestone-invoice-${milestone.id}`}>
+                          <FileText className="w-3 h-3 mr-1" /> {milestone.invoiceNumber}
+                        </Badge>
+                      )}
+                      <Badge className={getMilestoneStatusColor(milestone.status)}>
+                        {MILESTONE_STATUS_LABELS[milestone.status] ?? milestone.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  {milestone.description && <p className="text-sm text-muted-foreground">{milestone.description}</p>}
+                  {milestone.deliverables.length > 0 && (
+                    <ul className="text-sm list-disc pl-5">
+                      {milestone.deliverables.map((item, i) => <li key={i}>{item}</li>)}
+                    </ul>
+                  )}
+                  {milestone.status === "changes_requested" && milestone.clientNote && (
+                    <p className="text-sm text-orange-600">Client: {milestone.clientNote}</p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    {editable && (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(milestone)} data-testid={`button-edit-milestone-${milestone.id}`}>
+                          <Pencil className="w-4 h-4 mr-1" /> Edit
+                        </Button>
+                        <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleDelete(milestone)} data-testid={`button-delete-milestone-${milestone.id}`}>
+                          <Trash className="w-4 h-4 mr-1" /> Delete
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => submitMutation.mutate(milestone.id)}
+                          disabled={submitMutation.isPending}
+                          data-testid={`button-submit-milestone-${milestone.id}`}
+                        >
+                          <Send className="w-4 h-4 mr-1" /> Submit for approval
+                        </Button>
+                      </>
+                    )}
+                    {milestone.status === "approved" && !milestone.invoiceId && canInvoice && (
+                      <Button
+                        size="sm"
+                        onClick={() => invoiceMutation.mutate(milestone.id)}
+                        disabled={invoiceMutation.isPending}
+                        data-testid={`button-invoice-milestone-${milestone.id}`}
+                      >
+                        <FileText className="w-4 h-4 mr-1" /> Create invoice
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <div className="space-y-3 rounded-md border p-4">
+            <p className="font-medium">{editingId ? "Edit milestone" : "Add milestone"}</p>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-1 md:col-span-3">
+                <Label htmlFor="milestone-title">Title</Label>
+                <Input
+                  id="milestone-title"
+                  value={form.title}
+                  onChange={(e) => setForm(f => ({ ...f, title: e.target.value }))}
+                  placeholder="Design approved"
+                  data-testid="input-milestone-title"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="milestone-amount">Amount</Label>
+                <Input
+                  id="milestone-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm(f => ({ ...f, amount: e.target.value }))}
+                  data-testid="input-milestone-amount"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="milestone-due">Due Date</Label>
+                <Input
+                  id="milestone-due"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm(f => ({ ...f, dueDate: e.target.value }))}
+                  data-testid="input-milestone-due-date"
+                />
+              </div>
+              <div className="space-y-1 md:col-span-3">
+                <Label htmlFor="milestone-description">Description</Label>
+                <Input
+                  id="milestone-description"
+                  value={form.description}
+                  onChange={(e) => setForm(f => ({ ...f, description: e.target.value }))}
+                  data-testid="input-milestone-description"
+                />
+              </div>
+              <div className="space-y-1 md:col-span-3">
+                <Label htmlFor="milestone-deliverables">Deliverables (one per line)</Label>
+                <Textarea
+                  id="milestone-deliverables"
+                  value={form.deliverables}
+                  onChange={(e) => setForm(f => ({ ...f, deliverables: e.target.value }))}
+                  rows={3}
+                  data-testid="input-milestone-deliverables"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }}>Cancel</Button>
+              )}
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-milestone">
+                {editingId ? "Update Milestone" : "Add Milestone"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
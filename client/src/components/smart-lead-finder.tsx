@@ -75,6 +75,7 @@ interface ImportResponse {
   success: number;
   skipped: number;
   failed: number;
+  assigned: number;
   errors: { name: string; error: string }[];
   duplicates: { name: string; reason: string }[];
   imported: any[];
@@ -189,6 +190,7 @@ export function SmartLeadFinder({ open, onOpenChange }: SmartLeadFinderProps) {
       const parts = [];
       if (data.success > 0) parts.push(`✓ ${data.success} imported`);
       if (data.skipped > 0) parts.push(`⊘ ${data.skipped} duplicates`);
+      if (data.assigned > 0) parts.push(`${data.assigned} auto-assigned`);
       if (data.failed > 0) parts.push(`✗ ${data.failed} failed`);
       
       toast({
@@ -0,0 +1,337 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import type { Task, TaskActivity, TaskComment, User } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Activity, CheckSquare, CircleDot, MessageSquare, Pencil, Plus, Reply, Trash, UserCheck } from "lucide-react";
+import Swal from "sweetalert2";
+
+type CommentWithAuthor = TaskComment & { userName: string; replies: CommentWithAuthor[] };
+
+type FeedEntry =
+  | { kind: "comment"; createdAt: string; comment: CommentWithAuthor }
+  | { kind: "activity"; createdAt: string; activity: TaskActivity & { userName: string | null } };
+
+interface TaskActivityDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const initials = (name: string) => name.split(" ").map(part => part[0]).join("").slice(0, 2).toUpperCase();
+
+const timeAgo = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+const describeActivity = (activity: TaskActivity) => {
+  const details = activity.details as Record<string, any>;
+  switch (activity.type) {
+    case "created": return "created the task";
+    case "status": return `changed the status from ${details.from} to ${details.to}`;
+    case "assigned":
+      if (!details.to) return `unassigned ${details.fromName ?? "the task"}`;
+      return `assigned the task to ${details.toName ?? "another user"}`;
+    case "checklist": return `${details.done ? "ticked" : "unticked"} "${details.item}"`;
+    default: return activity.type;
+  }
+};
+
+const ACTIVITY_ICONS: Record<string, typeof Activity> = {
+  created: Plus,
+  status: CircleDot,
+  assigned: UserCheck,
+  checklist: CheckSquare,
+};
+
+interface CommentComposerProps {
+  staff: User[];
+  initial?: string;
+  placeholder: string;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Comment box that suggests staff names after "@" and inserts "@Full Name"
+ */
+function CommentComposer({ staff, initial = "", placeholder, submitLabel, pending, onSubmit, onCancel }: CommentComposerProps) {
+  const [content, setContent] = useState(initial);
+  const [query, setQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = query === null
+    ? []
+    : staff.filter(u => u.fullName.toLowerCase().includes(query.toLowerCase())).slice(0, 5);
+
+  const handleChange = (value: string, cursor: number) => {
+    setContent(value);
+    // An "@" starting a word, followed by what has been typed of the name so far
+    const match = /(^|\s)@([^@\n]{0,30})$/.exec(value.slice(0, cursor));
+    setQuery(match ? match[2] : null);
+  };
+
+  const insertMention = (user: User) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? content.length;
+    const before = content.slice(0, cursor).replace(/@([^@\n]{0,30})$/, `@${user.fullName} `);
+    const next = before + content.slice(cursor);
+    setContent(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const submit = () => {
+    if (!content.trim()) return;
+    onSubmit(content.trim());
+    if (!initial) setContent("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              submit();
+            }
+            if (e.key === "Escape" && query !== null) {
+              e.stopPropagation();
+              setQuery(null);
+            }
+          }}
+          placeholder={placeholder}
+          rows={2}
+          data-testid="input-task-comment"
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 left-0 right-0 top-full mt-1 rounded-md border bg-popover shadow-md">
+            {suggestions.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+                onClick={() => insertMention(user)}
+                data-testid={`button-mention-${user.id}`}
+              >
+                {user.fullName} <span className="text-muted-foreground">({user.role})</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>}
+        <Button size="sm" onClick={submit} disabled={pending || !content.trim()} data-testid="button-post-task-comment">
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Discussion on a task with @mentions, alongside its status, assignee and checklist history
+ */
+export function TaskActivityDialog({ task, onOpenChange }: TaskActivityDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReplyTo(null);
+    setEditingId(null);
+  }, [task]);
+
+  const { data: feed = [], isLoading } = useQuery<FeedEntry[]>({
+    queryKey: ["/api/tasks", task?.id, "activity"],
+    queryFn: () => apiRequest("GET", `/api/tasks/${task!.id}/activity`),
+    enabled: !!task,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: !!task,
+  });
+  // Staff who can be @mentioned
+  const staff = users.filter(u => u.role !== "client" && u.isActive && u.id !== user?.id);
+  const nameOf = new Map(users.map(u => [u.id, u.fullName]));
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks", task?.id, "activity"] });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: ({ content, parentCommentId }: { content: string; parentCommentId?: string }) =>
+      apiRequest("POST", `/api/tasks/${task!.id}/comments`, { content, parentCommentId: parentCommentId ?? null }),
+    onSuccess: () => {
+      invalidate();
+      setReplyTo(null);
+    },
+    onError,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) =>
+      apiRequest("PATCH", `/api/tasks/${task!.id}/comments/${id}`, { content }),
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/tasks/${task!.id}/comments/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const handleDelete = async (comment: CommentWithAuthor) => {
+    const result = await Swal.fire({
+      title: "Delete this comment?",
+      text: comment.replies.length > 0 ? "Its replies are deleted too." : undefined,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) deleteMutation.mutate(comment.id);
+  };
+
+  // Bold the @mentions of users the server recognised
+  const renderContent = (comment: CommentWithAuthor) => {
+    const names = comment.mentions.map(id => nameOf.get(id)).filter((name): name is string => !!name);
+    if (names.length === 0) return comment.content;
+    const pattern = new RegExp(`(${names.map(name => `@${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`).join("|")})`, "gi");
+    return comment.content.split(pattern).map((part, i) =>
+      i % 2 === 1 ? <span key={i} className="font-medium text-primary">{part}</span> : <Fragment key={i}>{part}</Fragment>
+    );
+  };
+
+  const renderComment = (comment: CommentWithAuthor, isReply: boolean) => (
+    <div key={comment.id} className="flex gap-3" data-testid={`task-comment-${comment.id}`}>
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="text-xs">{initials(comment.userName)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{comment.userName}</span>
+          <span className="text-xs text-muted-foreground">{timeAgo(comment.createdAt)}{comment.editedAt && " · edited"}</span>
+        </div>
+        {editingId === comment.id ? (
+          <CommentComposer
+            staff={staff}
+            initial={comment.content}
+            placeholder="Edit comment"
+            submitLabel="Save"
+            pending={editMutation.isPending}
+            onSubmit={(content) => editMutation.mutate({ id: comment.id, content })}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap break-words">{renderContent(comment)}</p>
+        )}
+        <div className="flex gap-1">
+          {!isReply && (
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => setReplyTo(comment.id)} data-testid={`button-reply-comment-${comment.id}`}>
+              <Reply className="w-3 h-3 mr-1" /> Reply
+            </Button>
+          )}
+          {comment.userId === user?.id && editingId !== comment.id && (
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => setEditingId(comment.id)} data-testid={`button-edit-comment-${comment.id}`}>
+              <Pencil className="w-3 h-3 mr-1" /> Edit
+            </Button>
+          )}
+          {(comment.userId === user?.id || user?.role === "admin") && (
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-destructive" onClick={() => handleDelete(comment)} data-testid={`button-delete-comment-${comment.id}`}>
+              <Trash className="w-3 h-3 mr-1" /> Delete
+            </Button>
+          )}
+        </div>
+        {comment.replies.length > 0 && (
+          <div className="space-y-3 border-l pl-4 mt-2">
+            {comment.replies.map(reply => renderComment(reply, true))}
+          </div>
+        )}
+        {replyTo === comment.id && (
+          <div className="border-l pl-4 mt-2">
+            <CommentComposer
+              staff={staff}
+              placeholder={`Reply to ${comment.userName}`}
+              submitLabel="Reply"
+              pending={postMutation.isPending}
+              onSubmit={(content) => postMutation.mutate({ content, parentCommentId: comment.id })}
+              onCancel={() => setReplyTo(null)}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const commentCount = feed.reduce((count, entry) => entry.kind === "comment" ? count + 1 + entry.comment.replies.length : count, 0);
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" /> {task?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {commentCount > 0 ? `${commentCount} comment${commentCount === 1 ? "" : "s"}` : "No comments yet"} · Type @ to mention a teammate
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p>Loading activity...</p>
+          ) : (
+            feed.map(entry => {
+              if (entry.kind === "comment") return renderComment(entry.comment, false);
+              const Icon = ACTIVITY_ICONS[entry.activity.type] ?? Activity;
+              return (
+                <div key={entry.activity.id} className="flex items-center gap-3 text-sm text-muted-foreground" data-testid={`task-activity-${entry.activity.id}`}>
+                  <div className="h-8 w-8 flex items-center justify-center">
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <span>
+                    <span className="font-medium text-foreground">{entry.activity.userName ?? "Someone"}</span>{" "}
+                    {describeActivity(entry.activity)} · {timeAgo(entry.createdAt)}
+                  </span>
+                </div>
+              );
+            })
+          )}
+
+          <CommentComposer
+            staff={staff}
+            placeholder="Write a comment..."
+            submitLabel="Comment"
+            pending={postMutation.isPending}
+            onSubmit={(content) => postMutation.mutate({ content })}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { formatHours } from "@/lib/utils";
+import type { Task, TimeEntry } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Clock, Trash } from "lucide-react";
+
+type TaskWithTime = Task & { loggedMinutes?: number };
+
+interface TaskTimeDialogProps {
+  task: TaskWithTime | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+/**
+ * Time logged on a task, with a form to log time by hand
+ */
+export function TaskTimeDialog({ task, onOpenChange }: TaskTimeDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [entry, setEntry] = useState({ date: today(), hours: "", description: "", billable: true });
+
+  useEffect(() => {
+    if (task) setEntry({ date: today(), hours: "", description: "", billable: true });
+  }, [task]);
+
+  const { data: entries = [] } = useQuery<(TimeEntry & { userName: string })[]>({
+    queryKey: ["/api/tasks", task?.id, "time-entries"],
+    queryFn: () => apiRequest("GET", `/api/tasks/${task!.id}/time-entries`),
+    enabled: !!task,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const logMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/tasks/${task!.id}/time-entries`, {
+      ...entry,
+      description: entry.description || null,
+    }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Time logged" });
+      setEntry(e => ({ ...e, hours: "", description: "" }));
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/time-entries/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const handleLog = () => {
+    if (!(Number(entry.hours) > 0) || !entry.date) {
+      toast({ title: "Error", description: "Enter the date and hours worked", variant: "destructive" });
+      return;
+    }
+    logMutation.mutate();
+  };
+
+  const loggedMinutes = entries.reduce((sum, e) => sum + e.minutes, 0);
+  const estimate = task?.estimatedHours ? Number(task.estimatedHours) : null;
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" /> Time on {task?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {formatHours(loggedMinutes)} logged
+            {estimate !== null && ` of ${estimate}h estimated`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="time-date">Date</Label>
+              <Input
+                id="time-date"
+                type="date"
+                value={entry.date}
+                onChange={(e) => setEntry(v => ({ ...v, date: e.target.value }))}
+                data-testid="input-time-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-hours">Hours</Label>
+              <Input
+                id="time-hours"
+                type="number"
+                min={0}
+                max={24}
+                step="0.25"
+                value={entry.hours}
+                onChange={(e) => setEntry(v => ({ ...v, hours: e.target.value }))}
+                data-testid="input-time-hours"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="time-description">What was done</Label>
+              <Input
+                id="time-description"
+                value={entry.description}
+                onChange={(e) => setEntry(v => ({ ...v, description: e.target.value }))}
+                data-testid="input-time-description"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={entry.billable}
+                onCheckedChange={(checked) => setEntry(v => ({ ...v, billable: !!checked }))}
+                data-testid="checkbox-time-billable"
+              />
+              Billable
+            </label>
+            <Button onClick={handleLog} disabled={logMutation.isPending} data-testid="button-log-time">
+              {logMutation.isPending ? "Logging..." : "Log Time"}
+            </Button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No time logged yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(e => (
+                  <TableRow key={e.id} data-testid={`row-time-entry-${e.id}`}>
+                    <TableCell>{new Date(e.startedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{e.userName}</TableCell>
+                    <TableCell>
+                      {e.endedAt ? formatHours(e.minutes) : <Badge variant="secondary">Running</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {e.description}
+                      {!e.billable && <Badge variant="outline" className="ml-2">Non-billable</Badge>}
+                      {e.invoiceId && <Badge variant="outline" className="ml-2">Invoiced</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {e.userId === user?.id && !e.invoiceId && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => deleteMutation.mutate(e.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-time-entry-${e.id}`}
+                        >
+                          <Trash className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, ShieldCheck } from "lucide-react";
+
+type Enrollment = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({ error: "Request failed" }));
+  if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`);
+  return data;
+}
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function EnrollmentDetails({ enrollment }: { enrollment: Enrollment }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password...), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-44 h-44 border rounded-md" />
+      </div>
+      <div className="text-xs text-muted-foreground text-center">
+        Can't scan? Enter this key manually: <span className="font-mono break-all">{enrollment.secret}</span>
+      </div>
+    </div>
+  );
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 border rounded-md bg-muted/50 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="w-4 h-4 mr-2" /> Copy codes
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Second login step: verify a code, or enroll when the user's role requires 2FA
+ */
+export function TwoFactorLoginStep({
+  challengeToken,
+  mode,
+  onComplete,
+  onCancel,
+}: {
+  challengeToken: string;
+  mode: "verify" | "setup";
+  onComplete: (result: any) => void;
+  onCancel: () => void;
+}) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [pendingResult, setPendingResult] = useState<any>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (mode !== "setup") return;
+    postJson("/api/auth/2fa/setup", { challengeToken })
+      .then(setEnrollment)
+      .catch((error: Error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+        onCancel();
+      });
+  }, [mode, challengeToken]);
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      if (mode === "setup") {
+        const result = await postJson("/api/auth/2fa/setup/confirm", { challengeToken, code });
+        // Show the recovery codes before entering the app
+        setPendingResult(result);
+      } else {
+        const result = await postJson("/api/auth/2fa/verify", useRecovery ? { challengeToken, recoveryCode } : { challengeToken, code });
+        onComplete(result);
+      }
+    } catch (error: any) {
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (pendingResult) {
+    return (
+      <div className="space-y-5">
+        <div className="flex items-center gap-2 font-semibold">
+          <ShieldCheck className="w-5 h-5 text-green-600" /> Two-factor authentication enabled
+        </div>
+        <RecoveryCodesList codes={pendingResult.recoveryCodes} />
+        <Button className="w-full h-12" onClick={() => onComplete(pendingResult)} data-testid="button-2fa-continue">
+          I've saved my codes, continue
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold">
+          {mode === "setup" ? "Set up two-factor authentication" : "Two-factor authentication"}
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {mode === "setup"
+            ? "Your role requires a second sign-in step."
+            : useRecovery ? "Enter one of your recovery codes." : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {mode === "setup" && (enrollment ? <EnrollmentDetails enrollment={enrollment} /> : (
+        <div className="text-sm text-muted-foreground">Generating secret...</div>
+      ))}
+
+      {useRecovery ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          value={recoveryCode}
+          onChange={e => setRecoveryCode(e.target.value)}
+          className="h-12 font-mono"
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <CodeInput value={code} onChange={setCode} testId="input-2fa-code" />
+        </div>
+      )}
+
+      <Button
+        className="w-full h-12 text-base font-semibold"
+        onClick={submit}
+        disabled={isSubmitting || (useRecovery ? !recoveryCode : code.length !== 6) || (mode === "setup" && !enrollment)}
+        data-testid="button-2fa-submit"
+      >
+        {isSubmitting ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" className="text-muted-foreground hover:underline" onClick={onCancel}>
+          Back to sign in
+        </button>
+        {mode === "verify" && (
+          <button type="button" className="text-primary hover:underline font-medium" onClick={() => setUseRecovery(!useRecovery)}>
+            {useRecovery ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Settings card for enrolling, disabling and rotating recovery codes
+ */
+export function TwoFactorSettingsCard() {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"disable" | "regenerate" | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({ queryKey: ["/api/auth/2fa/status"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+    setCode("");
+  };
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setAction(null);
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: () => apiRequest<Enrollment>("POST", "/api/auth/2fa/enroll", {}),
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setRecoveryCodes(null);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => apiRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/enable", { code }),
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({ title: "Success", description: "Two-factor authentication enabled" });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { code, password }),
+    onSuccess: () => {
+      resetForm();
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({ title: "Success", description: "Two-factor authentication disabled" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => apiRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/recovery-codes", { code }),
+    onSuccess: (data) => {
+      resetForm();
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled ? <Badge variant="secondary">Enabled</Badge> : <Badge variant="outline">Disabled</Badge>}
+          {status?.required && <Badge variant="outline">Required for your role</Badge>}
+        </CardTitle>
+        <CardDescription>Protect your account with a code from an authenticator app</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+        {!status?.enabled && !enrollment && (
+          <Button onClick={() => enrollMutation.mutate()} disabled={enrollMutation.isPending} data-testid="button-enable-2fa">
+            Set up two-factor authentication
+          </Button>
+        )}
+
+        {!status?.enabled && enrollment && (
+          <div className="space-y-4">
+            <EnrollmentDetails enrollment={enrollment} />
+            <div className="flex justify-center">
+              <CodeInput value={code} onChange={setCode} testId="input-enable-2fa-code" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setEnrollment(null); resetForm(); }}>Cancel</Button>
+              <Button onClick={() => enableMutation.mutate()} disabled={code.length !== 6 || enableMutation.isPending}>
+                Verify and enable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code(s) remaining
+            </p>
+            {!action ? (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+                  New recovery codes
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={() => setAction("disable")} data-testid="button-disable-2fa">
+                    Disable
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {action === "disable" && (
+                  <div className="space-y-2">
+                    <Label>Current password</Label>
+                    <Input type="password" value={password} onChange={e => setPassword(e.target.value)} />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Authenticator code</Label>
+                  <CodeInput value={code} onChange={setCode} testId="input-confirm-2fa-code" />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={resetForm}>Cancel</Button>
+                  <Button
+                    variant={action === "disable" ? "destructive" : "default"}
+                    onClick={() => action === "disable" ? disableMutation.mutate() : regenerateMutation.mutate()}
+                    disabled={code.length !== 6 || (action === "disable" && !password) || disableMutation.isPending || regenerateMutation.isPending}
+                  >
+                    {action === "disable" ? "Disable two-factor" : "Generate codes"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,9 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { User } from "@shared/schema";
+import { refreshAccessTokenIfExpiring } from "@/lib/queryClient";
+
+// How often to check whether the access token needs renewing
+const TOKEN_CHECK_INTERVAL_MS = 30 * 1000;
 
 interface AuthContextType {
   user: User | null;
@@ -22,12 +26,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(false);
   }, []);
 
+  // Keep the short-lived access token fresh while signed in
+  useEffect(() => {
+    if (!user) return;
+
+    refreshAccessTokenIfExpiring();
+    const interval = setInterval(refreshAccessTokenIfExpiring, TOKEN_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
+
   const login = (user: User) => {
     setUser(user);
     localStorage.setItem("user", JSON.stringify(user));
   };
 
   const logout = () => {
+    // Revoke the session server-side; local state is cleared regardless
+    const token = localStorage.getItem("token");
+    if (token) {
+      fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      }).catch(() => { });
+    }
+
     setUser(null);
     localStorage.clear();
     sessionStorage.clear();
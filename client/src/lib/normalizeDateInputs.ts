@@ -103,7 +103,7 @@ export function normalizeProjectData<T extends Record<string, any>>(data: T): T
  * Pre-configured normalization for task data
  */
 export function normalizeTaskData<T extends Record<string, any>>(data: T): T {
-  return normalizeDateInputs(data, ['deadline']);
+  return normalizeDateInputs(data, ['startDate', 'deadline', 'recurrenceEndDate']);
 }
 
 /**
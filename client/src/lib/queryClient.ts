@@ -1,32 +1,121 @@
 import { QueryClient } from "@tanstack/react-query";
 
+type SessionTokens = {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+};
+
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+let refreshPromise: Promise<boolean> | null = null;
+
+export function storeSession({ token, refreshToken, expiresIn }: SessionTokens) {
+  localStorage.setItem("token", token);
+  localStorage.setItem("refreshToken", refreshToken);
+  localStorage.setItem("tokenExpiresAt", String(Date.now() + expiresIn * 1000));
+}
+
+export function clearSession() {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+  localStorage.removeItem("tokenExpiresAt");
+  localStorage.removeItem("user");
+}
+
+async function requestNewAccessToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) return false;
+
+  const res = await fetch("/api/auth/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!res.ok) {
+    // Another tab may have rotated the shared token in the meantime
+    const latest = localStorage.getItem("refreshToken");
+    return !!latest && latest !== refreshToken;
+  }
+
+  storeSession(await res.json());
+  return true;
+}
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share a single in-flight request.
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = requestNewAccessToken()
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Refresh ahead of expiry so code reading the token directly never sends a stale one
+ */
+export async function refreshAccessTokenIfExpiring(): Promise<void> {
+  const expiresAt = Number(localStorage.getItem("tokenExpiresAt") || 0);
+  if (!localStorage.getItem("refreshToken") || expiresAt - Date.now() > REFRESH_MARGIN_MS) return;
+  await refreshAccessToken();
+}
+
+function redirectToLogin() {
+  clearSession();
+  window.location.href = "/login";
+}
+
+// The server blocks everything but the change itself while a temporary password is in use
+function redirectToPasswordChange() {
+  if (window.location.pathname !== "/change-password") {
+    window.location.href = "/change-password";
+  }
+}
+
+async function fetchWithAuth(url: string, init: RequestInit, retry = true): Promise<Response> {
+  const token = localStorage.getItem("token");
+
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(url, { ...init, headers, credentials: "include" });
+
+  if (res.status === 401 && retry && await refreshAccessToken()) {
+    return fetchWithAuth(url, init, false);
+  }
+
+  return res;
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       queryFn: async ({ queryKey }) => {
         const url = queryKey[0] as string;
-        const token = localStorage.getItem("token");
-        
-        const headers: HeadersInit = {
-          "Content-Type": "application/json",
-        };
-        
-        if (token) {
-          headers["Authorization"] = `Bearer ${token}`;
-        }
 
-        const res = await fetch(url, {
-          headers,
-          credentials: "include",
-        });
+        const res = await fetchWithAuth(url, {});
 
         if (!res.ok) {
           if (res.status === 401) {
-            localStorage.removeItem("token");
-            localStorage.removeItem("user");
-            window.location.href = "/login";
+            redirectToLogin();
           }
           const errorData = await res.json().catch(() => ({ error: "Request failed" }));
+          if (errorData.code === "PASSWORD_CHANGE_REQUIRED") {
+            redirectToPasswordChange();
+          }
           throw new Error(errorData.error || `Request failed with status ${res.status}`);
         }
 
@@ -45,35 +134,24 @@ export async function apiRequest<T = any>(
   url: string,
   data?: any
 ): Promise<T> {
-  const token = localStorage.getItem("token");
-  
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-  };
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-
   const options: RequestInit = {
     method,
-    headers,
-    credentials: "include",
   };
 
   if (data && method !== "GET") {
     options.body = JSON.stringify(data);
   }
 
-  const res = await fetch(url, options);
+  const res = await fetchWithAuth(url, options);
 
   if (!res.ok) {
     if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      window.location.href = "/login";
+      redirectToLogin();
     }
     const errorData = await res.json().catch(() => ({ error: "Request failed" }));
+    if (errorData.code === "PASSWORD_CHANGE_REQUIRED") {
+      redirectToPasswordChange();
+    }
     throw new Error(errorData.error || `Request failed with status ${res.status}`);
   }
 
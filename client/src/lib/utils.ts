@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** Compact duration such as "3d 4h", "2h 15m" or "45m" */
+export function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+  if (days > 0) return `${days}d ${hours % 24}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${Math.max(minutes, 1)}m`
+}
+
+/** Logged time in hours such as "7.5h", the unit timesheets and invoices use */
+export function formatHours(minutes: number) {
+  return `${Number((minutes / 60).toFixed(2))}h`
+}
@@ -1,25 +1,266 @@
-import { FileCheck } from "lucide-react";
+import { useState } from "react";
+import { FileCheck, ChevronDown, ChevronRight, X, ShieldCheck, Download } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
-import { type AuditLog } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type AuditLog, type User } from "@shared/schema";
+
+type AuditLogEntry = AuditLog & { userName: string | null };
+
+type FieldChange = { from: unknown; to: unknown };
+
+type ChainVerification = {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;
+  firstBrokenLink: { id: string; sequence: number; createdAt: string; reason: string } | null;
+};
+
+const BREAK_REASONS: Record<string, string> = {
+  content_modified: "entry content was modified",
+  previous_hash_mismatch: "link to the previous entry does not match",
+  entry_missing: "an entry before it was deleted",
+};
+
+const ALL = "all";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function AuditDetails({ log }: { log: AuditLogEntry }) {
+  const details = (log.details ?? {}) as Record<string, any>;
+
+  if (details.changes) {
+    const changes = Object.entries(details.changes as Record<string, FieldChange>);
+    if (changes.length === 0) {
+      return <p className="text-sm text-muted-foreground">No fields changed</p>;
+    }
+    return (
+      <div className="border rounded-md overflow-hidden" data-testid={`diff-${log.id}`}>
+        <div className="grid grid-cols-3 gap-2 px-3 py-2 bg-muted text-xs font-medium">
+          <span>Field</span>
+          <span>Before</span>
+          <span>After</span>
+        </div>
+        {changes.map(([field, change]) => (
+          <div key={field} className="grid grid-cols-3 gap-2 px-3 py-2 border-t text-sm">
+            <span className="font-mono text-xs">{field}</span>
+            <span className="text-red-600 dark:text-red-400 break-all">{formatValue(change.from)}</span>
+            <span className="text-green-600 dark:text-green-400 break-all">{formatValue(change.to)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const values = Object.entries((details.before ?? details) as Record<string, unknown>);
+  return (
+    <div className="border rounded-md overflow-hidden" data-testid={`details-${log.id}`}>
+      {details.before && (
+        <div className="px-3 py-2 bg-muted text-xs font-medium">Deleted record</div>
+      )}
+      {values.map(([field, value]) => (
+        <div key={field} className="grid grid-cols-3 gap-2 px-3 py-2 border-t first:border-t-0 text-sm">
+          <span className="font-mono text-xs">{field}</span>
+          <span className="col-span-2 break-all">{formatValue(value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function AuditLogs() {
-  const { data: logs, isLoading } = useQuery<AuditLog[]>({
-    queryKey: ["/api/audit-logs"],
+  const { toast } = useToast();
+  const [userFilter, setUserFilter] = useState(ALL);
+  const [resourceFilter, setResourceFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const params = new URLSearchParams();
+  if (userFilter !== ALL) params.set("userId", userFilter);
+  if (resourceFilter !== ALL) params.set("resourceType", resourceFilter);
+  if (fromDate) params.set("from", fromDate);
+  if (toDate) params.set("to", toDate);
+  const queryString = params.toString();
+
+  const { data: logs, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/audit-logs", queryString],
+    queryFn: () => apiRequest<AuditLogEntry[]>("GET", `/api/audit-logs${queryString ? `?${queryString}` : ""}`),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
   });
 
+  const { data: resourceTypes = [] } = useQuery<string[]>({
+    queryKey: ["/api/audit-logs/resource-types"],
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => apiRequest<ChainVerification>("GET", "/api/audit-logs/verify"),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: () => apiRequest("GET", `/api/audit-logs/report?from=${fromDate}&to=${toDate}`),
+    onSuccess: (report) => {
+      const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `audit-report-${fromDate}-to-${toDate}.json`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast({ title: "Success", description: "Signed audit report downloaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const chain = verifyMutation.data;
+
+  const hasFilters = userFilter !== ALL || resourceFilter !== ALL || !!fromDate || !!toDate;
+
+  const clearFilters = () => {
+    setUserFilter(ALL);
+    setResourceFilter(ALL);
+    setFromDate("");
+    setToDate("");
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
   const getActionColor = (action: string) => {
     if (action.includes("create")) return "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300";
     if (action.includes("update")) return "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300";
     if (action.includes("delete")) return "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300";
+    if (action.includes("failed") || action.includes("locked")) return "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300";
     return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300";
   };
 
-  if (isLoading) {
-    return (
-      <div className="p-6">
-        <div className="h-8 bg-muted rounded w-32 mb-6 animate-pulse" />
+  const hasDetails = (log: AuditLogEntry) =>
+    !!log.details && typeof log.details === "object" && Object.keys(log.details as object).length > 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Audit Logs</h1>
+          <p className="text-sm text-muted-foreground">Track all system activities</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => verifyMutation.mutate()}
+            disabled={verifyMutation.isPending}
+            data-testid="button-verify-chain"
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {verifyMutation.isPending ? "Verifying..." : "Verify Integrity"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate()}
+            disabled={!fromDate || !toDate || exportMutation.isPending}
+            title={!fromDate || !toDate ? "Choose a From and To date first" : undefined}
+            data-testid="button-export-report"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export Signed Report
+          </Button>
+        </div>
+      </div>
+
+      {chain && (
+        <Card className={chain.valid ? "border-green-300" : "border-red-300"} data-testid="card-chain-status">
+          <CardContent className="p-4 text-sm">
+            {chain.valid ? (
+              <span className="text-green-700 dark:text-green-400">
+                Audit chain intact: {chain.checkedEntries} entries verified
+                {chain.unchainedEntries > 0 && ` (${chain.unchainedEntries} older entries predate the chain)`}.
+              </span>
+            ) : (
+              <span className="text-red-700 dark:text-red-400">
+                Audit chain broken at entry #{chain.firstBrokenLink!.sequence} from{" "}
+                {new Date(chain.firstBrokenLink!.createdAt).toLocaleString()}:{" "}
+                {BREAK_REASONS[chain.firstBrokenLink!.reason] ?? chain.firstBrokenLink!.reason}.
+                {" "}{chain.checkedEntries} entries before it verified.
+              </span>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={userFilter} onValueChange={setUserFilter}>
+                <SelectTrigger data-testid="select-filter-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Resource</Label>
+              <Select value={resourceFilter} onValueChange={setResourceFilter}>
+                <SelectTrigger data-testid="select-filter-resource">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All resources</SelectItem>
+                  {resourceTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} data-testid="input-filter-from" />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={toDate} onChange={e => setToDate(e.target.value)} data-testid="input-filter-to" />
+            </div>
+            <Button variant="outline" onClick={clearFilters} disabled={!hasFilters} data-testid="button-clear-filters">
+              <X className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
         <div className="space-y-2">
           {[1, 2, 3].map((i) => (
             <Card key={i}>
@@ -30,53 +271,68 @@ export default function AuditLogs() {
             </Card>
           ))}
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold" data-testid="text-page-title">Audit Logs</h1>
-        <p className="text-sm text-muted-foreground">Track all system activities</p>
-      </div>
-
-      {!logs || logs.length === 0 ? (
+      ) : !logs || logs.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
             <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
               <FileCheck className="w-8 h-8 text-muted-foreground" />
             </div>
             <h3 className="text-lg font-semibold mb-2">No activity logs</h3>
-            <p className="text-sm text-muted-foreground">System activities will appear here</p>
+            <p className="text-sm text-muted-foreground">
+              {hasFilters ? "No activity matches these filters" : "System activities will appear here"}
+            </p>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-2">
-          {logs.map((log) => (
-            <Card key={log.id} data-testid={`log-${log.id}`}>
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3 mb-1">
-                      <Badge className={getActionColor(log.action)} data-testid={`badge-action-${log.id}`}>
-                        {log.action}
-                      </Badge>
-                      <span className="text-sm font-medium">{log.resourceType}</span>
-                      {log.resourceId && (
-                        <span className="text-xs font-mono text-muted-foreground">
-                          ID: {log.resourceId.slice(0, 8)}...
-                        </span>
-                      )}
+          {logs.map((log) => {
+            const isExpanded = expanded.has(log.id);
+            const details = log.details as Record<string, any> | null;
+            return (
+              <Card key={log.id} data-testid={`log-${log.id}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-1">
+                        <Badge className={getActionColor(log.action)} data-testid={`badge-action-${log.id}`}>
+                          {log.action}
+                        </Badge>
+                        <span className="text-sm font-medium">{log.resourceType}</span>
+                        {log.resourceId && (
+                          <span className="text-xs font-mono text-muted-foreground">
+                            ID: {log.resourceId.slice(0, 8)}...
+                          </span>
+                        )}
+                        {details?.changes && (
+                          <span className="text-xs text-muted-foreground">
+                            {Object.keys(details.changes).length} field(s) changed
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(log.createdAt).toLocaleString()}
+                        {log.userName && ` • ${log.userName}`}
+                        {details?.email && ` • ${details.email}`}
+                        {details?.ip && ` • IP ${details.ip}`}
+                      </p>
                     </div>
-                    <p className="text-xs text-muted-foreground">
-                      {new Date(log.createdAt).toLocaleString()}
-                    </p>
+                    {hasDetails(log) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => toggleExpanded(log.id)}
+                        data-testid={`button-toggle-details-${log.id}`}
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        Details
+                      </Button>
+                    )}
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                  {isExpanded && <AuditDetails log={log} />}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,136 @@
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { PASSWORD_MIN_LENGTH } from "@shared/password-policy";
+import type { User } from "@shared/schema";
+import { KeyRound, LogOut } from "lucide-react";
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export default function ChangePassword() {
+  const [, setLocation] = useLocation();
+  const { user, login, logout } = useAuth();
+  const { toast } = useToast();
+  const forced = !!user?.mustChangePassword;
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: ChangePasswordFormData) => {
+      return apiRequest<{ user: User }>("POST", "/api/auth/change-password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+    },
+    onSuccess: (data) => {
+      login(data.user);
+      form.reset();
+      toast({ title: "Success", description: "Password changed. Other devices have been signed out." });
+      if (forced) setLocation("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const card = (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Change Password
+        </CardTitle>
+        <CardDescription>
+          {forced
+            ? "Your password was reset by an administrator. Choose a new one to continue."
+            : "Update the password you use to sign in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => changeMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{forced ? "Temporary Password" : "Current Password"}</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-confirm-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <PasswordRequirements />
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={changeMutation.isPending} data-testid="button-change-password">
+                {changeMutation.isPending ? "Saving..." : "Change Password"}
+              </Button>
+              {forced && (
+                <Button type="button" variant="outline" onClick={logout} data-testid="button-logout">
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+
+  if (forced) {
+    return <div className="min-h-screen flex items-center justify-center p-6 bg-background">{card}</div>;
+  }
+
+  return <div className="p-6">{card}</div>;
+}
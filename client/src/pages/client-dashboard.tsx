@@ -1,12 +1,16 @@
-import { Briefcase, FileText, DollarSign, CheckCircle, Clock, AlertCircle, Globe, Key, Database, Play, Video, ExternalLink, Copy, Check, Server, Image as ImageIcon } from "lucide-react";
+import { Briefcase, FileText, DollarSign, CheckCircle, Clock, AlertCircle, Globe, Key, Database, Play, Video, ExternalLink, Copy, Check, Server, Image as ImageIcon, Flag, MessageSquareWarning } from "lucide-react";
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { type Project, type Invoice, type Payment, type ProjectCredentials } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { MILESTONE_STATUS_LABELS, getMilestoneStatusColor, type MilestoneWithProject } from "@/components/project-milestones";
+import Swal from "sweetalert2";
 
 interface ClientDashboardStats {
   totalProjects: number;
@@ -42,6 +46,52 @@ export default function ClientDashboard() {
     queryKey: ["/api/project-credentials/client"],
   });
 
+  const { data: milestones } = useQuery<MilestoneWithProject[]>({
+    queryKey: ["/api/milestones"],
+  });
+
+  const reviewMilestoneMutation = useMutation({
+    mutationFn: ({ id, approve, note }: { id: string; approve: boolean; note?: string }) =>
+      apiRequest("POST", `/api/milestones/${id}/${approve ? "approve" : "reject"}`, { note: note || null }),
+    onSuccess: (_data, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/milestones"] });
+      toast({ title: approve ? "Milestone approved" : "Change request sent" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleApproveMilestone = async (milestone: MilestoneWithProject) => {
+    const result = await Swal.fire({
+      title: `Approve "${milestone.title}"?`,
+      text: `You confirm the deliverables are complete. ${formatCurrency(milestone.amount)} will be invoiced for this milestone.`,
+      icon: "question",
+      showCancelButton: true,
+      confirmButtonText: "Approve",
+      cancelButtonText: "Cancel",
+    });
+    if (result.isConfirmed) {
+      reviewMilestoneMutation.mutate({ id: milestone.id, approve: true });
+    }
+  };
+
+  const handleRequestChanges = async (milestone: MilestoneWithProject) => {
+    const result = await Swal.fire({
+      title: `Request changes to "${milestone.title}"`,
+      input: "textarea",
+      inputLabel: "What needs to change",
+      inputValidator: (value) => (!value?.trim() ? "Describe the changes you need" : null),
+      showCancelButton: true,
+      confirmButtonText: "Send",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) {
+      reviewMilestoneMutation.mutate({ id: milestone.id, approve: false, note: result.value });
+    }
+  };
+
   const copyToClipboard = async (text: string, field: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -218,6 +268,70 @@ export default function ClientDashboard() {
         </Card>
       </div>
 
+      {milestones && milestones.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Flag className="h-5 w-5" /> Milestones
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {[...milestones]
+                .sort((a, b) => Number(b.status === "submitted") - Number(a.status === "submitted"))
+                .map((milestone) => (
+                  <div key={milestone.id} className="p-3 rounded-md bg-muted/50 space-y-2" data-testid={`milestone-${milestone.id}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium">{milestone.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {milestone.projectName}
+                          {milestone.dueDate && ` · Due ${new Date(milestone.dueDate).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{formatCurrency(milestone.amount)}</span>
+                        <Badge className={getMilestoneStatusColor(milestone.status)}>
+                          {MILESTONE_STATUS_LABELS[milestone.status] ?? milestone.status}
+                        </Badge>
+                      </div>
+                    </div>
+                    {milestone.deliverables.length > 0 && (
+                      <ul className="text-xs text-muted-foreground list-disc pl-5">
+                        {milestone.deliverables.map((item, i) => <li key={i}>{item}</li>)}
+                      </ul>
+                    )}
+                    {milestone.status === "changes_requested" && milestone.clientNote && (
+                      <p className="text-xs text-orange-600">Your request: {milestone.clientNote}</p>
+                    )}
+                    {milestone.status === "submitted" && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRequestChanges(milestone)}
+                          disabled={reviewMilestoneMutation.isPending}
+                          data-testid={`button-request-changes-${milestone.id}`}
+                        >
+                          <MessageSquareWarning className="h-4 w-4 mr-1" /> Request Changes
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleApproveMilestone(milestone)}
+                          disabled={reviewMilestoneMutation.isPending}
+                          data-testid={`button-approve-milestone-${milestone.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" /> Approve
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Payments</CardTitle>
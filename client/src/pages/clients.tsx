@@ -1,11 +1,13 @@
 // screenshot (uploaded): /mnt/data/9f60c74e-08f2-49de-a525-fffdf9c8129e.png
 
 import { useState } from "react";
-import { Plus, Mail, Phone, MessageCircle, Trash2 } from "lucide-react";
+import { Plus, Mail, Phone, MessageCircle, Trash2, Globe, History, Reply, Send } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Dialog,
   DialogContent,
@@ -22,12 +24,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertClientSchema, type Client } from "@shared/schema";
+import { insertClientSchema, type Client, type Lead, type LeadEmail, type ProjectTemplate } from "@shared/schema";
 import Swal from "sweetalert2";
 import { z } from "zod";
 
@@ -36,21 +40,60 @@ import "react-phone-input-2/lib/style.css";
 
 type ClientFormData = z.infer<typeof insertClientSchema>;
 
+const NO_TEMPLATE = "__no_template__";
+
+// Clients converted from a lead carry the lead's id
+type ClientRow = Client & { sourceLeadId: string | null };
+
+interface LeadHistory {
+  leads: Lead[];
+  messages: {
+    id: string;
+    direction: string;
+    subject: string;
+    message: string;
+    status: string;
+    sentAt: string;
+    fromAddress: string | null;
+    sentBy: string | null;
+  }[];
+  emails: LeadEmail[];
+}
+
 export default function Clients() {
   const [open, setOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [historyClient, setHistoryClient] = useState<ClientRow | null>(null);
+  // Template for the new client's first project
+  const [templateId, setTemplateId] = useState(NO_TEMPLATE);
   const { toast } = useToast();
 
-  const { data: clients, isLoading } = useQuery<Client[]>({
+  const { data: clients, isLoading } = useQuery<ClientRow[]>({
     queryKey: ["/api/clients"],
   });
 
+  const { data: templates = [] } = useQuery<ProjectTemplate[]>({
+    queryKey: ["/api/project-templates", "active"],
+    queryFn: () => apiRequest("GET", "/api/project-templates?active=true"),
+  });
+
+  const { data: leadHistory } = useQuery<LeadHistory>({
+    queryKey: ["/api/clients", historyClient?.id, "lead-history"],
+    queryFn: () => apiRequest("GET", `/api/clients/${historyClient!.id}/lead-history`),
+    enabled: !!historyClient,
+  });
+
   const createMutation = useMutation({
     mutationFn: (data: ClientFormData) =>
-      apiRequest("POST", "/api/clients", data),
+      apiRequest("POST", "/api/clients", { ...data, templateId: templateId === NO_TEMPLATE ? null : templateId }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
-      toast({ title: "Success", description: "Client created successfully" });
+      const fromTemplate = templateId !== NO_TEMPLATE;
+      if (fromTemplate) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      }
+      toast({ title: "Success", description: fromTemplate ? "Client and first project created" : "Client created successfully" });
       setOpen(false);
       setEditingClient(null);
       form.reset();
@@ -105,6 +148,7 @@ export default function Clients() {
       email: "",
       phone: "",
       company: "",
+      website: "",
       whatsapp: "",
       address: "",
     },
@@ -129,6 +173,7 @@ export default function Clients() {
       email: client.email,
       phone: client.phone || "",
       company: client.company || "",
+      website: client.website || "",
       whatsapp: client.whatsapp || "",
       address: client.address || "",
     });
@@ -138,11 +183,13 @@ export default function Clients() {
 
   const handleAddNew = () => {
     setEditingClient(null);
+    setTemplateId(NO_TEMPLATE);
     form.reset({
       name: "",
       email: "",
       phone: "",
       company: "",
+      website: "",
       whatsapp: "",
       address: "",
     });
@@ -336,6 +383,25 @@ export default function Clients() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="website"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Website</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="https://example.com"
+                            {...field}
+                            value={field.value ?? ""}
+                            data-testid="input-website"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="whatsapp"
@@ -375,6 +441,25 @@ export default function Clients() {
                   )}
                 />
 
+                {!editingClient && templates.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Start a Project From Template</Label>
+                    <Select value={templateId} onValueChange={setTemplateId}>
+                      <SelectTrigger data-testid="select-client-project-template">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TEMPLATE}>No project</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -465,6 +550,21 @@ export default function Clients() {
                     </div>
                   )}
 
+                  {client.website && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Globe className="w-4 h-4 flex-shrink-0" />
+                      <a
+                        href={/^https?:\/\//.test(client.website) ? client.website : `https://${client.website}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="truncate hover:underline"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {client.website}
+                      </a>
+                    </div>
+                  )}
+
                   {client.whatsapp && (
                     <div className="flex items-center gap-2">
                       <MessageCircle className="w-4 h-4 flex-shrink-0 text-green-600" />
@@ -479,12 +579,86 @@ export default function Clients() {
                       </a>
                     </div>
                   )}
+
+                  {client.sourceLeadId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-auto px-0 text-primary hover:bg-transparent hover:underline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryClient(client);
+                      }}
+                      data-testid={`button-lead-history-${client.id}`}
+                    >
+                      <History className="w-4 h-4 mr-1" /> Lead history
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <Dialog open={!!historyClient} onOpenChange={(isOpen) => !isOpen && setHistoryClient(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Lead History</DialogTitle>
+            <DialogDescription>
+              {leadHistory?.leads.map(lead => (
+                `Converted from lead "${lead.name}"${lead.convertedAt ? ` on ${new Date(lead.convertedAt).toLocaleDateString()}` : ""}`
+              )).join(", ") || "Emails and messages exchanged before this client was converted"}
+            </DialogDescription>
+          </DialogHeader>
+          {!leadHistory ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : leadHistory.messages.length === 0 && leadHistory.emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No emails were exchanged with this lead.</p>
+          ) : (
+            <ScrollArea className="h-96">
+              <div className="space-y-4 pr-3">
+                {leadHistory.messages.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Messages</p>
+                    {leadHistory.messages.map((message) => (
+                      <div key={message.id} className="p-2 rounded-md bg-muted/50" data-testid={`lead-history-message-${message.id}`}>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium truncate flex items-center gap-1">
+                            {message.direction === "inbound"
+                              ? <Reply className="w-3 h-3 flex-shrink-0" />
+                              : <Send className="w-3 h-3 flex-shrink-0" />}
+                            {message.subject}
+                          </p>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">{new Date(message.sentAt).toLocaleString()}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {message.direction === "inbound" ? message.fromAddress : message.sentBy && `Sent by ${message.sentBy}`}
+                        </p>
+                        <p className="text-sm whitespace-pre-wrap line-clamp-4 mt-1">{message.message}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {leadHistory.emails.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Template Emails</p>
+                    {leadHistory.emails.map((email) => (
+                      <div key={email.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{email.subject}</span>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <Badge variant={email.status === "sent" ? "secondary" : "outline"}>{email.status}</Badge>
+                          <span className="text-xs text-muted-foreground">{new Date(email.sentAt ?? email.createdAt).toLocaleDateString()}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,452 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  LEAD_EMAIL_TEMPLATES,
+  type EmailSequence,
+  type EmailSequenceStep,
+  type EmailSequenceEnrollment,
+  type EmailTemplate,
+  type LeadFolder,
+} from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash, Send, Users, ArrowLeft, X } from "lucide-react";
+import Swal from "sweetalert2";
+
+const SYSTEM_TEMPLATE_LABELS: Record<string, string> = {
+  service_introduction: "Service Introduction",
+  company_profile: "Company Profile",
+  pricing_brochure: "Pricing Brochure",
+  follow_up_reminder: "Follow-up Reminder",
+};
+
+const NONE = "__NONE__";
+
+type SequenceWithSteps = EmailSequence & {
+  steps: EmailSequenceStep[];
+  enrollmentCounts: Record<string, number>;
+};
+
+type EnrollmentRow = EmailSequenceEnrollment & {
+  leadName: string;
+  leadEmail: string | null;
+  leadStatus: string;
+};
+
+type StepDraft = { delayDays: number; templateName: string };
+
+const emptyDraft = {
+  name: "",
+  description: "",
+  enrollFolderId: NONE,
+  enrollCategory: NONE,
+  steps: [{ delayDays: 0, templateName: "service_introduction" }] as StepDraft[],
+};
+
+export default function EmailSequences() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<SequenceWithSteps | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [viewingEnrollments, setViewingEnrollments] = useState<SequenceWithSteps | null>(null);
+
+  const { data: sequences = [], isLoading } = useQuery<SequenceWithSteps[]>({
+    queryKey: ["/api/email-sequences"],
+  });
+
+  const { data: customTemplates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ["/api/email-templates"],
+  });
+
+  const { data: folders = [] } = useQuery<LeadFolder[]>({
+    queryKey: ["/api/lead-folders"],
+  });
+
+  const { data: categories = [] } = useQuery<{ id: number; name: string; isActive: boolean }[]>({
+    queryKey: ["/api/lead-categories"],
+  });
+
+  const { data: enrollments = [], isLoading: enrollmentsLoading } = useQuery<EnrollmentRow[]>({
+    queryKey: ["/api/email-sequences", viewingEnrollments?.id, "enrollments"],
+    queryFn: () => apiRequest("GET", `/api/email-sequences/${viewingEnrollments!.id}/enrollments`),
+    enabled: !!viewingEnrollments,
+  });
+
+  const templateLabel = (templateName: string) =>
+    SYSTEM_TEMPLATE_LABELS[templateName]
+    ?? customTemplates.find(t => t.id === templateName)?.name
+    ?? "Deleted template";
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: any) => editing
+      ? apiRequest("PATCH", `/api/email-sequences/${editing.id}`, data)
+      : apiRequest("POST", "/api/email-sequences", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-sequences"] });
+      toast({ title: "Success", description: editing ? "Sequence updated" : "Sequence created" });
+      setOpen(false);
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/email-sequences/${id}`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-sequences"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/email-sequences/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-sequences"] });
+      toast({ title: "Success", description: "Sequence deleted" });
+    },
+    onError,
+  });
+
+  const exitMutation = useMutation({
+    mutationFn: (enrollmentId: string) => apiRequest("POST", `/api/email-sequences/enrollments/${enrollmentId}/exit`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-sequences"] });
+      toast({ title: "Success", description: "Lead removed from sequence" });
+    },
+    onError,
+  });
+
+  const handleAddNew = () => {
+    setEditing(null);
+    setDraft(emptyDraft);
+    setOpen(true);
+  };
+
+  const handleEdit = (sequence: SequenceWithSteps) => {
+    setEditing(sequence);
+    setDraft({
+      name: sequence.name,
+      description: sequence.description || "",
+      enrollFolderId: sequence.enrollFolderId || NONE,
+      enrollCategory: sequence.enrollCategory || NONE,
+      steps: sequence.steps.map(s => ({ delayDays: s.delayDays, templateName: s.templateName })),
+    });
+    setOpen(true);
+  };
+
+  const handleDelete = async (sequence: SequenceWithSteps) => {
+    const result = await Swal.fire({
+      title: "Delete Sequence?",
+      text: "Enrolled leads will stop receiving its emails.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) deleteMutation.mutate(sequence.id);
+  };
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setDraft(d => ({ ...d, steps: d.steps.map((s, i) => (i === index ? { ...s, ...changes } : s)) }));
+  };
+
+  const addStep = () => {
+    setDraft(d => {
+      const last = d.steps[d.steps.length - 1];
+      return { ...d, steps: [...d.steps, { delayDays: (last?.delayDays ?? 0) + 3, templateName: "follow_up_reminder" }] };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setDraft(d => ({ ...d, steps: d.steps.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Sequence name is required", variant: "destructive" });
+      return;
+    }
+    if (draft.steps.length === 0) {
+      toast({ title: "Error", description: "Add at least one step", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      enrollFolderId: draft.enrollFolderId === NONE ? null : draft.enrollFolderId,
+      enrollCategory: draft.enrollCategory === NONE ? null : draft.enrollCategory,
+      steps: draft.steps,
+    });
+  };
+
+  const enrollmentRule = (sequence: SequenceWithSteps) => {
+    const rules = [];
+    if (sequence.enrollFolderId) {
+      rules.push(`folder "${folders.find(f => f.id === sequence.enrollFolderId)?.name ?? "Unknown"}"`);
+    }
+    if (sequence.enrollCategory) rules.push(`category "${sequence.enrollCategory}"`);
+    return rules.length > 0 ? `Auto-enrolls leads in ${rules.join(" or ")}` : "Manual enrollment only";
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Leads
+          </Link>
+          <h1 className="text-3xl font-bold">Email Sequences</h1>
+          <p className="text-muted-foreground">Automated follow-up emails sent to leads over several days</p>
+        </div>
+        <Button onClick={handleAddNew} data-testid="button-add-sequence">
+          <Plus className="w-4 h-4 mr-2" /> New Sequence
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p>Loading sequences...</p>
+      ) : sequences.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <Send className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No email sequences yet.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {sequences.map(sequence => (
+            <Card key={sequence.id} data-testid={`card-sequence-${sequence.id}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex justify-between items-center">
+                  <span className="truncate mr-2">{sequence.name}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Switch
+                      checked={sequence.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: sequence.id, isActive })}
+                      data-testid={`switch-sequence-active-${sequence.id}`}
+                    />
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleEdit(sequence)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(sequence)}>
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardTitle>
+                <CardDescription>{sequence.description || enrollmentRule(sequence)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sequence.description && (
+                  <p className="text-xs text-muted-foreground">{enrollmentRule(sequence)}</p>
+                )}
+                <ol className="text-sm space-y-1">
+                  {sequence.steps.map((step, index) => (
+                    <li key={step.id} className="flex gap-2">
+                      <span className="text-muted-foreground w-14 flex-shrink-0">Day {step.delayDays}</span>
+                      <span className="truncate">{index + 1}. {templateLabel(step.templateName)}</span>
+                    </li>
+                  ))}
+                </ol>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex gap-1 flex-wrap">
+                    <Badge variant="secondary">{sequence.enrollmentCounts.active ?? 0} active</Badge>
+                    <Badge variant="outline">{sequence.enrollmentCounts.completed ?? 0} completed</Badge>
+                    <Badge variant="outline">{sequence.enrollmentCounts.exited ?? 0} exited</Badge>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setViewingEnrollments(sequence)} data-testid={`button-enrollments-${sequence.id}`}>
+                    <Users className="w-4 h-4 mr-1" /> Leads
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Sequence" : "New Sequence"}</DialogTitle>
+            <DialogDescription>Each step is sent the given number of days after the lead was enrolled.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name</Label>
+              <Input
+                id="sequence-name"
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                placeholder="e.g. New lead nurture"
+                data-testid="input-sequence-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-description">Description</Label>
+              <Textarea
+                id="sequence-description"
+                value={draft.description}
+                onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Auto-enroll leads in folder</Label>
+                <Select value={draft.enrollFolderId} onValueChange={(value) => setDraft(d => ({ ...d, enrollFolderId: value }))}>
+                  <SelectTrigger data-testid="select-enroll-folder"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No folder</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Auto-enroll leads in category</Label>
+                <Select value={draft.enrollCategory} onValueChange={(value) => setDraft(d => ({ ...d, enrollCategory: value }))}>
+                  <SelectTrigger data-testid="select-enroll-category"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No category</SelectItem>
+                    {categories.filter(c => c.isActive).map(category => (
+                      <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {draft.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <span className="text-sm">Day</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20"
+                    value={step.delayDays}
+                    onChange={(e) => updateStep(index, { delayDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                    data-testid={`input-step-delay-${index}`}
+                  />
+                  <Select value={step.templateName} onValueChange={(value) => updateStep(index, { templateName: value })}>
+                    <SelectTrigger className="flex-1" data-testid={`select-step-template-${index}`}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {LEAD_EMAIL_TEMPLATES.map(template => (
+                        <SelectItem key={template} value={template}>{SYSTEM_TEMPLATE_LABELS[template]}</SelectItem>
+                      ))}
+                      {customTemplates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => removeStep(index)}
+                    disabled={draft.steps.length === 1}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addStep} data-testid="button-add-step">
+                <Plus className="w-4 h-4 mr-1" /> Add Step
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-sequence">
+                {saveMutation.isPending ? "Saving..." : "Save Sequence"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewingEnrollments} onOpenChange={(isOpen) => !isOpen && setViewingEnrollments(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingEnrollments?.name}: Enrolled Leads</DialogTitle>
+            <DialogDescription>Progress of each lead through the sequence</DialogDescription>
+          </DialogHeader>
+
+          {enrollmentsLoading ? (
+            <p>Loading...</p>
+          ) : enrollments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No leads enrolled yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Next Email</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrollments.map(enrollment => (
+                  <TableRow key={enrollment.id}>
+                    <TableCell>
+                      <div className="font-medium">{enrollment.leadName}</div>
+                      <div className="text-xs text-muted-foreground">{enrollment.leadEmail}</div>
+                    </TableCell>
+                    <TableCell>{enrollment.stepsSent} / {viewingEnrollments?.steps.length ?? 0}</TableCell>
+                    <TableCell>
+                      <Badge variant={enrollment.status === "active" ? "default" : "secondary"}>{enrollment.status}</Badge>
+                      {enrollment.exitReason && (
+                        <div className="text-xs text-muted-foreground mt-1">{enrollment.exitReason.replace(/_/g, " ")}</div>
+                      )}
+                      {enrollment.skippedSteps > 0 && (
+                        <div className="text-xs text-destructive mt-1" title={enrollment.lastError ?? undefined}>
+                          {enrollment.skippedSteps} step{enrollment.skippedSteps === 1 ? "" : "s"} skipped
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {enrollment.nextSendAt ? new Date(enrollment.nextSendAt).toLocaleString() : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {enrollment.status === "active" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => exitMutation.mutate(enrollment.id)}
+                          disabled={exitMutation.isPending}
+                          data-testid={`button-exit-enrollment-${enrollment.id}`}
+                        >
+                          Exit
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EmailSuppression } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash, ArrowLeft, Ban, Search } from "lucide-react";
+import Swal from "sweetalert2";
+
+const REASON_LABELS: Record<string, string> = {
+  unsubscribe: "Unsubscribed",
+  hard_bounce: "Hard bounce",
+  manual: "Manual",
+};
+
+export default function EmailSuppressions() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [search, setSearch] = useState("");
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [note, setNote] = useState("");
+
+  const listUrl = search.trim() ? `/api/email-suppressions?search=${encodeURIComponent(search.trim())}` : "/api/email-suppressions";
+  const { data: entries = [], isLoading } = useQuery<EmailSuppression[]>({
+    queryKey: [listUrl],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/email-suppressions") });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (data: { email: string; note: string | null }) => apiRequest("POST", "/api/email-suppressions", data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Address added to the suppression list" });
+      setOpen(false);
+      setEmail("");
+      setNote("");
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/email-suppressions/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Address removed from the suppression list" });
+    },
+    onError,
+  });
+
+  const handleAdd = () => {
+    if (!email.trim()) {
+      toast({ title: "Error", description: "Email address is required", variant: "destructive" });
+      return;
+    }
+    addMutation.mutate({ email: email.trim(), note: note.trim() || null });
+  };
+
+  const handleRemove = async (entry: EmailSuppression) => {
+    const result = await Swal.fire({
+      title: "Remove from suppression list?",
+      text: entry.reason === "unsubscribe"
+        ? `${entry.email} unsubscribed. Only remove it if they asked to receive emails again.`
+        : `Lead emails to ${entry.email} will be sent again.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Remove",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) removeMutation.mutate(entry.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Leads
+          </Link>
+          <h1 className="text-3xl font-bold">Suppression List</h1>
+          <p className="text-muted-foreground">Addresses that never receive lead emails: unsubscribes, hard bounces and manual entries</p>
+        </div>
+        <Button onClick={() => setOpen(true)} data-testid="button-add-suppression">
+          <Plus className="w-4 h-4 mr-2" /> Add Address
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search email..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+          data-testid="input-search-suppressions"
+        />
+      </div>
+
+      {isLoading ? (
+        <p>Loading suppression list...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <Ban className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No suppressed addresses.</p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Added</TableHead>
+                  {user?.role === "admin" && <TableHead className="w-16" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id} data-testid={`row-suppression-${entry.id}`}>
+                    <TableCell className="font-medium">{entry.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.reason === "manual" ? "secondary" : "outline"}>
+                        {REASON_LABELS[entry.reason] || entry.reason}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs truncate">{entry.note}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    {user?.role === "admin" && (
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => handleRemove(entry)}
+                          data-testid={`button-remove-suppression-${entry.id}`}
+                        >
+                          <Trash className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add to Suppression List</DialogTitle>
+            <DialogDescription>Lead emails to this address will be skipped.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="suppression-email">Email</Label>
+              <Input
+                id="suppression-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-suppression-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suppression-note">Note</Label>
+              <Textarea
+                id="suppression-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Asked by phone not to be contacted"
+                data-testid="input-suppression-note"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleAdd} disabled={addMutation.isPending} data-testid="button-save-suppression">
+                {addMutation.isPending ? "Adding..." : "Add"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -21,6 +21,40 @@ import { Textarea } from "@/components/ui/textarea";
 import { Plus, Pencil, Trash, Mail, Paperclip } from "lucide-react";
 import { FileUpload } from "@/components/ui/file-upload";
 
+const SYSTEM_TEMPLATE_LABELS: Record<string, string> = {
+    service_introduction: "Service Introduction",
+    company_profile: "Company Profile",
+    pricing_brochure: "Pricing Brochure",
+    follow_up_reminder: "Follow-up Reminder",
+    custom: "Written manually",
+    custom_bulk: "Bulk messages",
+};
+
+interface TemplateStats {
+    templateName: string;
+    templateId: string | null;
+    sent: number;
+    opened: number;
+    clicked: number;
+    openRate: number;
+    clickRate: number;
+}
+
+function percent(rate: number) {
+    return `${Math.round(rate * 100)}%`;
+}
+
+function EngagementLine({ stats }: { stats?: TemplateStats }) {
+    if (!stats || stats.sent === 0) {
+        return <p className="text-xs text-muted-foreground">Not sent yet</p>;
+    }
+    return (
+        <p className="text-xs text-muted-foreground">
+            Sent {stats.sent} · Opened {percent(stats.openRate)} · Clicked {percent(stats.clickRate)}
+        </p>
+    );
+}
+
 export default function EmailTemplates() {
     const { toast } = useToast();
     const [open, setOpen] = useState(false);
@@ -30,6 +64,13 @@ export default function EmailTemplates() {
         queryKey: ["/api/email-templates"],
     });
 
+    const { data: stats = [] } = useQuery<TemplateStats[]>({
+        queryKey: ["/api/email-templates/stats"],
+    });
+
+    // Built-in templates and one-off messages have no saved template id
+    const systemStats = stats.filter(s => !s.templateId && SYSTEM_TEMPLATE_LABELS[s.templateName]);
+
     const createMutation = useMutation({
         mutationFn: (data: any) => apiRequest("POST", "/api/email-templates", data),
         onSuccess: () => {
@@ -108,6 +149,23 @@ export default function EmailTemplates() {
                 </Button>
             </div>
 
+            {systemStats.length > 0 && (
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-lg">Built-in Templates</CardTitle>
+                        <CardDescription>Open and click rates of lead emails not based on a saved template</CardDescription>
+                    </CardHeader>
+                    <CardContent className="grid gap-3 md:grid-cols-3">
+                        {systemStats.map(s => (
+                            <div key={s.templateName} className="rounded-md bg-muted/50 p-3" data-testid={`stats-${s.templateName}`}>
+                                <p className="text-sm font-medium">{SYSTEM_TEMPLATE_LABELS[s.templateName]}</p>
+                                <EngagementLine stats={s} />
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             {isLoading ? (
                 <p>Loading templates...</p>
             ) : templates.length === 0 ? (
@@ -133,7 +191,8 @@ export default function EmailTemplates() {
                                 </CardTitle>
                                 <CardDescription className="truncate font-medium">{template.subject}</CardDescription>
                             </CardHeader>
-                            <CardContent>
+                            <CardContent className="space-y-2">
+                                <EngagementLine stats={stats.find(s => s.templateId === template.id)} />
                                 <p className="text-sm text-muted-foreground line-clamp-3 bg-muted p-2 rounded-md font-mono whitespace-pre-wrap">
                                     {template.message}
                                 </p>
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, MailCheck } from "lucide-react";
+import logoImage from "@assets/Untitled_design__1_-removebg-preview_1764044009686.png";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error("Request failed");
+      }
+      setSent(true);
+    } catch (error) {
+      toast({
+        title: "Something went wrong",
+        description: "Please try again later",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-background">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <img src={logoImage} alt="MaxTech BD" className="h-16 object-contain" />
+        </div>
+
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-foreground mb-2">Forgot Password</h2>
+          <p className="text-muted-foreground">We'll email you a link to choose a new one</p>
+        </div>
+
+        <div className="bg-card rounded-2xl border shadow-sm p-8">
+          {sent ? (
+            <div className="text-center space-y-3" data-testid="text-reset-sent">
+              <MailCheck className="w-10 h-10 mx-auto text-primary" />
+              <p className="font-medium">Check your inbox</p>
+              <p className="text-sm text-muted-foreground">
+                If an account exists for {form.getValues("email")}, a reset link has been sent. It can be used once.
+              </p>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">Email Address</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="you@example.com"
+                          className="h-12 px-4 bg-background border-border/50 focus:border-primary transition-colors"
+                          {...field}
+                          data-testid="input-email"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full h-12 text-base font-semibold"
+                  disabled={isLoading}
+                  data-testid="button-send-reset-link"
+                >
+                  {isLoading ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+
+        <div className="mt-6 text-center text-sm">
+          <Link href="/login" className="inline-flex items-center gap-1 text-primary hover:underline font-medium">
+            <ArrowLeft className="w-4 h-4" />
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -27,8 +27,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useForm } from "react-hook-form";
+import { useForm, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -56,10 +57,12 @@ type AttendanceDevice = {
   port?: number;
   apiEndpoint?: string;
   apiKey?: string;
+  serialNumber?: string;
   status: string;
   isActive: boolean;
   lastSyncAt?: string;
   lastSyncError?: string;
+  connectionParams?: Record<string, unknown> | null;
   createdAt: string;
 };
 
@@ -95,12 +98,87 @@ const deviceSchema = z.object({
   port: z.coerce.number().optional(),
   apiEndpoint: z.string().optional(),
   apiKey: z.string().optional(),
+  serialNumber: z.string().optional(),
   status: z.string().default("active"),
   isActive: z.boolean().default(true),
+  // ZK binary protocol settings, stored in connectionParams
+  protocol: z.enum(["tcp", "udp"]).default("tcp"),
+  commKey: z.string().regex(/^\d*$/, "COMM key must be a number").optional(),
+  clearLogsAfterSync: z.boolean().default(false),
 });
 
 type DeviceFormData = z.infer<typeof deviceSchema>;
 
+// Fold the ZK settings into connectionParams, keeping params the form does not edit
+const toDevicePayload = (data: DeviceFormData, existing?: AttendanceDevice | null) => {
+  const { protocol, commKey, clearLogsAfterSync, ...device } = data;
+  const { commKey: _previousKey, ...params } = existing?.connectionParams ?? {};
+  return {
+    ...device,
+    connectionParams: { ...params, protocol, clearLogsAfterSync, ...(commKey ? { commKey: Number(commKey) } : {}) },
+  };
+};
+
+function ZkConnectionFields({ form, idPrefix }: { form: UseFormReturn<DeviceFormData>; idPrefix: string }) {
+  if (form.watch("deviceType") !== "zkteco") return null;
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="protocol"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Protocol</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid={`select-${idPrefix}protocol`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent position="popper">
+                  <SelectItem value="tcp">TCP</SelectItem>
+                  <SelectItem value="udp">UDP</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="commKey"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>COMM Key</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} type="password" inputMode="numeric" placeholder="0" data-testid={`input-${idPrefix}comm-key`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="clearLogsAfterSync"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between gap-4">
+            <div>
+              <FormLabel>Clear device logs after sync</FormLabel>
+              <p className="text-xs text-muted-foreground">Only once every punch is stored</p>
+            </div>
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} data-testid={`switch-${idPrefix}clear-logs`} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
 const manualAttendanceSchema = z.object({
   userId: z.string().min(1, "Employee is required"),
   date: z.string().min(1, "Date is required"),
@@ -153,6 +231,9 @@ export default function HRAttendance() {
       port: 4370,
       status: "active",
       isActive: true,
+      protocol: "tcp",
+      commKey: "",
+      clearLogsAfterSync: false,
     },
   });
 
@@ -173,7 +254,7 @@ export default function HRAttendance() {
   });
 
   const deviceCreateMutation = useMutation({
-    mutationFn: async (data: DeviceFormData) => {
+    mutationFn: async (data: ReturnType<typeof toDevicePayload>) => {
       return apiRequest("POST", "/api/attendance-devices", data);
     },
     onSuccess: () => {
@@ -188,7 +269,7 @@ export default function HRAttendance() {
   });
 
   const deviceUpdateMutation = useMutation({
-    mutationFn: (data: { id: string; updates: Partial<DeviceFormData> }) =>
+    mutationFn: (data: { id: string; updates: ReturnType<typeof toDevicePayload> }) =>
       apiRequest("PATCH", `/api/attendance-devices/${data.id}`, data.updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/attendance-devices"] });
@@ -271,7 +352,7 @@ export default function HRAttendance() {
   });
 
   const onDeviceCreateSubmit = (data: DeviceFormData) => {
-    deviceCreateMutation.mutate(data);
+    deviceCreateMutation.mutate(toDevicePayload(data));
   };
 
   const onManualAttendanceSubmit = (data: ManualAttendanceFormData) => {
@@ -282,7 +363,7 @@ export default function HRAttendance() {
 
   const onDeviceEditSubmit = (data: DeviceFormData) => {
     if (!editingDevice) return;
-    deviceUpdateMutation.mutate({ id: editingDevice.id, updates: data });
+    deviceUpdateMutation.mutate({ id: editingDevice.id, updates: toDevicePayload(data, editingDevice) });
   };
 
   const handleDeviceEdit = (device: AttendanceDevice) => {
@@ -294,8 +375,12 @@ export default function HRAttendance() {
       port: device.port,
       apiEndpoint: device.apiEndpoint || "",
       apiKey: device.apiKey || "",
+      serialNumber: device.serialNumber || "",
       status: device.status,
       isActive: device.isActive,
+      protocol: device.connectionParams?.protocol === "udp" ? "udp" : "tcp",
+      commKey: device.connectionParams?.commKey != null ? String(device.connectionParams.commKey) : "",
+      clearLogsAfterSync: !!device.connectionParams?.clearLogsAfterSync,
     });
     setDeviceEditOpen(true);
   };
@@ -607,6 +692,7 @@ export default function HRAttendance() {
                                 </FormControl>
                                 <SelectContent position="popper">
                                   <SelectItem value="zkteco">ZKTeco</SelectItem>
+                                  <SelectItem value="zkteco-adms">ZKTeco (ADMS push)</SelectItem>
                                   <SelectItem value="suprema">Suprema</SelectItem>
                                   <SelectItem value="other">Other</SelectItem>
                                 </SelectContent>
@@ -647,6 +733,20 @@ export default function HRAttendance() {
                           </FormItem>
                         )}
                       />
+                      <FormField
+                        control={deviceCreateForm.control}
+                        name="serialNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Serial Number</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="Required for ADMS push devices" data-testid="input-serial-number" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <ZkConnectionFields form={deviceCreateForm} idPrefix="" />
                       <FormField
                         control={deviceCreateForm.control}
                         name="apiEndpoint"
@@ -951,6 +1051,7 @@ export default function HRAttendance() {
                           </FormControl>
                           <SelectContent position="popper">
                             <SelectItem value="zkteco">ZKTeco</SelectItem>
+                            <SelectItem value="zkteco-adms">ZKTeco (ADMS push)</SelectItem>
                             <SelectItem value="suprema">Suprema</SelectItem>
                             <SelectItem value="other">Other</SelectItem>
                           </SelectContent>
@@ -991,6 +1092,20 @@ export default function HRAttendance() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={deviceEditForm.control}
+                  name="serialNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Serial Number</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Required for ADMS push devices" data-testid="input-edit-serial-number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <ZkConnectionFields form={deviceEditForm} idPrefix="edit-" />
                 <div className="flex justify-end gap-2">
                   <Button type="button" variant="outline" onClick={() => setDeviceEditOpen(false)}>
                     Cancel
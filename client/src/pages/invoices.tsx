@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Plus, Send, FileText, Download } from "lucide-react";
+import { Plus, Send, FileText, Download, Clock, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,20 +13,34 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertInvoiceSchema, type Invoice, type Client } from "@shared/schema";
+import { insertInvoiceSchema, type Invoice, type Client, type Project, type InvoiceItem } from "@shared/schema";
 import { z } from "zod";
 import { normalizeInvoiceData } from "@/lib/normalizeDateInputs";
-import { formatCurrency } from "@shared/currency";
+import { formatCurrency, sumAmounts } from "@shared/currency";
+import { formatHours } from "@/lib/utils";
 
 const invoiceFormSchema = insertInvoiceSchema.extend({
   dueDate: z.string(),
 });
 
 type InvoiceFormData = z.infer<typeof invoiceFormSchema>;
+type InvoicePayload = InvoiceFormData & { timeEntryIds?: string[] };
+
+interface BillableHours {
+  hourlyRate: string | null;
+  entryIds: string[];
+  totalMinutes: number;
+  pendingMinutes: number;
+  items: InvoiceItem[];
+}
 
 export default function Invoices() {
   const [open, setOpen] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  // Time entries behind the billable-hours items, marked billed once the invoice is saved
+  const [timeEntryIds, setTimeEntryIds] = useState<string[]>([]);
+  const [loadingHours, setLoadingHours] = useState(false);
   const { toast } = useToast();
   const { data: invoices, isLoading } = useQuery<Invoice[]>({
     queryKey: ["/api/invoices"],
@@ -34,11 +48,15 @@ export default function Invoices() {
   const { data: clients } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
 
   const createMutation = useMutation({
-    mutationFn: (data: InvoiceFormData) => apiRequest("POST", "/api/invoices", data),
+    mutationFn: (data: InvoicePayload) => apiRequest("POST", "/api/invoices", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({ title: "Success", description: "Invoice created successfully" });
       setOpen(false);
       setEditingInvoice(null);
@@ -50,10 +68,11 @@ export default function Invoices() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: InvoiceFormData }) =>
+    mutationFn: ({ id, data }: { id: string; data: InvoicePayload }) =>
       apiRequest("PATCH", `/api/invoices/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({ title: "Success", description: "Invoice updated successfully" });
       setOpen(false);
       setEditingInvoice(null);
@@ -76,8 +95,55 @@ export default function Invoices() {
     },
   });
 
+  const clientId = form.watch("clientId");
+  const projectId = form.watch("projectId");
+  const clientProjects = projects?.filter(project => project.clientId === clientId) ?? [];
+
+  const resetItems = (invoice?: Invoice) => {
+    setItems(Array.isArray(invoice?.items) ? invoice.items as InvoiceItem[] : []);
+    setTimeEntryIds([]);
+  };
+
+  const handleAddBillableHours = async () => {
+    if (!projectId) return;
+    setLoadingHours(true);
+    try {
+      const hours = await apiRequest<BillableHours>("GET", `/api/projects/${projectId}/billable-hours`);
+      if (!hours.hourlyRate) {
+        toast({ title: "No hourly rate", description: "Set an hourly rate on the project to bill its hours", variant: "destructive" });
+        return;
+      }
+      const newEntries = hours.entryIds.filter(id => !timeEntryIds.includes(id));
+      if (newEntries.length === 0) {
+        toast({
+          title: "Nothing to bill",
+          description: hours.pendingMinutes > 0
+            ? `${formatHours(hours.pendingMinutes)} is waiting for timesheet approval`
+            : "There is no approved, unbilled time on this project",
+        });
+        return;
+      }
+      const nextItems = [...items, ...hours.items];
+      setItems(nextItems);
+      setTimeEntryIds([...timeEntryIds, ...newEntries]);
+      form.setValue("amount", sumAmounts(nextItems.map(item => item.amount)));
+      if (hours.pendingMinutes > 0) {
+        toast({ title: "Hours added", description: `${formatHours(hours.pendingMinutes)} more is waiting for timesheet approval` });
+      }
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setLoadingHours(false);
+    }
+  };
+
+  const handleClearItems = () => {
+    setItems([]);
+    setTimeEntryIds([]);
+  };
+
   const onSubmit = async (data: InvoiceFormData) => {
-    const normalizedData = normalizeInvoiceData(data);
+    const normalizedData: InvoicePayload = { ...normalizeInvoiceData(data), items, timeEntryIds };
     if (editingInvoice) {
       updateMutation.mutate({ id: editingInvoice.id, data: normalizedData });
     } else {
@@ -89,12 +155,14 @@ export default function Invoices() {
     setEditingInvoice(invoice);
     form.reset({
       clientId: invoice.clientId,
+      projectId: invoice.projectId,
       invoiceNumber: invoice.invoiceNumber,
       amount: invoice.amount,
       dueDate: invoice.dueDate ? (typeof invoice.dueDate === 'string' ? invoice.dueDate : new Date(invoice.dueDate).toISOString().split('T')[0]) : "",
       status: invoice.status,
       notes: invoice.notes || "",
     });
+    resetItems(invoice);
     setOpen(true);
   };
 
@@ -108,6 +176,7 @@ export default function Invoices() {
       status: "draft",
       notes: "",
     });
+    resetItems();
     setOpen(true);
   };
 
@@ -210,7 +279,13 @@ export default function Invoices() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Client</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.setValue("projectId", null);
+                          }}
+                          defaultValue={field.value}
+                        >
                           <FormControl>
                             <SelectTrigger data-testid="select-client">
                               <SelectValue placeholder="Select client" />
@@ -228,6 +303,35 @@ export default function Invoices() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="projectId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Project</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                          value={field.value ?? "none"}
+                          disabled={!clientId}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-project">
+                              <SelectValue placeholder="Select project" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent position="popper">
+                            <SelectItem value="none">No project</SelectItem>
+                            {clientProjects.map((project) => (
+                              <SelectItem key={project.id} value={project.id}>
+                                {project.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="amount"
@@ -278,6 +382,47 @@ export default function Invoices() {
                     )}
                   />
                 </div>
+                {(items.length > 0 || projectId) && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Items</span>
+                      <div className="flex gap-2">
+                        {items.length > 0 && (
+                          <Button type="button" size="sm" variant="ghost" onClick={handleClearItems} data-testid="button-clear-items">
+                            <X className="w-4 h-4 mr-1" /> Clear
+                          </Button>
+                        )}
+                        {projectId && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={handleAddBillableHours}
+                            disabled={loadingHours}
+                            data-testid="button-add-billable-hours"
+                          >
+                            <Clock className="w-4 h-4 mr-1" />
+                            {loadingHours ? "Loading..." : "Add billable hours"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {items.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Pull approved, unbilled time on this project into the invoice</p>
+                    ) : (
+                      <div className="space-y-1 text-sm">
+                        {items.map((item, i) => (
+                          <div key={i} className="flex justify-between gap-4" data-testid={`invoice-item-${i}`}>
+                            <span className="truncate">{item.description}</span>
+                            <span className="text-muted-foreground whitespace-nowrap">
+                              {item.quantity} × {formatCurrency(item.rate)} = {formatCurrency(item.amount)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 <FormField
                   control={form.control}
                   name="notes"
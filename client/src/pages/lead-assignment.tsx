@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LEAD_ASSIGNMENT_MATCH_TYPES, LEAD_SOURCES, type LeadAssignmentRule, type LeadCategory, type User } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash, ArrowLeft, UserPlus, Play } from "lucide-react";
+import Swal from "sweetalert2";
+
+type MatchType = typeof LEAD_ASSIGNMENT_MATCH_TYPES[number];
+
+interface RuleDraft {
+  name: string;
+  matchType: MatchType;
+  matchValue: string;
+  userIds: string[];
+  maxOpenLeads: string;
+  priority: number;
+}
+
+const MATCH_LABELS: Record<MatchType, string> = {
+  any: "Any lead",
+  category: "Category is",
+  source: "Source is",
+};
+
+const EMPTY_DRAFT: RuleDraft = { name: "", matchType: "any", matchValue: "", userIds: [], maxOpenLeads: "", priority: 0 };
+
+const describeMatch = (rule: LeadAssignmentRule) =>
+  rule.matchType === "any" ? MATCH_LABELS.any : `${MATCH_LABELS[rule.matchType as MatchType] ?? rule.matchType} ${rule.matchValue}`;
+
+export default function LeadAssignment() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [editing, setEditing] = useState<LeadAssignmentRule | null>(null);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  const { data: rules = [], isLoading } = useQuery<LeadAssignmentRule[]>({
+    queryKey: ["/api/lead-assignment-rules"],
+  });
+
+  const { data: categories = [] } = useQuery<LeadCategory[]>({
+    queryKey: ["/api/lead-categories"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // Staff who can own leads; client accounts never do
+  const assignableUsers = users.filter(u => u.role !== "client");
+  const userName = (id: string) => users.find(u => u.id === id)?.fullName || "Unknown user";
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-assignment-rules"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RuleDraft) => {
+      const body = {
+        ...data,
+        matchValue: data.matchType === "any" ? null : data.matchValue,
+        maxOpenLeads: data.maxOpenLeads ? Number(data.maxOpenLeads) : null,
+      };
+      return editing
+        ? apiRequest("PATCH", `/api/lead-assignment-rules/${editing.id}`, body)
+        : apiRequest("POST", "/api/lead-assignment-rules", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing ? "Rule updated" : "Rule created" });
+      setOpen(false);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: LeadAssignmentRule) =>
+      apiRequest("PATCH", `/api/lead-assignment-rules/${rule.id}`, { isActive: !rule.isActive }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/lead-assignment-rules/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Rule deleted" });
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => apiRequest<{ assigned: number; unassigned: number }>("POST", "/api/lead-assignment-rules/run"),
+    onSuccess: ({ assigned, unassigned }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["leads"] });
+      toast({
+        title: "Success",
+        description: `${assigned} lead(s) assigned${unassigned > 0 ? `, ${unassigned} still unassigned` : ""}`,
+      });
+    },
+    onError,
+  });
+
+  const handleNew = () => {
+    setEditing(null);
+    setDraft({ ...EMPTY_DRAFT, priority: rules.length });
+    setOpen(true);
+  };
+
+  const handleEdit = (rule: LeadAssignmentRule) => {
+    setEditing(rule);
+    setDraft({
+      name: rule.name,
+      matchType: rule.matchType as MatchType,
+      matchValue: rule.matchValue || "",
+      userIds: rule.userIds,
+      maxOpenLeads: rule.maxOpenLeads ? String(rule.maxOpenLeads) : "",
+      priority: rule.priority,
+    });
+    setOpen(true);
+  };
+
+  const toggleUser = (id: string, checked: boolean) => {
+    setDraft(d => ({ ...d, userIds: checked ? [...d.userIds, id] : d.userIds.filter(u => u !== id) }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Rule name is required", variant: "destructive" });
+      return;
+    }
+    if (draft.userIds.length === 0) {
+      toast({ title: "Error", description: "Pick at least one user", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ ...draft, name: draft.name.trim() });
+  };
+
+  const handleDelete = async (rule: LeadAssignmentRule) => {
+    const result = await Swal.fire({
+      title: `Delete "${rule.name}"?`,
+      text: "Leads it already assigned keep their assignee.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) deleteMutation.mutate(rule.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Leads
+          </Link>
+          <h1 className="text-3xl font-bold">Lead Assignment</h1>
+          <p className="text-muted-foreground">New leads without an owner go to the first matching rule, round-robin across its users</p>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending || rules.length === 0}
+              data-testid="button-run-assignment"
+            >
+              <Play className="w-4 h-4 mr-2" /> Assign Unassigned Leads
+            </Button>
+            <Button onClick={handleNew} data-testid="button-new-assignment-rule">
+              <Plus className="w-4 h-4 mr-2" /> New Rule
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p>Loading rules...</p>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <UserPlus className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No assignment rules yet. New leads stay unassigned until someone picks them up.</p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Order</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Leads</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Active</TableHead>
+                  {isAdmin && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} data-testid={`row-assignment-rule-${rule.id}`}>
+                    <TableCell className="text-muted-foreground">{rule.priority}</TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeMatch(rule)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {rule.userIds.map(id => {
+                          const member = users.find(u => u.id === id);
+                          return (
+                            <Badge key={id} variant={member && !member.isActive ? "outline" : "secondary"} title={member && !member.isActive ? "Deactivated, skipped" : undefined}>
+                              {userName(id)}
+                              {rule.lastAssignedUserId === id && " •"}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.maxOpenLeads ? `${rule.maxOpenLeads} open leads each` : "Unlimited"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={!isAdmin || toggleMutation.isPending}
+                        onCheckedChange={() => toggleMutation.mutate(rule)}
+                        data-testid={`switch-assignment-rule-${rule.id}`}
+                      />
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => handleEdit(rule)}
+                            data-testid={`button-edit-assignment-rule-${rule.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => handleDelete(rule)}
+                            data-testid={`button-delete-assignment-rule-${rule.id}`}
+                          >
+                            <Trash className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Rule" : "New Rule"}</DialogTitle>
+            <DialogDescription>Deactivated users and users at capacity are skipped; if nobody is free the next rule is tried.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignment-rule-name">Name</Label>
+              <Input
+                id="assignment-rule-name"
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                placeholder="e.g. Restaurants to the food team"
+                data-testid="input-assignment-rule-name"
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>Leads</Label>
+                <Select
+                  value={draft.matchType}
+                  onValueChange={(value) => setDraft(d => ({ ...d, matchType: value as MatchType, matchValue: "" }))}
+                >
+                  <SelectTrigger data-testid="select-assignment-match-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAD_ASSIGNMENT_MATCH_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{MATCH_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.matchType !== "any" && (
+                <div className="space-y-2">
+                  <Label htmlFor="assignment-match-value">{draft.matchType === "category" ? "Category" : "Source"}</Label>
+                  <Select value={draft.matchValue} onValueChange={(value) => setDraft(d => ({ ...d, matchValue: value }))}>
+                    <SelectTrigger id="assignment-match-value" data-testid="select-assignment-match-value">
+                      <SelectValue placeholder={`Select a ${draft.matchType}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(draft.matchType === "category" ? categories.map(c => c.name) : [...LEAD_SOURCES]).map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Users</Label>
+              <div className="border rounded-md p-3 max-h-48 overflow-y-auto space-y-2">
+                {assignableUsers.map(u => (
+                  <label key={u.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={draft.userIds.includes(u.id)}
+                      onCheckedChange={(checked) => toggleUser(u.id, !!checked)}
+                      data-testid={`checkbox-assignment-user-${u.id}`}
+                    />
+                    {u.fullName}
+                    <span className="text-muted-foreground">({u.role})</span>
+                    {!u.isActive && <Badge variant="outline">Deactivated</Badge>}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="assignment-capacity">Max open leads per user</Label>
+                <Input
+                  id="assignment-capacity"
+                  type="number"
+                  min={1}
+                  value={draft.maxOpenLeads}
+                  onChange={(e) => setDraft(d => ({ ...d, maxOpenLeads: e.target.value }))}
+                  placeholder="Unlimited"
+                  data-testid="input-assignment-capacity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-priority">Order</Label>
+                <Input
+                  id="assignment-priority"
+                  type="number"
+                  value={draft.priority}
+                  onChange={(e) => setDraft(d => ({ ...d, priority: Number(e.target.value) }))}
+                  data-testid="input-assignment-priority"
+                />
+                <p className="text-xs text-muted-foreground">Lower numbers are tried first</p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-assignment-rule">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LEAD_MERGE_FIELDS, type Lead, type LeadFolder, type User } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Merge, X } from "lucide-react";
+import Swal from "sweetalert2";
+
+type MergeField = typeof LEAD_MERGE_FIELDS[number];
+
+interface DuplicateCandidate {
+  pairKey: string;
+  leads: [Lead, Lead];
+  reasons: string[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  name: "Same name",
+  phone: "Same phone",
+  email: "Same email",
+  email_domain: "Same email domain",
+  website: "Same website",
+};
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  website: "Website",
+  category: "Category",
+  source: "Source",
+  assignedTo: "Assigned To",
+  folderId: "Folder",
+  followUpDate: "Follow-up",
+};
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === "";
+
+interface DuplicatePairProps {
+  candidate: DuplicateCandidate;
+  display: (field: MergeField, lead: Lead) => string;
+  onMerge: (survivor: Lead, duplicate: Lead, prefer: Partial<Record<MergeField, "survivor" | "duplicate">>) => void;
+  onDismiss: (candidate: DuplicateCandidate) => void;
+  busy: boolean;
+}
+
+function DuplicatePair({ candidate, display, onMerge, onDismiss, busy }: DuplicatePairProps) {
+  const [first, second] = candidate.leads;
+  // Keep the older lead by default; it usually carries the longer history
+  const [survivorId, setSurvivorId] = useState(
+    new Date(first.createdAt) <= new Date(second.createdAt) ? first.id : second.id,
+  );
+  // Lead whose value wins, for fields where both have a different value
+  const [picks, setPicks] = useState<Partial<Record<MergeField, string>>>({});
+
+  const survivor = survivorId === first.id ? first : second;
+  const duplicate = survivorId === first.id ? second : first;
+  const conflicts = LEAD_MERGE_FIELDS.filter(field =>
+    !isBlank(first[field]) && !isBlank(second[field]) && String(first[field]) !== String(second[field]),
+  );
+
+  const handleMerge = () => {
+    const prefer: Partial<Record<MergeField, "survivor" | "duplicate">> = {};
+    conflicts.forEach(field => {
+      prefer[field] = (picks[field] ?? survivorId) === survivorId ? "survivor" : "duplicate";
+    });
+    onMerge(survivor, duplicate, prefer);
+  };
+
+  return (
+    <Card data-testid={`duplicate-pair-${candidate.pairKey}`}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap gap-2">
+          {candidate.reasons.map(reason => (
+            <Badge key={reason} variant="secondary">{REASON_LABELS[reason] || reason}</Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup value={survivorId} onValueChange={setSurvivorId}>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-32"></TableHead>
+                {candidate.leads.map(lead => (
+                  <TableHead key={lead.id}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <RadioGroupItem value={lead.id} data-testid={`radio-survivor-${lead.id}`} />
+                      Keep this lead
+                      {lead.convertedClientId && <Badge variant="outline">Client</Badge>}
+                    </label>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {LEAD_MERGE_FIELDS.map(field => {
+                const conflict = conflicts.includes(field);
+                const chosen = picks[field] ?? survivorId;
+                return (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium text-muted-foreground">{FIELD_LABELS[field]}</TableCell>
+                    {candidate.leads.map(lead => (
+                      <TableCell
+                        key={lead.id}
+                        className={conflict ? `cursor-pointer ${chosen === lead.id ? "bg-primary/10 font-medium" : "text-muted-foreground line-through"}` : ""}
+                        onClick={conflict ? () => setPicks(p => ({ ...p, [field]: lead.id })) : undefined}
+                        title={conflict ? "Use this value" : undefined}
+                      >
+                        {display(field, lead)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </RadioGroup>
+        {conflicts.length > 0 && (
+          <p className="text-xs text-muted-foreground">Click a value to keep it where the leads differ. Empty fields are filled from the other lead; notes are combined.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onDismiss(candidate)} disabled={busy} data-testid={`button-dismiss-${candidate.pairKey}`}>
+            <X className="w-4 h-4 mr-2" /> Not Duplicates
+          </Button>
+          <Button onClick={handleMerge} disabled={busy} data-testid={`button-merge-${candidate.pairKey}`}>
+            <Merge className="w-4 h-4 mr-2" /> Merge
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LeadDuplicates() {
+  const { toast } = useToast();
+
+  const { data: candidates = [], isLoading } = useQuery<DuplicateCandidate[]>({
+    queryKey: ["/api/lead-duplicates"],
+  });
+
+  const { data: folders = [] } = useQuery<LeadFolder[]>({
+    queryKey: ["/api/lead-folders"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: (data: { survivorId: string; duplicateId: string; prefer: Partial<Record<MergeField, "survivor" | "duplicate">> }) =>
+      apiRequest("POST", "/api/lead-duplicates/merge", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["leads"] });
+      toast({ title: "Success", description: "Leads merged" });
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (leadIds: [string, string]) => apiRequest("POST", "/api/lead-duplicates/dismiss", { leadIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-duplicates"] });
+    },
+    onError,
+  });
+
+  const display = (field: MergeField, lead: Lead) => {
+    const value = lead[field];
+    if (isBlank(value)) return "—";
+    if (field === "folderId") return folders.find(f => f.id === value)?.name || "Unknown folder";
+    if (field === "assignedTo") return users.find(u => u.id === value)?.fullName || "Another user";
+    if (field === "followUpDate") return new Date(value as string).toLocaleDateString();
+    return String(value);
+  };
+
+  const handleMerge = async (survivor: Lead, duplicate: Lead, prefer: Partial<Record<MergeField, "survivor" | "duplicate">>) => {
+    const result = await Swal.fire({
+      title: `Merge into "${survivor.name}"?`,
+      text: `"${duplicate.name}" will be deleted. Its emails, messages, sequences and stage history move to the kept lead.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Merge",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) {
+      mergeMutation.mutate({ survivorId: survivor.id, duplicateId: duplicate.id, prefer });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+          <ArrowLeft className="w-3 h-3" /> Leads
+        </Link>
+        <h1 className="text-3xl font-bold">Duplicate Leads</h1>
+        <p className="text-muted-foreground">Leads that look like the same business by name, phone, email or website</p>
+      </div>
+
+      {isLoading ? (
+        <p>Looking for duplicates...</p>
+      ) : candidates.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <p className="text-muted-foreground">No possible duplicates found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">{candidates.length} possible duplicate pair{candidates.length === 1 ? "" : "s"}</p>
+          {candidates.map(candidate => (
+            <DuplicatePair
+              key={candidate.pairKey}
+              candidate={candidate}
+              display={display}
+              onMerge={handleMerge}
+              onDismiss={(c) => dismissMutation.mutate([c.leads[0].id, c.leads[1].id])}
+              busy={mergeMutation.isPending || dismissMutation.isPending}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LEAD_SCORING_RULE_TYPES, LEAD_SOURCES, type LeadScoringRule, type LeadCategory } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash, ArrowLeft, Gauge, RefreshCw } from "lucide-react";
+import Swal from "sweetalert2";
+
+type RuleType = typeof LEAD_SCORING_RULE_TYPES[number];
+
+interface RuleDraft {
+  name: string;
+  type: RuleType;
+  value: string;
+  points: number;
+}
+
+// What the rule checks, and what its value means
+const RULE_TYPES: Record<RuleType, { label: string; valueLabel?: string }> = {
+  has_website: { label: "Has a website" },
+  has_email: { label: "Has an email address" },
+  has_phone: { label: "Has a phone number" },
+  category: { label: "Category is", valueLabel: "Category" },
+  source: { label: "Source is", valueLabel: "Source" },
+  min_rating: { label: "Google rating at least", valueLabel: "Minimum rating (0-5)" },
+  min_reviews: { label: "Review count at least", valueLabel: "Minimum reviews" },
+  min_email_opens: { label: "Email opens at least", valueLabel: "Minimum opens" },
+  days_since_contact: { label: "Days since last contact at least", valueLabel: "Days" },
+};
+
+const EMPTY_DRAFT: RuleDraft = { name: "", type: "has_website", value: "", points: 10 };
+
+const describeRule = (rule: LeadScoringRule) => {
+  const type = RULE_TYPES[rule.type as RuleType];
+  if (!type) return rule.type;
+  return type.valueLabel ? `${type.label} ${rule.value}` : type.label;
+};
+
+export default function LeadScoring() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [editing, setEditing] = useState<LeadScoringRule | null>(null);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  const { data: rules = [], isLoading } = useQuery<LeadScoringRule[]>({
+    queryKey: ["/api/lead-scoring-rules"],
+  });
+
+  const { data: categories = [] } = useQuery<LeadCategory[]>({
+    queryKey: ["/api/lead-categories"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  // Rule changes rescore every lead on the server
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-scoring-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["leads"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RuleDraft) => {
+      const body = { ...data, value: RULE_TYPES[data.type].valueLabel ? data.value : null };
+      return editing
+        ? apiRequest("PATCH", `/api/lead-scoring-rules/${editing.id}`, body)
+        : apiRequest("POST", "/api/lead-scoring-rules", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing ? "Rule updated" : "Rule created" });
+      setOpen(false);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: LeadScoringRule) =>
+      apiRequest("PATCH", `/api/lead-scoring-rules/${rule.id}`, { isActive: !rule.isActive }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/lead-scoring-rules/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Rule deleted" });
+    },
+    onError,
+  });
+
+  const defaultsMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/lead-scoring-rules/defaults"),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Suggested rules added" });
+    },
+    onError,
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: () => apiRequest<{ changed: number }>("POST", "/api/lead-scoring-rules/recompute"),
+    onSuccess: ({ changed }) => {
+      queryClient.invalidateQueries({ queryKey: ["leads"] });
+      toast({ title: "Success", description: `Scores recomputed, ${changed} changed` });
+    },
+    onError,
+  });
+
+  const handleNew = () => {
+    setEditing(null);
+    setDraft(EMPTY_DRAFT);
+    setOpen(true);
+  };
+
+  const handleEdit = (rule: LeadScoringRule) => {
+    setEditing(rule);
+    setDraft({
+      name: rule.name,
+      type: rule.type as RuleType,
+      value: rule.value || "",
+      points: rule.points,
+    });
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Rule name is required", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ ...draft, name: draft.name.trim(), value: draft.value.trim() });
+  };
+
+  const handleDelete = async (rule: LeadScoringRule) => {
+    const result = await Swal.fire({
+      title: `Delete "${rule.name}"?`,
+      text: "All leads will be rescored without this rule.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) deleteMutation.mutate(rule.id);
+  };
+
+  const valueLabel = RULE_TYPES[draft.type].valueLabel;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Leads
+          </Link>
+          <h1 className="text-3xl font-bold">Lead Scoring</h1>
+          <p className="text-muted-foreground">Points added up for each lead; leads are rescored when they change and every night</p>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
+              data-testid="button-recompute-scores"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${recomputeMutation.isPending ? "animate-spin" : ""}`} /> Recompute
+            </Button>
+            <Button onClick={handleNew} data-testid="button-new-rule">
+              <Plus className="w-4 h-4 mr-2" /> New Rule
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p>Loading rules...</p>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <Gauge className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground mb-4">No scoring rules yet. Every lead scores 0.</p>
+          {isAdmin && (
+            <Button variant="outline" onClick={() => defaultsMutation.mutate()} disabled={defaultsMutation.isPending}>
+              Add Suggested Rules
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Active</TableHead>
+                  {isAdmin && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} data-testid={`row-rule-${rule.id}`}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeRule(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.points < 0 ? "destructive" : "secondary"}>
+                        {rule.points > 0 ? `+${rule.points}` : rule.points}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={!isAdmin || toggleMutation.isPending}
+                        onCheckedChange={() => toggleMutation.mutate(rule)}
+                        data-testid={`switch-rule-${rule.id}`}
+                      />
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => handleEdit(rule)}
+                            data-testid={`button-edit-rule-${rule.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => handleDelete(rule)}
+                            data-testid={`button-delete-rule-${rule.id}`}
+                          >
+                            <Trash className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Rule" : "New Rule"}</DialogTitle>
+            <DialogDescription>Matching leads get the points; use negative points to lower the score.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                placeholder="e.g. Restaurants are a good fit"
+                data-testid="input-rule-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select value={draft.type} onValueChange={(value) => setDraft(d => ({ ...d, type: value as RuleType, value: "" }))}>
+                <SelectTrigger data-testid="select-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_SCORING_RULE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{RULE_TYPES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {valueLabel && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-value">{valueLabel}</Label>
+                {draft.type === "category" || draft.type === "source" ? (
+                  <Select value={draft.value} onValueChange={(value) => setDraft(d => ({ ...d, value }))}>
+                    <SelectTrigger id="rule-value" data-testid="select-rule-value">
+                      <SelectValue placeholder={`Select a ${draft.type}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(draft.type === "category" ? categories.map(c => c.name) : [...LEAD_SOURCES]).map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id="rule-value"
+                    type="number"
+                    min={0}
+                    step={draft.type === "min_rating" ? "0.1" : "1"}
+                    value={draft.value}
+                    onChange={(e) => setDraft(d => ({ ...d, value: e.target.value }))}
+                    data-testid="input-rule-value"
+                  />
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="rule-points">Points</Label>
+              <Input
+                id="rule-points"
+                type="number"
+                min={-100}
+                max={100}
+                value={draft.points}
+                onChange={(e) => setDraft(d => ({ ...d, points: Number(e.target.value) }))}
+                data-testid="input-rule-points"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-rule">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/utils";
+import { LEAD_STAGE_OUTCOMES, type LeadStage } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash, ArrowLeft, ArrowUp, ArrowDown, Workflow } from "lucide-react";
+import Swal from "sweetalert2";
+
+type StageOutcome = typeof LEAD_STAGE_OUTCOMES[number];
+
+interface StageDuration {
+  stage: string;
+  transitions: number;
+  averageSeconds: number;
+}
+
+interface StageDraft {
+  name: string;
+  color: string;
+  probability: number;
+  outcome: StageOutcome;
+}
+
+const OUTCOME_LABELS: Record<StageOutcome, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+const EMPTY_DRAFT: StageDraft = { name: "", color: "#64748b", probability: 10, outcome: "open" };
+
+export default function LeadStages() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [editing, setEditing] = useState<LeadStage | null>(null);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<StageDraft>(EMPTY_DRAFT);
+  const [deleting, setDeleting] = useState<LeadStage | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+
+  const { data: stages = [], isLoading } = useQuery<LeadStage[]>({
+    queryKey: ["/api/lead-stages"],
+  });
+
+  const { data: durations = [] } = useQuery<StageDuration[]>({
+    queryKey: ["/api/lead-stages/time-in-stage"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-stages"] });
+    queryClient.invalidateQueries({ queryKey: ["leads"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: StageDraft) => editing
+      ? apiRequest("PATCH", `/api/lead-stages/${editing.id}`, data)
+      : apiRequest("POST", "/api/lead-stages", data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing ? "Stage updated" : "Stage created" });
+      setOpen(false);
+    },
+    onError,
+  });
+
+  const orderMutation = useMutation({
+    mutationFn: (ids: string[]) => apiRequest<LeadStage[]>("PUT", "/api/lead-stages/order", { ids }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/lead-stages"], updated);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ id, moveTo }: { id: string; moveTo: string }) =>
+      apiRequest("DELETE", `/api/lead-stages/${id}${moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : ""}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Stage deleted" });
+      setDeleting(null);
+    },
+    onError,
+  });
+
+  const handleNew = () => {
+    setEditing(null);
+    setDraft(EMPTY_DRAFT);
+    setOpen(true);
+  };
+
+  const handleEdit = (stage: LeadStage) => {
+    setEditing(stage);
+    setDraft({
+      name: stage.name,
+      color: stage.color,
+      probability: stage.probability,
+      outcome: stage.outcome as StageOutcome,
+    });
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Stage name is required", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ ...draft, name: draft.name.trim() });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = stages.map(stage => stage.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    orderMutation.mutate(ids);
+  };
+
+  const handleDelete = async (stage: LeadStage) => {
+    const result = await Swal.fire({
+      title: `Delete "${stage.name}"?`,
+      text: "Leads in this stage will be moved to the stage you choose next.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Continue",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (!result.isConfirmed) return;
+    setMoveTo(stages.find(s => s.id !== stage.id)?.key ?? "");
+    setDeleting(stage);
+  };
+
+  const durationFor = (key: string) => durations.find(d => d.stage === key);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/leads" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Leads
+          </Link>
+          <h1 className="text-3xl font-bold">Pipeline Stages</h1>
+          <p className="text-muted-foreground">The stages leads move through, in order, and how long they stay in each</p>
+        </div>
+        {isAdmin && (
+          <Button onClick={handleNew} data-testid="button-new-stage">
+            <Plus className="w-4 h-4 mr-2" /> New Stage
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p>Loading stages...</p>
+      ) : stages.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <Workflow className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No pipeline stages.</p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Win Probability</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Avg. Time in Stage</TableHead>
+                  {isAdmin && <TableHead className="w-40" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stages.map((stage, index) => {
+                  const duration = durationFor(stage.key);
+                  return (
+                    <TableRow key={stage.id} data-testid={`row-stage-${stage.key}`}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: stage.color }} />
+                          {stage.name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground font-mono">{stage.key}</TableCell>
+                      <TableCell>{stage.probability}%</TableCell>
+                      <TableCell>
+                        <Badge variant={stage.outcome === "open" ? "outline" : "secondary"}>
+                          {OUTCOME_LABELS[stage.outcome as StageOutcome] || stage.outcome}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {duration
+                          ? `${formatDuration(duration.averageSeconds)} (${duration.transitions} lead${duration.transitions === 1 ? "" : "s"})`
+                          : "-"}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <div className="flex gap-1 justify-end">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              disabled={index === 0 || orderMutation.isPending}
+                              onClick={() => handleMove(index, -1)}
+                              data-testid={`button-stage-up-${stage.key}`}
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              disabled={index === stages.length - 1 || orderMutation.isPending}
+                              onClick={() => handleMove(index, 1)}
+                              data-testid={`button-stage-down-${stage.key}`}
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              onClick={() => handleEdit(stage)}
+                              data-testid={`button-edit-stage-${stage.key}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8 text-destructive"
+                              disabled={stages.length === 1}
+                              onClick={() => handleDelete(stage)}
+                              data-testid={`button-delete-stage-${stage.key}`}
+                            >
+                              <Trash className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Stage" : "New Stage"}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Key: ${editing.key}` : "New stages are added at the end of the pipeline."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stage-name">Name</Label>
+              <Input
+                id="stage-name"
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                placeholder="e.g. Proposal Sent"
+                data-testid="input-stage-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stage-color">Colour</Label>
+                <Input
+                  id="stage-color"
+                  type="color"
+                  value={draft.color}
+                  onChange={(e) => setDraft(d => ({ ...d, color: e.target.value }))}
+                  className="h-10 p-1"
+                  data-testid="input-stage-color"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stage-probability">Win Probability (%)</Label>
+                <Input
+                  id="stage-probability"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.probability}
+                  onChange={(e) => setDraft(d => ({ ...d, probability: Number(e.target.value) }))}
+                  data-testid="input-stage-probability"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select value={draft.outcome} onValueChange={(value) => setDraft(d => ({ ...d, outcome: value as StageOutcome }))}>
+                <SelectTrigger data-testid="select-stage-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_STAGE_OUTCOMES.map(outcome => (
+                    <SelectItem key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Won and lost stages close the lead and stop its email sequences.</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-stage">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(isOpen) => !isOpen && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete "{deleting?.name}"</DialogTitle>
+            <DialogDescription>Leads currently in this stage are moved to:</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={moveTo} onValueChange={setMoveTo}>
+              <SelectTrigger data-testid="select-stage-move-to">
+                <SelectValue placeholder="Select a stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {stages.filter(stage => stage.id !== deleting?.id).map(stage => (
+                  <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleting && deleteMutation.mutate({ id: deleting.id, moveTo })}
+                data-testid="button-confirm-delete-stage"
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete Stage"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 // src/pages/leads.tsx
 import { useState, useRef } from "react";
-import { Plus, Mail, Phone, Calendar, Search, X, Trash, Upload, FileSpreadsheet, Download, AlertCircle, CheckCircle2, Send, History, Clock, Check, XCircle, Sparkles, Folder, FolderOpen, ArrowLeft, MoreVertical, Copy, Move, FolderPlus, Eye, Edit, Trash2 } from "lucide-react";
+import { Plus, Mail, Phone, Calendar, Search, X, Trash, Upload, FileSpreadsheet, Download, AlertCircle, CheckCircle2, Send, History, Clock, Check, XCircle, Sparkles, Folder, FolderOpen, ArrowLeft, MoreVertical, Copy, Move, FolderPlus, Eye, Edit, Trash2, ListOrdered, MousePointerClick, Reply, Ban, LayoutGrid, Kanban, Workflow, UserCheck, Gauge, CopyCheck, UserPlus } from "lucide-react";
+import { Link } from "wouter";
 import { SmartLeadFinder } from "@/components/smart-lead-finder";
+import { BulkEmailProgress } from "@/components/bulk-email-progress";
+import { LeadKanban } from "@/components/lead-kanban";
+import { LeadConvertDialog } from "@/components/lead-convert-dialog";
 import { FileUpload } from "@/components/ui/file-upload";
 import Swal from "sweetalert2";
 import "sweetalert2/dist/sweetalert2.min.css";
@@ -47,12 +51,16 @@ import { zodResolver } from "@hookform/resolvers/zod";
 
 import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
-import { insertLeadSchema, type Lead, type LeadEmail, LEAD_SOURCES, LEAD_EMAIL_TEMPLATES, type LeadFolder, insertLeadFolderSchema, type EmailTemplate } from "@shared/schema";
+import { insertLeadSchema, type Lead, type LeadEmail, LEAD_SOURCES, LEAD_EMAIL_TEMPLATES, type LeadFolder, insertLeadFolderSchema, type EmailTemplate, type EmailSequenceEnrollment, type BulkEmailJob, type LeadStage, type LeadAssignmentRule, type User } from "@shared/schema";
 import { z } from "zod";
 import { normalizeLeadData } from "@/lib/normalizeDateInputs";
 
+// Row of /api/leads/:id/messages
+type LeadMessage = { id: string; direction: string; subject: string; message: string; sentAt: string; fromAddress: string | null };
+
 const EMAIL_TEMPLATE_LABELS: Record<string, string> = {
   service_introduction: "Service Introduction",
   company_profile: "Company Profile",
@@ -143,6 +151,8 @@ export default function Leads() {
   const [moveDialogOpen, setMoveDialogOpen] = useState(false);
   const [copyDialogOpen, setCopyDialogOpen] = useState(false);
   const [targetFolderId, setTargetFolderId] = useState<string>("");
+  const [sequenceDialogOpen, setSequenceDialogOpen] = useState(false);
+  const [targetSequenceId, setTargetSequenceId] = useState<string>("");
   const [folderName, setFolderName] = useState("");
   const [folderColor, setFolderColor] = useState("#6366f1");
 
@@ -150,8 +160,12 @@ export default function Leads() {
   const [searchQuery, setSearchQuery] = useState("");
 
   const [statusFilter, setStatusFilter] = useState<string>("");
+  const [view, setView] = useState<"cards" | "board">("cards");
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
   const [sourceFilter, setSourceFilter] = useState<string>("");
   const [categoryFilter, setCategoryFilter] = useState<string>("");
+  const [minScoreFilter, setMinScoreFilter] = useState<string>("");
+  const [sortBy, setSortBy] = useState<"created" | "score">("created");
 
   // Bulk selection states
   const [selectedLeadIds, setSelectedLeadIds] = useState<Set<string>>(new Set());
@@ -166,6 +180,7 @@ export default function Leads() {
   const [uploadResult, setUploadResult] = useState<{
     success: number;
     failed: number;
+    assigned: number;
     errors: { row: number; name: string; error: string }[];
   } | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -196,10 +211,64 @@ export default function Leads() {
     enabled: !!selectedLeadForEmail,
   });
 
+  // Opens and clicks of the lead's tracked emails
+  const { data: emailEvents = [] } = useQuery<{ id: string; leadEmailId: string; type: string; url: string | null; createdAt: string; subject: string }[]>({
+    queryKey: ["/api/leads", selectedLeadForEmail?.id, "email-events"],
+    queryFn: () => apiRequest("GET", `/api/leads/${selectedLeadForEmail!.id}/email-events`),
+    enabled: !!selectedLeadForEmail,
+  });
+
+  // Sequences the lead is or was enrolled in
+  const { data: leadSequences = [] } = useQuery<(EmailSequenceEnrollment & { sequenceName: string; totalSteps: number })[]>({
+    queryKey: ["/api/leads", selectedLeadForEmail?.id, "sequences"],
+    queryFn: () => apiRequest("GET", `/api/leads/${selectedLeadForEmail!.id}/sequences`),
+    enabled: !!selectedLeadForEmail,
+  });
+
+  // Scoring rules the lead currently matches
+  const { data: scoreBreakdown } = useQuery<{ score: number; matches: { ruleId: string; name: string; points: number }[] }>({
+    queryKey: ["/api/leads", selectedLeadForEmail?.id, "score"],
+    queryFn: () => apiRequest("GET", `/api/leads/${selectedLeadForEmail!.id}/score`),
+    enabled: !!selectedLeadForEmail,
+  });
+
+  // Stage transitions of the lead
+  const { data: stageHistory = [] } = useQuery<{ id: string; fromStage: string | null; toStage: string; secondsInPreviousStage: number | null; changedAt: string; changedBy: string | null }[]>({
+    queryKey: ["/api/leads", selectedLeadForEmail?.id, "stage-history"],
+    queryFn: () => apiRequest("GET", `/api/leads/${selectedLeadForEmail!.id}/stage-history`),
+    enabled: !!selectedLeadForEmail,
+  });
+
+  // Replies captured from the IMAP mailbox
+  const { data: leadReplies = [] } = useQuery<LeadMessage[]>({
+    queryKey: ["/api/leads", selectedLeadForEmail?.id, "messages"],
+    queryFn: async () => {
+      const messages = await apiRequest<LeadMessage[]>("GET", `/api/leads/${selectedLeadForEmail!.id}/messages`);
+      return messages.filter(m => m.direction === "inbound");
+    },
+    enabled: !!selectedLeadForEmail,
+  });
+
+  const markRepliedMutation = useMutation({
+    mutationFn: (leadId: string) => apiRequest<{ exited: number }>("POST", `/api/leads/${leadId}/replied`),
+    onSuccess: (data, leadId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", leadId, "sequences"] });
+      toast({ title: "Success", description: `Lead removed from ${data.exited} active sequence(s)` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
   const handleSearch = () => {
     setSearchQuery(searchInput);
   };
 
+  // Pipeline stages, in order
+  const { data: stages = [] } = useQuery<LeadStage[]>({
+    queryKey: ["/api/lead-stages"],
+  });
+
   // Fetch categories from database
   const { data: categories = [] } = useQuery<{ id: number; name: string; isActive: boolean }[]>({
     queryKey: ["/api/lead-categories"],
@@ -219,11 +288,26 @@ export default function Leads() {
 
   const currentFolder = folders.find(f => f.id === currentFolderId);
 
+  // Assignees and the rules that picked them, shown on each lead
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: assignmentRules = [] } = useQuery<LeadAssignmentRule[]>({
+    queryKey: ["/api/lead-assignment-rules"],
+  });
+
+  const { data: sequences = [] } = useQuery<{ id: string; name: string; isActive: boolean }[]>({
+    queryKey: ["/api/email-sequences"],
+  });
+
   const queryParams = new URLSearchParams();
   if (searchQuery.trim()) queryParams.append("search", searchQuery);
   if (statusFilter.trim()) queryParams.append("status", statusFilter);
   if (sourceFilter.trim()) queryParams.append("source", sourceFilter);
   if (categoryFilter.trim()) queryParams.append("category", categoryFilter);
+  if (minScoreFilter) queryParams.append("minScore", minScoreFilter);
+  if (sortBy === "score") queryParams.append("sort", "score");
 
   if (currentFolderId) {
     queryParams.append("folderId", currentFolderId);
@@ -248,6 +332,26 @@ export default function Leads() {
     placeholderData: keepPreviousData,
   });
 
+  // Move a lead on the board; the card moves right away and is put back on error
+  const stageMutation = useMutation({
+    mutationFn: ({ lead, status }: { lead: Lead; status: string }) =>
+      apiRequest<Lead>("PATCH", `/api/leads/${lead.id}`, { status }),
+    onMutate: ({ lead, status }) => {
+      const key = ["leads", queryString];
+      const previous = queryClient.getQueryData<Lead[]>(key);
+      queryClient.setQueryData<Lead[]>(key, (old = []) => old.map(l => (l.id === lead.id ? { ...l, status } : l)));
+      return { key, previous };
+    },
+    onError: (error: Error, _vars, context) => {
+      if (context?.previous) queryClient.setQueryData(context.key, context.previous);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+    onSettled: (_data, _error, { lead }) => {
+      queryClient.invalidateQueries({ queryKey: ["leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "stage-history"] });
+    },
+  });
+
   // Create Lead
   const createMutation = useMutation({
     mutationFn: (data: LeadFormData) => apiRequest("POST", "/api/leads", data),
@@ -413,6 +517,26 @@ export default function Leads() {
     }
   });
 
+  // Bulk Actions: Enroll in Email Sequence
+  const enrollSequenceMutation = useMutation({
+    mutationFn: async ({ leadIds, sequenceId }: { leadIds: string[], sequenceId: string }) => {
+      return apiRequest<{ enrolled: number; skipped: number }>("POST", `/api/email-sequences/${sequenceId}/enroll`, { leadIds });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-sequences"] });
+      toast({
+        title: "Success",
+        description: `${data.enrolled} lead(s) enrolled${data.skipped > 0 ? `, ${data.skipped} skipped (already enrolled, no email, or closed)` : ""}`,
+      });
+      setSequenceDialogOpen(false);
+      setTargetSequenceId("");
+      setSelectedLeadIds(new Set());
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
   // SweetAlert2 delete confirmation
   const handleDelete = async (id: string) => {
     const result = await Swal.fire({
@@ -583,7 +707,7 @@ export default function Leads() {
       name: "",
       email: "",
       phone: "",
-      status: "new",
+      status: stages[0]?.key ?? "new",
       source: undefined,
       notes: "",
       followUpDate: "",
@@ -621,6 +745,7 @@ export default function Leads() {
       setUploadResult({
         success: result.success,
         failed: result.failed,
+        assigned: result.assigned ?? 0,
         errors: result.errors || [],
       });
 
@@ -658,19 +783,12 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
     URL.revokeObjectURL(link.href);
   };
 
-  const statusColor = (status: string) => {
-    switch (status) {
-      case "new":
-        return "bg-blue-200 text-blue-800";
-      case "contacted":
-        return "bg-yellow-200 text-yellow-800";
-      case "qualified":
-        return "bg-green-200 text-green-800";
-      case "converted":
-        return "bg-purple-200 text-purple-800";
-      default:
-        return "bg-gray-200 text-gray-700";
-    }
+  const stageFor = (status: string) => stages.find(stage => stage.key === status);
+
+  // Stage colour as a tinted badge; unknown statuses stay grey
+  const stageBadgeStyle = (status: string) => {
+    const color = stageFor(status)?.color;
+    return color ? { backgroundColor: `${color}33`, color } : undefined;
   };
 
   return (
@@ -682,6 +800,36 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
           <p className="text-sm text-muted-foreground">Manage your clients</p>
         </div>
         <div className="flex gap-2 flex-wrap">
+          <Button variant="outline" asChild data-testid="button-lead-assignment">
+            <Link href="/leads/assignment">
+              <UserPlus className="w-4 h-4 mr-2" /> Assignment
+            </Link>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-lead-duplicates">
+            <Link href="/leads/duplicates">
+              <CopyCheck className="w-4 h-4 mr-2" /> Duplicates
+            </Link>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-scoring-rules">
+            <Link href="/leads/scoring">
+              <Gauge className="w-4 h-4 mr-2" /> Scoring Rules
+            </Link>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-pipeline-stages">
+            <Link href="/leads/stages">
+              <Workflow className="w-4 h-4 mr-2" /> Pipeline Stages
+            </Link>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-email-sequences">
+            <Link href="/leads/sequences">
+              <ListOrdered className="w-4 h-4 mr-2" /> Email Sequences
+            </Link>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-email-suppressions">
+            <Link href="/leads/suppressions">
+              <Ban className="w-4 h-4 mr-2" /> Suppression List
+            </Link>
+          </Button>
           <Button variant="outline" onClick={() => setSmartFinderOpen(true)} data-testid="button-smart-finder">
             <Sparkles className="w-4 h-4 mr-2" /> Smart Lead Finder
           </Button>
@@ -818,10 +966,9 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value={ALL_SENTINEL}>All Statuses</SelectItem>
-                <SelectItem value="new">New</SelectItem>
-                <SelectItem value="contacted">Contacted</SelectItem>
-                <SelectItem value="qualified">Qualified</SelectItem>
-                <SelectItem value="converted">Converted</SelectItem>
+                {stages.map(stage => (
+                  <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -866,7 +1013,38 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
               </SelectContent>
             </Select>
 
-            {(statusFilter || sourceFilter || searchQuery || categoryFilter) && (
+            {/* Score */}
+            <Select
+              value={minScoreFilter || ALL_SENTINEL}
+              onValueChange={(v) =>
+                setMinScoreFilter(v === ALL_SENTINEL ? "" : v)
+              }
+            >
+              <SelectTrigger className="w-40" data-testid="select-min-score">
+                <SelectValue placeholder="Filter by score" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SENTINEL}>Any Score</SelectItem>
+                {["20", "40", "60", "80"].map((min) => (
+                  <SelectItem key={min} value={min}>
+                    Score {min}+
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Sort */}
+            <Select value={sortBy} onValueChange={(v) => setSortBy(v as "created" | "score")}>
+              <SelectTrigger className="w-44" data-testid="select-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created">Newest First</SelectItem>
+                <SelectItem value="score">Highest Score</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {(statusFilter || sourceFilter || searchQuery || categoryFilter || minScoreFilter) && (
               <Button
                 variant="outline"
                 onClick={() => {
@@ -875,6 +1053,7 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                   setStatusFilter("");
                   setSourceFilter("");
                   setCategoryFilter("");
+                  setMinScoreFilter("");
                 }}
               >
                 Clear All
@@ -992,10 +1171,9 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="new">New</SelectItem>
-                          <SelectItem value="contacted">Contacted</SelectItem>
-                          <SelectItem value="qualified">Qualified</SelectItem>
-                          <SelectItem value="converted">Converted</SelectItem>
+                          {stages.map(stage => (
+                            <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -1075,6 +1253,8 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
         </DialogContent>
       </Dialog>
 
+      <BulkEmailProgress />
+
       {/* Bulk Selection Bar */}
       {selectedLeadIds.size > 0 && (
         <Card className="mb-4 border-primary">
@@ -1116,6 +1296,13 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
               >
                 <Copy className="w-4 h-4 mr-2" /> Copy
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setSequenceDialogOpen(true)}
+                data-testid="button-add-to-sequence"
+              >
+                <ListOrdered className="w-4 h-4 mr-2" /> Add to Sequence
+              </Button>
               <Button
                 onClick={() => setBulkMessageOpen(true)}
                 data-testid="button-bulk-message"
@@ -1128,9 +1315,36 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
         </Card>
       )}
 
+      {/* VIEW TOGGLE */}
+      <div className="flex justify-end gap-1">
+        <Button
+          variant={view === "cards" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setView("cards")}
+          data-testid="button-view-cards"
+        >
+          <LayoutGrid className="w-4 h-4 mr-2" /> Cards
+        </Button>
+        <Button
+          variant={view === "board" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setView("board")}
+          data-testid="button-view-board"
+        >
+          <Kanban className="w-4 h-4 mr-2" /> Board
+        </Button>
+      </div>
+
       {/* LEADS LIST */}
       {isLoading ? (
         <p>Loading...</p>
+      ) : view === "board" ? (
+        <LeadKanban
+          leads={leads}
+          stages={stages}
+          onStageChange={(lead, status) => stageMutation.mutate({ lead, status })}
+          onOpen={handleEdit}
+        />
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {leads.map((lead) => {
@@ -1179,6 +1393,21 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                   >
                     <Send className="w-4 h-4 text-blue-600" />
                   </Button>
+                  {!lead.convertedClientId && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setConvertingLead(lead);
+                      }}
+                      title="Convert to Client"
+                      data-testid={`button-convert-${lead.id}`}
+                      className="bg-green-50 hover:bg-green-100 dark:bg-green-900/20 dark:hover:bg-green-900/40"
+                    >
+                      <UserCheck className="w-4 h-4 text-green-600" />
+                    </Button>
+                  )}
                   <Button
                     size="icon"
                     variant="ghost"
@@ -1197,14 +1426,22 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                 <CardContent className="p-6 pt-10 space-y-2">
                   <h3 className="font-bold text-lg">{lead.name}</h3>
                   <div className="flex flex-wrap gap-1">
-                    <Badge className={statusColor(lead.status)}>
-                      {lead.status}
+                    <Badge variant="secondary" style={stageBadgeStyle(lead.status)}>
+                      {stageFor(lead.status)?.name ?? lead.status}
                     </Badge>
                     {lead.category && (
                       <Badge variant="outline" data-testid={`badge-category-${lead.id}`}>
                         {lead.category}
                       </Badge>
                     )}
+                    <Badge variant="outline" title="Lead score" data-testid={`badge-score-${lead.id}`}>
+                      <Gauge className="w-3 h-3 mr-1" /> {lead.score}
+                    </Badge>
+                    {lead.convertedClientId && (
+                      <Badge variant="outline" className="border-green-600 text-green-700" data-testid={`badge-client-${lead.id}`}>
+                        <UserCheck className="w-3 h-3 mr-1" /> Client
+                      </Badge>
+                    )}
                   </div>
 
                   <div className="text-sm space-y-1">
@@ -1227,6 +1464,13 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                     <p className="text-xs text-muted-foreground">
                       Source: {lead.source}
                     </p>
+
+                    <p className="text-xs text-muted-foreground" data-testid={`text-assignee-${lead.id}`}>
+                      Assigned: {lead.assignedTo ? users.find(u => u.id === lead.assignedTo)?.fullName ?? "Another user" : "Nobody"}
+                      {lead.assignmentRuleId && (
+                        <> (rule: {assignmentRules.find(r => r.id === lead.assignmentRuleId)?.name ?? "deleted"})</>
+                      )}
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -1235,6 +1479,9 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
         </div>
       )}
 
+      {/* Convert to Client Dialog */}
+      <LeadConvertDialog lead={convertingLead} onOpenChange={(open) => !open && setConvertingLead(null)} />
+
       {/* Smart Lead Finder Dialog */}
       <SmartLeadFinder open={smartFinderOpen} onOpenChange={setSmartFinderOpen} />
 
@@ -1264,7 +1511,7 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                 Your file must include these columns: <strong>name</strong>, <strong>email</strong>, phone, status, source, notes, followUpDate
               </p>
               <div className="text-xs text-muted-foreground mb-3 space-y-1">
-                <p><strong>Valid statuses:</strong> new, contacted, qualified, converted</p>
+                <p><strong>Valid statuses:</strong> {stages.map(stage => stage.key).join(", ")}</p>
                 <p><strong>Valid sources:</strong> Facebook, LinkedIn, Fiverr, Upwork, Freelancer.com, People per Hour, Reference, Local Market, Legit</p>
                 <p><strong>Date format:</strong> YYYY-MM-DD (e.g., 2025-01-15)</p>
               </div>
@@ -1315,6 +1562,12 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                     <CheckCircle2 className="w-5 h-5" />
                     <span className="font-medium">{uploadResult.success} successful</span>
                   </div>
+                  {uploadResult.assigned > 0 && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <UserPlus className="w-5 h-5" />
+                      <span className="font-medium">{uploadResult.assigned} auto-assigned</span>
+                    </div>
+                  )}
                   {uploadResult.failed > 0 && (
                     <div className="flex items-center gap-2 text-red-600">
                       <AlertCircle className="w-5 h-5" />
@@ -1492,6 +1745,149 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
               </Button>
             </div>
 
+            {/* Email Sequences */}
+            {leadSequences.length > 0 && (
+              <div className="border-t pt-4">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2">
+                    <ListOrdered className="w-4 h-4" />
+                    <label className="text-sm font-medium">Email Sequences</label>
+                  </div>
+                  {leadSequences.some(s => s.status === "active") && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => selectedLeadForEmail && markRepliedMutation.mutate(selectedLeadForEmail.id)}
+                      disabled={markRepliedMutation.isPending}
+                      data-testid="button-mark-replied"
+                    >
+                      Lead Replied
+                    </Button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {leadSequences.map((enrollment) => (
+                    <div key={enrollment.id} className="flex items-center justify-between p-2 rounded-md bg-muted/50">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{enrollment.sequenceName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {enrollment.stepsSent} of {enrollment.totalSteps} sent
+                          {enrollment.nextSendAt && ` · next ${new Date(enrollment.nextSendAt).toLocaleDateString()}`}
+                          {enrollment.exitReason && ` · ${enrollment.exitReason.replace(/_/g, " ")}`}
+                          {enrollment.skippedSteps > 0 && ` · ${enrollment.skippedSteps} skipped`}
+                        </p>
+                      </div>
+                      <Badge variant={enrollment.status === "active" ? "default" : "secondary"}>{enrollment.status}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Score */}
+            {scoreBreakdown && (
+              <div className="border-t pt-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Gauge className="w-4 h-4" />
+                  <label className="text-sm font-medium">Score: {scoreBreakdown.score}</label>
+                </div>
+                {scoreBreakdown.matches.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No scoring rules match this lead.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {scoreBreakdown.matches.map((match) => (
+                      <Badge key={match.ruleId} variant={match.points < 0 ? "destructive" : "secondary"}>
+                        {match.name} {match.points > 0 ? `+${match.points}` : match.points}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Stage History */}
+            {stageHistory.length > 0 && (
+              <div className="border-t pt-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Workflow className="w-4 h-4" />
+                  <label className="text-sm font-medium">Stage History</label>
+                </div>
+                <div className="space-y-2">
+                  {stageHistory.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`stage-history-${entry.id}`}>
+                      <div className="flex items-center gap-1 min-w-0">
+                        {entry.fromStage && (
+                          <>
+                            <Badge variant="secondary" style={stageBadgeStyle(entry.fromStage)}>{stageFor(entry.fromStage)?.name ?? entry.fromStage}</Badge>
+                            <span className="text-muted-foreground">&rarr;</span>
+                          </>
+                        )}
+                        <Badge variant="secondary" style={stageBadgeStyle(entry.toStage)}>{stageFor(entry.toStage)?.name ?? entry.toStage}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground text-right flex-shrink-0">
+                        <p>{new Date(entry.changedAt).toLocaleString()}{entry.changedBy ? ` by ${entry.changedBy}` : ""}</p>
+                        {entry.secondsInPreviousStage != null && <p>after {formatDuration(entry.secondsInPreviousStage)}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Replies */}
+            {leadReplies.length > 0 && (
+              <div className="border-t pt-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Reply className="w-4 h-4" />
+                  <label className="text-sm font-medium">Replies</label>
+                </div>
+                <ScrollArea className="h-48">
+                  <div className="space-y-2">
+                    {leadReplies.map((reply) => (
+                      <div key={reply.id} className="p-2 rounded-md bg-muted/50" data-testid={`lead-reply-${reply.id}`}>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium truncate">{reply.subject}</p>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">{new Date(reply.sentAt).toLocaleString()}</span>
+                        </div>
+                        {reply.fromAddress && <p className="text-xs text-muted-foreground">{reply.fromAddress}</p>}
+                        <p className="text-sm whitespace-pre-wrap line-clamp-4 mt-1">{reply.message}</p>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+
+            {/* Open/Click Timeline */}
+            {emailEvents.length > 0 && (
+              <div className="border-t pt-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Eye className="w-4 h-4" />
+                  <label className="text-sm font-medium">Engagement</label>
+                </div>
+                <ScrollArea className="h-40">
+                  <div className="space-y-2">
+                    {emailEvents.map((event) => (
+                      <div key={event.id} className="flex items-start gap-2 text-sm" data-testid={`email-event-${event.id}`}>
+                        {event.type === "click" ? (
+                          <MousePointerClick className="w-4 h-4 mt-0.5 text-purple-600 flex-shrink-0" />
+                        ) : (
+                          <Eye className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="truncate">
+                            {event.type === "click" ? "Clicked a link in" : "Opened"} <span className="font-medium">{event.subject}</span>
+                          </p>
+                          {event.url && <p className="text-xs text-muted-foreground truncate">{event.url}</p>}
+                          <p className="text-xs text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+
             {/* Email History */}
             <div className="border-t pt-4">
               <div className="flex items-center gap-2 mb-3">
@@ -1523,6 +1919,18 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                           </p>
                         </div>
                         <div className="flex items-center gap-1">
+                          {email.openCount > 0 && (
+                            <Badge variant="outline" className="text-blue-600 border-blue-600" data-testid={`email-opened-${email.id}`}>
+                              <Eye className="w-3 h-3 mr-1" />
+                              Opened{email.openCount > 1 ? ` ×${email.openCount}` : ""}
+                            </Badge>
+                          )}
+                          {email.clickCount > 0 && (
+                            <Badge variant="outline" className="text-purple-600 border-purple-600" data-testid={`email-clicked-${email.id}`}>
+                              <MousePointerClick className="w-3 h-3 mr-1" />
+                              Clicked{email.clickCount > 1 ? ` ×${email.clickCount}` : ""}
+                            </Badge>
+                          )}
                           {email.status === "sent" ? (
                             <Badge variant="outline" className="text-green-600 border-green-600">
                               <Check className="w-3 h-3 mr-1" />
@@ -1670,13 +2078,15 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                       attachments: bulkMessageAttachments,
                     });
 
-                    const result = response as { success: number; failed: number; errors: string[] };
+                    const job = response as BulkEmailJob;
+                    const queued = job.totalRecipients - job.skippedCount;
 
-                    if (result.success > 0) {
+                    if (queued > 0) {
                       toast({
-                        title: "Bulk Message Sent",
-                        description: `Successfully sent to ${result.success} recipient${result.success !== 1 ? 's' : ''}${result.failed > 0 ? `. ${result.failed} failed.` : ''}`,
+                        title: "Bulk Message Queued",
+                        description: `Sending to ${queued} recipient${queued !== 1 ? 's' : ''} in the background${job.skippedCount > 0 ? `. ${job.skippedCount} skipped (no email or unsubscribed).` : ''}`,
                       });
+                      queryClient.invalidateQueries({ queryKey: ["/api/bulk-email-jobs?active=true"] });
                       setBulkMessageOpen(false);
                       setSelectedLeadIds(new Set());
                       setBulkMessageSubject("");
@@ -1685,7 +2095,7 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
                     } else {
                       toast({
                         title: "Send Failed",
-                        description: result.errors.join(", ") || "Failed to send messages",
+                        description: "None of the selected leads has an email address that can be mailed",
                         variant: "destructive",
                       });
                     }
@@ -1787,6 +2197,33 @@ Jane Smith,jane@example.com,+0987654321,contacted,LinkedIn,Another lead,2025-02-
         </DialogContent>
       </Dialog>
 
+      {/* Add to Sequence Dialog */}
+      <Dialog open={sequenceDialogOpen} onOpenChange={setSequenceDialogOpen}>
+        <DialogContent>
+          <DialogHeader><DialogTitle>Add {selectedLeadIds.size} Leads to Sequence</DialogTitle></DialogHeader>
+          <div className="py-4">
+            <label className="text-sm font-medium mb-2 block">Select Email Sequence</label>
+            <Select value={targetSequenceId} onValueChange={setTargetSequenceId}>
+              <SelectTrigger data-testid="select-target-sequence"><SelectValue placeholder="Choose sequence..." /></SelectTrigger>
+              <SelectContent>
+                {sequences.filter(s => s.isActive).map(s => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setSequenceDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!targetSequenceId || enrollSequenceMutation.isPending}
+              onClick={() => enrollSequenceMutation.mutate({ leadIds: Array.from(selectedLeadIds), sequenceId: targetSequenceId })}
+            >
+              Enroll
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Copy Dialog */}
       <Dialog open={copyDialogOpen} onOpenChange={setCopyDialogOpen}>
         <DialogContent>
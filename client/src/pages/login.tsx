@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -8,6 +8,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
+import { storeSession } from "@/lib/queryClient";
+import { TwoFactorLoginStep } from "@/components/two-factor";
 import { Shield, Users, BarChart3, Zap, CheckCircle2, Eye, EyeOff } from "lucide-react";
 import logoImage from "@assets/Untitled_design__1_-removebg-preview_1764044009686.png";
 
@@ -24,6 +26,7 @@ export default function Login() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [challenge, setChallenge] = useState<{ token: string; mode: "verify" | "setup" } | null>(null);
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -33,6 +36,22 @@ export default function Login() {
     },
   });
 
+  const completeLogin = ({ user, ...tokens }: any) => {
+    storeSession(tokens);
+    login(user);
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully logged in.",
+    });
+    if (typeof tokens.recoveryCodesRemaining === "number" && tokens.recoveryCodesRemaining <= 2) {
+      toast({
+        title: "Recovery codes running low",
+        description: `Only ${tokens.recoveryCodesRemaining} recovery code(s) left. Generate new ones in Settings.`,
+      });
+    }
+    setLocation(user.mustChangePassword ? "/change-password" : "/dashboard");
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
     try {
@@ -42,22 +61,21 @@ export default function Login() {
         body: JSON.stringify(data),
       });
 
+      const result = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error("Invalid credentials");
+        // Throttled and locked-out attempts carry their own explanation
+        throw new Error(response.status === 429 ? result.error : "Invalid email or password");
       }
 
-      const { user, token } = await response.json();
-      localStorage.setItem("token", token);
-      login(user);
-      toast({
-        title: "Welcome back!",
-        description: "You have successfully logged in.",
-      });
-      setLocation("/dashboard");
-    } catch (error) {
+      if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+        setChallenge({ token: result.challengeToken, mode: result.twoFactorRequired ? "verify" : "setup" });
+        return;
+      }
+      completeLogin(result);
+    } catch (error: any) {
       toast({
         title: "Login failed",
-        description: "Invalid email or password",
+        description: error.message || "Invalid email or password",
         variant: "destructive",
       });
     } finally {
@@ -151,78 +169,87 @@ export default function Login() {
 
           {/* Login Form */}
           <div className="bg-card rounded-2xl border shadow-sm p-8">
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium">Email Address</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="you@example.com"
-                          className="h-12 px-4 bg-background border-border/50 focus:border-primary transition-colors"
-                          {...field}
-                          data-testid="input-email"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium">Password</FormLabel>
-                      <FormControl>
-                        <div className="relative">
+            {challenge ? (
+              <TwoFactorLoginStep
+                challengeToken={challenge.token}
+                mode={challenge.mode}
+                onComplete={completeLogin}
+                onCancel={() => setChallenge(null)}
+              />
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Email Address</FormLabel>
+                        <FormControl>
                           <Input
-                            type={showPassword ? "text" : "password"}
-                            placeholder="Enter your password"
-                            className="h-12 px-4 pr-12 bg-background border-border/50 focus:border-primary transition-colors"
+                            placeholder="you@example.com"
+                            className="h-12 px-4 bg-background border-border/50 focus:border-primary transition-colors"
                             {...field}
-                            data-testid="input-password"
+                            data-testid="input-email"
                           />
-                          <button
-                            type="button"
-                            onClick={() => setShowPassword(!showPassword)}
-                            className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                            data-testid="button-toggle-password"
-                          >
-                            {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                          </button>
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="flex items-center justify-between text-sm">
-                  <a href="#" className="text-primary hover:underline font-medium">Forgot password?</a>
-                </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Password</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Input
+                              type={showPassword ? "text" : "password"}
+                              placeholder="Enter your password"
+                              className="h-12 px-4 pr-12 bg-background border-border/50 focus:border-primary transition-colors"
+                              {...field}
+                              data-testid="input-password"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setShowPassword(!showPassword)}
+                              className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                              data-testid="button-toggle-password"
+                            >
+                              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                            </button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex items-center justify-between text-sm">
+                    <Link href="/forgot-password" className="text-primary hover:underline font-medium" data-testid="link-forgot-password">Forgot password?</Link>
+                  </div>
 
-                <Button
-                  type="submit"
-                  className="w-full h-12 text-base font-semibold shadow-lg hover:shadow-xl transition-all"
-                  disabled={isLoading}
-                  data-testid="button-login"
-                >
-                  {isLoading ? (
-                    <span className="flex items-center gap-2">
-                      <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Signing in...
-                    </span>
-                  ) : "Sign In"}
-                </Button>
-              </form>
-            </Form>
+                  <Button
+                    type="submit"
+                    className="w-full h-12 text-base font-semibold shadow-lg hover:shadow-xl transition-all"
+                    disabled={isLoading}
+                    data-testid="button-login"
+                  >
+                    {isLoading ? (
+                      <span className="flex items-center gap-2">
+                        <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        Signing in...
+                      </span>
+                    ) : "Sign In"}
+                  </Button>
+                </form>
+              </Form>
+            )}
           </div>
 
           {/* Footer */}
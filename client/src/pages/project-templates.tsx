@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TASK_RECURRENCE_FREQUENCIES, type Client, type Project, type ProjectTemplate, type ProjectTemplateTask } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Pencil, Trash, ArrowLeft, LayoutTemplate, Play, Repeat, X } from "lucide-react";
+import Swal from "sweetalert2";
+
+interface TaskDraft {
+  title: string;
+  priority: string;
+  startOffsetDays: string;
+  deadlineOffsetDays: string;
+  estimatedHours: string;
+  checklist: string;
+  recurrence: string;
+  recurrenceInterval: number;
+}
+
+interface TemplateDraft {
+  name: string;
+  description: string;
+  durationDays: string;
+  tasks: TaskDraft[];
+}
+
+const NO_RECURRENCE = "__no_recurrence__";
+
+const EMPTY_TASK: TaskDraft = {
+  title: "",
+  priority: "medium",
+  startOffsetDays: "",
+  deadlineOffsetDays: "",
+  estimatedHours: "",
+  checklist: "",
+  recurrence: NO_RECURRENCE,
+  recurrenceInterval: 1,
+};
+
+const EMPTY_DRAFT: TemplateDraft = { name: "", description: "", durationDays: "", tasks: [{ ...EMPTY_TASK }] };
+
+const optionalNumber = (value: string) => value.trim() === "" ? null : Number(value);
+
+const toTaskDraft = (task: ProjectTemplateTask): TaskDraft => ({
+  title: task.title,
+  priority: task.priority,
+  startOffsetDays: task.startOffsetDays != null ? String(task.startOffsetDays) : "",
+  deadlineOffsetDays: task.deadlineOffsetDays != null ? String(task.deadlineOffsetDays) : "",
+  estimatedHours: task.estimatedHours != null ? String(task.estimatedHours) : "",
+  checklist: task.checklist.join("\n"),
+  recurrence: task.recurrence ?? NO_RECURRENCE,
+  recurrenceInterval: task.recurrenceInterval ?? 1,
+});
+
+const describeOffsets = (task: ProjectTemplateTask) => {
+  if (task.startOffsetDays == null && task.deadlineOffsetDays == null) return "No dates";
+  if (task.deadlineOffsetDays == null) return `Starts day ${task.startOffsetDays}`;
+  return task.startOffsetDays != null
+    ? `Day ${task.startOffsetDays} – ${task.deadlineOffsetDays}`
+    : `Due day ${task.deadlineOffsetDays}`;
+};
+
+export default function ProjectTemplates() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const canManage = user?.role === "admin" || user?.role === "operational_head";
+  const [editing, setEditing] = useState<ProjectTemplate | null>(null);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  // Template being applied, with the new project's details
+  const [applying, setApplying] = useState<ProjectTemplate | null>(null);
+  const [applyForm, setApplyForm] = useState({ clientId: "", name: "", startDate: "" });
+
+  const { data: templates = [], isLoading } = useQuery<ProjectTemplate[]>({
+    queryKey: ["/api/project-templates"],
+  });
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: canManage,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/project-templates"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: TemplateDraft) => {
+      const body = {
+        name: data.name.trim(),
+        description: data.description.trim() || null,
+        durationDays: optionalNumber(data.durationDays),
+        tasks: data.tasks.map(task => ({
+          title: task.title.trim(),
+          priority: task.priority,
+          startOffsetDays: optionalNumber(task.startOffsetDays),
+          deadlineOffsetDays: optionalNumber(task.deadlineOffsetDays),
+          estimatedHours: optionalNumber(task.estimatedHours),
+          checklist: task.checklist.split("\n").map(line => line.trim()).filter(Boolean),
+          recurrence: task.recurrence === NO_RECURRENCE ? null : task.recurrence,
+          recurrenceInterval: task.recurrenceInterval,
+        })),
+      };
+      return editing
+        ? apiRequest("PATCH", `/api/project-templates/${editing.id}`, body)
+        : apiRequest("POST", "/api/project-templates", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing ? "Template updated" : "Template created" });
+      setOpen(false);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (template: ProjectTemplate) =>
+      apiRequest("PATCH", `/api/project-templates/${template.id}`, { isActive: !template.isActive }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/project-templates/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Template deleted" });
+    },
+    onError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => apiRequest<{ project: Project }>("POST", `/api/project-templates/${applying!.id}/apply`, {
+      clientId: applyForm.clientId,
+      name: applyForm.name.trim() || undefined,
+      startDate: applyForm.startDate || undefined,
+    }),
+    onSuccess: ({ project }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({ title: "Project created", description: `${project.name} is ready with its tasks` });
+      setApplying(null);
+      setLocation("/projects");
+    },
+    onError,
+  });
+
+  const handleNew = () => {
+    setEditing(null);
+    setDraft({ ...EMPTY_DRAFT, tasks: [{ ...EMPTY_TASK }] });
+    setOpen(true);
+  };
+
+  const handleEdit = (template: ProjectTemplate) => {
+    setEditing(template);
+    setDraft({
+      name: template.name,
+      description: template.description ?? "",
+      durationDays: template.durationDays ? String(template.durationDays) : "",
+      tasks: template.tasks.map(toTaskDraft),
+    });
+    setOpen(true);
+  };
+
+  const handleApply = (template: ProjectTemplate) => {
+    setApplying(template);
+    setApplyForm({ clientId: "", name: "", startDate: "" });
+  };
+
+  const updateTask = (index: number, changes: Partial<TaskDraft>) => {
+    setDraft(d => ({ ...d, tasks: d.tasks.map((task, i) => i === index ? { ...task, ...changes } : task) }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Template name is required", variant: "destructive" });
+      return;
+    }
+    if (draft.tasks.length === 0 || draft.tasks.some(task => !task.title.trim())) {
+      toast({ title: "Error", description: "Every task needs a title", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const handleDelete = async (template: ProjectTemplate) => {
+    const result = await Swal.fire({
+      title: `Delete "${template.name}"?`,
+      text: "Projects already created from it are not affected.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) deleteMutation.mutate(template.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/projects" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-1">
+            <ArrowLeft className="w-3 h-3" /> Projects
+          </Link>
+          <h1 className="text-3xl font-bold">Project Templates</h1>
+          <p className="text-muted-foreground">Reusable task lists; task dates are days from the project's start</p>
+        </div>
+        {canManage && (
+          <Button onClick={handleNew} data-testid="button-new-project-template">
+            <Plus className="w-4 h-4 mr-2" /> New Template
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p>Loading templates...</p>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-10 bg-muted/20 rounded-lg">
+          <LayoutTemplate className="w-10 h-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No templates yet. Save the tasks you repeat for every client as a template.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {templates.map(template => (
+            <Card key={template.id} data-testid={`card-project-template-${template.id}`}>
+              <CardContent className="p-6 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{template.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {template.tasks.length} task{template.tasks.length === 1 ? "" : "s"}
+                      {template.durationDays && ` · ${template.durationDays} days`}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <Switch
+                      checked={template.isActive}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={() => toggleMutation.mutate(template)}
+                      data-testid={`switch-project-template-${template.id}`}
+                    />
+                  )}
+                </div>
+                {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+                <ul className="text-sm space-y-1">
+                  {template.tasks.map((task, i) => (
+                    <li key={i} className="flex items-center justify-between gap-2">
+                      <span className="truncate">{task.title}</span>
+                      <span className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                        {task.recurrence && (
+                          <Badge variant="outline" className="capitalize">
+                            <Repeat className="w-3 h-3 mr-1" /> {task.recurrence}
+                          </Badge>
+                        )}
+                        {task.checklist.length > 0 && `${task.checklist.length} checks · `}
+                        {describeOffsets(task)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {canManage && (
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => handleEdit(template)} data-testid={`button-edit-project-template-${template.id}`}>
+                      <Pencil className="w-4 h-4 mr-1" /> Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleDelete(template)} data-testid={`button-delete-project-template-${template.id}`}>
+                      <Trash className="w-4 h-4 mr-1" /> Delete
+                    </Button>
+                    <Button size="sm" onClick={() => handleApply(template)} disabled={!template.isActive} data-testid={`button-apply-project-template-${template.id}`}>
+                      <Play className="w-4 h-4 mr-1" /> Use template
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>Offsets are days after the project's start date; leave them empty for undated tasks.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 grid-cols-3">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                  placeholder="e.g. Monthly website maintenance"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-duration">Length (days)</Label>
+                <Input
+                  id="template-duration"
+                  type="number"
+                  min={1}
+                  value={draft.durationDays}
+                  onChange={(e) => setDraft(d => ({ ...d, durationDays: e.target.value }))}
+                  placeholder="Last task deadline"
+                  data-testid="input-template-duration"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={draft.description}
+                onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+                rows={2}
+                data-testid="input-template-description"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Tasks</Label>
+              {draft.tasks.map((task, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-3" data-testid={`template-task-${index}`}>
+                  <div className="flex gap-2">
+                    <Input
+                      value={task.title}
+                      onChange={(e) => updateTask(index, { title: e.target.value })}
+                      placeholder="Task title"
+                      data-testid={`input-template-task-title-${index}`}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft(d => ({ ...d, tasks: d.tasks.filter((_, i) => i !== index) }))}
+                      disabled={draft.tasks.length === 1}
+                      data-testid={`button-remove-template-task-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid gap-2 grid-cols-2 md:grid-cols-5">
+                    <Select value={task.priority} onValueChange={(value) => updateTask(index, { priority: value })}>
+                      <SelectTrigger data-testid={`select-template-task-priority-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="low">Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={task.startOffsetDays}
+                      onChange={(e) => updateTask(index, { startOffsetDays: e.target.value })}
+                      placeholder="Start day"
+                      data-testid={`input-template-task-start-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      value={task.deadlineOffsetDays}
+                      onChange={(e) => updateTask(index, { deadlineOffsetDays: e.target.value })}
+                      placeholder="Due day"
+                      data-testid={`input-template-task-deadline-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.25"
+                      value={task.estimatedHours}
+                      onChange={(e) => updateTask(index, { estimatedHours: e.target.value })}
+                      placeholder="Hours"
+                      data-testid={`input-template-task-hours-${index}`}
+                    />
+                    <Select value={task.recurrence} onValueChange={(value) => updateTask(index, { recurrence: value })}>
+                      <SelectTrigger data-testid={`select-template-task-recurrence-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_RECURRENCE}>Once</SelectItem>
+                        {TASK_RECURRENCE_FREQUENCIES.map(frequency => (
+                          <SelectItem key={frequency} value={frequency} className="capitalize">{frequency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    value={task.checklist}
+                    onChange={(e) => updateTask(index, { checklist: e.target.value })}
+                    placeholder="Checklist, one item per line"
+                    rows={2}
+                    data-testid={`input-template-task-checklist-${index}`}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(d => ({ ...d, tasks: [...d.tasks, { ...EMPTY_TASK }] }))}
+                data-testid="button-add-template-task"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add Task
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-project-template">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!applying} onOpenChange={(isOpen) => !isOpen && setApplying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Use "{applying?.name}"</DialogTitle>
+            <DialogDescription>Creates a project for the client with the template's {applying?.tasks.length} task(s).</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={applyForm.clientId} onValueChange={(value) => setApplyForm(f => ({ ...f, clientId: value }))}>
+                <SelectTrigger data-testid="select-apply-template-client">
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apply-template-name">Project Name</Label>
+              <Input
+                id="apply-template-name"
+                value={applyForm.name}
+                onChange={(e) => setApplyForm(f => ({ ...f, name: e.target.value }))}
+                placeholder={`${applying?.name} – client name`}
+                data-testid="input-apply-template-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apply-template-start">Start Date</Label>
+              <Input
+                id="apply-template-start"
+                type="date"
+                value={applyForm.startDate}
+                onChange={(e) => setApplyForm(f => ({ ...f, startDate: e.target.value }))}
+                data-testid="input-apply-template-start"
+              />
+              <p className="text-xs text-muted-foreground">Defaults to today</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setApplying(null)}>Cancel</Button>
+              <Button
+                onClick={() => applyMutation.mutate()}
+                disabled={!applyForm.clientId || applyMutation.isPending}
+                data-testid="button-confirm-apply-template"
+              >
+                {applyMutation.isPending ? "Creating..." : "Create Project"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
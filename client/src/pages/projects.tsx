@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { Plus, Calendar, DollarSign } from "lucide-react";
+import { Plus, Calendar, DollarSign, GanttChart, Flag, LayoutTemplate } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -17,6 +18,9 @@ import { useToast } from "@/hooks/use-toast";
 import { insertProjectSchema, type Project, type Client } from "@shared/schema";
 import { z } from "zod";
 import { normalizeProjectData } from "@/lib/normalizeDateInputs";
+import { ProjectGanttDialog } from "@/components/project-gantt";
+import { ProjectMilestonesDialog } from "@/components/project-milestones";
+import { useAuth } from "@/lib/auth-context";
 
 const projectFormSchema = insertProjectSchema.extend({
   deadline: z.string().optional(),
@@ -27,7 +31,10 @@ type ProjectFormData = z.infer<typeof projectFormSchema>;
 export default function Projects() {
   const [open, setOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [timelineProject, setTimelineProject] = useState<Project | null>(null);
+  const [milestonesProject, setMilestonesProject] = useState<Project | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
   const { data: projects, isLoading } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
   });
@@ -72,7 +79,6 @@ export default function Projects() {
       description: "",
       status: "planning",
       budget: "0",
-      progress: 0,
     },
   });
 
@@ -93,7 +99,7 @@ export default function Projects() {
       description: project.description || "",
       status: project.status,
       budget: project.budget || "0",
-      progress: project.progress ?? 0,
+      hourlyRate: project.hourlyRate ?? "",
       deadline: project.deadline ? (typeof project.deadline === 'string' ? project.deadline : new Date(project.deadline).toISOString().split('T')[0]) : "",
     });
     setOpen(true);
@@ -107,7 +113,6 @@ export default function Projects() {
       description: "",
       status: "planning",
       budget: "0",
-      progress: 0,
     });
     setOpen(true);
   };
@@ -148,10 +153,20 @@ export default function Projects() {
           <h1 className="text-3xl font-bold" data-testid="text-page-title">Projects</h1>
           <p className="text-sm text-muted-foreground">Manage client projects</p>
         </div>
-        <Button data-testid="button-add-project" onClick={handleAddNew}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Project
-        </Button>
+        <div className="flex gap-2">
+          {user?.role !== "client" && (
+            <Button variant="outline" asChild data-testid="button-project-templates">
+              <Link href="/projects/templates">
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                Templates
+              </Link>
+            </Button>
+          )}
+          <Button data-testid="button-add-project" onClick={handleAddNew}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Project
+          </Button>
+        </div>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
@@ -236,6 +251,19 @@ export default function Projects() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="hourlyRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hourly Rate</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" placeholder="Used to bill logged hours" {...field} value={field.value ?? ""} data-testid="input-hourly-rate" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="deadline"
@@ -310,7 +338,7 @@ export default function Projects() {
                 <div className="space-y-3">
                   <div>
                     <div className="flex items-center justify-between text-sm mb-1">
-                      <span className="text-muted-foreground">Progress</span>
+                      <span className="text-muted-foreground" title="Share of the project's tasks that are done">Progress</span>
                       <span className="font-medium">{project.progress}%</span>
                     </div>
                     <Progress value={project.progress ?? 0} />
@@ -329,12 +357,39 @@ export default function Projects() {
                       </div>
                     )}
                   </div>
+                  <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => setTimelineProject(project)}
+                      data-testid={`button-timeline-${project.id}`}
+                    >
+                      <GanttChart className="w-4 h-4 mr-2" />
+                      Timeline
+                    </Button>
+                    {user?.role !== "client" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => setMilestonesProject(project)}
+                        data-testid={`button-milestones-${project.id}`}
+                      >
+                        <Flag className="w-4 h-4 mr-2" />
+                        Milestones
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <ProjectGanttDialog project={timelineProject} onOpenChange={(open) => !open && setTimelineProject(null)} />
+      <ProjectMilestonesDialog project={milestonesProject} onOpenChange={(open) => !open && setMilestonesProject(null)} />
     </div>
   );
 }
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { PASSWORD_MIN_LENGTH } from "@shared/password-policy";
+import { ArrowLeft } from "lucide-react";
+import logoImage from "@assets/Untitled_design__1_-removebg-preview_1764044009686.png";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: data.password }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Password reset failed");
+      }
+
+      toast({
+        title: "Password reset",
+        description: "Sign in with your new password.",
+      });
+      setLocation("/login");
+    } catch (error: any) {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-background">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <img src={logoImage} alt="MaxTech BD" className="h-16 object-contain" />
+        </div>
+
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-foreground mb-2">Choose a New Password</h2>
+          <p className="text-muted-foreground">You'll be signed out of all other devices</p>
+        </div>
+
+        <div className="bg-card rounded-2xl border shadow-sm p-8">
+          {!token ? (
+            <div className="text-center text-sm text-muted-foreground" data-testid="text-invalid-reset-link">
+              This reset link is incomplete. Request a new one from the{" "}
+              <Link href="/forgot-password" className="text-primary hover:underline">forgot password</Link> page.
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" className="h-12 px-4" {...field} data-testid="input-new-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" className="h-12 px-4" {...field} data-testid="input-confirm-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <PasswordRequirements />
+                <Button
+                  type="submit"
+                  className="w-full h-12 text-base font-semibold"
+                  disabled={isLoading}
+                  data-testid="button-reset-password"
+                >
+                  {isLoading ? "Saving..." : "Reset Password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+
+        <div className="mt-6 text-center text-sm">
+          <Link href="/login" className="inline-flex items-center gap-1 text-primary hover:underline font-medium">
+            <ArrowLeft className="w-4 h-4" />
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+
+type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: "Unknown device", mobile: false };
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+      : /Chrome\//.test(userAgent) ? "Chrome"
+        : /Firefox\//.test(userAgent) ? "Firefox"
+          : /Safari\//.test(userAgent) ? "Safari"
+            : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+      : /iPhone|iPad/.test(userAgent) ? "iOS"
+        : /Mac OS X/.test(userAgent) ? "macOS"
+          : /Linux/.test(userAgent) ? "Linux"
+            : "Unknown OS";
+
+  return { label: `${browser} on ${os}`, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+}
+
+export default function Sessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Success", description: "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ revoked: number }>("DELETE", "/api/auth/sessions");
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Success", description: `Signed out ${data.revoked} other session(s)` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions?.filter(s => !s.current) || [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Active Sessions</h1>
+          <p className="text-sm text-muted-foreground">Devices currently signed in to your account</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}
+          data-testid="button-revoke-other-sessions"
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out other sessions
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Sign out any device you don't recognise</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading sessions...</div>
+          ) : sessions?.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No active sessions</div>
+          ) : (
+            sessions?.map(session => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.mobile ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4 p-4 border rounded-md"
+                  data-testid={`session-${session.id}`}
+                >
+                  <div className="flex items-center gap-3">
+                    <DeviceIcon className="w-5 h-5 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        {device.label}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {session.ipAddress || "Unknown IP"} • Signed in {format(new Date(session.createdAt), "MMM d, yyyy")} •
+                        Last active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useTheme } from "@/lib/theme-provider";
 import { useAuth } from "@/lib/auth-context";
+import { Link } from "wouter";
+import { TwoFactorSettingsCard } from "@/components/two-factor";
 
 export default function Settings() {
   const { theme, toggleTheme } = useTheme();
@@ -39,6 +41,35 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Security</CardTitle>
+          <CardDescription>Manage your password and where you're signed in</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Password</Label>
+              <p className="text-sm text-muted-foreground">Change the password you use to sign in</p>
+            </div>
+            <Link href="/change-password">
+              <Button variant="outline" data-testid="button-change-password">Change Password</Button>
+            </Link>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Active Sessions</Label>
+              <p className="text-sm text-muted-foreground">Review devices signed in to your account and sign them out</p>
+            </div>
+            <Link href="/settings/sessions">
+              <Button variant="outline" data-testid="button-manage-sessions">Manage Sessions</Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettingsCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Appearance</CardTitle>
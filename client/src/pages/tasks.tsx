@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { Plus, Calendar, User, FolderPlus, FileX } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Plus, Calendar, User, FolderPlus, FileX, Play, Square, Clock, Timer, Link2, X, CornerDownRight, Repeat, ListChecks, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -16,12 +16,17 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
-import { insertTaskSchema, insertProjectSchema, type Task, type Project, type User as UserType, type Client } from "@shared/schema";
+import { insertTaskSchema, insertProjectSchema, TASK_RECURRENCE_FREQUENCIES, type Task, type Project, type User as UserType, type Client, type TimeEntry } from "@shared/schema";
 import { z } from "zod";
 import { normalizeTaskData, normalizeProjectData } from "@/lib/normalizeDateInputs";
+import { formatHours } from "@/lib/utils";
+import { TaskTimeDialog } from "@/components/task-time-dialog";
+import { TaskActivityDialog } from "@/components/task-activity-dialog";
 
 const taskFormSchema = insertTaskSchema.extend({
+  startDate: z.string().optional(),
   deadline: z.string().optional(),
+  recurrenceEndDate: z.string().optional(),
 });
 
 const projectFormSchema = insertProjectSchema.extend({
@@ -31,20 +36,50 @@ const projectFormSchema = insertProjectSchema.extend({
 type TaskFormData = z.infer<typeof taskFormSchema>;
 type ProjectFormData = z.infer<typeof projectFormSchema>;
 
+type TaskWithTime = Task & { loggedMinutes: number; dependsOn: string[] };
+type RunningTimer = TimeEntry & { taskTitle: string };
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
 // Special values for project dropdown
 const CREATE_NEW_PROJECT = "__create_new_project__";
 const NO_PROJECT = "__no_project__";
+const NO_PARENT = "__no_parent__";
+const NO_RECURRENCE = "__no_recurrence__";
+
+const RECURRENCE_UNITS: Record<string, string> = { daily: "day", weekly: "week", monthly: "month" };
+
+const describeRecurrence = (task: Pick<Task, "recurrence" | "recurrenceInterval">) => {
+  if (!task.recurrence) return "";
+  const unit = RECURRENCE_UNITS[task.recurrence] ?? task.recurrence;
+  return task.recurrenceInterval > 1 ? `Every ${task.recurrenceInterval} ${unit}s` : `Every ${unit}`;
+};
+
+const toDateInput = (value: Date | string | null) =>
+  value ? (typeof value === 'string' ? value.split('T')[0] : new Date(value).toISOString().split('T')[0]) : "";
 
 export default function Tasks() {
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [projectDialogOpen, setProjectDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [timeTask, setTimeTask] = useState<TaskWithTime | null>(null);
+  const [activityTask, setActivityTask] = useState<TaskWithTime | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [newChecklistItem, setNewChecklistItem] = useState("");
   const { toast } = useToast();
   const { user } = useAuth();
   
-  const { data: tasks, isLoading } = useQuery<Task[]>({
+  const { data: tasks, isLoading } = useQuery<TaskWithTime[]>({
     queryKey: ["/api/tasks"],
   });
+  const { data: runningTimer } = useQuery<RunningTimer | null>({
+    queryKey: ["/api/time-entries/running"],
+    enabled: user?.role !== "client",
+  });
   const { data: projects } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
   });
@@ -74,7 +109,6 @@ export default function Tasks() {
       description: "",
       status: "planning",
       budget: "0",
-      progress: 0,
     },
   });
 
@@ -82,6 +116,8 @@ export default function Tasks() {
     mutationFn: (data: TaskFormData) => apiRequest("POST", "/api/tasks", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      // Project progress follows task completion
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({ title: "Success", description: "Task created successfully" });
       setTaskDialogOpen(false);
       setEditingTask(null);
@@ -92,11 +128,35 @@ export default function Tasks() {
     },
   });
 
+  const addDependencyMutation = useMutation({
+    mutationFn: ({ taskId, dependsOnTaskId }: { taskId: string; dependsOnTaskId: string }) =>
+      apiRequest("POST", `/api/tasks/${taskId}/dependencies`, { dependsOnTaskId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: ({ taskId, dependsOnTaskId }: { taskId: string; dependsOnTaskId: string }) =>
+      apiRequest("DELETE", `/api/tasks/${taskId}/dependencies/${dependsOnTaskId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const updateTaskMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: TaskFormData }) =>
       apiRequest("PATCH", `/api/tasks/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      // Project progress follows task completion
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({ title: "Success", description: "Task updated successfully" });
       setTaskDialogOpen(false);
       setEditingTask(null);
@@ -107,6 +167,41 @@ export default function Tasks() {
     },
   });
 
+  // Tick the running timer's clock
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimer]);
+
+  const onTimerChange = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/time-entries/running"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+  };
+
+  const startTimerMutation = useMutation({
+    mutationFn: (taskId: string) => apiRequest("POST", `/api/tasks/${taskId}/timer`),
+    onSuccess: () => {
+      setNow(Date.now());
+      onTimerChange();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const stopTimerMutation = useMutation({
+    mutationFn: () => apiRequest<TimeEntry>("POST", "/api/time-entries/stop"),
+    onSuccess: (entry) => {
+      onTimerChange();
+      toast({ title: "Timer stopped", description: `${formatHours(entry.minutes)} logged` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const createProjectMutation = useMutation({
     mutationFn: (data: ProjectFormData) => apiRequest("POST", "/api/projects", data),
     onSuccess: (newProject: Project) => {
@@ -145,8 +240,16 @@ export default function Tasks() {
       status: task.status,
       priority: task.priority,
       assignedTo: task.assignedTo || "",
-      deadline: task.deadline ? (typeof task.deadline === 'string' ? task.deadline : new Date(task.deadline).toISOString().split('T')[0]) : "",
+      parentTaskId: task.parentTaskId ?? "",
+      estimatedHours: task.estimatedHours ?? "",
+      startDate: toDateInput(task.startDate),
+      deadline: toDateInput(task.deadline),
+      checklist: task.checklist ?? [],
+      recurrence: task.recurrence as TaskFormData["recurrence"],
+      recurrenceInterval: task.recurrenceInterval,
+      recurrenceEndDate: toDateInput(task.recurrenceEndDate),
     });
+    setNewChecklistItem("");
     setTaskDialogOpen(true);
   };
 
@@ -158,7 +261,9 @@ export default function Tasks() {
       description: "",
       status: "todo",
       priority: "medium",
+      checklist: [],
     });
+    setNewChecklistItem("");
     setTaskDialogOpen(true);
   };
 
@@ -171,7 +276,6 @@ export default function Tasks() {
         description: "",
         status: "planning",
         budget: "0",
-        progress: 0,
       });
       setProjectDialogOpen(true);
     } else if (value === NO_PROJECT) {
@@ -183,6 +287,41 @@ export default function Tasks() {
     }
   };
 
+  const formProjectId = taskForm.watch("projectId");
+  const formRecurrence = taskForm.watch("recurrence");
+  const formChecklist = taskForm.watch("checklist") ?? [];
+
+  const setChecklist = (checklist: NonNullable<TaskFormData["checklist"]>) => {
+    taskForm.setValue("checklist", checklist, { shouldDirty: true });
+  };
+
+  const addChecklistItem = () => {
+    const text = newChecklistItem.trim();
+    if (!text) return;
+    setChecklist([...formChecklist, { text, done: false }]);
+    setNewChecklistItem("");
+  };
+
+  const taskTitles = new Map((tasks ?? []).map(t => [t.id, t.title]));
+  // Tasks in the form's project that the edited task could sit under or depend on
+  const projectTasks = (tasks ?? []).filter(t => t.projectId === formProjectId && t.id !== editingTask?.id);
+  const editingDependsOn = (tasks ?? []).find(t => t.id === editingTask?.id)?.dependsOn ?? [];
+
+  // Subtasks listed under their parent
+  const orderedTasks: { task: TaskWithTime; depth: number }[] = [];
+  if (tasks) {
+    const ids = new Set(tasks.map(t => t.id));
+    const placed = new Set<string>();
+    const place = (task: TaskWithTime, depth: number) => {
+      if (placed.has(task.id)) return;
+      placed.add(task.id);
+      orderedTasks.push({ task, depth });
+      tasks.filter(t => t.parentTaskId === task.id).forEach(child => place(child, depth + 1));
+    };
+    tasks.filter(t => !t.parentTaskId || !ids.has(t.parentTaskId)).forEach(task => place(task, 0));
+    tasks.filter(t => !placed.has(t.id)).forEach(task => place(task, 0));
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "todo": return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300";
@@ -227,13 +366,33 @@ export default function Tasks() {
           <h1 className="text-3xl font-bold" data-testid="text-page-title">Tasks</h1>
           <p className="text-sm text-muted-foreground">Track and manage tasks</p>
         </div>
-        {/* Only admin and operational_head can create tasks */}
-        {(user?.role === "admin" || user?.role === "operational_head") && (
-          <Button data-testid="button-add-task" onClick={handleAddNew}>
-            <Plus className="w-4 h-4 mr-2" />
-            Add Task
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {runningTimer && (
+            <div className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm" data-testid="running-timer">
+              <Timer className="w-4 h-4 text-green-600 animate-pulse" />
+              <span className="font-medium truncate max-w-48">{runningTimer.taskTitle}</span>
+              <span className="font-mono">{formatElapsed(now - new Date(runningTimer.startedAt).getTime())}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => stopTimerMutation.mutate()}
+                disabled={stopTimerMutation.isPending}
+                title="Stop timer"
+                data-testid="button-stop-timer"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          {/* Only admin and operational_head can create tasks */}
+          {(user?.role === "admin" || user?.role === "operational_head") && (
+            <Button data-testid="button-add-task" onClick={handleAddNew}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Task
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Task Dialog */}
@@ -375,6 +534,48 @@ export default function Tasks() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={taskForm.control}
+                  name="parentTaskId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent Task</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === NO_PARENT ? "" : value)}
+                        value={field.value || NO_PARENT}
+                        disabled={!formProjectId}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-parent-task">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent position="popper">
+                          <SelectItem value={NO_PARENT}>None (top-level task)</SelectItem>
+                          {projectTasks.map((t) => (
+                            <SelectItem key={t.id} value={t.id}>
+                              {t.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={taskForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value ?? ""} data-testid="input-start-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={taskForm.control}
                   name="deadline"
@@ -388,7 +589,83 @@ export default function Tasks() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={taskForm.control}
+                  name="estimatedHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Estimate (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.25" {...field} value={field.value ?? ""} data-testid="input-estimated-hours" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={taskForm.control}
+                  name="recurrence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeat</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === NO_RECURRENCE ? null : value)}
+                        value={field.value ?? NO_RECURRENCE}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurrence">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent position="popper">
+                          <SelectItem value={NO_RECURRENCE}>Does not repeat</SelectItem>
+                          {TASK_RECURRENCE_FREQUENCIES.map((frequency) => (
+                            <SelectItem key={frequency} value={frequency} className="capitalize">
+                              {frequency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {formRecurrence && (
+                  <>
+                    <FormField
+                      control={taskForm.control}
+                      name="recurrenceInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Every ({RECURRENCE_UNITS[formRecurrence]}s)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={365} {...field} value={field.value ?? 1} data-testid="input-recurrence-interval" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={taskForm.control}
+                      name="recurrenceEndDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeat Until</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} value={field.value ?? ""} data-testid="input-recurrence-end-date" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
               </div>
+              {formRecurrence && (
+                <p className="text-xs text-muted-foreground">
+                  A new copy of this task is created on each repeat, dated from its start date (or deadline) with the checklist reset
+                </p>
+              )}
               <FormField
                 control={taskForm.control}
                 name="description"
@@ -402,6 +679,83 @@ export default function Tasks() {
                   </FormItem>
                 )}
               />
+              <div className="space-y-2">
+                <FormLabel>Checklist</FormLabel>
+                {formChecklist.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2" data-testid={`checklist-item-${index}`}>
+                    <Checkbox
+                      checked={item.done}
+                      onCheckedChange={(checked) => setChecklist(formChecklist.map((c, i) => i === index ? { ...c, done: checked === true } : c))}
+                    />
+                    <span className={`flex-1 text-sm ${item.done ? "line-through text-muted-foreground" : ""}`}>{item.text}</span>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      onClick={() => setChecklist(formChecklist.filter((_, i) => i !== index))}
+                      data-testid={`button-remove-checklist-item-${index}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    value={newChecklistItem}
+                    onChange={(e) => setNewChecklistItem(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addChecklistItem();
+                      }
+                    }}
+                    placeholder="Add a checklist item"
+                    data-testid="input-checklist-item"
+                  />
+                  <Button type="button" variant="outline" onClick={addChecklistItem} data-testid="button-add-checklist-item">
+                    Add
+                  </Button>
+                </div>
+              </div>
+              {editingTask && (
+                <div className="space-y-2">
+                  <FormLabel>Depends On</FormLabel>
+                  <p className="text-xs text-muted-foreground">This task cannot start until these tasks are done</p>
+                  <div className="flex flex-wrap gap-2">
+                    {editingDependsOn.map(id => (
+                      <Badge key={id} variant="secondary" className="gap-1" data-testid={`badge-dependency-${id}`}>
+                        {taskTitles.get(id) ?? "Unknown task"}
+                        <button
+                          type="button"
+                          className="ml-1 hover:text-destructive"
+                          onClick={() => removeDependencyMutation.mutate({ taskId: editingTask.id, dependsOnTaskId: id })}
+                          disabled={removeDependencyMutation.isPending}
+                          data-testid={`button-remove-dependency-${id}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <Select
+                    value=""
+                    onValueChange={(value) => addDependencyMutation.mutate({ taskId: editingTask.id, dependsOnTaskId: value })}
+                    disabled={addDependencyMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="select-add-dependency">
+                      <SelectValue placeholder="Add a task this one waits on" />
+                    </SelectTrigger>
+                    <SelectContent position="popper">
+                      {projectTasks.filter(t => !editingDependsOn.includes(t.id)).map((t) => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {t.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setTaskDialogOpen(false)}>Cancel</Button>
                 <Button type="submit" data-testid="button-submit-task">
@@ -549,10 +903,11 @@ export default function Tasks() {
         </Card>
       ) : (
         <div className="space-y-3">
-          {tasks.map((task) => (
+          {orderedTasks.map(({ task, depth }) => (
             <Card 
               key={task.id} 
               className="hover-elevate cursor-pointer" 
+              style={depth > 0 ? { marginLeft: depth * 24 } : undefined}
               data-testid={`card-task-${task.id}`}
               onClick={() => handleEdit(task)}
             >
@@ -565,7 +920,10 @@ export default function Tasks() {
                   />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between gap-2 flex-wrap mb-2">
-                      <h3 className="font-semibold" data-testid={`text-task-title-${task.id}`}>{task.title}</h3>
+                      <h3 className="font-semibold flex items-center gap-1" data-testid={`text-task-title-${task.id}`}>
+                        {depth > 0 && <CornerDownRight className="w-4 h-4 text-muted-foreground" />}
+                        {task.title}
+                      </h3>
                       <div className="flex items-center gap-2">
                         <Badge className={getPriorityColor(task.priority)} data-testid={`badge-priority-${task.id}`}>
                           {task.priority}
@@ -588,17 +946,105 @@ export default function Tasks() {
                       {task.deadline && (
                         <div className="flex items-center gap-1">
                           <Calendar className="w-4 h-4" />
-                          <span>{new Date(task.deadline).toLocaleDateString()}</span>
+                          <span>
+                            {task.startDate && `${new Date(task.startDate).toLocaleDateString()} – `}
+                            {new Date(task.deadline).toLocaleDateString()}
+                          </span>
+                        </div>
+                      )}
+                      {task.recurrence && (
+                        <div className="flex items-center gap-1" data-testid={`text-task-recurrence-${task.id}`}>
+                          <Repeat className="w-4 h-4" />
+                          <span>
+                            {describeRecurrence(task)}
+                            {task.recurrenceEndDate && ` until ${new Date(task.recurrenceEndDate).toLocaleDateString()}`}
+                          </span>
+                        </div>
+                      )}
+                      {task.checklist && task.checklist.length > 0 && (
+                        <div className="flex items-center gap-1" data-testid={`text-task-checklist-${task.id}`}>
+                          <ListChecks className="w-4 h-4" />
+                          <span>{task.checklist.filter(item => item.done).length}/{task.checklist.length}</span>
+                        </div>
+                      )}
+                      {task.dependsOn.length > 0 && (
+                        <div className="flex items-center gap-1" data-testid={`text-task-dependencies-${task.id}`}>
+                          <Link2 className="w-4 h-4" />
+                          <span>After {task.dependsOn.map(id => taskTitles.get(id) ?? "another task").join(", ")}</span>
+                        </div>
+                      )}
+                      {(task.loggedMinutes > 0 || task.estimatedHours) && (
+                        <div
+                          className={`flex items-center gap-1 ${task.estimatedHours && task.loggedMinutes > Number(task.estimatedHours) * 60 ? "text-red-600" : ""}`}
+                          data-testid={`text-task-time-${task.id}`}
+                        >
+                          <Clock className="w-4 h-4" />
+                          <span>
+                            {formatHours(task.loggedMinutes)}
+                            {task.estimatedHours && ` / ${Number(task.estimatedHours)}h est.`}
+                          </span>
                         </div>
                       )}
                     </div>
                   </div>
+                  {user?.role !== "client" && (
+                    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                      {runningTimer?.taskId === task.id ? (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-green-600"
+                          onClick={() => stopTimerMutation.mutate()}
+                          disabled={stopTimerMutation.isPending}
+                          title="Stop timer"
+                          data-testid={`button-stop-timer-${task.id}`}
+                        >
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => startTimerMutation.mutate(task.id)}
+                          disabled={startTimerMutation.isPending}
+                          title="Start timer"
+                          data-testid={`button-start-timer-${task.id}`}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => setTimeTask(task)}
+                        title="Log time"
+                        data-testid={`button-log-time-${task.id}`}
+                      >
+                        <Clock className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => setActivityTask(task)}
+                        title="Comments and activity"
+                        data-testid={`button-task-activity-${task.id}`}
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <TaskTimeDialog task={timeTask} onOpenChange={(open) => !open && setTimeTask(null)} />
+      <TaskActivityDialog task={activityTask} onOpenChange={(open) => !open && setActivityTask(null)} />
     </div>
   );
 }
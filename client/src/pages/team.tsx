@@ -12,10 +12,25 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { UserPlus, Edit, Trash2, Users, Mail, Shield, Search, Plus, Ban, CheckCircle, Settings } from "lucide-react";
+import { PASSWORD_MIN_LENGTH } from "@shared/password-policy";
+import { UserPlus, Edit, Trash2, Users, Mail, Shield, ShieldOff, Search, Plus, Ban, CheckCircle, Settings, KeyRound, Lock, LockOpen } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  DATA_SCOPES,
+  DATA_SCOPE_LABELS,
+  PERMISSION_ACTIONS,
+  PERMISSION_ACTION_LABELS,
+  SCOPED_RESOURCES,
+  normalizePermissions,
+  normalizeScopes,
+  type DataScope,
+  type PermissionAction,
+  type PermissionResource,
+  type RolePermissions,
+  type RoleScopes,
+} from "@shared/permissions";
 
 
 type User = {
@@ -25,9 +40,12 @@ type User = {
   role: string;
   clientId?: string;
   isActive: boolean;
+  lockedUntil: string | null;
   createdAt: string;
 };
 
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
 type Client = {
   id: string;
   name: string;
@@ -39,7 +57,7 @@ const userSchema = z.object({
   email: z.string().email("Invalid email address"),
   role: z.string().min(1, "Role is required"),
   clientId: z.string().optional(),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
 }).refine(
   (data) => {
     // If role is client, clientId must be provided
@@ -66,14 +84,110 @@ type RoleConfig = {
   id: string;
   name: string;
   description: string;
-  permissions: string[];
+  permissions: unknown;
+  scopes: unknown;
+  requireTwoFactor: boolean;
 };
 
-type Resource = {
-  id: string;
-  name: string;
-  paths: string[];
-};
+function DataScopeSettings({
+  value,
+  onChange,
+  idPrefix,
+}: {
+  value: RoleScopes;
+  onChange: (value: RoleScopes) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {SCOPED_RESOURCES.map(resource => (
+        <div key={resource.id} className="flex items-center justify-between gap-2 border rounded-md p-2">
+          <span className="text-sm">{resource.name}</span>
+          <Select
+            value={value[resource.id] ?? resource.defaultScope}
+            onValueChange={(scope) => onChange({ ...value, [resource.id]: scope as DataScope })}
+          >
+            <SelectTrigger className="w-40" data-testid={`select-${idPrefix}-scope-${resource.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATA_SCOPES.map(scope => (
+                <SelectItem key={scope} value={scope}>{DATA_SCOPE_LABELS[scope]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PermissionMatrix({
+  resources,
+  value,
+  onChange,
+  idPrefix,
+}: {
+  resources: PermissionResource[];
+  value: RolePermissions;
+  onChange: (value: RolePermissions) => void;
+  idPrefix: string;
+}) {
+  const toggle = (resourceId: string, action: PermissionAction, checked: boolean) => {
+    const current = value[resourceId] || [];
+    let next = checked ? Array.from(new Set([...current, action])) : current.filter(a => a !== action);
+    // Any other action implies being able to view the resource
+    if (checked && action !== "view" && !next.includes("view")) next = ["view", ...next];
+    if (!checked && action === "view") next = [];
+    onChange({ ...value, [resourceId]: PERMISSION_ACTIONS.filter(a => next.includes(a)) });
+  };
+
+  const toggleAll = (resource: PermissionResource) => {
+    const current = value[resource.id] || [];
+    const allSelected = resource.actions.every(a => current.includes(a));
+    onChange({ ...value, [resource.id]: allSelected ? [] : [...resource.actions] });
+  };
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="text-left font-medium p-2">Resource</th>
+            {PERMISSION_ACTIONS.map(action => (
+              <th key={action} className="font-medium p-2 text-center">{PERMISSION_ACTION_LABELS[action]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {resources.map(resource => (
+            <tr key={resource.id} className="border-b last:border-0">
+              <td className="p-2">
+                <button type="button" className="text-left hover:underline" onClick={() => toggleAll(resource)}>
+                  {resource.name}
+                </button>
+              </td>
+              {PERMISSION_ACTIONS.map(action => (
+                <td key={action} className="p-2 text-center">
+                  {resource.actions.includes(action) ? (
+                    <Checkbox
+                      id={`${idPrefix}-${resource.id}-${action}`}
+                      checked={value[resource.id]?.includes(action) ?? false}
+                      onCheckedChange={(checked) => toggle(resource.id, action, checked === true)}
+                      data-testid={`checkbox-${idPrefix}-${resource.id}-${action}`}
+                    />
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
 
 type UserFormData = z.infer<typeof userSchema>;
@@ -98,6 +212,7 @@ export default function Team() {
   const [createOpen, setCreateOpen] = useState(false);
   const [editOpen, setEditOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ user: User; password: string } | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
 
@@ -120,14 +235,16 @@ export default function Team() {
   });
 
   const { data: dynamicRoles } = useQuery<RoleConfig[]>({ queryKey: ["/api/roles"] });
-  const { data: resources } = useQuery<Resource[]>({ queryKey: ["/api/resources"] });
+  const { data: resources } = useQuery<PermissionResource[]>({ queryKey: ["/api/resources"] });
   const [createRoleOpen, setCreateRoleOpen] = useState(false);
   const [newRoleName, setNewRoleName] = useState("");
   const [newRoleDesc, setNewRoleDesc] = useState("");
-  const [selectedPermissions, setSelectedPermissions] = useState<string[]>([]);
+  const [selectedPermissions, setSelectedPermissions] = useState<RolePermissions>({});
+  const [selectedScopes, setSelectedScopes] = useState<RoleScopes>({});
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
 
   const createRoleMutation = useMutation({
-    mutationFn: async (data: { name: string; description: string; permissions: string[] }) => {
+    mutationFn: async (data: { name: string; description: string; permissions: RolePermissions; scopes: RoleScopes; requireTwoFactor: boolean }) => {
       return apiRequest("POST", "/api/roles", data);
     },
     onSuccess: () => {
@@ -135,7 +252,9 @@ export default function Team() {
       setCreateRoleOpen(false);
       setNewRoleName("");
       setNewRoleDesc("");
-      setSelectedPermissions([]);
+      setSelectedPermissions({});
+      setSelectedScopes({});
+      setRequireTwoFactor(false);
       toast({ title: "Success", description: "Role created successfully" });
     },
     onError: (error: Error) => {
@@ -148,7 +267,7 @@ export default function Team() {
   const [editingRole, setEditingRole] = useState<RoleConfig | null>(null);
 
   const updateRoleMutation = useMutation({
-    mutationFn: async (data: { id: string; name: string; description: string; permissions: string[] }) => {
+    mutationFn: async (data: { id: string; name: string; description: string; permissions: RolePermissions; scopes: RoleScopes; requireTwoFactor: boolean }) => {
       return apiRequest("PATCH", `/api/roles/${data.id}`, data);
     },
     onSuccess: () => {
@@ -181,7 +300,9 @@ export default function Team() {
       id: editingRole.id,
       name: newRoleName,
       description: newRoleDesc,
-      permissions: selectedPermissions
+      permissions: selectedPermissions,
+      scopes: selectedScopes,
+      requireTwoFactor
     });
   };
 
@@ -189,7 +310,9 @@ export default function Team() {
     setEditingRole(role);
     setNewRoleName(role.name);
     setNewRoleDesc(role.description);
-    setSelectedPermissions(role.permissions || []);
+    setSelectedPermissions(normalizePermissions(role.permissions));
+    setSelectedScopes(normalizeScopes(role.scopes));
+    setRequireTwoFactor(role.requireTwoFactor ?? false);
     setEditRoleOpen(true);
   };
 
@@ -202,7 +325,9 @@ export default function Team() {
     createRoleMutation.mutate({
       name: newRoleName,
       description: newRoleDesc,
-      permissions: selectedPermissions
+      permissions: selectedPermissions,
+      scopes: selectedScopes,
+      requireTwoFactor
     });
   };
 
@@ -250,6 +375,49 @@ export default function Team() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/users/${id}/two-factor`, {}),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Two-factor authentication reset" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleResetTwoFactor = (user: User) => {
+    if (confirm(`Reset two-factor authentication for ${user.fullName}? They will need to enroll again at next login if their role requires it.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: (user: User) => apiRequest<{ temporaryPassword: string }>("POST", `/api/users/${user.id}/reset-password`, {}),
+    onSuccess: (data, user) => {
+      setTemporaryPassword({ user, password: data.temporaryPassword });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleResetPassword = (user: User) => {
+    if (confirm(`Reset the password for ${user.fullName}? They will be signed out everywhere and must choose a new password at next login.`)) {
+      resetPasswordMutation.mutate(user);
+    }
+  };
+
+  const unlockMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/users/${id}/unlock`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Success", description: "Account unlocked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onCreateSubmit = (data: UserFormData) => {
     createMutation.mutate(data);
   };
@@ -442,7 +610,7 @@ export default function Team() {
 
         {/* Create Role Dialog */}
         <Dialog open={createRoleOpen} onOpenChange={setCreateRoleOpen}>
-          <DialogContent>
+          <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>Create Dynamic Role</DialogTitle>
             </DialogHeader>
@@ -456,25 +624,31 @@ export default function Team() {
                 <Textarea placeholder="Describe the role..." value={newRoleDesc} onChange={e => setNewRoleDesc(e.target.value)} />
               </div>
               <div className="space-y-2">
-                <Label>Permissions (Allowed Routes)</Label>
-                <div className="grid grid-cols-2 gap-2 border p-3 rounded-md">
-                  {resources?.map(resource => (
-                    <div key={resource.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={resource.id}
-                        checked={selectedPermissions.includes(resource.id)}
-                        onCheckedChange={(checked) => {
-                          if (checked) {
-                            setSelectedPermissions([...selectedPermissions, resource.id]);
-                          } else {
-                            setSelectedPermissions(selectedPermissions.filter(p => p !== resource.id));
-                          }
-                        }}
-                      />
-                      <Label htmlFor={resource.id} className="text-sm cursor-pointer">{resource.name}</Label>
-                    </div>
-                  ))}
-                </div>
+                <Label>Permissions</Label>
+                <PermissionMatrix
+                  resources={resources || []}
+                  value={selectedPermissions}
+                  onChange={setSelectedPermissions}
+                  idPrefix="create-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Data Scope</Label>
+                <p className="text-xs text-muted-foreground">Which records this role sees in lists</p>
+                <DataScopeSettings
+                  value={selectedScopes}
+                  onChange={setSelectedScopes}
+                  idPrefix="create-role"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="create-role-require-2fa"
+                  checked={requireTwoFactor}
+                  onCheckedChange={(checked) => setRequireTwoFactor(checked === true)}
+                  data-testid="checkbox-create-role-require-2fa"
+                />
+                <Label htmlFor="create-role-require-2fa">Require two-factor authentication for this role</Label>
               </div>
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setCreateRoleOpen(false)}>Cancel</Button>
@@ -499,7 +673,9 @@ export default function Team() {
                 <Button size="sm" onClick={() => {
                   setNewRoleName("");
                   setNewRoleDesc("");
-                  setSelectedPermissions([]);
+                  setSelectedPermissions({});
+                  setSelectedScopes({});
+                  setRequireTwoFactor(false);
                   setCreateRoleOpen(true);
                 }}>
                   <Plus className="w-4 h-4 mr-2" /> Create New Role
@@ -521,9 +697,9 @@ export default function Team() {
                         </div>
                         <div className="text-sm text-muted-foreground">{role.description}</div>
                         <div className="flex flex-wrap gap-1 mt-2">
-                          {role.permissions?.map((p, i) => (
-                            <Badge key={i} variant="outline" className="text-[10px]">
-                              {resources?.find(r => r.id === p)?.name || p}
+                          {Object.entries(normalizePermissions(role.permissions)).map(([resourceId, actions]) => (
+                            <Badge key={resourceId} variant="outline" className="text-[10px]">
+                              {resources?.find(r => r.id === resourceId)?.name || resourceId}: {actions.join(", ")}
                             </Badge>
                           ))}
                         </div>
@@ -555,7 +731,7 @@ export default function Team() {
 
         {/* Edit Role Dialog */}
         <Dialog open={editRoleOpen} onOpenChange={setEditRoleOpen}>
-          <DialogContent>
+          <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>Edit Role: {editingRole?.name}</DialogTitle>
             </DialogHeader>
@@ -569,25 +745,31 @@ export default function Team() {
                 <Textarea placeholder="Describe the role..." value={newRoleDesc} onChange={e => setNewRoleDesc(e.target.value)} />
               </div>
               <div className="space-y-2">
-                <Label>Permissions (Allowed Routes)</Label>
-                <div className="grid grid-cols-2 gap-2 border p-3 rounded-md">
-                  {resources?.map(resource => (
-                    <div key={resource.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`edit-${resource.id}`}
-                        checked={selectedPermissions.includes(resource.id)}
-                        onCheckedChange={(checked) => {
-                          if (checked) {
-                            setSelectedPermissions([...selectedPermissions, resource.id]);
-                          } else {
-                            setSelectedPermissions(selectedPermissions.filter(p => p !== resource.id));
-                          }
-                        }}
-                      />
-                      <Label htmlFor={`edit-${resource.id}`} className="text-sm cursor-pointer">{resource.name}</Label>
-                    </div>
-                  ))}
-                </div>
+                <Label>Permissions</Label>
+                <PermissionMatrix
+                  resources={resources || []}
+                  value={selectedPermissions}
+                  onChange={setSelectedPermissions}
+                  idPrefix="edit-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Data Scope</Label>
+                <p className="text-xs text-muted-foreground">Which records this role sees in lists</p>
+                <DataScopeSettings
+                  value={selectedScopes}
+                  onChange={setSelectedScopes}
+                  idPrefix="edit-role"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="edit-role-require-2fa"
+                  checked={requireTwoFactor}
+                  onCheckedChange={(checked) => setRequireTwoFactor(checked === true)}
+                  data-testid="checkbox-edit-role-require-2fa"
+                />
+                <Label htmlFor="edit-role-require-2fa">Require two-factor authentication for this role</Label>
               </div>
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setEditRoleOpen(false)}>Cancel</Button>
@@ -699,6 +881,12 @@ export default function Team() {
                             Inactive
                           </Badge>
                         )}
+                        {isLocked(user) && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700" data-testid={`badge-locked-${user.id}`}>
+                            <Lock className="w-3 h-3 mr-1" />
+                            Locked
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -733,6 +921,38 @@ export default function Team() {
                     >
                       {user.isActive ? <Ban className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResetTwoFactor(user)}
+                      title="Reset Two-Factor Authentication"
+                      disabled={resetTwoFactorMutation.isPending}
+                      data-testid={`button-reset-2fa-${user.id}`}
+                    >
+                      <ShieldOff className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResetPassword(user)}
+                      title="Reset Password"
+                      disabled={resetPasswordMutation.isPending}
+                      data-testid={`button-reset-password-${user.id}`}
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                    {isLocked(user) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => unlockMutation.mutate(user.id)}
+                        title="Unlock Account"
+                        disabled={unlockMutation.isPending}
+                        data-testid={`button-unlock-${user.id}`}
+                      >
+                        <LockOpen className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -740,6 +960,35 @@ export default function Team() {
           )}
         </div>
 
+        {/* Temporary Password Dialog */}
+        <Dialog open={!!temporaryPassword} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+          <DialogContent data-testid="dialog-temporary-password">
+            <DialogHeader>
+              <DialogTitle>Temporary Password</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Share this password with {temporaryPassword?.user.fullName} securely. It is shown only once and
+                must be changed at their next login.
+              </p>
+              <Input readOnly value={temporaryPassword?.password ?? ""} className="font-mono" data-testid="text-temporary-password" />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(temporaryPassword?.password ?? "");
+                    toast({ title: "Copied", description: "Temporary password copied to clipboard" });
+                  }}
+                  data-testid="button-copy-temporary-password"
+                >
+                  Copy
+                </Button>
+                <Button onClick={() => setTemporaryPassword(null)} data-testid="button-close-temporary-password">Done</Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Dialog */}
         <Dialog open={editOpen} onOpenChange={setEditOpen}>
           <DialogContent data-testid="dialog-edit-user">
@@ -800,7 +1049,9 @@ export default function Team() {
                       const role = dynamicRoles?.find(r => r.name === roleName);
                       if (!role || !role.permissions) return [];
 
-                      return role.permissions.map(p => resources?.find(r => r.id === p)?.name || p);
+                      return Object.entries(normalizePermissions(role.permissions)).map(([resourceId, actions]) =>
+                        `${resources?.find(r => r.id === resourceId)?.name || resourceId} (${actions.join(", ")})`
+                      );
                     };
 
                     const selectedRolePermissions = getRolePermissionsDisplay(field.value || "");
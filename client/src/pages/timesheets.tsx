@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { formatHours } from "@/lib/utils";
+import type { TimeEntry, Timesheet } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, ChevronLeft, ChevronRight, Eye, Send, X } from "lucide-react";
+import Swal from "sweetalert2";
+
+type WeekEntry = TimeEntry & { taskTitle: string; projectId: string; projectName: string };
+
+interface TimesheetWeek {
+  weekStart: string;
+  timesheet: Timesheet | null;
+  entries: WeekEntry[];
+  totalMinutes: number;
+}
+
+interface PendingTimesheet {
+  timesheet: Timesheet;
+  userName: string;
+  totalMinutes: number;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  submitted: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const currentWeekStart = () => format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+const shiftWeek = (weekStart: string, weeks: number) => format(addDays(parseISO(weekStart), weeks * 7), "yyyy-MM-dd");
+
+export default function Timesheets() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(currentWeekStart());
+  // Another user's week opened from the approval list
+  const [viewing, setViewing] = useState<PendingTimesheet | null>(null);
+  const canApprove = user?.role === "admin" || user?.role === "operational_head";
+
+  const weekUrl = `/api/timesheets/week?weekStart=${weekStart}${viewing ? `&userId=${viewing.timesheet.userId}` : ""}`;
+  const { data: week, isLoading } = useQuery<TimesheetWeek>({
+    queryKey: ["/api/timesheets/week", weekStart, viewing?.timesheet.userId ?? "me"],
+    queryFn: () => apiRequest("GET", weekUrl),
+  });
+
+  const { data: pending = [] } = useQuery<PendingTimesheet[]>({
+    queryKey: ["/api/timesheets", "submitted"],
+    queryFn: () => apiRequest("GET", "/api/timesheets?status=submitted"),
+    enabled: canApprove,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/timesheets/submit", { weekStart }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+      toast({ title: "Success", description: "Timesheet submitted for approval" });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, approve, note }: { id: string; approve: boolean; note?: string }) =>
+      apiRequest("POST", `/api/timesheets/${id}/${approve ? "approve" : "reject"}`, { note: note || null }),
+    onSuccess: (_data, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets/week"] });
+      setViewing(null);
+      toast({ title: "Success", description: approve ? "Timesheet approved" : "Timesheet sent back" });
+    },
+    onError,
+  });
+
+  const handleReject = async (id: string) => {
+    const result = await Swal.fire({
+      title: "Send timesheet back?",
+      input: "textarea",
+      inputLabel: "What needs to change",
+      showCancelButton: true,
+      confirmButtonText: "Reject",
+      cancelButtonText: "Cancel",
+      confirmButtonColor: "#dc2626",
+    });
+    if (result.isConfirmed) {
+      reviewMutation.mutate({ id, approve: false, note: result.value });
+    }
+  };
+
+  const openTimesheet = (item: PendingTimesheet) => {
+    setViewing(item);
+    setWeekStart(item.timesheet.weekStart);
+  };
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(parseISO(weekStart), i));
+  const entriesOn = (day: Date) => (week?.entries ?? []).filter(e => format(new Date(e.startedAt), "yyyy-MM-dd") === format(day, "yyyy-MM-dd"));
+  const status = week?.timesheet?.status ?? "draft";
+  const canSubmit = !viewing && (status === "draft" || status === "rejected") && (week?.entries.length ?? 0) > 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Timesheets</h1>
+          <p className="text-muted-foreground">Time logged on tasks, submitted weekly for approval</p>
+        </div>
+      </div>
+
+      {canApprove && pending.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending approval</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Week of</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map(item => (
+                  <TableRow key={item.timesheet.id} data-testid={`row-pending-timesheet-${item.timesheet.id}`}>
+                    <TableCell className="font-medium">{item.userName}</TableCell>
+                    <TableCell>{format(parseISO(item.timesheet.weekStart), "MMM d, yyyy")}</TableCell>
+                    <TableCell>{formatHours(item.totalMinutes)}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => openTimesheet(item)} data-testid={`button-view-timesheet-${item.timesheet.id}`}>
+                        <Eye className="w-4 h-4 mr-1" /> View
+                      </Button>
+                      {item.timesheet.userId !== user?.id && (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => reviewMutation.mutate({ id: item.timesheet.id, approve: true })}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-approve-timesheet-${item.timesheet.id}`}
+                          >
+                            <Check className="w-4 h-4 mr-1" /> Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleReject(item.timesheet.id)}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-reject-timesheet-${item.timesheet.id}`}
+                          >
+                            <X className="w-4 h-4 mr-1" /> Reject
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button size="icon" variant="outline" onClick={() => setWeekStart(w => shiftWeek(w, -1))} data-testid="button-previous-week">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <CardTitle className="text-lg">
+                {format(days[0], "MMM d")} – {format(days[6], "MMM d, yyyy")}
+              </CardTitle>
+              <Button size="icon" variant="outline" onClick={() => setWeekStart(w => shiftWeek(w, 1))} data-testid="button-next-week">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {weekStart !== currentWeekStart() && (
+                <Button size="sm" variant="ghost" onClick={() => setWeekStart(currentWeekStart())}>This week</Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {viewing && (
+                <Button size="sm" variant="ghost" onClick={() => setViewing(null)} data-testid="button-my-timesheet">
+                  Back to my timesheet
+                </Button>
+              )}
+              <Badge variant={STATUS_VARIANTS[status] || "outline"} className="capitalize" data-testid="badge-timesheet-status">
+                {status}
+              </Badge>
+              {canSubmit && (
+                <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending} data-testid="button-submit-timesheet">
+                  <Send className="w-4 h-4 mr-2" />
+                  {submitMutation.isPending ? "Submitting..." : "Submit"}
+                </Button>
+              )}
+            </div>
+          </div>
+          {viewing && <p className="text-sm text-muted-foreground">Viewing {viewing.userName}'s timesheet</p>}
+          {week?.timesheet?.status === "rejected" && week.timesheet.reviewNote && (
+            <p className="text-sm text-destructive">Sent back: {week.timesheet.reviewNote}</p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p>Loading timesheet...</p>
+          ) : !week || week.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No time logged this week</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {days.flatMap(day => entriesOn(day).map((entry, i) => (
+                  <TableRow key={entry.id} data-testid={`row-week-entry-${entry.id}`}>
+                    <TableCell className="font-medium">{i === 0 ? format(day, "EEE d") : ""}</TableCell>
+                    <TableCell>{entry.taskTitle}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.projectName}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {entry.description}
+                      {!entry.billable && <Badge variant="outline" className="ml-2">Non-billable</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.endedAt ? formatHours(entry.minutes) : <Badge variant="secondary">Running</Badge>}
+                    </TableCell>
+                  </TableRow>
+                )))}
+                <TableRow>
+                  <TableCell colSpan={4} className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right font-semibold" data-testid="text-week-total">{formatHours(week.totalMinutes)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Fake IMAP server for exercising the inbound email poller without a mailbox.
+ *
+ * Usage: npx tsx scripts/fake-imap-server.ts [port] [--from=lead@example.com] [--in-reply-to=<lead_emails id>]
+ * Then set IMAP_HOST=127.0.0.1, IMAP_PORT=<port>, IMAP_SECURE=false and any
+ * IMAP_USER/IMAP_PASS. One reply from --from is seeded; with --in-reply-to it
+ * quotes that lead email's Message-ID so it matches by reply token instead.
+ * Only the plain-text subset of IMAP4rev1 that imapflow uses is implemented.
+ */
+
+import net from "net";
+import { fileURLToPath } from "url";
+
+export interface FakeImapMessage {
+  from: string;
+  to?: string;
+  subject: string;
+  text: string;
+  date?: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface FakeImapServerOptions {
+  port?: number;
+  user?: string;
+  pass?: string;
+  messages?: FakeImapMessage[];
+}
+
+export interface FakeImapServer {
+  port: number;
+  /** Deliver a message to INBOX; returns its UID */
+  append(message: FakeImapMessage): number;
+  close(): Promise<void>;
+}
+
+interface StoredMessage {
+  uid: number;
+  message: FakeImapMessage;
+  date: Date;
+  messageId: string;
+  source: string;
+}
+
+const UID_VALIDITY = 1;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function quote(value: string | undefined | null): string {
+  return value ? `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"` : "NIL";
+}
+
+function literal(value: string): string {
+  return `{${Buffer.byteLength(value)}}\r\n${value}`;
+}
+
+function envelopeAddress(address: string | undefined): string {
+  if (!address) return "NIL";
+  const [mailbox, host] = address.split("@");
+  return `((NIL NIL ${quote(mailbox)} ${quote(host)}))`;
+}
+
+function buildSource(stored: Omit<StoredMessage, "source">): string {
+  const { message } = stored;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to || "inbox@example.com"}`,
+    `Subject: ${message.subject}`,
+    `Date: ${stored.date.toUTCString()}`,
+    `Message-ID: ${stored.messageId}`,
+    message.inReplyTo ? `In-Reply-To: ${message.inReplyTo}` : "",
+    message.references?.length ? `References: ${message.references.join(" ")}` : "",
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+  ].filter(Boolean);
+  return `${headers.join("\r\n")}\r\n\r\n${message.text.replace(/\r?\n/g, "\r\n")}\r\n`;
+}
+
+function buildEnvelope(stored: StoredMessage): string {
+  const { message } = stored;
+  const from = envelopeAddress(message.from);
+  return `(${[
+    quote(stored.date.toUTCString()),
+    quote(message.subject),
+    from,
+    from,
+    from,
+    envelopeAddress(message.to || "inbox@example.com"),
+    "NIL",
+    "NIL",
+    quote(message.inReplyTo),
+    quote(stored.messageId),
+  ].join(" ")})`;
+}
+
+/**
+ * Split a command line into atoms, quoted strings and parenthesised groups
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < line.length) {
+    if (line[i] === " ") {
+      i++;
+    } else if (line[i] === '"') {
+      let value = "";
+      for (i++; i < line.length && line[i] !== '"'; i++) {
+        if (line[i] === "\\") i++;
+        value += line[i];
+      }
+      tokens.push(value);
+      i++;
+    } else if (line[i] === "(") {
+      let depth = 0;
+      const start = i;
+      do {
+        if (line[i] === "(") depth++;
+        if (line[i] === ")") depth--;
+        i++;
+      } while (i < line.length && depth > 0);
+      tokens.push(line.slice(start, i));
+    } else {
+      const start = i;
+      while (i < line.length && line[i] !== " ") {
+        if (line[i] === "[") {
+          while (i < line.length && line[i] !== "]") i++;
+        }
+        i++;
+      }
+      tokens.push(line.slice(start, i));
+    }
+  }
+  return tokens;
+}
+
+function matchesSet(uid: number, set: string, maxUid: number): boolean {
+  return set.split(",").some((part) => {
+    const [from, to = from] = part.split(":").map((n) => (n === "*" ? maxUid : Number(n)));
+    return uid >= Math.min(from, to) && uid <= Math.max(from, to);
+  });
+}
+
+function parseSearchDate(value: string): Date {
+  const [day, month, year] = value.split("-");
+  return new Date(Date.UTC(Number(year), MONTHS.indexOf(month), Number(day)));
+}
+
+export function startFakeImapServer(options: FakeImapServerOptions = {}): Promise<FakeImapServer> {
+  const mailbox: StoredMessage[] = [];
+  let nextUid = 1;
+
+  const append = (message: FakeImapMessage): number => {
+    const uid = nextUid++;
+    const base = {
+      uid,
+      message,
+      date: message.date ?? new Date(),
+      messageId: message.messageId ?? `<fake-${uid}.${Date.now()}@fake-imap.local>`,
+    };
+    mailbox.push({ ...base, source: buildSource(base) });
+    return uid;
+  };
+  (options.messages || []).forEach(append);
+
+  const fetchItems = (stored: StoredMessage, items: string): string => {
+    const parts = [`UID ${stored.uid}`];
+    const upper = items.toUpperCase();
+    if (upper.includes("FLAGS")) parts.push("FLAGS ()");
+    if (upper.includes("ENVELOPE")) parts.push(`ENVELOPE ${buildEnvelope(stored)}`);
+    if (upper.includes("INTERNALDATE")) parts.push(`INTERNALDATE ${quote(stored.date.toUTCString())}`);
+    if (upper.includes("RFC822.SIZE")) parts.push(`RFC822.SIZE ${Buffer.byteLength(stored.source)}`);
+
+    const headerFields = items.match(/BODY\.PEEK\[HEADER\.FIELDS \(([^)]*)\)\]/i);
+    if (headerFields) {
+      const wanted = headerFields[1].toLowerCase().split(" ");
+      const headerBlock = stored.source.split("\r\n\r\n")[0].split("\r\n")
+        .filter((line) => wanted.includes(line.split(":")[0].toLowerCase()))
+        .map((line) => `${line}\r\n`)
+        .join("") + "\r\n";
+      parts.push(`BODY[HEADER.FIELDS (${headerFields[1]})] ${literal(headerBlock)}`);
+    }
+    if (/BODY\.PEEK\[\]|BODY\[\]|RFC822(?![.\w])/i.test(items)) {
+      parts.push(`BODY[] ${literal(stored.source)}`);
+    }
+    return parts.join(" ");
+  };
+
+  return new Promise((resolve, reject) => {
+    const server = net.createServer((socket) => {
+      let buffer = "";
+      let authenticated = false;
+      let selected = false;
+
+      const send = (line: string) => socket.write(`${line}\r\n`);
+
+      const handle = (line: string) => {
+        const [tag, rawCommand, ...args] = tokenize(line);
+        if (!tag || !rawCommand) return;
+        let command = rawCommand.toUpperCase();
+        let uidMode = false;
+        if (command === "UID") {
+          uidMode = true;
+          command = (args.shift() || "").toUpperCase();
+        }
+
+        switch (command) {
+          case "CAPABILITY":
+            send("* CAPABILITY IMAP4rev1");
+            return send(`${tag} OK CAPABILITY completed`);
+          case "NOOP":
+            return send(`${tag} OK NOOP completed`);
+          case "LOGOUT":
+            send("* BYE Logging out");
+            send(`${tag} OK LOGOUT completed`);
+            return socket.end();
+          case "LOGIN": {
+            const [user, pass] = args;
+            if ((options.user && user !== options.user) || (options.pass && pass !== options.pass)) {
+              return send(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+            }
+            authenticated = true;
+            return send(`${tag} OK [CAPABILITY IMAP4rev1] LOGIN completed`);
+          }
+        }
+
+        if (!authenticated) return send(`${tag} NO Not authenticated`);
+
+        switch (command) {
+          case "LIST":
+            send('* LIST (\\HasNoChildren) "/" INBOX');
+            return send(`${tag} OK LIST completed`);
+          case "SELECT":
+          case "EXAMINE":
+            if ((args[0] || "").toUpperCase() !== "INBOX") return send(`${tag} NO Mailbox does not exist`);
+            selected = true;
+            send("* FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)");
+            send(`* ${mailbox.length} EXISTS`);
+            send("* 0 RECENT");
+            send(`* OK [UIDVALIDITY ${UID_VALIDITY}] UIDs valid`);
+            send(`* OK [UIDNEXT ${nextUid}] Predicted next UID`);
+            return send(`${tag} OK [${command === "SELECT" ? "READ-WRITE" : "READ-ONLY"}] ${command} completed`);
+          case "CLOSE":
+            selected = false;
+            return send(`${tag} OK CLOSE completed`);
+        }
+
+        if (!selected) return send(`${tag} BAD No mailbox selected`);
+
+        switch (command) {
+          case "SEARCH": {
+            const sinceIndex = args.findIndex((arg) => arg.toUpperCase() === "SINCE");
+            const since = sinceIndex >= 0 ? parseSearchDate(args[sinceIndex + 1]) : null;
+            const hits = mailbox
+              .map((stored, index) => ({ stored, seq: index + 1 }))
+              .filter(({ stored }) => !since || stored.date >= since)
+              .map(({ stored, seq }) => (uidMode ? stored.uid : seq));
+            send(`* SEARCH${hits.map((n) => ` ${n}`).join("")}`);
+            return send(`${tag} OK SEARCH completed`);
+          }
+          case "FETCH": {
+            const [set, items = ""] = args;
+            mailbox.forEach((stored, index) => {
+              const key = uidMode ? stored.uid : index + 1;
+              const max = uidMode ? nextUid - 1 : mailbox.length;
+              if (matchesSet(key, set, max)) {
+                send(`* ${index + 1} FETCH (${fetchItems(stored, items)})`);
+              }
+            });
+            return send(`${tag} OK FETCH completed`);
+          }
+          default:
+            return send(`${tag} BAD Unsupported command ${command}`);
+        }
+      };
+
+      send("* OK Fake IMAP server ready");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+        let newline: number;
+        while ((newline = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          handle(line);
+        }
+      });
+      socket.on("error", () => socket.destroy());
+    });
+
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        append,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const port = Number(args.find((a) => /^\d+$/.test(a)) ?? 1143);
+  const fromArg = args.find((a) => a.startsWith("--from="));
+  const replyToArg = args.find((a) => a.startsWith("--in-reply-to="));
+  const replyTo = replyToArg ? `<lead-email.${replyToArg.split("=")[1]}@fake-imap.local>` : undefined;
+
+  startFakeImapServer({
+    port,
+    messages: [{
+      from: fromArg ? fromArg.split("=")[1] : "lead@example.com",
+      subject: "Re: Following up",
+      text: "Thanks for reaching out. Could you send over pricing?\n\nBest regards",
+      inReplyTo: replyTo,
+      references: replyTo ? [replyTo] : undefined,
+    }],
+  }).then((server) => {
+    console.log(`Fake IMAP server listening on 127.0.0.1:${server.port} (INBOX, 1 message)`);
+  });
+}
@@ -0,0 +1,271 @@
+/**
+ * Fake ZKTeco terminal for exercising ZKTecoAdapter without hardware.
+ *
+ * Usage: npx tsx scripts/fake-zk-device.ts [port] [--udp] [--comm-key=1234]
+ * Then point an attendance device (type "zkteco") at 127.0.0.1:<port>.
+ * Employee IDs EMP001-EMP003 are enrolled with a few punches for today.
+ */
+
+import net from "net";
+import dgram from "dgram";
+import { fileURLToPath } from "url";
+import {
+  ZK_COMMANDS,
+  FCT_USER,
+  createPacket,
+  parsePacket,
+  wrapTcpFrame,
+  extractTcpFrames,
+  makeCommKey,
+  encodeZKTime,
+  type ZKPacket,
+} from "../server/services/zkProtocol";
+
+export interface FakeZKUser {
+  uid: number;
+  userId: string;
+  name: string;
+}
+
+export interface FakeZKPunch {
+  userId: string;
+  timestamp: Date;
+  punch: number;
+}
+
+export interface FakeZKDeviceOptions {
+  port?: number;
+  protocol?: "tcp" | "udp";
+  commKey?: number;
+  users?: FakeZKUser[];
+  punches?: FakeZKPunch[];
+  /** Serve buffered reads in chunks of this size to exercise the PREPARE_DATA path */
+  chunkSize?: number;
+}
+
+export interface FakeZKDevice {
+  port: number;
+  users: FakeZKUser[];
+  punches: FakeZKPunch[];
+  close(): Promise<void>;
+}
+
+function encodeUsers(users: FakeZKUser[]): Buffer {
+  const records = users.map((user) => {
+    const record = Buffer.alloc(72);
+    record.writeUInt16LE(user.uid, 0);
+    record.write(user.name.slice(0, 23), 11, "utf8");
+    record.write("1", 40, "utf8");
+    record.write(user.userId.slice(0, 23), 48, "utf8");
+    return record;
+  });
+  const body = Buffer.concat(records);
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(body.length, 0);
+  return Buffer.concat([size, body]);
+}
+
+function encodePunches(users: FakeZKUser[], punches: FakeZKPunch[]): Buffer {
+  const records = punches.map((punch) => {
+    const record = Buffer.alloc(40);
+    const uid = users.find((u) => u.userId === punch.userId)?.uid ?? 0;
+    record.writeUInt16LE(uid, 0);
+    record.write(punch.userId.slice(0, 23), 2, "utf8");
+    record[26] = 1; // verified by fingerprint
+    record.writeUInt32LE(encodeZKTime(punch.timestamp), 27);
+    record[31] = punch.punch;
+    return record;
+  });
+  const body = Buffer.concat(records);
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(body.length, 0);
+  return Buffer.concat([size, body]);
+}
+
+function defaultPunches(): FakeZKPunch[] {
+  const at = (hours: number, minutes: number) => {
+    const d = new Date();
+    d.setHours(hours, minutes, 0, 0);
+    return d;
+  };
+  return [
+    { userId: "EMP001", timestamp: at(8, 55), punch: 0 },
+    { userId: "EMP002", timestamp: at(9, 32), punch: 0 },
+    { userId: "EMP001", timestamp: at(18, 5), punch: 1 },
+  ];
+}
+
+export function startFakeZKDevice(options: FakeZKDeviceOptions = {}): Promise<FakeZKDevice> {
+  const protocol = options.protocol || "tcp";
+  const users = options.users ?? [
+    { uid: 1, userId: "EMP001", name: "Alice" },
+    { uid: 2, userId: "EMP002", name: "Bob" },
+    { uid: 3, userId: "EMP003", name: "Carol" },
+  ];
+  const punches = options.punches ?? defaultPunches();
+  const chunkSize = options.chunkSize ?? 1024;
+
+  let nextSession = 1;
+  let buffered: Buffer | null = null;
+
+  /**
+   * Produces the reply packet(s) for one request, mirroring firmware behaviour
+   */
+  function handle(request: ZKPacket, session: { id: number; authed: boolean }): Buffer[] {
+    const reply = (command: number, data: Buffer = Buffer.alloc(0)) =>
+      createPacket(command, session.id, request.replyId, data);
+
+    if (request.command === ZK_COMMANDS.CONNECT) {
+      session.id = nextSession++;
+      session.authed = !options.commKey;
+      return [reply(session.authed ? ZK_COMMANDS.ACK_OK : ZK_COMMANDS.ACK_UNAUTH)];
+    }
+
+    if (request.command === ZK_COMMANDS.AUTH) {
+      session.authed = request.data.equals(makeCommKey(options.commKey || 0, session.id));
+      return [reply(session.authed ? ZK_COMMANDS.ACK_OK : ZK_COMMANDS.ACK_UNAUTH)];
+    }
+
+    if (!session.authed) {
+      return [reply(ZK_COMMANDS.ACK_UNAUTH)];
+    }
+
+    switch (request.command) {
+      case ZK_COMMANDS.GET_FREE_SIZES: {
+        const fields = Buffer.alloc(92);
+        fields.writeInt32LE(users.length, 4 * 4);
+        fields.writeInt32LE(0, 6 * 4);
+        fields.writeInt32LE(punches.length, 8 * 4);
+        fields.writeInt32LE(3000, 14 * 4);
+        fields.writeInt32LE(3000, 15 * 4);
+        fields.writeInt32LE(100000, 16 * 4);
+        return [reply(ZK_COMMANDS.ACK_OK, fields)];
+      }
+
+      case ZK_COMMANDS.PREPARE_BUFFER: {
+        const command = request.data.readInt16LE(1);
+        const fct = request.data.readInt32LE(3);
+        if (command === ZK_COMMANDS.USERTEMP_RRQ && fct === FCT_USER) {
+          buffered = encodeUsers(users);
+        } else if (command === ZK_COMMANDS.ATTLOG_RRQ) {
+          buffered = encodePunches(users, punches);
+        } else {
+          return [reply(ZK_COMMANDS.ACK_ERROR)];
+        }
+
+        if (buffered.length <= chunkSize) {
+          const data = buffered;
+          buffered = null;
+          return [reply(ZK_COMMANDS.DATA, data)];
+        }
+        const info = Buffer.alloc(5);
+        info.writeUInt32LE(buffered.length, 1);
+        return [reply(ZK_COMMANDS.ACK_OK, info)];
+      }
+
+      case ZK_COMMANDS.READ_BUFFER: {
+        if (!buffered) return [reply(ZK_COMMANDS.ACK_ERROR)];
+        const start = request.data.readInt32LE(0);
+        const size = request.data.readInt32LE(4);
+        const slice = buffered.subarray(start, start + size);
+
+        const announce = Buffer.alloc(4);
+        announce.writeUInt32LE(slice.length, 0);
+        const packets = [reply(ZK_COMMANDS.PREPARE_DATA, announce)];
+        for (let offset = 0; offset < slice.length; offset += chunkSize) {
+          packets.push(reply(ZK_COMMANDS.DATA, slice.subarray(offset, offset + chunkSize)));
+        }
+        packets.push(reply(ZK_COMMANDS.ACK_OK));
+        return packets;
+      }
+
+      case ZK_COMMANDS.FREE_DATA:
+        buffered = null;
+        return [reply(ZK_COMMANDS.ACK_OK)];
+
+      case ZK_COMMANDS.CLEAR_ATTLOG:
+        punches.splice(0);
+        return [reply(ZK_COMMANDS.ACK_OK)];
+
+      case ZK_COMMANDS.DISABLE_DEVICE:
+      case ZK_COMMANDS.ENABLE_DEVICE:
+      case ZK_COMMANDS.REFRESH_DATA:
+      case ZK_COMMANDS.EXIT:
+        return [reply(ZK_COMMANDS.ACK_OK)];
+
+      default:
+        return [reply(ZK_COMMANDS.ACK_ERROR)];
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    if (protocol === "udp") {
+      const socket = dgram.createSocket("udp4");
+      const sessions = new Map<string, { id: number; authed: boolean }>();
+
+      socket.on("message", (msg, rinfo) => {
+        const key = `${rinfo.address}:${rinfo.port}`;
+        const session = sessions.get(key) ?? { id: 0, authed: false };
+        sessions.set(key, session);
+        for (const packet of handle(parsePacket(msg), session)) {
+          socket.send(packet, rinfo.port, rinfo.address);
+        }
+      });
+      socket.once("error", reject);
+      socket.bind(options.port ?? 0, "127.0.0.1", () => {
+        resolve({
+          port: socket.address().port,
+          users,
+          punches,
+          close: () => new Promise((done) => socket.close(() => done())),
+        });
+      });
+      return;
+    }
+
+    const server = net.createServer((socket) => {
+      const session = { id: 0, authed: false };
+      let pending: Buffer = Buffer.alloc(0);
+
+      socket.on("data", (chunk) => {
+        const { packets, rest } = extractTcpFrames(Buffer.concat([pending, chunk]));
+        pending = rest;
+        for (const packet of packets) {
+          const request = parsePacket(packet);
+          for (const response of handle(request, session)) {
+            socket.write(wrapTcpFrame(response));
+          }
+          if (request.command === ZK_COMMANDS.EXIT) socket.end();
+        }
+      });
+      socket.on("error", () => socket.destroy());
+    });
+
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        users,
+        punches,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const port = Number(args.find((a) => /^\d+$/.test(a)) ?? 4370);
+  const commKeyArg = args.find((a) => a.startsWith("--comm-key="));
+
+  startFakeZKDevice({
+    port,
+    protocol: args.includes("--udp") ? "udp" : "tcp",
+    commKey: commKeyArg ? Number(commKeyArg.split("=")[1]) : undefined,
+  }).then((device) => {
+    console.log(`Fake ZKTeco device listening on 127.0.0.1:${device.port} (${args.includes("--udp") ? "udp" : "tcp"})`);
+    console.log(`Enrolled users: ${device.users.map((u) => u.userId).join(", ")}`);
+    console.log(`Attendance records: ${device.punches.length}`);
+  });
+}
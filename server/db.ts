@@ -12,3 +12,6 @@ neonConfig.webSocketConstructor = ws;
 
 const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
+
+/** An open transaction, for service methods that must join their caller's transaction */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
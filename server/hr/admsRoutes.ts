@@ -0,0 +1,199 @@
+/**
+ * ZKTeco ADMS (iClock) Push Receiver
+ * Handles the HTTP push protocol used by terminals that upload attendance
+ * to the server instead of being polled. Devices are matched to an
+ * attendance_devices row by serial number (SN query parameter).
+ */
+
+import express, { Express, Response } from "express";
+import { eq, and } from "drizzle-orm";
+import { db } from "../db";
+import { attendanceDevices, type AttendanceDevice } from "@shared/schema";
+import { attendanceSyncService } from "../services/attendanceSync";
+import { zkPunchToType, type DeviceLog } from "../services/deviceAdapters";
+
+// Options returned on handshake: upload attendance and operation logs in real time
+const ADMS_DEVICE_OPTIONS = [
+  "ATTLOGStamp=None",
+  "OPERLOGStamp=9999",
+  "ATTPHOTOStamp=None",
+  "ErrorDelay=30",
+  "Delay=10",
+  "TransTimes=00:00;14:05",
+  "TransInterval=1",
+  "TransFlag=TransData AttLog OpLog EnrollUser ChgUser",
+  "Realtime=1",
+  "Encrypt=None",
+];
+
+/**
+ * Parse "YYYY-MM-DD HH:MM:SS" in device local time
+ */
+function parseAdmsTime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+function splitLines(body: unknown): string[] {
+  // Form-encoded uploads have already been parsed by the global urlencoded parser
+  if (body && typeof body === "object") {
+    body = Object.entries(body).map(([key, value]) => (value === "" ? key : `${key}=${value}`)).join("&");
+  }
+  if (typeof body !== "string") return [];
+  return body.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * ATTLOG lines: PIN \t time \t status \t verify \t workcode \t reserved \t reserved
+ */
+export function parseAttLog(deviceId: string, body: unknown): DeviceLog[] {
+  const logs: DeviceLog[] = [];
+
+  for (const line of splitLines(body)) {
+    const [pin, time, status, verify, workCode] = line.split("\t");
+    const punchTime = time ? parseAdmsTime(time) : null;
+
+    if (!pin || !punchTime) {
+      console.warn(`[ADMS] Skipping malformed ATTLOG line: ${line}`);
+      continue;
+    }
+
+    logs.push({
+      deviceId,
+      employeeId: pin.trim(),
+      punchTime,
+      type: zkPunchToType(Number(status) || 0),
+      deviceUserId: pin.trim(),
+      raw: {
+        source: "adms",
+        status: Number(status) || 0,
+        verify: verify !== undefined ? Number(verify) : null,
+        workCode: workCode || null,
+      },
+    });
+  }
+
+  return logs;
+}
+
+/**
+ * OPERLOG bodies mix operation entries ("OPLOG ..."), user enrollments
+ * ("USER PIN=..\tName=..") and fingerprint templates ("FP PIN=..")
+ */
+export function parseOperLog(body: unknown) {
+  const operations: string[][] = [];
+  const users: Record<string, string>[] = [];
+  let templates = 0;
+
+  for (const line of splitLines(body)) {
+    if (line.startsWith("OPLOG ")) {
+      operations.push(line.slice(6).split("\t"));
+    } else if (line.startsWith("USER ")) {
+      const fields: Record<string, string> = {};
+      for (const pair of line.slice(5).split("\t")) {
+        const [key, ...rest] = pair.split("=");
+        if (key) fields[key.trim()] = rest.join("=");
+      }
+      users.push(fields);
+    } else if (line.startsWith("FP ")) {
+      templates++;
+    }
+  }
+
+  return { operations, users, templates, total: operations.length + users.length + templates };
+}
+
+async function findDeviceBySerial(serialNumber: unknown): Promise<AttendanceDevice | undefined> {
+  if (typeof serialNumber !== "string" || !serialNumber.trim()) return undefined;
+
+  const [device] = await db
+    .select()
+    .from(attendanceDevices)
+    .where(and(
+      eq(attendanceDevices.serialNumber, serialNumber.trim()),
+      eq(attendanceDevices.isActive, true)
+    ))
+    .limit(1);
+
+  return device;
+}
+
+function sendText(res: Response, status: number, body: string) {
+  res.status(status).type("text/plain").send(body);
+}
+
+export function registerAdmsRoutes(app: Express) {
+  // Devices post tab-separated plain text, usually without a content type
+  const admsBody = express.text({ type: () => true, limit: "10mb" });
+
+  // Handshake: device announces itself and fetches its upload options
+  app.get("/iclock/cdata", async (req, res) => {
+    try {
+      const device = await findDeviceBySerial(req.query.SN);
+      if (!device) {
+        console.warn(`[ADMS] Handshake from unknown device SN=${req.query.SN}`);
+        return sendText(res, 404, "Unknown device");
+      }
+
+      console.log(`[ADMS] Handshake from ${device.name} (SN=${device.serialNumber})`);
+      sendText(res, 200, [`GET OPTION FROM: ${device.serialNumber}`, ...ADMS_DEVICE_OPTIONS].join("\n"));
+    } catch (error: any) {
+      console.error("[ADMS] Handshake error:", error.message);
+      sendText(res, 500, "ERROR");
+    }
+  });
+
+  // Data upload: ATTLOG (punches), OPERLOG (operations and enrollments), others acknowledged
+  app.post("/iclock/cdata", admsBody, async (req, res) => {
+    try {
+      const device = await findDeviceBySerial(req.query.SN);
+      if (!device) {
+        console.warn(`[ADMS] Upload from unknown device SN=${req.query.SN}`);
+        return sendText(res, 404, "Unknown device");
+      }
+
+      const table = String(req.query.table || "").toUpperCase();
+
+      if (table === "ATTLOG") {
+        const logs = parseAttLog(device.id, req.body);
+        const { storedCount, failedCount } = await attendanceSyncService.receivePushedLogs(device.id, logs);
+        console.log(`[ADMS] ${device.name}: received ${logs.length} punches, stored ${storedCount}, failed ${failedCount}`);
+        // Any punch left unstored makes the device retry the whole upload
+        if (failedCount > 0) {
+          return sendText(res, 500, "ERROR");
+        }
+        return sendText(res, 200, `OK: ${logs.length}`);
+      }
+
+      if (table === "OPERLOG") {
+        const operLog = parseOperLog(req.body);
+        console.log(
+          `[ADMS] ${device.name}: ${operLog.operations.length} operations, ` +
+          `${operLog.users.length} user records, ${operLog.templates} templates`
+        );
+        return sendText(res, 200, `OK: ${operLog.total}`);
+      }
+
+      sendText(res, 200, `OK: ${splitLines(req.body).length}`);
+    } catch (error: any) {
+      // Non-OK replies make the device retry the upload later
+      console.error("[ADMS] Upload error:", error.message);
+      sendText(res, 500, "ERROR");
+    }
+  });
+
+  // Command polling: no server-side commands are queued
+  app.get("/iclock/getrequest", async (req, res) => {
+    const device = await findDeviceBySerial(req.query.SN).catch(() => undefined);
+    sendText(res, device ? 200 : 404, device ? "OK" : "Unknown device");
+  });
+
+  // Command results reported back by the device
+  app.post("/iclock/devicecmd", admsBody, async (req, res) => {
+    const device = await findDeviceBySerial(req.query.SN).catch(() => undefined);
+    sendText(res, device ? 200 : 404, device ? "OK" : "Unknown device");
+  });
+}
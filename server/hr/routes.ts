@@ -4,8 +4,9 @@
  */
 
 import { Express } from "express";
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
+import { eq, desc, and, gte, lte, sql, inArray } from "drizzle-orm";
 import { AuthRequest } from "../middleware/auth";
+import { checkPermission, requirePermission, resolveRowScope, resolveScopedEmployeeIds } from "../middleware/permissions";
 import {
   departments,
   designations,
@@ -46,12 +47,8 @@ export function registerHrPayrollRoutes(
 ) {
   // ==================== HR SETTINGS ====================
 
-  app.get("/api/hr-settings", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/hr-settings", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const [settings] = await db.select().from(hrSettings).limit(1);
       if (!settings) {
         // Create default settings if none exist
@@ -64,12 +61,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/hr-settings/:id", authenticateToken, auditMiddleware("update", "hr_settings"), async (req: AuthRequest, res) => {
+  app.patch("/api/hr-settings/:id", authenticateToken, requirePermission("hr", "update", ["admin"]), auditMiddleware("update", "hr_settings"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       // Convert numeric fields from number to string to match schema expectations
       const requestBody = { ...req.body };
       if (typeof requestBody.overtimeRateMultiplier === 'number') {
@@ -108,12 +101,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/departments", authenticateToken, auditMiddleware("create", "department"), async (req: AuthRequest, res) => {
+  app.post("/api/departments", authenticateToken, requirePermission("hr", "create"), auditMiddleware("create", "department"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertDepartmentSchema.parse(req.body);
       const [department] = await db.insert(departments).values(data).returning();
       res.json(department);
@@ -122,12 +111,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/departments/:id", authenticateToken, auditMiddleware("update", "department"), async (req: AuthRequest, res) => {
+  app.patch("/api/departments/:id", authenticateToken, requirePermission("hr", "update"), auditMiddleware("update", "department"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertDepartmentSchema.partial().parse(req.body);
       const [updated] = await db.update(departments)
         .set(data)
@@ -140,12 +125,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.delete("/api/departments/:id", authenticateToken, auditMiddleware("delete", "department"), async (req: AuthRequest, res) => {
+  app.delete("/api/departments/:id", authenticateToken, requirePermission("hr", "delete", ["admin"]), auditMiddleware("delete", "department"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       await db.delete(departments).where(eq(departments.id, req.params.id));
       res.json({ success: true });
     } catch (error: any) {
@@ -164,12 +145,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/designations", authenticateToken, auditMiddleware("create", "designation"), async (req: AuthRequest, res) => {
+  app.post("/api/designations", authenticateToken, requirePermission("hr", "create"), auditMiddleware("create", "designation"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertDesignationSchema.parse(req.body);
       const [designation] = await db.insert(designations).values(data).returning();
       res.json(designation);
@@ -178,12 +155,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/designations/:id", authenticateToken, auditMiddleware("update", "designation"), async (req: AuthRequest, res) => {
+  app.patch("/api/designations/:id", authenticateToken, requirePermission("hr", "update"), auditMiddleware("update", "designation"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertDesignationSchema.partial().parse(req.body);
       const [updated] = await db.update(designations)
         .set(data)
@@ -196,12 +169,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.delete("/api/designations/:id", authenticateToken, auditMiddleware("delete", "designation"), async (req: AuthRequest, res) => {
+  app.delete("/api/designations/:id", authenticateToken, requirePermission("hr", "delete", ["admin"]), auditMiddleware("delete", "designation"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       await db.delete(designations).where(eq(designations.id, req.params.id));
       res.json({ success: true });
     } catch (error: any) {
@@ -252,12 +221,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/employees", authenticateToken, auditMiddleware("create", "employee"), async (req: AuthRequest, res) => {
+  app.post("/api/employees", authenticateToken, requirePermission("hr", "create"), auditMiddleware("create", "employee"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertEmployeeSchema.parse(req.body);
       const [employee] = await db.insert(employees).values(data).returning();
       res.json(employee);
@@ -266,12 +231,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/employees/:id", authenticateToken, auditMiddleware("update", "employee"), async (req: AuthRequest, res) => {
+  app.patch("/api/employees/:id", authenticateToken, requirePermission("hr", "update"), auditMiddleware("update", "employee"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertEmployeeSchema.partial().parse(req.body);
       const [updated] = await db.update(employees)
         .set(data)
@@ -286,12 +247,8 @@ export function registerHrPayrollRoutes(
 
   // ==================== ATTENDANCE DEVICES ====================
 
-  app.get("/api/attendance-devices", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/attendance-devices", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const devices = await db.select().from(attendanceDevices).orderBy(attendanceDevices.name);
       res.json(devices);
     } catch (error: any) {
@@ -299,13 +256,11 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/attendance-devices", authenticateToken, auditMiddleware("create", "attendance_device"), async (req: AuthRequest, res) => {
+  app.post("/api/attendance-devices", authenticateToken, requirePermission("hr", "create", ["admin"]), auditMiddleware("create", "attendance_device"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertAttendanceDeviceSchema.parse(req.body);
+      // Serial numbers are unique; store blanks as null
+      if (!data.serialNumber) data.serialNumber = null;
       const [device] = await db.insert(attendanceDevices).values(data).returning();
       res.json(device);
     } catch (error: any) {
@@ -313,13 +268,10 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/attendance-devices/:id", authenticateToken, auditMiddleware("update", "attendance_device"), async (req: AuthRequest, res) => {
+  app.patch("/api/attendance-devices/:id", authenticateToken, requirePermission("hr", "update", ["admin"]), auditMiddleware("update", "attendance_device"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertAttendanceDeviceSchema.partial().parse(req.body);
+      if (data.serialNumber === "") data.serialNumber = null;
       const [updated] = await db.update(attendanceDevices)
         .set(data)
         .where(eq(attendanceDevices.id, req.params.id))
@@ -331,12 +283,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.delete("/api/attendance-devices/:id", authenticateToken, auditMiddleware("delete", "attendance_device"), async (req: AuthRequest, res) => {
+  app.delete("/api/attendance-devices/:id", authenticateToken, requirePermission("hr", "delete", ["admin"]), auditMiddleware("delete", "attendance_device"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       await db.delete(attendanceDevices).where(eq(attendanceDevices.id, req.params.id));
       res.json({ success: true });
     } catch (error: any) {
@@ -345,12 +293,8 @@ export function registerHrPayrollRoutes(
   });
 
   // Device Logs
-  app.get("/api/device-logs", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/device-logs", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const logs = await db.select().from(deviceLogs)
         .orderBy(desc(deviceLogs.punchTime))
         .limit(200);
@@ -361,12 +305,8 @@ export function registerHrPayrollRoutes(
   });
 
   // Device Sync Operations
-  app.post("/api/attendance-devices/:id/sync", authenticateToken, auditMiddleware("sync", "attendance_device"), async (req: AuthRequest, res) => {
+  app.post("/api/attendance-devices/:id/sync", authenticateToken, requirePermission("hr", "create"), auditMiddleware("sync", "attendance_device"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const { attendanceSyncService } = await import("../services/attendanceSync");
       const count = await attendanceSyncService.syncDeviceById(req.params.id);
       
@@ -376,12 +316,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/attendance-devices/:id/test", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/attendance-devices/:id/test", authenticateToken, requirePermission("hr", "create"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const { attendanceSyncService } = await import("../services/attendanceSync");
       const connected = await attendanceSyncService.testDeviceConnection(req.params.id);
       
@@ -391,12 +327,19 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/attendance-devices/sync-all", authenticateToken, auditMiddleware("sync_all", "attendance_device"), async (req: AuthRequest, res) => {
+  app.get("/api/attendance-devices/:id/users", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
+      const { attendanceSyncService } = await import("../services/attendanceSync");
+      const users = await attendanceSyncService.getDeviceUsers(req.params.id);
       
+      res.json(users);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/attendance-devices/sync-all", authenticateToken, requirePermission("hr", "create"), auditMiddleware("sync_all", "attendance_device"), async (req: AuthRequest, res) => {
+    try {
       const { attendanceSyncService } = await import("../services/attendanceSync");
       
       // Trigger async sync without waiting
@@ -419,12 +362,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/leave-types", authenticateToken, auditMiddleware("create", "leave_type"), async (req: AuthRequest, res) => {
+  app.post("/api/leave-types", authenticateToken, requirePermission("hr", "create"), auditMiddleware("create", "leave_type"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertLeaveTypeSchema.parse(req.body);
       const [leaveType] = await db.insert(leaveTypes).values(data).returning();
       res.json(leaveType);
@@ -433,12 +372,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/leave-types/:id", authenticateToken, auditMiddleware("update", "leave_type"), async (req: AuthRequest, res) => {
+  app.patch("/api/leave-types/:id", authenticateToken, requirePermission("hr", "update"), auditMiddleware("update", "leave_type"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertLeaveTypeSchema.partial().parse(req.body);
       const [updated] = await db.update(leaveTypes)
         .set(data)
@@ -455,24 +390,20 @@ export function registerHrPayrollRoutes(
 
   app.get("/api/leave-requests", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      let requests;
-      if (req.userRole === "admin" || req.userRole === "operational_head") {
-        requests = await db.select().from(leaveRequests)
-          .orderBy(desc(leaveRequests.createdAt));
-      } else {
-        // Developers can only see their own leave requests
-        const [employee] = await db.select().from(employees)
-          .where(eq(employees.userId, req.userId!))
-          .limit(1);
-        
-        if (!employee) {
-          return res.status(404).json({ error: "Employee record not found" });
-        }
-        
-        requests = await db.select().from(leaveRequests)
-          .where(eq(leaveRequests.employeeId, employee.id))
-          .orderBy(desc(leaveRequests.createdAt));
+      const rowScope = await resolveRowScope(req, "leave-requests");
+      const employeeIds = await resolveScopedEmployeeIds(rowScope);
+
+      // Users limited to their own requests need an employee record
+      if (employeeIds && employeeIds.length === 0 && rowScope.scope === "own") {
+        return res.status(404).json({ error: "Employee record not found" });
       }
+
+      const requests = employeeIds
+        ? await db.select().from(leaveRequests)
+          .where(inArray(leaveRequests.employeeId, employeeIds))
+          .orderBy(desc(leaveRequests.createdAt))
+        : await db.select().from(leaveRequests)
+          .orderBy(desc(leaveRequests.createdAt));
       res.json(requests);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -505,8 +436,8 @@ export function registerHrPayrollRoutes(
       
       // If approving/rejecting, enforce strict role and self-approval checks
       if (data.status === "approved" || data.status === "rejected") {
-        if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-          return res.status(403).json({ error: "Only admins and operational heads can approve/reject leave requests" });
+        if (!await checkPermission(req.userRole!, req.path, "approve")) {
+          return res.status(403).json({ error: "You do not have permission to approve/reject leave requests" });
         }
         
         // Prevent self-approval
@@ -530,13 +461,8 @@ export function registerHrPayrollRoutes(
   });
 
   // Approve leave request
-  app.post("/api/leave-requests/:id/approve", authenticateToken, auditMiddleware("update", "leave_request"), async (req: AuthRequest, res) => {
+  app.post("/api/leave-requests/:id/approve", authenticateToken, requirePermission("hr", "approve"), auditMiddleware("update", "leave_request"), async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can approve
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Only admins and operational heads can approve leave requests" });
-      }
-
       const [existing] = await db.select()
         .from(leaveRequests)
         .where(eq(leaveRequests.id, req.params.id))
@@ -567,13 +493,8 @@ export function registerHrPayrollRoutes(
   });
 
   // Reject leave request
-  app.post("/api/leave-requests/:id/reject", authenticateToken, auditMiddleware("update", "leave_request"), async (req: AuthRequest, res) => {
+  app.post("/api/leave-requests/:id/reject", authenticateToken, requirePermission("hr", "approve"), auditMiddleware("update", "leave_request"), async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can reject
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Only admins and operational heads can reject leave requests" });
-      }
-
       const [existing] = await db.select()
         .from(leaveRequests)
         .where(eq(leaveRequests.id, req.params.id))
@@ -690,8 +611,8 @@ export function registerHrPayrollRoutes(
       
       // If approving/rejecting, enforce strict role and self-approval checks
       if (data.status === "approved" || data.status === "rejected") {
-        if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-          return res.status(403).json({ error: "Only admins and operational heads can approve/reject punch corrections" });
+        if (!await checkPermission(req.userRole!, req.path, "approve")) {
+          return res.status(403).json({ error: "You do not have permission to approve/reject punch corrections" });
         }
         
         // Prevent self-approval
@@ -716,12 +637,8 @@ export function registerHrPayrollRoutes(
 
   // ==================== SALARY STRUCTURE ====================
 
-  app.get("/api/salary-structure", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/salary-structure", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const allStructures = await db.select().from(salaryStructure);
       res.json(allStructures);
     } catch (error: any) {
@@ -729,12 +646,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/salary-structure", authenticateToken, auditMiddleware("create", "salary_structure"), async (req: AuthRequest, res) => {
+  app.post("/api/salary-structure", authenticateToken, requirePermission("hr", "create", ["admin"]), auditMiddleware("create", "salary_structure"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertSalaryStructureSchema.parse(req.body);
       const [structure] = await db.insert(salaryStructure).values(data).returning();
       res.json(structure);
@@ -743,12 +656,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/salary-structure/:id", authenticateToken, auditMiddleware("update", "salary_structure"), async (req: AuthRequest, res) => {
+  app.patch("/api/salary-structure/:id", authenticateToken, requirePermission("hr", "update", ["admin"]), auditMiddleware("update", "salary_structure"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertSalaryStructureSchema.partial().parse(req.body);
       const [updated] = await db.update(salaryStructure)
         .set(data)
@@ -763,19 +672,18 @@ export function registerHrPayrollRoutes(
 
   // ==================== PAYROLL ====================
 
-  app.get("/api/payroll", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/payroll", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const month = req.query.month ? parseInt(req.query.month as string) : new Date().getMonth() + 1;
       const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
       
+      const employeeIds = await resolveScopedEmployeeIds(await resolveRowScope(req, "payroll"));
+
       const payrollRecords = await db.select().from(payroll)
         .where(and(
           eq(payroll.month, month),
-          eq(payroll.year, year)
+          eq(payroll.year, year),
+          employeeIds ? inArray(payroll.employeeId, employeeIds) : undefined
         ))
         .orderBy(payroll.createdAt);
       
@@ -785,12 +693,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/payroll", authenticateToken, auditMiddleware("create", "payroll"), async (req: AuthRequest, res) => {
+  app.post("/api/payroll", authenticateToken, requirePermission("hr", "create", ["admin"]), auditMiddleware("create", "payroll"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertPayrollSchema.parse(req.body);
       const [payrollRecord] = await db.insert(payroll).values({
         ...data,
@@ -803,12 +707,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.patch("/api/payroll/:id", authenticateToken, auditMiddleware("update", "payroll"), async (req: AuthRequest, res) => {
+  app.patch("/api/payroll/:id", authenticateToken, requirePermission("hr", "update", ["admin"]), auditMiddleware("update", "payroll"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin") {
-        return res.status(403).json({ error: "Access denied. Admin only." });
-      }
-      
       const data = insertPayrollSchema.partial().parse(req.body);
       const [updated] = await db.update(payroll)
         .set(data)
@@ -844,12 +744,8 @@ export function registerHrPayrollRoutes(
 
   // ==================== PERFORMANCE SCORES ====================
 
-  app.get("/api/performance-scores", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/performance-scores", authenticateToken, requirePermission("hr", "view"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const month = req.query.month ? parseInt(req.query.month as string) : new Date().getMonth() + 1;
       const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
       
@@ -865,12 +761,8 @@ export function registerHrPayrollRoutes(
     }
   });
 
-  app.post("/api/performance-scores", authenticateToken, auditMiddleware("create", "performance_score"), async (req: AuthRequest, res) => {
+  app.post("/api/performance-scores", authenticateToken, requirePermission("hr", "create"), auditMiddleware("create", "performance_score"), async (req: AuthRequest, res) => {
     try {
-      if (req.userRole !== "admin" && req.userRole !== "operational_head") {
-        return res.status(403).json({ error: "Access denied" });
-      }
-      
       const data = insertPerformanceScoreSchema.parse(req.body);
       const [score] = await db.insert(performanceScores).values(data).returning();
       res.json(score);
@@ -9,6 +9,11 @@ import { fileURLToPath } from "url";
 // NOTE: remove the static routes import!
 // import { registerRoutes } from "./routes";
 import { createSchedulerService } from "./services/scheduler";
+import { bulkEmailQueueService } from "./services/bulkEmailQueue";
+import { emailSequenceService } from "./services/emailSequences";
+import { inboundEmailService } from "./services/inboundEmail";
+import { leadScoringService } from "./services/leadScoring";
+import { taskRecurrenceService } from "./services/taskRecurrence";
 import { serializeRecord } from "./utils/serialize";
 
 import { createEmailService } from "./services/email";
@@ -24,6 +29,12 @@ const isProd = process.env.NODE_ENV === "production";
 
 const app = express();
 
+// The app is served behind the Replit proxy, so req.ip must come from X-Forwarded-For
+// or every visitor shares the proxy's address (and its login throttle).
+// TRUST_PROXY_HOPS is the number of proxies in front of the app; 0 disables.
+const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS ?? "1", 10);
+app.set("trust proxy", Number.isNaN(trustProxyHops) ? 1 : trustProxyHops);
+
 // typing for app.locals (optional)
 declare module "express-serve-static-core" {
   interface Locals {
@@ -141,11 +152,25 @@ app.use((req, res, next) => {
       } else {
         log("Scheduler service DISABLED in production (low-memory environment)");
       }
+
+      // Bulk sends are user-initiated, sequences promise leads their next step,
+      // replies must reach the lead history, scores age nightly and recurring
+      // tasks fall due, so these run in every environment
+      bulkEmailQueueService.start(emailService);
+      emailSequenceService.start(emailService);
+      inboundEmailService.start();
+      leadScoringService.start();
+      taskRecurrenceService.start();
     });
 
     process.on("SIGTERM", () => {
       log("SIGTERM received, shutting down gracefully");
       if (!isProd) schedulerService.stop();
+      bulkEmailQueueService.stop();
+      emailSequenceService.stop();
+      inboundEmailService.stop();
+      leadScoringService.stop();
+      taskRecurrenceService.stop();
       httpServer.close(() => {
         log("Server closed");
         process.exit(0);
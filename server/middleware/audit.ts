@@ -1,7 +1,128 @@
 import { Request, Response, NextFunction } from "express";
+import { eq } from "drizzle-orm";
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
 import { db } from "../db";
-import { auditLogs } from "@shared/schema";
+import {
+  users,
+  roles,
+  emailTemplates,
+  emailSequences,
+  leads,
+  leadStages,
+  leadScoringRules,
+  leadAssignmentRules,
+  clients,
+  projects,
+  tasks,
+  files,
+  invoices,
+  payments,
+  expenseCategories,
+  departments,
+  designations,
+  employees,
+  hrSettings,
+  attendanceDevices,
+  leaveTypes,
+  leaveRequests,
+  punchCorrections,
+  salaryStructure,
+  payroll,
+  projectCredentials,
+  timeEntries,
+  timesheets,
+  projectMilestones,
+  projectTemplates,
+} from "@shared/schema";
 import { AuthRequest } from "./auth";
+import { auditChainService } from "../services/auditChain";
+
+// Tables behind audited resource types, used to snapshot rows around updates and deletes
+const AUDITED_TABLES: Record<string, PgTableWithColumns<any>> = {
+  user: users,
+  role: roles,
+  email_template: emailTemplates,
+  email_sequence: emailSequences,
+  lead: leads,
+  lead_stage: leadStages,
+  lead_scoring_rule: leadScoringRules,
+  lead_assignment_rule: leadAssignmentRules,
+  client: clients,
+  project: projects,
+  task: tasks,
+  time_entry: timeEntries,
+  timesheet: timesheets,
+  project_milestone: projectMilestones,
+  project_template: projectTemplates,
+  file: files,
+  invoice: invoices,
+  payment: payments,
+  expense_category: expenseCategories,
+  department: departments,
+  designation: designations,
+  employee: employees,
+  hr_settings: hrSettings,
+  attendance_device: attendanceDevices,
+  leave_type: leaveTypes,
+  leave_request: leaveRequests,
+  punch_correction: punchCorrections,
+  salary_structure: salaryStructure,
+  payroll: payroll,
+  project_credentials: projectCredentials,
+};
+
+// Never copy secrets into the audit trail; only record that they changed
+const REDACTED_FIELD = /password|secret|token|hash/i;
+// Secrets whose column names the pattern above does not catch, per resource type
+const REDACTED_COLUMNS: Record<string, string[]> = {
+  project_credentials: ["databaseUrl", "serverCredentials"],
+  attendance_device: ["apiKey", "connectionParams"],
+};
+const IGNORED_FIELDS = ["updatedAt"];
+
+export type AuditFieldChange = { from: unknown; to: unknown };
+
+function snapshotValue(field: string, value: unknown, resourceType?: string): unknown {
+  if (value === null || value === undefined) return null;
+  if (REDACTED_FIELD.test(field)) return "[redacted]";
+  if (resourceType && REDACTED_COLUMNS[resourceType]?.includes(field)) return "[redacted]";
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function snapshot(row: Record<string, unknown>, resourceType: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row)) {
+    if (!IGNORED_FIELDS.includes(field)) result[field] = snapshotValue(field, value, resourceType);
+  }
+  return result;
+}
+
+/**
+ * Fields whose value differs between two versions of a row
+ * @param resourceType audited resource type, for its extra redacted columns
+ */
+export function diffRows(before: Record<string, unknown>, after: Record<string, unknown>, resourceType?: string): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    // Redacted values always compare equal, so compare the raw ones
+    if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes[field] = { from: snapshotValue(field, before[field], resourceType), to: snapshotValue(field, after[field], resourceType) };
+    }
+  });
+  return changes;
+}
+
+async function loadRow(resourceType: string, id: string | undefined) {
+  const table = AUDITED_TABLES[resourceType];
+  if (!table || !id) return undefined;
+
+  const [row] = await db.select().from(table).where(eq(table.id, id)).limit(1);
+  return row as Record<string, unknown> | undefined;
+}
 
 export async function auditLog(
   userId: string | undefined,
@@ -11,7 +132,7 @@ export async function auditLog(
   details?: any
 ) {
   try {
-    await db.insert(auditLogs).values({
+    await auditChainService.append({
       userId: userId ?? null,
       action,
       resourceType,
@@ -23,16 +144,56 @@ export async function auditLog(
   }
 }
 
+/**
+ * Record successful requests in the audit log.
+ * Updates store the changed fields as before/after pairs and deletes store
+ * the removed row, for resource types listed in AUDITED_TABLES.
+ */
 export function auditMiddleware(action: string, resourceType: string) {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const tracksChanges = (action === "update" || action === "delete") && !!req.params.id;
+
+    let before: Record<string, unknown> | undefined;
+    if (tracksChanges) {
+      before = await loadRow(resourceType, req.params.id).catch((error) => {
+        console.error("Audit snapshot error:", error);
+        return undefined;
+      });
+    }
+
     const originalJson = res.json.bind(res);
     res.json = function (data: any) {
       if (res.statusCode >= 200 && res.statusCode < 300) {
         const resourceId = req.params.id || data?.id;
-        auditLog(req.userId, action, resourceType, resourceId);
+        recordChange(req.userId, action, resourceType, resourceId, before);
       }
       return originalJson(data);
     };
     next();
   };
 }
+
+async function recordChange(
+  userId: string | undefined,
+  action: string,
+  resourceType: string,
+  resourceId: string | undefined,
+  before: Record<string, unknown> | undefined
+) {
+  if (!before) {
+    return auditLog(userId, action, resourceType, resourceId);
+  }
+
+  if (action === "delete") {
+    return auditLog(userId, action, resourceType, resourceId, { before: snapshot(before, resourceType) });
+  }
+
+  try {
+    const after = await loadRow(resourceType, resourceId);
+    const details = after ? { changes: diffRows(before, after, resourceType) } : undefined;
+    await auditLog(userId, action, resourceType, resourceId, details);
+  } catch (error) {
+    console.error("Audit diff error:", error);
+    await auditLog(userId, action, resourceType, resourceId);
+  }
+}
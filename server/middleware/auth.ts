@@ -1,13 +1,27 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { sessionService } from "../services/sessions";
 
 const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-in-production";
 
+// Access tokens are short-lived; clients renew them with their refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
 export interface AuthRequest extends Request {
   userId?: string;
   userRole?: string;
+  sessionId?: string;
+}
+
+export interface TokenPayload {
+  userId: string;
+  role: string;
+  sessionId: string;
 }
 
+// The only calls allowed while an admin-issued temporary password is still in use
+const PASSWORD_CHANGE_ROUTES = ["POST /api/auth/change-password", "POST /api/auth/logout"];
+
 export function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
@@ -16,16 +30,59 @@ export function authenticateToken(req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ error: "Access token required" });
   }
 
-  jwt.verify(token, JWT_SECRET, (err, decoded: any) => {
-    if (err) {
-      return res.status(403).json({ error: "Invalid or expired token" });
-    }
-    req.userId = decoded.userId;
-    req.userRole = decoded.role;
-    next();
-  });
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: "Invalid or expired token" });
+  }
+
+  // Revoked sessions and deactivated users are rejected before the token expires
+  sessionService.validateSession(payload.sessionId, payload.userId)
+    .then((session) => {
+      if (!session) {
+        return res.status(401).json({ error: "Session has been revoked" });
+      }
+      if (session.mustChangePassword && !PASSWORD_CHANGE_ROUTES.includes(`${req.method} ${req.baseUrl}${req.path}`)) {
+        return res.status(403).json({ error: "You must change your password before continuing", code: "PASSWORD_CHANGE_REQUIRED" });
+      }
+      req.userId = payload.userId;
+      req.userRole = payload.role;
+      req.sessionId = payload.sessionId;
+      next();
+    })
+    .catch((error: any) => res.status(500).json({ error: error.message }));
+}
+
+export function verifyToken(token: string, options: { ignoreExpiration?: boolean } = {}): TokenPayload | null {
+  try {
+    const decoded: any = jwt.verify(token, JWT_SECRET, { ignoreExpiration: options.ignoreExpiration });
+    // Tokens issued before sessions existed carry no session id
+    if (!decoded.sid) return null;
+    return { userId: decoded.userId, role: decoded.role, sessionId: decoded.sid };
+  } catch {
+    return null;
+  }
+}
+
+export function generateToken(userId: string, role: string, sessionId: string): string {
+  return jwt.sign({ userId, role, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+// Issued after a correct password when a second factor is still needed;
+// it has no session id, so it can never be used as an access token
+const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
+
+export type ChallengePurpose = "2fa-verify" | "2fa-setup";
+
+export function generateChallengeToken(userId: string, purpose: ChallengePurpose): string {
+  return jwt.sign({ userId, purpose }, JWT_SECRET, { expiresIn: CHALLENGE_TOKEN_TTL_SECONDS });
 }
 
-export function generateToken(userId: string, role: string): string {
-  return jwt.sign({ userId, role }, JWT_SECRET, { expiresIn: "1d" });
+export function verifyChallengeToken(token: unknown, purpose: ChallengePurpose): string | null {
+  if (typeof token !== "string") return null;
+  try {
+    const decoded: any = jwt.verify(token, JWT_SECRET);
+    return decoded.purpose === purpose ? decoded.userId : null;
+  } catch {
+    return null;
+  }
 }
@@ -3,7 +3,8 @@ import "dotenv/config";
 import { db } from "./db";
 import { users } from "../shared/schema";
 import { eq } from "drizzle-orm";
-import bcrypt from "bcrypt";
+import { passwordService, PasswordPolicyError } from "./services/passwords";
+import { sessionService } from "./services/sessions";
 
 async function main() {
     const args = process.argv.slice(2);
@@ -24,13 +25,19 @@ async function main() {
         process.exit(1);
     }
 
-    // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    // Apply the password policy and record history
+    try {
+        await passwordService.changePassword(user, newPassword);
+    } catch (error) {
+        if (error instanceof PasswordPolicyError) {
+            console.error(`Password rejected: ${error.message}`);
+            process.exit(1);
+        }
+        throw error;
+    }
 
-    // Update user
-    await db.update(users)
-        .set({ password: hashedPassword })
-        .where(eq(users.id, user.id));
+    // Sign out existing sessions
+    await sessionService.revokeAllForUser(user.id);
 
     console.log(`Password updated successfully for ${email}`);
     process.exit(0);
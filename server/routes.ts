@@ -1,8 +1,9 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
 import bcrypt from "bcrypt";
-import { eq, desc, asc, sql, inArray, and, gte, lte, ne, isNotNull } from "drizzle-orm";
+import { eq, desc, asc, sql, inArray, and, gte, lte, ne, isNotNull, getTableColumns } from "drizzle-orm";
+import { ZodError } from "zod";
 import { db } from "./db";
 import {
   users,
@@ -64,11 +65,69 @@ import {
   DEFAULT_LEAD_CATEGORIES,
   HOSTING_PLATFORMS,
   leadFolders,
+  emailSequences,
+  emailSequenceSteps,
+  emailSequenceEnrollments,
+  insertEmailSequenceSchema,
+  insertEmailSuppressionSchema,
+  insertLeadStageSchema,
+  leadStageOrderSchema,
+  leadStageHistory,
+  leadConversionSchema,
+  insertLeadScoringRuleSchema,
+  leadMergeSchema,
+  leadDuplicateDismissSchema,
+  insertLeadAssignmentRuleSchema,
+  manualTimeEntrySchema,
+  updateTimeEntrySchema,
+  timesheetReviewSchema,
+  insertProjectMilestoneSchema,
+  milestoneReviewSchema,
+  milestoneInvoiceSchema,
+  insertTaskCommentSchema,
+  insertProjectTemplateSchema,
+  applyProjectTemplateSchema,
+  timeEntries,
+  taskDependencies,
+  bulkEmailJobs,
+  bulkEmailRecipients,
+  leadEmailEvents,
 
 
 } from "@shared/schema";
-import { authenticateToken, generateToken, type AuthRequest } from "./middleware/auth";
-import { auditLog, auditMiddleware } from "./middleware/audit";
+import {
+  authenticateToken,
+  generateToken,
+  generateChallengeToken,
+  verifyChallengeToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  type AuthRequest,
+} from "./middleware/auth";
+import { sessionService } from "./services/sessions";
+import { twoFactorService, InvalidTwoFactorCodeError } from "./services/twoFactor";
+import { passwordService, PasswordPolicyError, RESET_TOKEN_TTL_MINUTES } from "./services/passwords";
+import { auditChainService } from "./services/auditChain";
+import { emailSequenceService } from "./services/emailSequences";
+import { leadPipelineService, LeadStageError } from "./services/leadPipeline";
+import { leadConversionService, LeadConversionError } from "./services/leadConversion";
+import { leadScoringService } from "./services/leadScoring";
+import { leadDuplicateService, LeadMergeError } from "./services/leadDuplicates";
+import { leadAssignmentService } from "./services/leadAssignment";
+import { timeTrackingService, TimeTrackingError, weekStartOf } from "./services/timeTracking";
+import { taskPlanningService, TaskPlanningError } from "./services/taskPlanning";
+import { projectMilestoneService, MilestoneError } from "./services/projectMilestones";
+import { projectTemplateService, ProjectTemplateError } from "./services/projectTemplates";
+import { taskRecurrenceService } from "./services/taskRecurrence";
+import { taskActivityService, TaskCommentError } from "./services/taskActivity";
+import { bulkEmailQueueService } from "./services/bulkEmailQueue";
+import { emailTrackingService, TRACKING_PIXEL } from "./services/emailTracking";
+import { inboundEmailService } from "./services/inboundEmail";
+import { emailSuppressionService } from "./services/emailSuppression";
+import { loginProtectionService, ACCOUNT_LOCK_MINUTES, type LoginThrottle } from "./services/loginProtection";
+import { validatePasswordStrength } from "@shared/password-policy";
+import { auditLog, auditMiddleware, diffRows } from "./middleware/audit";
+import { checkPermission, permissionGuard, resolveRowScope } from "./middleware/permissions";
+import { RESOURCES, normalizePermissions, normalizeScopes } from "@shared/permissions";
 import { serpApiService } from "./services/serpapi";
 import { wsService } from "./websocket";
 import { notificationService } from "./services/notification";
@@ -112,71 +171,12 @@ import { format } from "date-fns";
 import { EmailService } from "./services/email";
 
 
-export const RESOURCES = [
-  { id: 'leads', name: 'Leads', paths: ['/api/leads', '/api/lead-folders', '/api/lead-categories'] },
-  { id: 'clients', name: 'Clients', paths: ['/api/clients'] },
-  { id: 'projects', name: 'Projects & Tasks', paths: ['/api/projects', '/api/tasks', '/api/files', '/api/dashboard'] },
-  { id: 'finance', name: 'Finance', paths: ['/api/income', '/api/expenses', '/api/invoices', '/api/payments'] },
-  { id: 'hr', name: 'HR & Payroll', paths: ['/api/employees', '/api/attendance', '/api/departments', '/api/designations', '/api/payroll', '/api/leave', '/api/salary', '/api/performance'] },
-  { id: 'communication', name: 'Communication', paths: ['/api/messages', '/api/files', '/api/chat'] },
-  { id: 'project-credentials', name: 'Project Credentials', paths: ['/api/project-credentials'] },
-  { id: 'templates', name: 'Email Templates', paths: ['/api/email-templates'] },
-  { id: 'settings', name: 'Settings', paths: ['/api/office-settings', '/api/audit-logs'] },
-  { id: 'users', name: 'User Management', paths: ['/api/users', '/api/roles'] },
-];
-
-async function checkPermission(userRole: string, path: string): Promise<boolean> {
-  // 1. System Roles
-  if (userRole === 'admin') return true;
-  if (userRole === 'client') {
-    // Clients have limited access, handled by specific route logic usually
-    return path.startsWith('/api/dashboard') || path.startsWith('/api/projects'); // Basic assumption
-  }
-  if (userRole === 'developer') {
-    return path.startsWith('/api/dashboard') || path.startsWith('/api/tasks') || path.startsWith('/api/projects') || path.startsWith('/api/files') || path.startsWith('/api/users');
-  }
-  if (userRole === 'operational_head') {
-    // Legacy Operational Head access
-    return !path.startsWith('/api/users') || path === '/api/users'; // Can view users but maybe not full management?
-    // Actually operational_head had broad access in legacy code:
-    // leads, clients, projects, income, expenses, attendance (HR), templates
-    // Basically generic "Manager"
-    return true;
-  }
-
-  // 2. Dynamic Roles
-  // Check if role exists in DB
-  // optimization: we assume userRole is the role NAME or ID. 
-  // The user schema stores 'role' as text. 
-  // If it's not a reserved system role, we look it up.
-
-  const [role] = await db.select().from(roles).where(eq(roles.name, userRole)).limit(1);
-  if (!role) return false;
-
-  const permissions = role.permissions as string[]; // Array of allowed resource IDs or paths
-  if (!permissions) return false;
-
-  // Check if current path matches any allowed path
-  // We matched permissions to RESOURCE IDs in the frontend selection, 
-  // so 'permissions' array likely contains ['leads', 'projects'].
-  // or it could contain raw paths. 
-  // Let's assume it contains Resource IDs for simplicity in management.
-
-  // Find which resource this path belongs to
-  const resource = RESOURCES.find(r => r.paths.some(p => path.startsWith(p)));
-  if (!resource) return true; // Public or unlisted resource? Default allow or deny? 
-  // If we don't track it, maybe strictly deny? 
-  // For safety, let's say if it's NOT in RESOURCES, it's either public or specialized.
-  // But authenticatedToken blocks mostly.
-
-  return permissions.includes(resource.id);
-}
-
-
-
 export async function registerRoutes(app: Express, emailService: any): Promise<Server> {
   app.use(express.json());
 
+  // Enforce dynamic role action permissions on every API route (incl. HR module)
+  app.use("/api", permissionGuard);
+
   // File Upload Route
   app.post("/api/uploads", (req, res, next) => {
     console.log("[UPLOAD] Received upload request");
@@ -202,24 +202,77 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
   // Auth routes - NO PUBLIC REGISTRATION
   // All user accounts (including clients) must be created by admin via Team page
 
+  // Open a session for a fully authenticated user and send its tokens
+  const issueSession = async (user: typeof users.$inferSelect, req: Request, res: Response, extra: Record<string, unknown> = {}) => {
+    await auditLog(user.id, "login", "user", user.id);
+    await loginProtectionService.recordSuccess(user);
+
+    const { session, refreshToken } = await sessionService.createSession(user.id, {
+      userAgent: req.headers["user-agent"],
+      ipAddress: req.ip,
+    });
+    const token = generateToken(user.id, user.role, session.id);
+    res.json({ user: { ...user, password: undefined }, token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, ...extra });
+  };
+
+  // Resolve the user behind a login challenge token, refusing deactivated accounts
+  const getChallengeUser = async (challengeToken: unknown, purpose: "2fa-verify" | "2fa-setup") => {
+    const userId = verifyChallengeToken(challengeToken, purpose);
+    if (!userId) return null;
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user?.isActive ? user : null;
+  };
+
+  // Reply to a throttled or locked-out login attempt
+  const sendLoginThrottled = (res: Response, throttle: LoginThrottle) => {
+    const wait = throttle.retryAfterSeconds >= 60
+      ? `${Math.ceil(throttle.retryAfterSeconds / 60)} minute(s)`
+      : `${throttle.retryAfterSeconds} second(s)`;
+
+    res.set("Retry-After", String(throttle.retryAfterSeconds));
+    res.status(429).json({
+      error: throttle.locked
+        ? `Too many failed attempts. Try again in ${wait}.`
+        : `Too many attempts. Please wait ${wait} before trying again.`,
+      code: throttle.locked ? "ACCOUNT_LOCKED" : "LOGIN_THROTTLED",
+      retryAfter: throttle.retryAfterSeconds,
+    });
+  };
+
+  // Check IP and account throttles before any credential is verified
+  const checkLoginThrottle = (req: Request, user?: typeof users.$inferSelect) => {
+    return loginProtectionService.checkIp(req.ip || "unknown") ?? (user ? loginProtectionService.checkAccount(user) : null);
+  };
+
+  // Count a failed password or second factor; audits the lockout when this failure triggers it
+  const registerLoginFailure = async (req: Request, user?: typeof users.$inferSelect) => {
+    const locked = await loginProtectionService.recordFailure(req.ip || "unknown", user);
+    if (locked && user) {
+      console.warn(`[LOGIN] Account locked after repeated failures: ${user.id}`);
+      await auditLog(user.id, "account_locked", "user", user.id, { ip: req.ip, minutes: ACCOUNT_LOCK_MINUTES });
+    }
+    return locked;
+  };
+
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { email, password } = req.body;
-      console.log(`[LOGIN ATTEMPT] Email: ${email}, Password provided: ${password ? "YES" : "NO"}`);
-
-      const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
-      if (!user) {
-        console.log(`[LOGIN FAILED] User not found for email: ${email}`);
-        return res.status(401).json({ error: "Invalid credentials" });
-      }
 
-      console.log(`[LOGIN USER FOUND] User ID: ${user.id}, Role: ${user.role}, Hash starts: ${user.password.substring(0, 5)}`);
+      const [user] = typeof email === "string"
+        ? await db.select().from(users).where(eq(users.email, email)).limit(1)
+        : [];
 
-      const validPassword = await bcrypt.compare(password, user.password);
-      console.log(`[LOGIN PASSWORD CHECK] Valid: ${validPassword}`);
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
 
-      if (!validPassword) {
-        console.log(`[LOGIN FAILED] Invalid password for user: ${email}`);
+      if (!user || !await bcrypt.compare(String(password || ""), user.password)) {
+        await auditLog(user?.id, "login_failed", "user", user?.id, { email, ip: req.ip, reason: user ? "invalid_password" : "unknown_email" });
+        if (await registerLoginFailure(req, user)) {
+          return sendLoginThrottled(res, { retryAfterSeconds: ACCOUNT_LOCK_MINUTES * 60, locked: true });
+        }
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
@@ -227,16 +280,345 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(403).json({ error: "Account is deactivated. Please contact administrator." });
       }
 
-      await auditLog(user.id, "login", "user", user.id);
+      // Second step: enrolled users enter a code, users whose role requires 2FA enroll first
+      if (await twoFactorService.isEnabled(user.id)) {
+        return res.json({ twoFactorRequired: true, challengeToken: generateChallengeToken(user.id, "2fa-verify") });
+      }
+      if (await twoFactorService.isRequiredForRole(user.role)) {
+        return res.json({ twoFactorSetupRequired: true, challengeToken: generateChallengeToken(user.id, "2fa-setup") });
+      }
 
-      const token = generateToken(user.id, user.role);
-      res.json({ user: { ...user, password: undefined }, token });
+      await issueSession(user, req, res);
     } catch (error: any) {
       console.error(`[LOGIN ERROR]`, error);
       res.status(400).json({ error: error.message });
     }
   });
 
+  // Login step two: TOTP code or a one-time recovery code
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+      const user = await getChallengeUser(challengeToken, "2fa-verify");
+      if (!user) {
+        return res.status(401).json({ error: "Login session expired. Please sign in again." });
+      }
+
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
+
+      if (recoveryCode) {
+        const remaining = await twoFactorService.useRecoveryCode(user.id, String(recoveryCode));
+        if (remaining === null) {
+          await auditLog(user.id, "2fa_failed", "user", user.id, { method: "recovery_code", ip: req.ip });
+          await registerLoginFailure(req, user);
+          return res.status(401).json({ error: "Invalid recovery code" });
+        }
+        await auditLog(user.id, "2fa_recovery_code_used", "user", user.id, { remaining });
+        return issueSession(user, req, res, { recoveryCodesRemaining: remaining });
+      }
+
+      if (!code || !await twoFactorService.verifyCode(user.id, String(code))) {
+        await auditLog(user.id, "2fa_failed", "user", user.id, { method: "totp", ip: req.ip });
+        await registerLoginFailure(req, user);
+        return res.status(401).json({ error: "Invalid verification code" });
+      }
+
+      await issueSession(user, req, res);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Forced enrollment during login for roles that require 2FA
+  app.post("/api/auth/2fa/setup", async (req, res) => {
+    try {
+      const user = await getChallengeUser(req.body.challengeToken, "2fa-setup");
+      if (!user) {
+        return res.status(401).json({ error: "Login session expired. Please sign in again." });
+      }
+
+      const enrollment = await twoFactorService.beginEnrollment(user);
+      await auditLog(user.id, "2fa_enroll", "user", user.id);
+      res.json(enrollment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup/confirm", async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+      const user = await getChallengeUser(challengeToken, "2fa-setup");
+      if (!user) {
+        return res.status(401).json({ error: "Login session expired. Please sign in again." });
+      }
+
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, String(code || ""))
+        .catch(async (error) => {
+          if (error instanceof InvalidTwoFactorCodeError) await registerLoginFailure(req, user);
+          throw error;
+        });
+      await auditLog(user.id, "2fa_enable", "user", user.id);
+      await issueSession(user, req, res, { recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Two-factor settings of the signed-in user
+  app.get("/api/auth/2fa/status", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      res.json(await twoFactorService.getStatus(user));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/enroll", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      if (await twoFactorService.isEnabled(user.id)) {
+        return res.status(400).json({ error: "Two-factor authentication is already enabled" });
+      }
+
+      const enrollment = await twoFactorService.beginEnrollment(user);
+      await auditLog(user.id, "2fa_enroll", "user", user.id);
+      res.json(enrollment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, String(req.body.code || ""))
+        .catch(async (error) => {
+          if (error instanceof InvalidTwoFactorCodeError) await registerLoginFailure(req, user);
+          throw error;
+        });
+      await auditLog(req.userId!, "2fa_enable", "user", req.userId!);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { password, code } = req.body;
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      if (await twoFactorService.isRequiredForRole(user.role)) {
+        return res.status(403).json({ error: "Two-factor authentication is mandatory for your role" });
+      }
+
+      // Same throttle as login, so a stolen session cannot guess its way to turning 2FA off
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
+
+      if (!password || !await bcrypt.compare(password, user.password)) {
+        await registerLoginFailure(req, user);
+        return res.status(401).json({ error: "Incorrect password" });
+      }
+      if (!code || !await twoFactorService.verifyCode(user.id, String(code))) {
+        await auditLog(user.id, "2fa_failed", "user", user.id, { method: "totp", ip: req.ip });
+        await registerLoginFailure(req, user);
+        return res.status(401).json({ error: "Invalid verification code" });
+      }
+
+      await twoFactorService.disable(user.id);
+      await auditLog(user.id, "2fa_disable", "user", user.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const throttle = checkLoginThrottle(req, user);
+      if (throttle) {
+        return sendLoginThrottled(res, throttle);
+      }
+
+      if (!req.body.code || !await twoFactorService.verifyCode(user.id, String(req.body.code))) {
+        await auditLog(user.id, "2fa_failed", "user", user.id, { method: "totp", ip: req.ip });
+        await registerLoginFailure(req, user);
+        return res.status(401).json({ error: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id);
+      await auditLog(req.userId!, "2fa_recovery_codes_regenerated", "user", req.userId!);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Forgot password: always answers the same way so it cannot be used to probe for accounts
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+      const [user] = email ? await db.select().from(users).where(eq(users.email, email)).limit(1) : [];
+
+      if (user?.isActive) {
+        const token = await passwordService.createResetToken(user.id, req.ip);
+        const resetUrl = `${process.env.APP_URL || "http://localhost:5000"}/reset-password?token=${encodeURIComponent(token)}`;
+        await emailService.sendPasswordReset(user, resetUrl, RESET_TOKEN_TTL_MINUTES);
+        await auditLog(user.id, "password_reset_requested", "user", user.id, { ip: req.ip });
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent." });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      const user = typeof token === "string" ? await passwordService.findUserByResetToken(token) : undefined;
+      if (!user || !user.isActive) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+
+      await passwordService.changePassword(user, String(password || ""));
+      await passwordService.markResetTokenUsed(token);
+      await loginProtectionService.unlock(user.id);
+
+      // Sign out everywhere: whoever had the old password loses access
+      const revoked = await sessionService.revokeAllForUser(user.id);
+      wsService.disconnectSessions(revoked);
+
+      await auditLog(user.id, "password_reset", "user", user.id);
+      res.json({ message: "Password has been reset. You can now sign in." });
+    } catch (error: any) {
+      const status = error instanceof PasswordPolicyError ? 400 : 500;
+      res.status(status).json({ error: error.message, problems: error.problems });
+    }
+  });
+
+  // Change own password; also completes a forced change after an admin reset
+  app.post("/api/auth/change-password", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      if (!currentPassword || !await bcrypt.compare(currentPassword, user.password)) {
+        return res.status(401).json({ error: "Current password is incorrect" });
+      }
+
+      await passwordService.changePassword(user, String(newPassword || ""));
+
+      // Keep this device signed in, end the others
+      const revoked = await sessionService.revokeAllForUser(user.id, req.sessionId);
+      wsService.disconnectSessions(revoked);
+
+      await auditLog(user.id, "password_change", "user", user.id);
+      const [updated] = await db.select().from(users).where(eq(users.id, user.id)).limit(1);
+      res.json({ user: { ...updated, password: undefined } });
+    } catch (error: any) {
+      const status = error instanceof PasswordPolicyError ? 400 : 500;
+      res.status(status).json({ error: error.message, problems: error.problems });
+    }
+  });
+
+  // Exchange a refresh token for a new access token; the refresh token rotates on every use
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { session, user, refreshToken } = await sessionService.rotateRefreshToken(req.body?.refreshToken, {
+        userAgent: req.headers["user-agent"],
+        ipAddress: req.ip,
+      });
+      const token = generateToken(user.id, user.role, session.id);
+      res.json({ user: { ...user, password: undefined }, token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+    } catch (error: any) {
+      res.status(401).json({ error: error.message });
+    }
+  });
+
+  // Server-side logout: revokes the current session and closes its sockets
+  app.post("/api/auth/logout", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await sessionService.revokeSession(req.sessionId!, req.userId!);
+      wsService.disconnectSessions([req.sessionId!]);
+      await auditLog(req.userId!, "logout", "user", req.userId!);
+      res.json({ message: "Logged out" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Active sessions of the signed-in user
+  app.get("/api/auth/sessions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await sessionService.listActiveSessions(req.userId!);
+      res.json(sessions.map(s => ({
+        id: s.id,
+        userAgent: s.userAgent,
+        ipAddress: s.ipAddress,
+        createdAt: s.createdAt,
+        lastUsedAt: s.lastUsedAt,
+        expiresAt: s.expiresAt,
+        current: s.id === req.sessionId,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Sign out every other device
+  app.delete("/api/auth/sessions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await sessionService.revokeAllForUser(req.userId!, req.sessionId);
+      wsService.disconnectSessions(revoked);
+      res.json({ revoked: revoked.length });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await sessionService.revokeSession(req.params.id, req.userId!);
+      if (!revoked) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      wsService.disconnectSessions([req.params.id]);
+      res.json({ message: "Session revoked" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Dashboard stats
   // Dynamic Role Management
   app.get("/api/resources", authenticateToken, (req, res) => {
@@ -260,13 +642,15 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const { name, permissions, description } = req.body;
+      const { name, permissions, scopes, requireTwoFactor, description } = req.body;
       // Basic validation
       if (!name) return res.status(400).json({ error: "Role name is required" });
 
       const [role] = await db.insert(roles).values({
         name,
-        permissions: permissions || [],
+        permissions: normalizePermissions(permissions),
+        scopes: normalizeScopes(scopes),
+        requireTwoFactor: requireTwoFactor === true,
         description,
       }).returning();
 
@@ -324,13 +708,18 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         });
       }
 
-      if (req.userRole === "developer") {
-        // Developer-specific stats (only allowed resources)
+      const taskScope = await resolveRowScope(req, "tasks");
+      if (taskScope.userIds) {
+        // Scoped stats (developers and own/department roles)
+        const scopedUserIds = taskScope.userIds;
+        const attendanceScope = await resolveRowScope(req, "attendance");
         const allProjects = await db.select().from(projects);
         const activeProjects = allProjects.filter(p => p.status === "active");
         const allTasks = await db.select().from(tasks);
-        const myTasks = allTasks.filter(t => t.assignedTo === req.userId);
-        const myAttendance = await db.select().from(attendance).where(eq(attendance.userId, req.userId!));
+        const myTasks = allTasks.filter(t => t.assignedTo !== null && scopedUserIds.includes(t.assignedTo));
+        const myAttendance = attendanceScope.userIds
+          ? await db.select().from(attendance).where(inArray(attendance.userId, attendanceScope.userIds))
+          : await db.select().from(attendance);
         const allFiles = await db.select().from(files);
 
         const attendanceRate = myAttendance.length > 0
@@ -380,8 +769,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
   // Dashboard Recent Activity
   app.get("/api/dashboard/recent-activity", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      if (req.userRole === "developer") {
-        // Developer: recent tasks, files
+      const taskScope = await resolveRowScope(req, "tasks");
+      if (taskScope.userIds) {
+        // Scoped roles: recent tasks, files
         const recentTasks = await db.select({
           id: tasks.id,
           title: tasks.title,
@@ -389,7 +779,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
           createdAt: tasks.createdAt,
         })
           .from(tasks)
-          .where(eq(tasks.assignedTo, req.userId!))
+          .where(inArray(tasks.assignedTo, taskScope.userIds))
           .orderBy(desc(tasks.createdAt))
           .limit(5);
 
@@ -454,8 +844,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
     try {
       const now = new Date();
 
-      if (req.userRole === "developer") {
-        // Developer: upcoming tasks assigned to them
+      const taskScope = await resolveRowScope(req, "tasks");
+      if (taskScope.userIds) {
+        // Scoped roles: upcoming tasks within their scope
         const upcomingTasks = await db.select({
           id: tasks.id,
           title: tasks.title,
@@ -466,7 +857,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
           .from(tasks)
           .where(
             and(
-              eq(tasks.assignedTo, req.userId!),
+              inArray(tasks.assignedTo, taskScope.userIds),
               sql`${tasks.deadline} IS NOT NULL`,
               sql`${tasks.deadline} >= ${now.toISOString()}`,
               ne(tasks.status, "done")
@@ -591,6 +982,11 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         }
       }
 
+      const passwordProblems = validatePasswordStrength(password, { email });
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ error: passwordProblems.join(". "), problems: passwordProblems });
+      }
+
       const hashedPassword = await bcrypt.hash(password, 10);
 
       const [user] = await db.insert(users).values({
@@ -633,6 +1029,11 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(400).json({ error: "Client not found" });
       }
 
+      const passwordProblems = validatePasswordStrength(password, { email });
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ error: passwordProblems.join(". "), problems: passwordProblems });
+      }
+
       const hashedPassword = await bcrypt.hash(password, 10);
 
       const [user] = await db.insert(users).values({
@@ -665,20 +1066,94 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
       if (role !== undefined) updateData.role = role;
       if (clientId !== undefined) updateData.clientId = clientId;
       if (req.body.isActive !== undefined) updateData.isActive = req.body.isActive;
+
+      const [existingUser] = await db.select().from(users).where(eq(users.id, req.params.id)).limit(1);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // A password set by an admin for someone else must be changed at their next login
       if (password) {
-        updateData.password = await bcrypt.hash(password, 10);
+        await passwordService.changePassword(existingUser, password, { mustChangePassword: req.params.id !== req.userId });
       }
 
-      const [user] = await db.update(users)
-        .set(updateData)
-        .where(eq(users.id, req.params.id))
-        .returning();
+      const [user] = Object.keys(updateData).length > 0
+        ? await db.update(users).set(updateData).where(eq(users.id, req.params.id)).returning()
+        : await db.select().from(users).where(eq(users.id, req.params.id)).limit(1);
 
+      if (password && req.params.id !== req.userId) {
+        const revoked = await sessionService.revokeAllForUser(user.id);
+        wsService.disconnectSessions(revoked);
+      }
+
+      // Deactivation takes effect immediately rather than when the access token expires
+      if (updateData.isActive === false) {
+        const revoked = await sessionService.revokeAllForUser(user.id);
+        wsService.disconnectSessions(revoked);
+      }
+
+      res.json({ ...user, password: undefined });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Admin reset: issue a temporary password that must be changed at next login
+  app.post("/api/users/:id/reset-password", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const [user] = await db.select().from(users).where(eq(users.id, req.params.id)).limit(1);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
-      res.json({ ...user, password: undefined });
+      const temporaryPassword = passwordService.generateTemporaryPassword();
+      await passwordService.changePassword(user, temporaryPassword, { mustChangePassword: true });
+      await loginProtectionService.unlock(user.id);
+
+      const revoked = await sessionService.revokeAllForUser(user.id);
+      wsService.disconnectSessions(revoked);
+
+      await auditLog(req.userId, "password_reset", "user", user.id, { resetBy: req.userId, forceChange: true });
+      res.json({ temporaryPassword });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Admin unlock of an account locked by repeated failed logins
+  app.post("/api/users/:id/unlock", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const [user] = await db.select().from(users).where(eq(users.id, req.params.id)).limit(1);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await loginProtectionService.unlock(user.id);
+      await auditLog(req.userId, "account_unlock", "user", user.id, { failedLoginAttempts: user.failedLoginAttempts });
+      res.json({ message: "Account unlocked" });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Admin reset of a user's two-factor enrollment (e.g. lost device)
+  app.delete("/api/users/:id/two-factor", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      await twoFactorService.disable(req.params.id);
+      await auditLog(req.userId, "2fa_disable", "user", req.params.id, { resetBy: req.userId });
+      res.json({ message: "Two-factor authentication reset" });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
@@ -697,59 +1172,73 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(400).json({ error: "Cannot delete your own account" });
       }
 
-      // Manually handle FK constraints by setting references to null
-      // 1. Audit Logs
-      await db.update(auditLogs).set({ userId: null }).where(eq(auditLogs.userId, req.params.id));
+      // Time entries and timesheets go with the user, so keep users whose time was billed or approved
+      if (await timeTrackingService.hasBillingRecords(req.params.id)) {
+        return res.status(409).json({ error: "This user has billed time or approved timesheets; deactivate the account instead" });
+      }
 
-      // 2. Tasks (assigned to)
-      await db.update(tasks).set({ assignedTo: null }).where(eq(tasks.assignedTo, req.params.id));
+      // End the user's sessions; sessions, 2FA and password history go with the user row
+      const revoked = await sessionService.revokeAllForUser(req.params.id);
+      wsService.disconnectSessions(revoked);
 
-      // 3. Leads (assigned to)
-      await db.update(leads).set({ assignedTo: null }).where(eq(leads.assignedTo, req.params.id));
+      const user = await db.transaction(async (tx) => {
+        // Manually handle FK constraints by setting references to null; newer tables
+        // cascade or set null in the schema. Audit logs keep the user id untouched so their hash chain still verifies.
+        // 1. Tasks (assigned to)
+        await tx.update(tasks).set({ assignedTo: null }).where(eq(tasks.assignedTo, req.params.id));
 
-      // 4. Projects (created by)
-      await db.update(projects).set({ createdBy: null }).where(eq(projects.createdBy, req.params.id));
+        // 2. Leads (assigned to)
+        await tx.update(leads).set({ assignedTo: null }).where(eq(leads.assignedTo, req.params.id));
 
-      // 5. Email Templates (created by) - if we want to keep templates
-      await db.update(emailTemplates).set({ createdBy: null }).where(eq(emailTemplates.createdBy, req.params.id));
+        // 3. Projects (created by)
+        await tx.update(projects).set({ createdBy: null }).where(eq(projects.createdBy, req.params.id));
 
-      // 6. Delete strictly related records (Cascading Delete)
-      await db.delete(attendance).where(eq(attendance.userId, req.params.id));
-      await db.delete(notifications).where(eq(notifications.userId, req.params.id));
+        // 4. Email Templates (created by) - if we want to keep templates
+        await tx.update(emailTemplates).set({ createdBy: null }).where(eq(emailTemplates.createdBy, req.params.id));
 
-      // Delete messages and files (User is owner)
-      await db.delete(messages).where(eq(messages.userId, req.params.id));
-      await db.delete(files).where(eq(files.uploadedBy, req.params.id));
+        // 5. Sequences and bulk jobs keep sending as their owner, so hand them to the deleting admin
+        await tx.update(emailSequences).set({ createdBy: req.userId! }).where(eq(emailSequences.createdBy, req.params.id));
+        await tx.update(bulkEmailJobs).set({ createdBy: req.userId! }).where(eq(bulkEmailJobs.createdBy, req.params.id));
 
-      // Handle Employee Record Deletion (if exists)
-      const [employee] = await db.select().from(employees).where(eq(employees.userId, req.params.id)).limit(1);
+        // 6. Delete strictly related records (Cascading Delete)
+        await tx.delete(attendance).where(eq(attendance.userId, req.params.id));
+        await tx.delete(notifications).where(eq(notifications.userId, req.params.id));
 
-      if (employee) {
-        // Delete employee related records first to avoid param violations
-        await db.delete(leaveRequests).where(eq(leaveRequests.employeeId, employee.id));
-        await db.delete(leaveBalances).where(eq(leaveBalances.employeeId, employee.id));
-        await db.delete(punchCorrections).where(eq(punchCorrections.employeeId, employee.id));
-        await db.delete(performanceScores).where(eq(performanceScores.employeeId, employee.id));
+        // Delete messages and files (User is owner)
+        await tx.delete(messages).where(eq(messages.userId, req.params.id));
+        await tx.delete(files).where(eq(files.uploadedBy, req.params.id));
 
-        // Handle Payroll and Salary Structure
-        const payrollRecords = await db.select().from(payroll).where(eq(payroll.employeeId, employee.id));
-        for (const p of payrollRecords) {
-          await db.delete(salarySlips).where(eq(salarySlips.payrollId, p.id));
-          await db.delete(salaryAdjustments).where(eq(salaryAdjustments.payrollId, p.id));
-        }
-        await db.delete(payroll).where(eq(payroll.employeeId, employee.id));
+        // Handle Employee Record Deletion (if exists)
+        const [employee] = await tx.select().from(employees).where(eq(employees.userId, req.params.id)).limit(1);
 
-        await db.delete(salaryStructure).where(eq(salaryStructure.employeeId, employee.id));
-        // Note: deviceLogs employeeId is text, not FK, but good to clean up if matched
-        await db.delete(deviceLogs).where(eq(deviceLogs.employeeId, employee.employeeId));
+        if (employee) {
+          // Delete employee related records first to avoid param violations
+          await tx.delete(leaveRequests).where(eq(leaveRequests.employeeId, employee.id));
+          await tx.delete(leaveBalances).where(eq(leaveBalances.employeeId, employee.id));
+          await tx.delete(punchCorrections).where(eq(punchCorrections.employeeId, employee.id));
+          await tx.delete(performanceScores).where(eq(performanceScores.employeeId, employee.id));
 
-        // Finally delete employee
-        await db.delete(employees).where(eq(employees.id, employee.id));
-      }
+          // Handle Payroll and Salary Structure
+          const payrollRecords = await tx.select().from(payroll).where(eq(payroll.employeeId, employee.id));
+          for (const p of payrollRecords) {
+            await tx.delete(salarySlips).where(eq(salarySlips.payrollId, p.id));
+            await tx.delete(salaryAdjustments).where(eq(salaryAdjustments.payrollId, p.id));
+          }
+          await tx.delete(payroll).where(eq(payroll.employeeId, employee.id));
 
-      const [user] = await db.delete(users)
-        .where(eq(users.id, req.params.id))
-        .returning();
+          await tx.delete(salaryStructure).where(eq(salaryStructure.employeeId, employee.id));
+          // Note: deviceLogs employeeId is text, not FK, but good to clean up if matched
+          await tx.delete(deviceLogs).where(eq(deviceLogs.employeeId, employee.employeeId));
+
+          // Finally delete employee
+          await tx.delete(employees).where(eq(employees.id, employee.id));
+        }
+
+        const [deleted] = await tx.delete(users)
+          .where(eq(users.id, req.params.id))
+          .returning();
+        return deleted;
+      });
 
       if (!user) {
         return res.status(404).json({ error: "User not found" });
@@ -790,7 +1279,12 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         conditions.push(eq(leads.category, category));
       }
 
-      const userId = req.userId;
+      const { minScore, sort } = req.query;
+
+      if (minScore && typeof minScore === "string" && !isNaN(Number(minScore))) {
+        conditions.push(gte(leads.score, Number(minScore)));
+      }
+
       const { folderId } = req.query;
 
       if (folderId && typeof folderId === "string") {
@@ -801,10 +1295,20 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         }
       }
 
+      // Row-level scope: own/department roles only see leads assigned within it
+      const leadScope = await resolveRowScope(req, "leads");
+      if (leadScope.userIds) {
+        conditions.push(inArray(leads.assignedTo, leadScope.userIds));
+      }
+
+      const order = sort === "score"
+        ? [desc(leads.score), desc(leads.createdAt)]
+        : [desc(leads.createdAt)];
+
       // Apply filters if any, otherwise get all leads
       const allLeads = conditions.length > 0
-        ? await db.select().from(leads).where(and(...conditions)).orderBy(desc(leads.createdAt))
-        : await db.select().from(leads).orderBy(desc(leads.createdAt));
+        ? await db.select().from(leads).where(and(...conditions)).orderBy(...order)
+        : await db.select().from(leads).orderBy(...order);
 
       res.json(allLeads);
     } catch (error: any) {
@@ -828,17 +1332,45 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
     }
   });
 
-  app.post("/api/email-templates", authenticateToken, auditMiddleware("create", "email_template"), async (req: AuthRequest, res) => {
+  // Open/click rates of sent lead emails, per system template name or saved template id
+  app.get("/api/email-templates/stats", authenticateToken, async (req: AuthRequest, res) => {
     try {
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const data = insertEmailTemplateSchema.parse(req.body);
-      const [template] = await db.insert(emailTemplates).values({
-        ...data,
-        createdBy: req.userId,
-      }).returning();
+      const stats = await db.select({
+        templateName: leadEmails.templateName,
+        templateId: leadEmails.templateId,
+        sent: sql<number>`count(*)::int`,
+        opened: sql<number>`count(${leadEmails.firstOpenedAt})::int`,
+        clicked: sql<number>`count(${leadEmails.firstClickedAt})::int`,
+      })
+        .from(leadEmails)
+        .where(eq(leadEmails.status, "sent"))
+        .groupBy(leadEmails.templateName, leadEmails.templateId);
+
+      res.json(stats.map(row => ({
+        ...row,
+        openRate: row.sent > 0 ? row.opened / row.sent : 0,
+        clickRate: row.sent > 0 ? row.clicked / row.sent : 0,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-templates", authenticateToken, auditMiddleware("create", "email_template"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertEmailTemplateSchema.parse(req.body);
+      const [template] = await db.insert(emailTemplates).values({
+        ...data,
+        createdBy: req.userId,
+      }).returning();
 
       res.json(template);
     } catch (error: any) {
@@ -901,6 +1433,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
       }
 
       const data = insertLeadSchema.parse(req.body);
+      data.status = data.status
+        ? (await leadPipelineService.assertStage(data.status)).key
+        : await leadPipelineService.defaultStageKey();
 
       // Check for duplicate email
       if (data.email) {
@@ -918,7 +1453,13 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         }
       }
 
-      const [lead] = await db.insert(leads).values(data).returning();
+      const [created] = await db.insert(leads).values(data).returning();
+      // Leads created without an assignee go through the assignment rules
+      if (!created.assignedTo) {
+        await leadAssignmentService.assignLeads([created.id]);
+      }
+      await leadScoringService.rescore(created.id);
+      const [lead] = await db.select().from(leads).where(eq(leads.id, created.id)).limit(1);
       res.json(lead);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -1002,8 +1543,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(400).json({ error: "No data found in file" });
       }
 
-      // Valid statuses and sources
-      const validStatuses = ["new", "contacted", "qualified", "converted"];
+      // Valid statuses (pipeline stage keys) and sources
+      const validStatuses = (await leadPipelineService.getStages()).map(stage => stage.key);
+      const defaultStatus = await leadPipelineService.defaultStageKey();
       const validSources = ["Facebook", "LinkedIn", "Fiverr", "Upwork", "Freelancer.com", "People per Hour", "Reference", "Local Market", "Legit"];
 
       const results = {
@@ -1011,6 +1553,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         failed: 0,
         errors: [] as { row: number; name: string; error: string }[],
       };
+      const createdIds: string[] = [];
 
       // Process each row
       for (let i = 0; i < parsedRows.length; i++) {
@@ -1028,7 +1571,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
           const name = String(normalizedRow.name || "").trim();
           const email = String(normalizedRow.email || "").trim();
           const phone = String(normalizedRow.phone || "").trim();
-          const status = String(normalizedRow.status || "new").trim().toLowerCase();
+          const status = String(normalizedRow.status || defaultStatus).trim().toLowerCase();
           const source = String(normalizedRow.source || "").trim();
           const notes = String(normalizedRow.notes || "").trim();
           let followUpDate = normalizedRow.followupdate || normalizedRow["follow_up_date"] || normalizedRow["followup_date"] || normalizedRow.follow_up_date || "";
@@ -1109,7 +1652,8 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
           }
 
           // Insert lead
-          await db.insert(leads).values(leadData);
+          const [created] = await db.insert(leads).values(leadData).returning({ id: leads.id });
+          createdIds.push(created.id);
           results.success++;
         } catch (err: any) {
           results.failed++;
@@ -1117,9 +1661,13 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         }
       }
 
+      const assigned = await leadAssignmentService.assignLeads(createdIds);
+      await leadScoringService.scoreLeads(createdIds);
+
       res.json({
         message: `Imported ${results.success} lead(s) successfully${results.failed > 0 ? `, ${results.failed} failed` : ""}`,
         success: results.success,
+        assigned,
         failed: results.failed,
         errors: results.errors,
       });
@@ -1228,6 +1776,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         duplicates: [] as { name: string; reason: string }[],
         imported: [] as any[],
       };
+      const defaultStatus = await leadPipelineService.defaultStageKey();
 
       for (const lead of selectedLeads) {
         try {
@@ -1307,7 +1856,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
             continue;
           }
 
-          // Build notes with additional info
+          // Build notes with additional info (rating and reviews are also stored for scoring)
           const notesArr: string[] = [];
           if (lead.address) notesArr.push(`Address: ${lead.address}`);
           if (lead.rating) notesArr.push(`Rating: ${lead.rating}/5`);
@@ -1329,9 +1878,11 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
             phone,
             website,
             category,
-            status: "new",
+            status: defaultStatus,
             source,
             notes: notesArr.length > 0 ? notesArr.join("\n") : null,
+            rating: Number(lead.rating) || null,
+            reviewCount: Math.round(Number(lead.reviews)) || null,
             followUpDate,
           }).returning();
 
@@ -1343,6 +1894,10 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         }
       }
 
+      const importedIds = results.imported.map(lead => lead.id);
+      const assigned = await leadAssignmentService.assignLeads(importedIds);
+      await leadScoringService.scoreLeads(importedIds);
+
       const message = [
         `Imported ${results.success} lead(s) successfully`,
         results.skipped > 0 ? `${results.skipped} skipped (duplicates)` : "",
@@ -1354,6 +1909,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         success: results.success,
         skipped: results.skipped,
         failed: results.failed,
+        assigned,
         errors: results.errors,
         duplicates: results.duplicates,
         imported: results.imported,
@@ -1484,760 +2040,2273 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
     }
   });
 
-  // Lead Folders
-  app.get("/api/lead-folders", authenticateToken, async (req: AuthRequest, res) => {
+  // Lead pipeline stages
+  app.get("/api/lead-stages", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const folders = await db.select().from(leadFolders).orderBy(asc(leadFolders.createdAt));
-      res.json(folders);
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
-    }
-  });
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-  app.post("/api/lead-folders", authenticateToken, async (req: AuthRequest, res) => {
-    try {
-      const data = insertLeadFolderSchema.parse(req.body);
-      const [folder] = await db.insert(leadFolders).values(data).returning();
-      res.json(folder);
+      res.json(await leadPipelineService.getStages());
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/lead-folders/:id", authenticateToken, async (req: AuthRequest, res) => {
+  // Average time spent in each stage, from the stage history
+  app.get("/api/lead-stages/time-in-stage", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = insertLeadFolderSchema.partial().parse(req.body);
-      const [folder] = await db.update(leadFolders).set(data).where(eq(leadFolders.id, req.params.id)).returning();
-      res.json(folder);
-    } catch (error: any) {
-      res.status(400).json({ error: error.message });
-    }
-  });
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-  app.delete("/api/lead-folders/:id", authenticateToken, async (req: AuthRequest, res) => {
-    try {
-      // Check if folder has leads? Maybe handle in frontend or Cascade if DB configured?
-      // For now, allow delete.
-      await db.delete(leadFolders).where(eq(leadFolders.id, req.params.id));
-      res.json({ success: true });
+      res.json(await leadPipelineService.timeInStage());
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Email Templates
-  app.get("/api/email-templates", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/lead-stages", authenticateToken, auditMiddleware("create", "lead_stage"), async (req: AuthRequest, res) => {
     try {
-      const templates = await db.select().from(emailTemplates).orderBy(desc(emailTemplates.createdAt));
-      res.json(templates);
+      // Only admin can change the pipeline
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertLeadStageSchema.parse(req.body);
+      res.status(201).json(await leadPipelineService.createStage(data));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/email-templates", authenticateToken, async (req: AuthRequest, res) => {
+  app.put("/api/lead-stages/order", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = insertEmailTemplateSchema.parse({ ...req.body, createdBy: req.userId });
-      const [template] = await db.insert(emailTemplates).values(data).returning();
-      res.json(template);
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { ids } = leadStageOrderSchema.parse(req.body);
+      const stages = await leadPipelineService.reorder(ids);
+      await auditLog(req.userId, "update", "lead_stage", undefined, { order: stages.map(stage => stage.key) });
+      res.json(stages);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/email-templates/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.patch("/api/lead-stages/:id", authenticateToken, auditMiddleware("update", "lead_stage"), async (req: AuthRequest, res) => {
     try {
-      const data = insertEmailTemplateSchema.partial().parse(req.body);
-      const [template] = await db.update(emailTemplates).set(data).where(eq(emailTemplates.id, req.params.id)).returning();
-      res.json(template);
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertLeadStageSchema.partial().parse(req.body);
+      const stage = await leadPipelineService.updateStage(req.params.id, data);
+      if (!stage) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+      res.json(stage);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/email-templates/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.delete("/api/lead-stages/:id", authenticateToken, auditMiddleware("delete", "lead_stage"), async (req: AuthRequest, res) => {
     try {
-      await db.delete(emailTemplates).where(eq(emailTemplates.id, req.params.id));
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const moveTo = typeof req.query.moveTo === "string" && req.query.moveTo ? req.query.moveTo : undefined;
+      const stage = await leadPipelineService.deleteStage(req.params.id, moveTo, req.userId!);
+      if (!stage) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
       res.json({ success: true });
     } catch (error: any) {
+      if (error instanceof LeadStageError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Bulk Email to Leads
-  app.post("/api/leads/bulk-email", authenticateToken, auditMiddleware("create", "lead_email"), async (req: AuthRequest, res) => {
+  // Lead scoring rules; any change rescores every lead
+  app.get("/api/lead-scoring-rules", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can send bulk emails
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const { leadIds, subject, message, attachments } = bulkEmailSchema.parse(req.body);
-
-      // Get leads with email addresses
-      const leadsToEmail = await db.select().from(leads).where(inArray(leads.id, leadIds));
-
-      const results = {
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as { name: string; error: string }[],
-        sent: [] as { leadId: string; name: string; email: string }[],
-      };
-
-      for (const lead of leadsToEmail) {
-        try {
-          if (!lead.email) {
-            results.skipped++;
-            results.errors.push({ name: lead.name, error: "No email address" });
-            continue;
-          }
-
-          // Send email
-          const html = `<div style="font-family: Arial, sans-serif; line-height: 1.6;">
-              ${message.split('\n').map(line => `<p>${line}</p>`).join('')}
-              <hr style="border: 1px solid #eee; margin-top: 30px;">
-              <p style="color: #666; font-size: 12px;">This email was sent by MaxTech BD</p>
-            </div>`;
-          const emailResult = await emailService.sendEmail(lead.email, subject, html, attachments || []);
-
-          if (emailResult.success) {
-            // Save to message history
-            await db.insert(leadMessageHistory).values({
-              leadId: lead.id,
-              subject,
-              message,
-              status: "sent",
-              sentBy: req.userId!,
-            });
-
-            results.success++;
-            results.sent.push({ leadId: lead.id, name: lead.name, email: lead.email });
-          } else {
-            // Save failed attempt to history
-            await db.insert(leadMessageHistory).values({
-              leadId: lead.id,
-              subject,
-              message,
-              status: "failed",
-              sentBy: req.userId!,
-              errorMessage: emailResult.error,
-            });
+      res.json(await leadScoringService.getRules());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-            results.failed++;
-            results.errors.push({ name: lead.name, error: emailResult.error || "Failed to send" });
-          }
-        } catch (err: any) {
-          results.failed++;
-          results.errors.push({ name: lead.name, error: err.message || "Unknown error" });
-        }
+  app.post("/api/lead-scoring-rules", authenticateToken, auditMiddleware("create", "lead_scoring_rule"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin can change scoring
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const statusMessage = [
-        `Sent ${results.success} email(s) successfully`,
-        results.skipped > 0 ? `${results.skipped} skipped (no email)` : "",
-        results.failed > 0 ? `${results.failed} failed` : ""
-      ].filter(Boolean).join(", ");
-
-      res.json({
-        message: statusMessage,
-        success: results.success,
-        skipped: results.skipped,
-        failed: results.failed,
-        errors: results.errors,
-        sent: results.sent,
-      });
+      const data = insertLeadScoringRuleSchema.parse(req.body);
+      const rule = await leadScoringService.createRule(data);
+      await leadScoringService.scoreLeads();
+      res.status(201).json(rule);
     } catch (error: any) {
-      res.status(500).json({ error: error.message || "Failed to send bulk emails" });
+      res.status(400).json({ error: error.message });
     }
   });
 
-  // Get message history for a lead
-  app.get("/api/leads/:id/messages", authenticateToken, async (req: AuthRequest, res) => {
+  // Add the suggested starter rules when none exist yet
+  app.post("/api/lead-scoring-rules/defaults", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can view message history
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (req.userRole !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const messages = await db.select({
-        id: leadMessageHistory.id,
-        subject: leadMessageHistory.subject,
-        message: leadMessageHistory.message,
-        status: leadMessageHistory.status,
-        sentAt: leadMessageHistory.sentAt,
-        errorMessage: leadMessageHistory.errorMessage,
-        sentBy: users.fullName,
-      })
-        .from(leadMessageHistory)
-        .leftJoin(users, eq(leadMessageHistory.sentBy, users.id))
-        .where(eq(leadMessageHistory.leadId, req.params.id))
-        .orderBy(desc(leadMessageHistory.sentAt));
-
-      res.json(messages);
+      const rules = await leadScoringService.addDefaultRules();
+      if (rules.length === 0) {
+        return res.status(409).json({ error: "Scoring rules already exist" });
+      }
+      await auditLog(req.userId, "create", "lead_scoring_rule", undefined, { defaults: rules.map(rule => rule.name) });
+      await leadScoringService.scoreLeads();
+      res.status(201).json(rules);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/leads/:id", authenticateToken, auditMiddleware("update", "lead"), async (req: AuthRequest, res) => {
+  app.post("/api/lead-scoring-rules/recompute", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can update leads
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (req.userRole !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const data = insertLeadSchema.partial().parse(req.body);
-      const [lead] = await db.update(leads).set(data).where(eq(leads.id, req.params.id)).returning();
-      res.json(lead);
+      const changed = await leadScoringService.scoreLeads();
+      res.json({ changed });
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/leads/:id/copy", authenticateToken, auditMiddleware("create", "lead"), async (req: AuthRequest, res) => {
+  app.patch("/api/lead-scoring-rules/:id", authenticateToken, auditMiddleware("update", "lead_scoring_rule"), async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can copy leads
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (req.userRole !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const { folderId } = req.body;
-      const [originalLead] = await db.select().from(leads).where(eq(leads.id, req.params.id)).limit(1);
-
-      if (!originalLead) {
-        return res.status(404).json({ error: "Lead not found" });
+      const existing = await leadScoringService.getRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Rule not found" });
       }
 
-      const { id, createdAt, ...leadData } = originalLead;
-      leadData.folderId = folderId || null; // Target folder
-      leadData.name = `${leadData.name} (Copy)`;
-
-      const [newLead] = await db.insert(leads).values(leadData).returning();
-      res.json(newLead);
+      // Validate the rule as a whole; the value requirement depends on the type
+      const { id, createdAt, ...current } = existing;
+      const data = insertLeadScoringRuleSchema.parse({ ...current, ...req.body });
+      const rule = await leadScoringService.updateRule(existing.id, data);
+      await leadScoringService.scoreLeads();
+      res.json(rule);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/leads/:id", authenticateToken, auditMiddleware("delete", "lead"), async (req: AuthRequest, res) => {
+  app.delete("/api/lead-scoring-rules/:id", authenticateToken, auditMiddleware("delete", "lead_scoring_rule"), async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can delete leads
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (req.userRole !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      await db.delete(leads).where(eq(leads.id, req.params.id));
+      const rule = await leadScoringService.deleteRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      await leadScoringService.scoreLeads();
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Lead Email Routes
-  app.get("/api/leads/:id/emails", authenticateToken, async (req: AuthRequest, res) => {
+  // Lead assignment rules, tried in priority order for new unassigned leads
+  app.get("/api/lead-assignment-rules", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can view lead emails
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const emails = await db
-        .select()
-        .from(leadEmails)
-        .where(eq(leadEmails.leadId, req.params.id))
-        .orderBy(desc(leadEmails.createdAt));
-
-      res.json(emails);
+      res.json(await leadAssignmentService.getRules());
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Bulk send custom message
-  app.post("/api/leads/bulk-message", authenticateToken, async (req: AuthRequest, res) => {
-    console.log("BULK MESSAGE API HIT");
+  app.post("/api/lead-assignment-rules", authenticateToken, auditMiddleware("create", "lead_assignment_rule"), async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can send bulk emails
-      if (!await checkPermission(req.userRole!, req.path)) {
+      // Only admin can change assignment
+      if (req.userRole !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const { leadIds, subject, content, attachments } = req.body;
+      const data = insertLeadAssignmentRuleSchema.parse(req.body);
+      res.status(201).json(await leadAssignmentService.createRule(data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      try {
-        const logEntry = `[${new Date().toISOString()}] [BULK EMAIL REQUEST (ACTIVE ROUTE)]\n` +
-          `Lead IDs: ${leadIds?.length}\n` +
-          `Attachments Type: ${typeof attachments}\n` +
-          `Attachments IsArray: ${Array.isArray(attachments)}\n` +
-          `Attachments Raw: ${JSON.stringify(attachments)}\n\n`;
-        fs.appendFileSync(path.join(process.cwd(), "debug_logs.txt"), logEntry);
-      } catch (logErr) {
-        console.error("Failed to write debug log", logErr);
+  // Run the rules over every lead that is still unassigned
+  app.post("/api/lead-assignment-rules/run", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      if (!leadIds || !Array.isArray(leadIds) || leadIds.length === 0) {
-        return res.status(400).json({ error: "No leads selected" });
-      }
+      const unassigned = await db.select({ id: leads.id }).from(leads)
+        .where(and(sql`${leads.assignedTo} IS NULL`, sql`${leads.convertedClientId} IS NULL`));
+      const assigned = await leadAssignmentService.assignLeads(unassigned.map(lead => lead.id));
+      res.json({ assigned, unassigned: unassigned.length - assigned });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (!subject || !content) {
-        return res.status(400).json({ error: "Subject and content are required" });
+  app.patch("/api/lead-assignment-rules/:id", authenticateToken, auditMiddleware("update", "lead_assignment_rule"), async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      // Get sender info
-      const [sender] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
-
-      let successCount = 0;
-      let failedCount = 0;
-      const errors: string[] = [];
-
-      // Process each lead
-      for (const leadId of leadIds) {
-        try {
-          const [lead] = await db
-            .select()
-            .from(leads)
-            .where(eq(leads.id, leadId))
-            .limit(1);
-
-          if (!lead) {
-            failedCount++;
-            errors.push(`Lead ${leadId} not found`);
-            continue;
-          }
-
-          if (!lead.email) {
-            failedCount++;
-            errors.push(`Lead ${lead.name} has no email`);
-            continue;
-          }
+      const existing = await leadAssignmentService.getRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
 
-          // Create email record
-          const [emailRecord] = await db
-            .insert(leadEmails)
-            .values({
-              leadId: lead.id,
-              templateName: "custom_bulk",
-              subject,
-              status: "pending",
-              sentBy: req.userId!,
-            })
-            .returning();
-
-          // Send email
-          const customTemplate = { subject, message: content, attachments: attachments || [] };
-          const sent = await emailService.sendCustomEmail(lead, customTemplate, sender);
-
-          if (sent) {
-            successCount++;
-            await db
-              .update(leadEmails)
-              .set({ status: "sent", sentAt: new Date() })
-              .where(eq(leadEmails.id, emailRecord.id));
-          } else {
-            failedCount++;
-            errors.push(`Failed to send email to ${lead.email}`);
-            await db
-              .update(leadEmails)
-              .set({ status: "failed", errorMessage: "Email service failed to send" })
-              .where(eq(leadEmails.id, emailRecord.id));
-          }
+      // Validate the rule as a whole; the match value requirement depends on the match type
+      const { id, lastAssignedUserId, createdAt, ...current } = existing;
+      const data = insertLeadAssignmentRuleSchema.parse({ ...current, ...req.body });
+      res.json(await leadAssignmentService.updateRule(existing.id, data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-        } catch (err: any) {
-          failedCount++;
-          errors.push(`Error processing lead ${leadId}: ${err.message}`);
-        }
+  app.delete("/api/lead-assignment-rules/:id", authenticateToken, auditMiddleware("delete", "lead_assignment_rule"), async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      res.json({
-        success: successCount,
-        failed: failedCount,
-        errors
-      });
-
+      const rule = await leadAssignmentService.deleteRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/leads/:id/emails/send", authenticateToken, async (req: AuthRequest, res) => {
+  // Duplicate lead review queue
+  app.get("/api/lead-duplicates", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can send emails to leads
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const { templateName } = req.body;
+      res.json(await leadDuplicateService.findCandidates());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (!templateName) {
-        return res.status(400).json({ error: "Template is required" });
+  // Mark a candidate pair as not duplicates so it leaves the queue
+  app.post("/api/lead-duplicates/dismiss", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      // Get lead info
+      const { leadIds } = leadDuplicateDismissSchema.parse(req.body);
+      await leadDuplicateService.dismiss(leadIds, req.userId!);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/lead-duplicates/merge", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Merging deletes the duplicate lead
+      if (!await checkPermission(req.userRole!, req.path, "update")
+        || !await checkPermission(req.userRole!, "/api/leads", "delete")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = leadMergeSchema.parse(req.body);
+      const { before, after, duplicate } = await leadDuplicateService.merge(data);
+      await auditLog(req.userId, "merge", "lead", after.id, {
+        mergedLeadId: duplicate.id,
+        mergedLead: duplicate,
+        changes: diffRows(before, after, "lead"),
+      });
+
+      const score = await leadScoringService.rescore(after.id);
+      res.json({ ...after, score: score ?? after.score });
+    } catch (error: any) {
+      if (error instanceof LeadMergeError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Lead Folders
+  app.get("/api/lead-folders", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const folders = await db.select().from(leadFolders).orderBy(asc(leadFolders.createdAt));
+      res.json(folders);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/lead-folders", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = insertLeadFolderSchema.parse(req.body);
+      const [folder] = await db.insert(leadFolders).values(data).returning();
+      res.json(folder);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/lead-folders/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = insertLeadFolderSchema.partial().parse(req.body);
+      const [folder] = await db.update(leadFolders).set(data).where(eq(leadFolders.id, req.params.id)).returning();
+      res.json(folder);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/lead-folders/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Check if folder has leads? Maybe handle in frontend or Cascade if DB configured?
+      // For now, allow delete.
+      await db.delete(leadFolders).where(eq(leadFolders.id, req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Email Templates
+  app.get("/api/email-templates", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const templates = await db.select().from(emailTemplates).orderBy(desc(emailTemplates.createdAt));
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-templates", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = insertEmailTemplateSchema.parse({ ...req.body, createdBy: req.userId });
+      const [template] = await db.insert(emailTemplates).values(data).returning();
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/email-templates/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = insertEmailTemplateSchema.partial().parse(req.body);
+      const [template] = await db.update(emailTemplates).set(data).where(eq(emailTemplates.id, req.params.id)).returning();
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/email-templates/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await db.delete(emailTemplates).where(eq(emailTemplates.id, req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Bulk Email to Leads (queued; progress via /api/bulk-email-jobs/:id)
+  app.post("/api/leads/bulk-email", authenticateToken, auditMiddleware("create", "bulk_email_job"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can send bulk emails
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { leadIds, subject, message, attachments } = bulkEmailSchema.parse(req.body);
+      const job = await bulkEmailQueueService.createJob({ subject, message, attachments }, leadIds, req.userId!);
+      res.status(202).json(job);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid bulk email request" });
+      }
+      res.status(500).json({ error: error.message || "Failed to queue bulk emails" });
+    }
+  });
+
+  // Bulk email jobs: progress and pause/resume/cancel
+  app.get("/api/bulk-email-jobs", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const conditions = [];
+      if (req.query.active === "true") {
+        conditions.push(inArray(bulkEmailJobs.status, ["queued", "running", "paused"]));
+      }
+      // Others only see their own jobs
+      if (req.userRole !== "admin") {
+        conditions.push(eq(bulkEmailJobs.createdBy, req.userId!));
+      }
+
+      const jobs = await db.select().from(bulkEmailJobs)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(bulkEmailJobs.createdAt))
+        .limit(20);
+      res.json(jobs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/bulk-email-jobs/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const job = await bulkEmailQueueService.getJob(req.params.id);
+      if (!job || (req.userRole !== "admin" && job.createdBy !== req.userId)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const recipients = await db.select({
+        id: bulkEmailRecipients.id,
+        leadId: bulkEmailRecipients.leadId,
+        leadName: leads.name,
+        email: bulkEmailRecipients.email,
+        status: bulkEmailRecipients.status,
+        attempts: bulkEmailRecipients.attempts,
+        nextAttemptAt: bulkEmailRecipients.nextAttemptAt,
+        lastError: bulkEmailRecipients.lastError,
+        sentAt: bulkEmailRecipients.sentAt,
+      })
+        .from(bulkEmailRecipients)
+        .innerJoin(leads, eq(bulkEmailRecipients.leadId, leads.id))
+        .where(eq(bulkEmailRecipients.jobId, job.id))
+        .orderBy(asc(leads.name));
+
+      res.json({ ...job, recipients });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/bulk-email-jobs/:id/:action", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const existing = await bulkEmailQueueService.getJob(req.params.id);
+      if (!existing || (req.userRole !== "admin" && existing.createdBy !== req.userId)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const action = req.params.action;
+      const job = action === "pause" ? await bulkEmailQueueService.pause(existing.id)
+        : action === "resume" ? await bulkEmailQueueService.resume(existing.id)
+        : action === "cancel" ? await bulkEmailQueueService.cancel(existing.id)
+        : null;
+
+      if (job === null) {
+        return res.status(404).json({ error: "Unknown action" });
+      }
+      if (!job) {
+        return res.status(409).json({ error: `Cannot ${action} a ${existing.status} job` });
+      }
+
+      await auditLog(req.userId, action, "bulk_email_job", job.id, { sentCount: job.sentCount, totalRecipients: job.totalRecipients });
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Check the IMAP mailbox for lead replies now instead of waiting for the scheduler
+  app.post("/api/leads/inbox-sync", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Only admins can sync the inbox" });
+      }
+      if (!inboundEmailService.isConfigured()) {
+        return res.status(400).json({ error: "Inbound email is not configured (set IMAP_HOST)" });
+      }
+
+      const result = await inboundEmailService.poll();
+      await auditLog(req.userId, "sync", "lead_inbox", undefined, result);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Stage transitions of a lead, newest first
+  app.get("/api/leads/:id/stage-history", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const history = await db.select({
+        id: leadStageHistory.id,
+        fromStage: leadStageHistory.fromStage,
+        toStage: leadStageHistory.toStage,
+        secondsInPreviousStage: leadStageHistory.secondsInPreviousStage,
+        changedAt: leadStageHistory.changedAt,
+        changedBy: users.fullName,
+      })
+        .from(leadStageHistory)
+        .leftJoin(users, eq(leadStageHistory.changedBy, users.id))
+        .where(eq(leadStageHistory.leadId, req.params.id))
+        .orderBy(desc(leadStageHistory.changedAt));
+
+      res.json(history);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Which scoring rules match a lead
+  app.get("/api/leads/:id/score", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const [lead] = await db.select().from(leads).where(eq(leads.id, req.params.id)).limit(1);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      res.json(await leadScoringService.explain(lead));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get message history for a lead
+  app.get("/api/leads/:id/messages", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can view message history
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const messages = await db.select({
+        id: leadMessageHistory.id,
+        direction: leadMessageHistory.direction,
+        subject: leadMessageHistory.subject,
+        message: leadMessageHistory.message,
+        status: leadMessageHistory.status,
+        sentAt: leadMessageHistory.sentAt,
+        errorMessage: leadMessageHistory.errorMessage,
+        fromAddress: leadMessageHistory.fromAddress,
+        sentBy: users.fullName,
+      })
+        .from(leadMessageHistory)
+        .leftJoin(users, eq(leadMessageHistory.sentBy, users.id))
+        .where(eq(leadMessageHistory.leadId, req.params.id))
+        .orderBy(desc(leadMessageHistory.sentAt));
+
+      res.json(messages);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/leads/:id", authenticateToken, auditMiddleware("update", "lead"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can update leads
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { status, ...data } = insertLeadSchema.partial().parse(req.body);
+      const [existing] = await db.select().from(leads).where(eq(leads.id, req.params.id)).limit(1);
+      if (!existing) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      let lead = existing;
+      if (Object.keys(data).length > 0) {
+        // Reassigning by hand means the assignment rule no longer explains the owner
+        const reassigned = data.assignedTo !== undefined && data.assignedTo !== existing.assignedTo;
+        [lead] = await db.update(leads)
+          .set(reassigned ? { ...data, assignmentRuleId: null } : data)
+          .where(eq(leads.id, existing.id))
+          .returning();
+      }
+      // Stage changes are recorded in the lead's stage history
+      if (status !== undefined) {
+        lead = await leadPipelineService.changeStage(lead, status, req.userId!);
+      }
+      const score = await leadScoringService.rescore(lead.id);
+      res.json({ ...lead, score: score ?? lead.score });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/copy", authenticateToken, auditMiddleware("create", "lead"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can copy leads
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { folderId } = req.body;
+      const [originalLead] = await db.select().from(leads).where(eq(leads.id, req.params.id)).limit(1);
+
+      if (!originalLead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      // A copy is a fresh lead, not linked to the client the original became
+      const { id, createdAt, convertedClientId, convertedAt, ...leadData } = originalLead;
+      leadData.folderId = folderId || null; // Target folder
+      leadData.name = `${leadData.name} (Copy)`;
+
+      const [newLead] = await db.insert(leads).values(leadData).returning();
+      const score = await leadScoringService.rescore(newLead.id);
+      res.json({ ...newLead, score: score ?? newLead.score });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Convert a lead into a client, optionally with a first project and draft invoice
+  app.post("/api/leads/:id/convert", authenticateToken, auditMiddleware("update", "lead"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = leadConversionSchema.parse(req.body);
+      // Conversion creates records owned by other modules
+      if (!await checkPermission(req.userRole!, "/api/clients", "create")
+        || (data.project && !await checkPermission(req.userRole!, "/api/projects", "create"))
+        || (data.invoice && !await checkPermission(req.userRole!, "/api/invoices", "create"))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const result = await leadConversionService.convert(req.params.id, data, req.userId!);
+      if (!result) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      await auditLog(req.userId, "create", "client", result.client.id, { fromLead: result.lead.id });
+      if (result.project) {
+        await auditLog(req.userId, "create", "project", result.project.id, { fromLead: result.lead.id });
+      }
+      if (result.invoice) {
+        await auditLog(req.userId, "create", "invoice", result.invoice.id, { fromLead: result.lead.id });
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof LeadConversionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/leads/:id", authenticateToken, auditMiddleware("delete", "lead"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can delete leads
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      await db.delete(leads).where(eq(leads.id, req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Email Sequences (drip campaigns)
+  app.get("/api/email-sequences", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const sequences = await db.select().from(emailSequences).orderBy(desc(emailSequences.createdAt));
+      const steps = await db.select().from(emailSequenceSteps).orderBy(asc(emailSequenceSteps.stepOrder));
+      const counts = await db.select({
+        sequenceId: emailSequenceEnrollments.sequenceId,
+        status: emailSequenceEnrollments.status,
+        count: sql<number>`count(*)::int`,
+      })
+        .from(emailSequenceEnrollments)
+        .groupBy(emailSequenceEnrollments.sequenceId, emailSequenceEnrollments.status);
+
+      res.json(sequences.map(sequence => ({
+        ...sequence,
+        steps: steps.filter(step => step.sequenceId === sequence.id),
+        enrollmentCounts: Object.fromEntries(
+          counts.filter(c => c.sequenceId === sequence.id).map(c => [c.status, c.count])
+        ),
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-sequences", authenticateToken, auditMiddleware("create", "email_sequence"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { steps, ...data } = insertEmailSequenceSchema.parse(req.body);
+      const [sequence] = await db.insert(emailSequences).values({ ...data, createdBy: req.userId! }).returning();
+      await emailSequenceService.replaceSteps(sequence.id, steps);
+
+      // Pick up leads already sitting in the chosen folder or category
+      const enrolled = await emailSequenceService.autoEnroll();
+      res.json({ ...sequence, enrolled });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/email-sequences/:id", authenticateToken, auditMiddleware("update", "email_sequence"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { steps, ...data } = insertEmailSequenceSchema.partial().parse(req.body);
+      const [sequence] = Object.keys(data).length > 0
+        ? await db.update(emailSequences).set(data).where(eq(emailSequences.id, req.params.id)).returning()
+        : await db.select().from(emailSequences).where(eq(emailSequences.id, req.params.id)).limit(1);
+
+      if (!sequence) {
+        return res.status(404).json({ error: "Sequence not found" });
+      }
+      if (steps) {
+        await emailSequenceService.replaceSteps(sequence.id, steps);
+      }
+
+      await emailSequenceService.autoEnroll();
+      res.json(sequence);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/email-sequences/:id", authenticateToken, auditMiddleware("delete", "email_sequence"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      await db.delete(emailSequenceEnrollments).where(eq(emailSequenceEnrollments.sequenceId, req.params.id));
+      await db.delete(emailSequenceSteps).where(eq(emailSequenceSteps.sequenceId, req.params.id));
+      await db.delete(emailSequences).where(eq(emailSequences.id, req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Per-lead progress through a sequence
+  app.get("/api/email-sequences/:id/enrollments", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const enrollments = await db.select({
+        enrollment: emailSequenceEnrollments,
+        leadName: leads.name,
+        leadEmail: leads.email,
+        leadStatus: leads.status,
+      })
+        .from(emailSequenceEnrollments)
+        .innerJoin(leads, eq(emailSequenceEnrollments.leadId, leads.id))
+        .where(eq(emailSequenceEnrollments.sequenceId, req.params.id))
+        .orderBy(desc(emailSequenceEnrollments.enrolledAt));
+
+      res.json(enrollments.map(({ enrollment, ...lead }) => ({ ...enrollment, ...lead })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-sequences/:id/enroll", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { leadIds } = req.body;
+      if (!Array.isArray(leadIds) || leadIds.length === 0) {
+        return res.status(400).json({ error: "No leads selected" });
+      }
+
+      const [sequence] = await db.select().from(emailSequences).where(eq(emailSequences.id, req.params.id)).limit(1);
+      if (!sequence) {
+        return res.status(404).json({ error: "Sequence not found" });
+      }
+
+      const enrolled = await emailSequenceService.enroll(sequence, leadIds, req.userId!);
+      await auditLog(req.userId, "enroll", "email_sequence", sequence.id, { requested: leadIds.length, enrolled });
+      res.json({ enrolled, skipped: leadIds.length - enrolled });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-sequences/enrollments/:id/exit", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      await emailSequenceService.exitEnrollment(req.params.id, "manual");
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Sequences a lead is or was enrolled in
+  app.get("/api/leads/:id/sequences", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const enrollments = await db.select({ enrollment: emailSequenceEnrollments, sequenceName: emailSequences.name })
+        .from(emailSequenceEnrollments)
+        .innerJoin(emailSequences, eq(emailSequenceEnrollments.sequenceId, emailSequences.id))
+        .where(eq(emailSequenceEnrollments.leadId, req.params.id))
+        .orderBy(desc(emailSequenceEnrollments.enrolledAt));
+
+      const stepCounts = await db.select({ sequenceId: emailSequenceSteps.sequenceId, count: sql<number>`count(*)::int` })
+        .from(emailSequenceSteps)
+        .groupBy(emailSequenceSteps.sequenceId);
+
+      res.json(enrollments.map(({ enrollment, sequenceName }) => ({
+        ...enrollment,
+        sequenceName,
+        totalSteps: stepCounts.find(c => c.sequenceId === enrollment.sequenceId)?.count ?? 0,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // A reply from the lead ends its sequences
+  app.post("/api/leads/:id/replied", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const exited = await emailSequenceService.exitLead(req.params.id, "replied");
+      res.json({ exited });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Email tracking (public: requested by the recipient's mail client)
+  app.get("/api/track/open/:id.gif", async (req, res) => {
+    try {
+      await emailTrackingService.recordOpen(req.params.id, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    } catch (error) {
+      console.error("Failed to record email open:", error);
+    }
+
+    res.set({
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, no-cache, must-revalidate, private",
+    });
+    res.send(TRACKING_PIXEL);
+  });
+
+  app.get("/api/track/click/:id", async (req, res) => {
+    const url = typeof req.query.url === "string" ? req.query.url : "";
+    const signature = typeof req.query.sig === "string" ? req.query.sig : "";
+
+    if (!/^https?:\/\//i.test(url) || !emailTrackingService.isValidLink(req.params.id, url, signature)) {
+      return res.status(400).send("Invalid link");
+    }
+
+    try {
+      await emailTrackingService.recordClick(req.params.id, url, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    } catch (error) {
+      console.error("Failed to record email click:", error);
+    }
+    res.redirect(302, url);
+  });
+
+  // Unsubscribe link of lead emails (public). GET asks for confirmation; POST is
+  // the confirm button and RFC 8058 one-click unsubscribe from the mail client.
+  app.get("/api/unsubscribe", (req, res) => {
+    const email = typeof req.query.email === "string" ? req.query.email : "";
+    const signature = typeof req.query.sig === "string" ? req.query.sig : "";
+    const valid = !!email && emailSuppressionService.isValidUnsubscribe(email, signature);
+
+    res.status(valid ? 200 : 400).type("html").send(emailSuppressionService.renderUnsubscribePage(valid ? "confirm" : "invalid", email));
+  });
+
+  app.post("/api/unsubscribe", async (req, res) => {
+    const email = typeof req.query.email === "string" ? req.query.email : "";
+    const signature = typeof req.query.sig === "string" ? req.query.sig : "";
+    if (!email || !emailSuppressionService.isValidUnsubscribe(email, signature)) {
+      return res.status(400).type("html").send(emailSuppressionService.renderUnsubscribePage("invalid"));
+    }
+
+    try {
+      const entry = await emailSuppressionService.suppress(email, "unsubscribe");
+      if (entry) {
+        await auditLog(undefined, "create", "email_suppression", entry.id, { email: entry.email, reason: entry.reason });
+      }
+      res.type("html").send(emailSuppressionService.renderUnsubscribePage("done", email));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Suppression list: unsubscribes, hard bounces and manual entries
+  app.get("/api/email-suppressions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const search = typeof req.query.search === "string" && req.query.search.trim() ? req.query.search.trim() : undefined;
+      res.json(await emailSuppressionService.list(search));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/email-suppressions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { email, note } = insertEmailSuppressionSchema.parse(req.body);
+      const entry = await emailSuppressionService.suppress(email, "manual", note, req.userId);
+      if (!entry) {
+        return res.status(409).json({ error: `${email} is already on the suppression list` });
+      }
+
+      await auditLog(req.userId, "create", "email_suppression", entry.id, { email: entry.email, reason: entry.reason });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/email-suppressions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Removing an entry lets emails go out again, so only admins may do it
+      if (req.userRole !== "admin") {
+        return res.status(403).json({ error: "Only admins can remove suppressed addresses" });
+      }
+
+      const entry = await emailSuppressionService.remove(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Entry not found" });
+      }
+
+      await auditLog(req.userId, "delete", "email_suppression", entry.id, { email: entry.email, reason: entry.reason });
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Open/click timeline for a lead's tracked emails
+  app.get("/api/leads/:id/email-events", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const events = await db.select({
+        id: leadEmailEvents.id,
+        leadEmailId: leadEmailEvents.leadEmailId,
+        type: leadEmailEvents.type,
+        url: leadEmailEvents.url,
+        createdAt: leadEmailEvents.createdAt,
+        subject: leadEmails.subject,
+        templateName: leadEmails.templateName,
+      })
+        .from(leadEmailEvents)
+        .innerJoin(leadEmails, eq(leadEmailEvents.leadEmailId, leadEmails.id))
+        .where(eq(leadEmailEvents.leadId, req.params.id))
+        .orderBy(desc(leadEmailEvents.createdAt))
+        .limit(200);
+
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Lead Email Routes
+  app.get("/api/leads/:id/emails", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can view lead emails
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const emails = await db
+        .select()
+        .from(leadEmails)
+        .where(eq(leadEmails.leadId, req.params.id))
+        .orderBy(desc(leadEmails.createdAt));
+
+      res.json(emails);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Bulk send custom message (queued; progress via /api/bulk-email-jobs/:id)
+  app.post("/api/leads/bulk-message", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can send bulk emails
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { leadIds, subject, content, attachments } = req.body;
+
+      if (!leadIds || !Array.isArray(leadIds) || leadIds.length === 0) {
+        return res.status(400).json({ error: "No leads selected" });
+      }
+
+      if (!subject || !content) {
+        return res.status(400).json({ error: "Subject and content are required" });
+      }
+
+      const job = await bulkEmailQueueService.createJob({ subject, message: content, attachments: attachments || [] }, leadIds, req.userId!);
+      await auditLog(req.userId, "create", "bulk_email_job", job.id, { recipients: job.totalRecipients, subject });
+      res.status(202).json(job);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/emails/send", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can send emails to leads
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { templateName } = req.body;
+
+      if (!templateName) {
+        return res.status(400).json({ error: "Template is required" });
+      }
+
+      // Get lead info
+      const [lead] = await db
+        .select()
+        .from(leads)
+        .where(eq(leads.id, req.params.id))
+        .limit(1);
+
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      // Unsubscribed and bounced addresses are never emailed again
+      const suppression = lead.email ? await emailSuppressionService.getSuppression(lead.email) : undefined;
+      if (suppression) {
+        return res.status(409).json({
+          error: `${lead.email} is on the suppression list (${suppression.reason.replace(/_/g, " ")})`,
+          suppressed: true,
+        });
+      }
+
+      let subject = "";
+      let isCustom = false;
+      let customHtml = "";
+      let customTemplate: any;
+      let templateId: string | null = null;
+
+      // Check if it's a system template
+      if (LEAD_EMAIL_TEMPLATES.includes(templateName as any)) {
+        subject = emailService.getTemplateSubject(templateName);
+      } else if (templateName === "write_custom") {
+        // Custom template (Manual)
+        subject = req.body.subject;
+        const messageBody = req.body.message;
+
+        if (!subject || !messageBody) {
+          return res.status(400).json({ error: "Subject and message are required for custom emails" });
+        }
+
+        isCustom = true;
+
+        // Construct temp template object for sendCustomEmail
+        customTemplate = {
+          subject,
+          message: messageBody,
+          attachments: req.body.attachments
+        };
+      } else {
+        // Check if it's a custom template from DB
+        const [t] = await db.select().from(emailTemplates).where(eq(emailTemplates.id, templateName)).limit(1);
+        if (!t) {
+          return res.status(400).json({
+            error: "Invalid template. Valid templates: " + LEAD_EMAIL_TEMPLATES.join(", ") + " or 'write_custom'."
+          });
+        }
+        customTemplate = t;
+        subject = t.subject;
+        isCustom = true;
+        templateId = t.id;
+      }
+
+      // Create email record
+      const [emailRecord] = await db
+        .insert(leadEmails)
+        .values({
+          leadId: lead.id,
+          templateName: isCustom ? "custom" : templateName,
+          templateId,
+          subject,
+          status: "pending",
+          sentBy: req.userId!,
+        })
+        .returning();
+
+      // Send email
+      let success = false;
+      if (isCustom && customTemplate) {
+        // Get sender info for variable substitution
+        const [sender] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+        success = await emailService.sendCustomEmail(lead, customTemplate, sender, emailRecord.id);
+      } else {
+        success = await emailService.sendLeadTemplateEmail(lead, templateName, emailRecord.id);
+      }
+
+      // Update email record with result
+      if (success) {
+        await db
+          .update(leadEmails)
+          .set({ status: "sent", sentAt: new Date() })
+          .where(eq(leadEmails.id, emailRecord.id));
+        await leadScoringService.rescore(lead.id);
+      } else {
+        await db
+          .update(leadEmails)
+          .set({ status: "failed", errorMessage: "Email service failed to send" })
+          .where(eq(leadEmails.id, emailRecord.id));
+      }
+
+      // Get updated record
+      const [updatedEmail] = await db
+        .select()
+        .from(leadEmails)
+        .where(eq(leadEmails.id, emailRecord.id))
+        .limit(1);
+
+      res.json({
+        success,
+        message: success ? "Email sent successfully" : "Failed to send email",
+        email: updatedEmail,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Send welcome emails to new lead (batch)
+  app.post("/api/leads/:id/emails/send-welcome", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can send welcome emails
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Get lead info
       const [lead] = await db
         .select()
-        .from(leads)
-        .where(eq(leads.id, req.params.id))
+        .from(leads)
+        .where(eq(leads.id, req.params.id))
+        .limit(1);
+
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      // Unsubscribed and bounced addresses are never emailed again
+      const suppression = lead.email ? await emailSuppressionService.getSuppression(lead.email) : undefined;
+      if (suppression) {
+        return res.status(409).json({
+          error: `${lead.email} is on the suppression list (${suppression.reason.replace(/_/g, " ")})`,
+          suppressed: true,
+        });
+      }
+
+      const templatesToSend = ["service_introduction", "company_profile", "pricing_brochure"];
+      const results = [];
+
+      for (const templateName of templatesToSend) {
+        const subject = emailService.getTemplateSubject(templateName);
+
+        // Create email record
+        const [emailRecord] = await db
+          .insert(leadEmails)
+          .values({
+            leadId: lead.id,
+            templateName,
+            subject,
+            status: "pending",
+            sentBy: req.userId!,
+          })
+          .returning();
+
+        // Send email
+        const success = await emailService.sendLeadTemplateEmail(lead, templateName, emailRecord.id);
+
+        // Update record
+        if (success) {
+          await db
+            .update(leadEmails)
+            .set({ status: "sent", sentAt: new Date() })
+            .where(eq(leadEmails.id, emailRecord.id));
+        } else {
+          await db
+            .update(leadEmails)
+            .set({ status: "failed", errorMessage: "Email service failed to send" })
+            .where(eq(leadEmails.id, emailRecord.id));
+        }
+
+        results.push({ templateName, success });
+      }
+
+      const successCount = results.filter(r => r.success).length;
+      if (successCount > 0) {
+        await leadScoringService.rescore(lead.id);
+      }
+      res.json({
+        message: `Sent ${successCount}/${templatesToSend.length} welcome emails`,
+        results,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Clients
+  app.get("/api/clients", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can access clients
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const allClients = await db.select({
+        ...getTableColumns(clients),
+        // The lead this client was converted from, if any
+        sourceLeadId: sql<string | null>`(select ${leads.id} from ${leads} where ${leads.convertedClientId} = ${clients.id} limit 1)`,
+      }).from(clients).orderBy(desc(clients.createdAt));
+      res.json(allClients);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Email and message history of the lead(s) this client was converted from
+  app.get("/api/clients/:id/lead-history", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const sourceLeads = await db.select().from(leads).where(eq(leads.convertedClientId, req.params.id));
+      const leadIds = sourceLeads.map(lead => lead.id);
+
+      const messages = await db.select({
+        id: leadMessageHistory.id,
+        leadId: leadMessageHistory.leadId,
+        direction: leadMessageHistory.direction,
+        subject: leadMessageHistory.subject,
+        message: leadMessageHistory.message,
+        status: leadMessageHistory.status,
+        sentAt: leadMessageHistory.sentAt,
+        fromAddress: leadMessageHistory.fromAddress,
+        sentBy: users.fullName,
+      })
+        .from(leadMessageHistory)
+        .leftJoin(users, eq(leadMessageHistory.sentBy, users.id))
+        .where(inArray(leadMessageHistory.leadId, leadIds))
+        .orderBy(desc(leadMessageHistory.sentAt));
+
+      const emails = await db.select().from(leadEmails)
+        .where(inArray(leadEmails.leadId, leadIds))
+        .orderBy(desc(leadEmails.createdAt));
+
+      res.json({ leads: sourceLeads, messages, emails });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/clients", authenticateToken, auditMiddleware("create", "client"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can create clients
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertClientSchema.parse(req.body);
+      // Optionally start the client's first project from a template
+      const templateId = typeof req.body.templateId === "string" && req.body.templateId ? req.body.templateId : null;
+      const template = templateId ? await projectTemplateService.get(templateId) : undefined;
+      if (templateId && !template?.isActive) {
+        return res.status(400).json({ error: "Project template not found or inactive" });
+      }
+      // The template's project and tasks are owned by the projects module
+      if (template && !await checkPermission(req.userRole!, "/api/projects", "create")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Check for duplicate email
+      const [existingClient] = await db
+        .select()
+        .from(clients)
+        .where(eq(clients.email, data.email))
+        .limit(1);
+
+      if (existingClient) {
+        return res.status(400).json({ error: "A client with this email already exists" });
+      }
+
+      // A template that fails to apply leaves no client behind, so the request can be retried
+      const { client, project } = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(clients).values(data).returning();
+        const applied = template
+          ? await projectTemplateService.apply(template, { clientId: created.id }, req.userId!, tx)
+          : undefined;
+        return { client: created, project: applied?.project };
+      });
+
+      if (template && project) {
+        await auditLog(req.userId, "create", "project", project.id, { templateId: template.id, templateName: template.name });
+      }
+      res.json(client);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/clients/:id", authenticateToken, auditMiddleware("update", "client"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can update clients
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertClientSchema.partial().parse(req.body);
+      const [client] = await db.update(clients).set(data).where(eq(clients.id, req.params.id)).returning();
+      res.json(client);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/clients/:id", authenticateToken, auditMiddleware("delete", "client"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can delete clients
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Check if client has associated projects
+      const clientProjects = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.clientId, req.params.id))
         .limit(1);
 
-      if (!lead) {
-        return res.status(404).json({ error: "Lead not found" });
+      if (clientProjects.length > 0) {
+        return res.status(400).json({
+          error: "Cannot delete client with associated projects. Please delete or reassign projects first."
+        });
+      }
+
+      await db.delete(clients).where(eq(clients.id, req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Projects
+  app.get("/api/projects", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      let allProjects;
+      if (req.userRole === "client") {
+        // Get user's client ID
+        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+        if (!user?.clientId) {
+          return res.status(403).json({ error: "No client associated with this account" });
+        }
+        allProjects = await db.select().from(projects)
+          .where(eq(projects.clientId, user.clientId))
+          .orderBy(desc(projects.createdAt));
+      } else {
+        allProjects = await db.select().from(projects).orderBy(desc(projects.createdAt));
+      }
+      res.json(allProjects);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/projects", authenticateToken, auditMiddleware("create", "project"), async (req: AuthRequest, res) => {
+    try {
+      const data = insertProjectSchema.parse(req.body);
+      const [project] = await db.insert(projects).values({
+        ...data,
+        createdBy: req.userId,
+      }).returning();
+      res.json(project);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/projects/:id", authenticateToken, auditMiddleware("update", "project"), async (req: AuthRequest, res) => {
+    try {
+      const data = insertProjectSchema.partial().parse(req.body);
+      const [project] = await db.update(projects).set(data).where(eq(projects.id, req.params.id)).returning();
+      res.json(project);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Gantt timeline of the project's tasks with the critical path
+  app.get("/api/projects/:id/gantt", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const [project] = await db.select().from(projects).where(eq(projects.id, req.params.id)).limit(1);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      // CLIENT SECURITY: Clients can only view their own projects
+      if (req.userRole === "client") {
+        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+        if (!user?.clientId || user.clientId !== project.clientId) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      res.json(await taskPlanningService.gantt(project.id, project.progress ?? 0));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Milestones: staff plan and submit them, the project's client signs them off
+  app.get("/api/milestones", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const projectId = typeof req.query.projectId === "string" && req.query.projectId ? req.query.projectId : undefined;
+
+      // CLIENT SECURITY: Clients only see milestones of their own projects
+      if (req.userRole === "client") {
+        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+        if (!user?.clientId) {
+          return res.status(403).json({ error: "No client associated with this account" });
+        }
+        return res.json(await projectMilestoneService.list({ projectId, clientId: user.clientId }));
+      }
+
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json(await projectMilestoneService.list({ projectId }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/milestones", authenticateToken, auditMiddleware("create", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "create")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertProjectMilestoneSchema.parse(req.body);
+      const [project] = await db.select({ id: projects.id }).from(projects).where(eq(projects.id, data.projectId)).limit(1);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.status(201).json(await projectMilestoneService.create(data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/milestones/:id", authenticateToken, auditMiddleware("update", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      const data = insertProjectMilestoneSchema.omit({ projectId: true }).partial().parse(req.body);
+      res.json(await projectMilestoneService.update(milestone, data));
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/milestones/:id", authenticateToken, auditMiddleware("delete", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "delete")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      await projectMilestoneService.delete(milestone);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Ready for sign-off: the client can now approve the milestone or ask for changes
+  app.post("/api/milestones/:id/submit", authenticateToken, auditMiddleware("submit", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      const updated = await projectMilestoneService.submit(milestone);
+      await notificationService.notifyMilestoneStatus(milestone.projectId, req.userId!, milestone.title, updated.status);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Client sign-off from the client portal; only the project's client can review
+  app.post("/api/milestones/:id/approve", authenticateToken, auditMiddleware("approve", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (req.userRole !== "client" || !user?.clientId || user.clientId !== milestone.clientId) {
+        return res.status(403).json({ error: "Only the project's client can sign off milestones" });
+      }
+
+      const { note } = milestoneReviewSchema.parse(req.body ?? {});
+      const updated = await projectMilestoneService.review(milestone, true, req.userId!, note);
+      await notificationService.notifyMilestoneStatus(milestone.projectId, req.userId!, milestone.title, updated.status);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // The client asks for changes; staff fix them and submit the milestone again
+  app.post("/api/milestones/:id/reject", authenticateToken, auditMiddleware("reject", "project_milestone"), async (req: AuthRequest, res) => {
+    try {
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (req.userRole !== "client" || !user?.clientId || user.clientId !== milestone.clientId) {
+        return res.status(403).json({ error: "Only the project's client can sign off milestones" });
+      }
+
+      const { note } = milestoneReviewSchema.parse(req.body ?? {});
+      const updated = await projectMilestoneService.review(milestone, false, req.userId!, note);
+      await notificationService.notifyMilestoneStatus(milestone.projectId, req.userId!, milestone.title, updated.status);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
       }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      let subject = "";
-      let isCustom = false;
-      let customHtml = "";
-      let customTemplate: any;
+  // Draft invoice for an approved milestone
+  app.post("/api/milestones/:id/invoice", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, "/api/invoices", "create")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-      // Check if it's a system template
-      if (LEAD_EMAIL_TEMPLATES.includes(templateName as any)) {
-        subject = emailService.getTemplateSubject(templateName);
-      } else if (templateName === "write_custom") {
-        // Custom template (Manual)
-        subject = req.body.subject;
-        const messageBody = req.body.message;
+      const milestone = await projectMilestoneService.get(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+      const { dueDate } = milestoneInvoiceSchema.parse(req.body ?? {});
+      const invoice = await projectMilestoneService.createInvoice(milestone, dueDate);
+      await auditLog(req.userId, "create", "invoice", invoice.id, { milestoneId: milestone.id, milestoneTitle: milestone.title });
+      res.status(201).json(invoice);
+    } catch (error: any) {
+      if (error instanceof MilestoneError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-        if (!subject || !messageBody) {
-          return res.status(400).json({ error: "Subject and message are required for custom emails" });
-        }
+  // Reusable task lists that start a project for a client
+  app.get("/api/project-templates", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-        isCustom = true;
+      res.json(await projectTemplateService.list(req.query.active === "true"));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        // Construct temp template object for sendCustomEmail
-        customTemplate = {
-          subject,
-          message: messageBody,
-          attachments: req.body.attachments
-        };
-      } else {
-        // Check if it's a custom template from DB
-        const [t] = await db.select().from(emailTemplates).where(eq(emailTemplates.id, templateName)).limit(1);
-        if (!t) {
-          return res.status(400).json({
-            error: "Invalid template. Valid templates: " + LEAD_EMAIL_TEMPLATES.join(", ") + " or 'write_custom'."
-          });
-        }
-        customTemplate = t;
-        subject = t.subject;
-        isCustom = true;
+  app.post("/api/project-templates", authenticateToken, auditMiddleware("create", "project_template"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "create")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      // Create email record
-      const [emailRecord] = await db
-        .insert(leadEmails)
-        .values({
-          leadId: lead.id,
-          templateName: isCustom ? "custom" : templateName,
-          subject,
-          status: "pending",
-          sentBy: req.userId!,
-        })
-        .returning();
+      const data = insertProjectTemplateSchema.parse(req.body);
+      res.status(201).json(await projectTemplateService.create(data, req.userId!));
+    } catch (error: any) {
+      if (error instanceof ProjectTemplateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Send email
-      let success = false;
-      if (isCustom && customTemplate) {
-        // Get sender info for variable substitution
-        const [sender] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
-        success = await emailService.sendCustomEmail(lead, customTemplate, sender);
-      } else {
-        success = await emailService.sendLeadTemplateEmail(lead, templateName);
+  app.patch("/api/project-templates/:id", authenticateToken, auditMiddleware("update", "project_template"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      // Update email record with result
-      if (success) {
-        await db
-          .update(leadEmails)
-          .set({ status: "sent", sentAt: new Date() })
-          .where(eq(leadEmails.id, emailRecord.id));
-      } else {
-        await db
-          .update(leadEmails)
-          .set({ status: "failed", errorMessage: "Email service failed to send" })
-          .where(eq(leadEmails.id, emailRecord.id));
+      const template = await projectTemplateService.get(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Project template not found" });
+      }
+      const data = insertProjectTemplateSchema.partial().parse(req.body);
+      res.json(await projectTemplateService.update(template, data));
+    } catch (error: any) {
+      if (error instanceof ProjectTemplateError) {
+        return res.status(409).json({ error: error.message });
       }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Get updated record
-      const [updatedEmail] = await db
-        .select()
-        .from(leadEmails)
-        .where(eq(leadEmails.id, emailRecord.id))
-        .limit(1);
+  app.delete("/api/project-templates/:id", authenticateToken, auditMiddleware("delete", "project_template"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "delete")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-      res.json({
-        success,
-        message: success ? "Email sent successfully" : "Failed to send email",
-        email: updatedEmail,
-      });
+      const deleted = await projectTemplateService.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Project template not found" });
+      }
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Send welcome emails to new lead (batch)
-  app.post("/api/leads/:id/emails/send-welcome", authenticateToken, async (req: AuthRequest, res) => {
+  // Create a project for a client with the template's tasks
+  app.post("/api/project-templates/:id/apply", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can send welcome emails
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (!await checkPermission(req.userRole!, "/api/projects", "create")) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      // Get lead info
-      const [lead] = await db
-        .select()
-        .from(leads)
-        .where(eq(leads.id, req.params.id))
-        .limit(1);
+      const template = await projectTemplateService.get(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Project template not found" });
+      }
+      const data = applyProjectTemplateSchema.parse(req.body);
+      const result = await projectTemplateService.apply(template, data, req.userId!);
+      await auditLog(req.userId, "create", "project", result.project.id, { templateId: template.id, templateName: template.name });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof ProjectTemplateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      if (!lead) {
-        return res.status(404).json({ error: "Lead not found" });
+  // Approved, uninvoiced billable hours, with ready-made invoice line items
+  app.get("/api/projects/:id/billable-hours", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, "/api/invoices", "create")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const templatesToSend = ["service_introduction", "company_profile", "pricing_brochure"];
-      const results = [];
+      const hours = await timeTrackingService.billableHours(req.params.id);
+      if (!hours) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json({ ...hours, items: timeTrackingService.toInvoiceItems(hours) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      for (const templateName of templatesToSend) {
-        const subject = emailService.getTemplateSubject(templateName);
+  // Tasks
+  app.get("/api/tasks", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      let allTasks: any[];
+      // Logged time is shown against the estimate; dependencies are the tasks this one waits on
+      const taskColumns = {
+        ...getTableColumns(tasks),
+        loggedMinutes: sql<number>`(select coalesce(sum(${timeEntries.minutes}), 0)::int from ${timeEntries} where ${timeEntries.taskId} = ${tasks.id})`,
+        dependsOn: sql<string[]>`(select coalesce(json_agg(${taskDependencies.dependsOnTaskId}), '[]'::json) from ${taskDependencies} where ${taskDependencies.taskId} = ${tasks.id})`,
+      };
 
-        // Create email record
-        const [emailRecord] = await db
-          .insert(leadEmails)
-          .values({
-            leadId: lead.id,
-            templateName,
-            subject,
-            status: "pending",
-            sentBy: req.userId!,
-          })
-          .returning();
+      // CLIENT SECURITY: Clients can only view tasks from their own projects (read-only)
+      if (req.userRole === "client") {
+        // Get user's clientId
+        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+        if (!user?.clientId) {
+          return res.status(403).json({ error: "No client associated with this user" });
+        }
 
-        // Send email
-        const success = await emailService.sendLeadTemplateEmail(lead, templateName);
+        // Get all projects for this client
+        const clientProjects = await db.select().from(projects).where(eq(projects.clientId, user.clientId));
+        const projectIds = clientProjects.map(p => p.id);
 
-        // Update record
-        if (success) {
-          await db
-            .update(leadEmails)
-            .set({ status: "sent", sentAt: new Date() })
-            .where(eq(leadEmails.id, emailRecord.id));
+        if (projectIds.length > 0) {
+          // Use inArray for safe parameter binding (prevents SQL injection)
+          allTasks = await db.select(taskColumns).from(tasks)
+            .where(inArray(tasks.projectId, projectIds))
+            .orderBy(desc(tasks.createdAt));
         } else {
-          await db
-            .update(leadEmails)
-            .set({ status: "failed", errorMessage: "Email service failed to send" })
-            .where(eq(leadEmails.id, emailRecord.id));
+          allTasks = [];
         }
+      } else {
+        const taskScope = await resolveRowScope(req, "tasks");
+        allTasks = taskScope.userIds
+          ? await db.select(taskColumns).from(tasks)
+            .where(inArray(tasks.assignedTo, taskScope.userIds))
+            .orderBy(desc(tasks.createdAt))
+          : await db.select(taskColumns).from(tasks).orderBy(desc(tasks.createdAt));
+      }
+
+      res.json(allTasks);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/tasks", authenticateToken, auditMiddleware("create", "task"), async (req: AuthRequest, res) => {
+    try {
+      // Only admin and operational_head can create tasks
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = insertTaskSchema.parse(req.body);
+      await taskPlanningService.validateTask(null, data);
+      const [inserted] = await db.insert(tasks).values(data).returning();
+      const task = await taskRecurrenceService.reschedule(inserted);
+      await taskPlanningService.recomputeProgress(task.projectId);
+      await taskActivityService.recordCreated(task, req.userId!);
+
+      // Send email notification to assignee if assigned
+      if (task.assignedTo) {
+        const [assignee] = await db.select().from(users).where(eq(users.id, task.assignedTo)).limit(1);
+        if (assignee) {
+          const [project] = await db.select().from(projects).where(eq(projects.id, task.projectId)).limit(1);
+          await emailService.sendTaskAssignment({ ...task, project }, assignee);
+        }
+      }
+
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof TaskPlanningError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/tasks/:id", authenticateToken, auditMiddleware("update", "task"), async (req: AuthRequest, res) => {
+    try {
+      const existing = await taskPlanningService.getTask(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+
+      const data = insertTaskSchema.partial().parse(req.body);
+      await taskPlanningService.validateTask(existing, data);
+      const [updated] = await db.update(tasks).set(data).where(eq(tasks.id, req.params.id)).returning();
+      const task = await taskRecurrenceService.reschedule(updated);
+      await taskActivityService.recordChanges(existing, task, req.userId!);
+
+      await taskPlanningService.recomputeProgress(task.projectId);
+      if (task.projectId !== existing.projectId) {
+        await taskPlanningService.recomputeProgress(existing.projectId);
+      }
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof TaskPlanningError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Finish-to-start dependencies: the task cannot start until dependsOnTaskId is done
+  app.post("/api/tasks/:id/dependencies", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const task = await taskPlanningService.getTask(req.params.id);
+      const dependsOn = typeof req.body.dependsOnTaskId === "string"
+        ? await taskPlanningService.getTask(req.body.dependsOnTaskId)
+        : undefined;
+      if (!task || !dependsOn) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+
+      const dependency = await taskPlanningService.addDependency(task, dependsOn);
+      await auditLog(req.userId, "add_dependency", "task", task.id, { dependsOnTaskId: dependsOn.id, dependsOnTitle: dependsOn.title });
+      res.status(201).json(dependency);
+    } catch (error: any) {
+      if (error instanceof TaskPlanningError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/tasks/:id/dependencies/:dependsOnTaskId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-        results.push({ templateName, success });
+      const dependency = await taskPlanningService.removeDependency(req.params.id, req.params.dependsOnTaskId);
+      if (!dependency) {
+        return res.status(404).json({ error: "Dependency not found" });
       }
 
-      const successCount = results.filter(r => r.success).length;
-      res.json({
-        message: `Sent ${successCount}/${templatesToSend.length} welcome emails`,
-        results,
-      });
+      await auditLog(req.userId, "remove_dependency", "task", req.params.id, { dependsOnTaskId: req.params.dependsOnTaskId });
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Clients
-  app.get("/api/clients", authenticateToken, async (req: AuthRequest, res) => {
+  // Same visibility as the task list: clients see their projects' tasks, scoped roles their assignees'
+  const canSeeTask = async (req: AuthRequest, task: typeof tasks.$inferSelect) => {
+    if (req.userRole === "client") {
+      const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
+      if (!user?.clientId) return false;
+      const [project] = await db.select({ id: projects.id })
+        .from(projects)
+        .where(and(eq(projects.id, task.projectId), eq(projects.clientId, user.clientId)))
+        .limit(1);
+      return !!project;
+    }
+    const taskScope = await resolveRowScope(req, "tasks");
+    return !taskScope.userIds || (!!task.assignedTo && taskScope.userIds.includes(task.assignedTo));
+  };
+
+  // Comments on the task merged with its status, assignee and checklist changes
+  app.get("/api/tasks/:id/activity", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can access clients
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const allClients = await db.select().from(clients).orderBy(desc(clients.createdAt));
-      res.json(allClients);
+      const task = await taskPlanningService.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json(await taskActivityService.feed(task.id));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/clients", authenticateToken, auditMiddleware("create", "client"), async (req: AuthRequest, res) => {
+  app.post("/api/tasks/:id/comments", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can create clients
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const data = insertClientSchema.parse(req.body);
-
-      // Check for duplicate email
-      const [existingClient] = await db
-        .select()
-        .from(clients)
-        .where(eq(clients.email, data.email))
-        .limit(1);
+      const task = await taskPlanningService.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      const data = insertTaskCommentSchema.parse(req.body);
+      res.status(201).json(await taskActivityService.addComment(task, req.userId!, data));
+    } catch (error: any) {
+      if (error instanceof TaskCommentError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      if (existingClient) {
-        return res.status(400).json({ error: "A client with this email already exists" });
+  app.patch("/api/tasks/:id/comments/:commentId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      const [client] = await db.insert(clients).values(data).returning();
-      res.json(client);
+      const task = await taskPlanningService.getTask(req.params.id);
+      const comment = await taskActivityService.getComment(req.params.commentId);
+      if (!task || !comment || comment.taskId !== task.id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      const { content } = insertTaskCommentSchema.pick({ content: true }).parse(req.body);
+      res.json(await taskActivityService.updateComment(task, comment, req.userId!, content));
     } catch (error: any) {
+      if (error instanceof TaskCommentError) {
+        return res.status(403).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/clients/:id", authenticateToken, auditMiddleware("update", "client"), async (req: AuthRequest, res) => {
+  app.delete("/api/tasks/:id/comments/:commentId", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can update clients
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (!await checkPermission(req.userRole!, req.path, "update")) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const data = insertClientSchema.partial().parse(req.body);
-      const [client] = await db.update(clients).set(data).where(eq(clients.id, req.params.id)).returning();
-      res.json(client);
+      const task = await taskPlanningService.getTask(req.params.id);
+      const comment = await taskActivityService.getComment(req.params.commentId);
+      if (!task || !comment || comment.taskId !== task.id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      await taskActivityService.deleteComment(task, comment, req.userId!, req.userRole === "admin");
+      res.json({ success: true });
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      if (error instanceof TaskCommentError) {
+        return res.status(403).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/clients/:id", authenticateToken, auditMiddleware("delete", "client"), async (req: AuthRequest, res) => {
+  // Time tracking: timers and manual entries on tasks
+  app.get("/api/tasks/:id/time-entries", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can delete clients
       if (!await checkPermission(req.userRole!, req.path)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      // Check if client has associated projects
-      const clientProjects = await db
-        .select()
-        .from(projects)
-        .where(eq(projects.clientId, req.params.id))
-        .limit(1);
+      const task = await taskPlanningService.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json(await timeTrackingService.listForTask(task.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (clientProjects.length > 0) {
-        return res.status(400).json({
-          error: "Cannot delete client with associated projects. Please delete or reassign projects first."
-        });
+  app.post("/api/tasks/:id/time-entries", authenticateToken, auditMiddleware("create", "time_entry"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "create")) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      await db.delete(clients).where(eq(clients.id, req.params.id));
-      res.json({ success: true });
+      const task = await taskPlanningService.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const data = manualTimeEntrySchema.parse(req.body);
+      res.status(201).json(await timeTrackingService.addManual(task.id, req.userId!, data));
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Projects
-  app.get("/api/projects", authenticateToken, async (req: AuthRequest, res) => {
+  // Start a timer on the task, stopping any other timer the user has running
+  app.post("/api/tasks/:id/timer", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      if (!await checkPermission(req.userRole!, req.path)) {
+      if (!await checkPermission(req.userRole!, req.path, "create")) {
         return res.status(403).json({ error: "Access denied" });
       }
-      let allProjects;
-      if (req.userRole === "client") {
-        // Get user's client ID
-        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
-        if (!user?.clientId) {
-          return res.status(403).json({ error: "No client associated with this account" });
-        }
-        allProjects = await db.select().from(projects)
-          .where(eq(projects.clientId, user.clientId))
-          .orderBy(desc(projects.createdAt));
-      } else {
-        allProjects = await db.select().from(projects).orderBy(desc(projects.createdAt));
+
+      const task = await taskPlanningService.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
       }
-      res.json(allProjects);
+      if (!await canSeeTask(req, task)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.status(201).json(await timeTrackingService.start(task.id, req.userId!));
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/projects", authenticateToken, auditMiddleware("create", "project"), async (req: AuthRequest, res) => {
+  // The signed-in user's running timer, or null
+  app.get("/api/time-entries/running", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = insertProjectSchema.parse(req.body);
-      const [project] = await db.insert(projects).values({
-        ...data,
-        createdBy: req.userId,
-      }).returning();
-      res.json(project);
+      res.json(await timeTrackingService.getRunning(req.userId!) ?? null);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/projects/:id", authenticateToken, auditMiddleware("update", "project"), async (req: AuthRequest, res) => {
+  app.post("/api/time-entries/stop", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = insertProjectSchema.partial().parse(req.body);
-      const [project] = await db.update(projects).set(data).where(eq(projects.id, req.params.id)).returning();
-      res.json(project);
+      const entry = await timeTrackingService.stop(req.userId!);
+      if (!entry) {
+        return res.status(404).json({ error: "No timer is running" });
+      }
+      res.json(entry);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Tasks
-  app.get("/api/tasks", authenticateToken, async (req: AuthRequest, res) => {
+  app.patch("/api/time-entries/:id", authenticateToken, auditMiddleware("update", "time_entry"), async (req: AuthRequest, res) => {
     try {
-      let allTasks: any[];
+      const entry = await timeTrackingService.getEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Time entry not found" });
+      }
+      // Users correct their own time; timesheet approvers may correct anyone's
+      if (entry.userId !== req.userId && !await checkPermission(req.userRole!, "/api/timesheets", "approve")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-      // CLIENT SECURITY: Clients can only view tasks from their own projects (read-only)
-      if (req.userRole === "client") {
-        // Get user's clientId
-        const [user] = await db.select().from(users).where(eq(users.id, req.userId!)).limit(1);
-        if (!user?.clientId) {
-          return res.status(403).json({ error: "No client associated with this user" });
-        }
+      const data = updateTimeEntrySchema.parse(req.body);
+      res.json(await timeTrackingService.updateEntry(entry, data));
+    } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-        // Get all projects for this client
-        const clientProjects = await db.select().from(projects).where(eq(projects.clientId, user.clientId));
-        const projectIds = clientProjects.map(p => p.id);
+  app.delete("/api/time-entries/:id", authenticateToken, auditMiddleware("delete", "time_entry"), async (req: AuthRequest, res) => {
+    try {
+      const entry = await timeTrackingService.getEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Time entry not found" });
+      }
+      if (entry.userId !== req.userId && !await checkPermission(req.userRole!, "/api/timesheets", "approve")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-        if (projectIds.length > 0) {
-          // Use inArray for safe parameter binding (prevents SQL injection)
-          allTasks = await db.select().from(tasks)
-            .where(inArray(tasks.projectId, projectIds))
-            .orderBy(desc(tasks.createdAt));
-        } else {
-          allTasks = [];
-        }
-      } else {
-        allTasks = await db.select().from(tasks).orderBy(desc(tasks.createdAt));
+      await timeTrackingService.deleteEntry(entry);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
       }
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      res.json(allTasks);
+  // Weekly timesheets
+  app.get("/api/timesheets", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "approve")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+      res.json(await timeTrackingService.listTimesheets(status));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/tasks", authenticateToken, auditMiddleware("create", "task"), async (req: AuthRequest, res) => {
+  // One user's week; defaults to the signed-in user and the current week
+  app.get("/api/timesheets/week", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Only admin and operational_head can create tasks
-      if (!await checkPermission(req.userRole!, req.path)) {
+      const userId = typeof req.query.userId === "string" && req.query.userId ? req.query.userId : req.userId!;
+      if (userId !== req.userId && !await checkPermission(req.userRole!, "/api/timesheets", "approve")) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const data = insertTaskSchema.parse(req.body);
-      const [task] = await db.insert(tasks).values(data).returning();
+      const date = typeof req.query.weekStart === "string" && req.query.weekStart
+        ? new Date(`${req.query.weekStart}T00:00:00`)
+        : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: "Invalid week" });
+      }
+      res.json(await timeTrackingService.getWeek(userId, weekStartOf(date)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Send email notification to assignee if assigned
-      if (task.assignedTo) {
-        const [assignee] = await db.select().from(users).where(eq(users.id, task.assignedTo)).limit(1);
-        if (assignee) {
-          const [project] = await db.select().from(projects).where(eq(projects.id, task.projectId)).limit(1);
-          await emailService.sendTaskAssignment({ ...task, project }, assignee);
-        }
+  app.post("/api/timesheets/submit", authenticateToken, auditMiddleware("submit", "timesheet"), async (req: AuthRequest, res) => {
+    try {
+      const date = new Date(`${req.body.weekStart}T00:00:00`);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: "Invalid week" });
+      }
+      res.json(await timeTrackingService.submit(req.userId!, weekStartOf(date)));
+    } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
       }
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      res.json(task);
+  app.post("/api/timesheets/:id/approve", authenticateToken, auditMiddleware("approve", "timesheet"), async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path, "approve")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const timesheet = await timeTrackingService.getTimesheet(req.params.id);
+      if (!timesheet) {
+        return res.status(404).json({ error: "Timesheet not found" });
+      }
+      const { note } = timesheetReviewSchema.parse(req.body ?? {});
+      res.json(await timeTrackingService.review(timesheet, true, req.userId!, note));
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/tasks/:id", authenticateToken, auditMiddleware("update", "task"), async (req: AuthRequest, res) => {
+  // Rejecting reopens the week so the user can correct it and submit again
+  app.post("/api/timesheets/:id/reject", authenticateToken, auditMiddleware("reject", "timesheet"), async (req: AuthRequest, res) => {
     try {
-      const data = insertTaskSchema.partial().parse(req.body);
-      const [task] = await db.update(tasks).set(data).where(eq(tasks.id, req.params.id)).returning();
-      res.json(task);
+      if (!await checkPermission(req.userRole!, req.path, "approve")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const timesheet = await timeTrackingService.getTimesheet(req.params.id);
+      if (!timesheet) {
+        return res.status(404).json({ error: "Timesheet not found" });
+      }
+      const { note } = timesheetReviewSchema.parse(req.body ?? {});
+      res.json(await timeTrackingService.review(timesheet, false, req.userId!, note));
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
@@ -2245,12 +4314,10 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
   // Attendance
   app.get("/api/attendance", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      let allAttendance;
-      if (req.userRole === "admin" || req.userRole === "operational_head") {
-        allAttendance = await db.select().from(attendance).orderBy(desc(attendance.date));
-      } else {
-        allAttendance = await db.select().from(attendance).where(eq(attendance.userId, req.userId!)).orderBy(desc(attendance.date));
-      }
+      const attendanceScope = await resolveRowScope(req, "attendance");
+      const allAttendance = attendanceScope.userIds
+        ? await db.select().from(attendance).where(inArray(attendance.userId, attendanceScope.userIds)).orderBy(desc(attendance.date))
+        : await db.select().from(attendance).orderBy(desc(attendance.date));
       res.json(allAttendance);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -2600,9 +4667,21 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
       }
 
       const data = insertInvoiceSchema.parse(req.body);
-      const [invoice] = await db.insert(invoices).values(data).returning();
+      const invoice = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(invoices).values(data).returning();
+
+        // Time pulled into the invoice's items is marked billed, or the invoice is not saved
+        if (Array.isArray(req.body.timeEntryIds)) {
+          await timeTrackingService.markBilled(req.body.timeEntryIds, created.id, created.projectId, tx);
+        }
+        return created;
+      });
+
       res.json(invoice);
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
@@ -2615,7 +4694,14 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
       }
 
       const data = insertInvoiceSchema.partial().parse(req.body);
-      const [invoice] = await db.update(invoices).set(data).where(eq(invoices.id, req.params.id)).returning();
+      const invoice = await db.transaction(async (tx) => {
+        const [updated] = await tx.update(invoices).set(data).where(eq(invoices.id, req.params.id)).returning();
+
+        if (updated && Array.isArray(req.body.timeEntryIds)) {
+          await timeTrackingService.markBilled(req.body.timeEntryIds, updated.id, updated.projectId, tx);
+        }
+        return updated;
+      });
 
       // Send email notification when invoice is marked as sent
       if (data.status === "sent" && invoice.clientId) {
@@ -2627,6 +4713,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
 
       res.json(invoice);
     } catch (error: any) {
+      if (error instanceof TimeTrackingError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
@@ -10955,8 +13044,84 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const logs = await db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(100);
-      res.json(logs);
+      const { userId, resourceType, from, to } = req.query;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+
+      const conditions = [];
+      if (typeof userId === "string" && userId) conditions.push(eq(auditLogs.userId, userId));
+      if (typeof resourceType === "string" && resourceType) conditions.push(eq(auditLogs.resourceType, resourceType));
+      const fromDate = typeof from === "string" && from ? new Date(`${from}T00:00:00`) : null;
+      const toDate = typeof to === "string" && to ? new Date(`${to}T23:59:59.999`) : null;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      if (fromDate) conditions.push(gte(auditLogs.createdAt, fromDate));
+      if (toDate) conditions.push(lte(auditLogs.createdAt, toDate));
+
+      const logs = await db.select({ log: auditLogs, userName: users.fullName })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.userId, users.id))
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(auditLogs.createdAt))
+        .limit(limit);
+
+      res.json(logs.map(({ log, userName }) => ({ ...log, userName })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Walk the audit hash chain and report the first broken link
+  app.get("/api/audit-logs/verify", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.json(await auditChainService.verify());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Signed audit report for a date range (yyyy-mm-dd, inclusive)
+  app.get("/api/audit-logs/report", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { from, to } = req.query;
+      if (typeof from !== "string" || typeof to !== "string" || !from || !to) {
+        return res.status(400).json({ error: "from and to dates are required" });
+      }
+      const fromDate = new Date(`${from}T00:00:00`);
+      const toDate = new Date(`${to}T23:59:59.999`);
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+
+      const report = await auditChainService.buildReport(fromDate, toDate, req.userId!);
+      await auditLog(req.userId, "export", "audit_report", undefined, { from, to, entries: report.report.entries.length });
+
+      res.setHeader("Content-Disposition", `attachment; filename="audit-report-${from}-to-${to}.json"`);
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Distinct resource types for the audit log filter
+  app.get("/api/audit-logs/resource-types", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!await checkPermission(req.userRole!, req.path)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const rows = await db.selectDistinct({ resourceType: auditLogs.resourceType })
+        .from(auditLogs)
+        .orderBy(asc(auditLogs.resourceType));
+      res.json(rows.map(r => r.resourceType));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -10971,7 +13136,7 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
       }
 
       const roleId = req.params.id;
-      const { name, description, permissions } = req.body;
+      const { name, description, permissions, scopes, requireTwoFactor } = req.body;
 
       // Check if role exists
       const [existingRole] = await db.select().from(roles).where(eq(roles.id, roleId)).limit(1);
@@ -10996,7 +13161,9 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
         .set({
           name: name || existingRole.name,
           description: description || existingRole.description,
-          permissions: permissions || existingRole.permissions,
+          permissions: permissions ? normalizePermissions(permissions) : existingRole.permissions,
+          scopes: scopes ? normalizeScopes(scopes) : existingRole.scopes,
+          requireTwoFactor: typeof requireTwoFactor === "boolean" ? requireTwoFactor : existingRole.requireTwoFactor,
         })
         .where(eq(roles.id, roleId))
         .returning();
@@ -11044,6 +13211,10 @@ export async function registerRoutes(app: Express, emailService: any): Promise<S
   const { registerHrPayrollRoutes } = await import("./hr/routes");
   registerHrPayrollRoutes(app, db, authenticateToken, auditMiddleware);
 
+  // Register ZKTeco ADMS push receiver (device-facing, no user auth)
+  const { registerAdmsRoutes } = await import("./hr/admsRoutes");
+  registerAdmsRoutes(app);
+
   const httpServer = createServer(app);
 
   // Initialize WebSocket server
@@ -13,7 +13,7 @@ import {
   employees
 } from "@shared/schema";
 import { eq, and, gte, sql } from "drizzle-orm";
-import { createDeviceAdapter, DeviceLog } from "./deviceAdapters";
+import { createDeviceAdapter, isPushDevice, DeviceLog, DeviceUser } from "./deviceAdapters";
 import { toDateOnlyString } from "@shared/date-utils";
 
 class AttendanceSyncService {
@@ -44,11 +44,12 @@ class AttendanceSyncService {
     this.isSyncing = true;
 
     try {
-      // Get all active devices
-      const devices = await db
+      // Get all active devices (push devices upload on their own)
+      const devices = (await db
         .select()
         .from(attendanceDevices)
-        .where(eq(attendanceDevices.isActive, true));
+        .where(eq(attendanceDevices.isActive, true)))
+        .filter((device) => !isPushDevice(device.deviceType));
 
       if (devices.length === 0) {
         return;
@@ -113,49 +114,37 @@ class AttendanceSyncService {
    * Sync a single device
    */
   private async syncDevice(device: any): Promise<number> {
-    try {
-      // Create appropriate device adapter
-      const adapter = createDeviceAdapter(device.deviceType);
-
-      // Connect to device
-      const connected = await adapter.connect({
-        id: device.id,
-        name: device.name,
-        ipAddress: device.ipAddress,
-        port: device.port,
-        apiKey: device.apiKey,
-        apiUrl: device.apiUrl,
-        ...(device.connectionParams || {}),
-      });
+    // Create appropriate device adapter
+    const adapter = createDeviceAdapter(device.deviceType);
+    const config = this.buildAdapterConfig(device);
 
-      if (!connected) {
-        throw new Error("Failed to connect to device");
-      }
+    // Connect to device
+    const connected = await adapter.connect(config);
+
+    if (!connected) {
+      throw new Error("Failed to connect to device");
+    }
 
+    try {
       // Fetch logs since last sync
       const lastSyncTime = device.lastSyncAt ? new Date(device.lastSyncAt) : undefined;
       const logs = await adapter.fetchLogs(lastSyncTime);
 
-      // Disconnect
-      await adapter.disconnect();
-
-      if (logs.length === 0) {
-        // Update last sync time even if no new logs
-        await db
-          .update(attendanceDevices)
-          .set({
-            lastSyncAt: new Date(),
-            lastSyncError: null
-          })
-          .where(eq(attendanceDevices.id, device.id));
-
-        return 0;
-      }
-
       // Process and store logs
-      const storedCount = await this.processDeviceLogs(logs);
+      const { storedCount, failedCount } = logs.length > 0
+        ? await this.processDeviceLogs(logs)
+        : { storedCount: 0, failedCount: 0 };
+
+      // Only wipe the device buffer once every log is safely in device_logs
+      if (logs.length > 0 && config.clearLogsAfterSync && adapter.clearLogs) {
+        if (failedCount === 0) {
+          await adapter.clearLogs();
+        } else {
+          console.warn(`Kept logs on device ${device.name}: ${failedCount} could not be stored`);
+        }
+      }
 
-      // Update device sync status
+      // Update device sync status (even if no new logs)
       await db
         .update(attendanceDevices)
         .set({
@@ -164,19 +153,60 @@ class AttendanceSyncService {
         })
         .where(eq(attendanceDevices.id, device.id));
 
-      console.log(`Synced ${storedCount} logs from device: ${device.name}`);
+      if (storedCount > 0) {
+        console.log(`Synced ${storedCount} logs from device: ${device.name}`);
+      }
       return storedCount;
-    } catch (error: any) {
-      throw error;
+    } finally {
+      await adapter.disconnect();
     }
   }
 
+  /**
+   * Build adapter connection config from a device row
+   */
+  private buildAdapterConfig(device: any): any {
+    return {
+      id: device.id,
+      name: device.name,
+      ipAddress: device.ipAddress,
+      port: device.port,
+      apiKey: device.apiKey,
+      apiUrl: device.apiUrl,
+      ...(device.connectionParams || {}),
+    };
+  }
+
+  /**
+   * Store logs uploaded by a push (ADMS) device
+   * Uses the same duplicate suppression as polled devices, so a device that
+   * re-sends after a failure only adds the punches that were missing
+   */
+  async receivePushedLogs(deviceId: string, logs: DeviceLog[]): Promise<{ storedCount: number; failedCount: number }> {
+    const result = logs.length > 0
+      ? await this.processDeviceLogs(logs)
+      : { storedCount: 0, failedCount: 0 };
+
+    await db
+      .update(attendanceDevices)
+      .set({
+        lastSyncAt: new Date(),
+        lastSyncError: result.failedCount > 0 ? `${result.failedCount} pushed log(s) could not be stored` : null
+      })
+      .where(eq(attendanceDevices.id, deviceId));
+
+    return result;
+  }
+
   /**
    * Process and store device logs
-   * Avoids duplicates and creates attendance records
+   * Avoids duplicates and creates attendance records. Punches of unknown
+   * employees are kept in device_logs unsynced, so they survive a buffer clear.
+   * @returns logs turned into attendance, and logs that could not be stored at all
    */
-  private async processDeviceLogs(logs: DeviceLog[]): Promise<number> {
+  private async processDeviceLogs(logs: DeviceLog[]): Promise<{ storedCount: number; failedCount: number }> {
     let storedCount = 0;
+    let failedCount = 0;
 
     for (const log of logs) {
       try {
@@ -209,20 +239,21 @@ class AttendanceSyncService {
           .where(eq(employees.employeeId, log.employeeId))
           .limit(1);
 
-        if (!employee) {
-          console.warn(`Employee not found for employeeId: ${log.employeeId}`);
-          continue;
-        }
-
         // Store device log
         const [storedLog] = await db.insert(deviceLogs).values({
           deviceId: log.deviceId,
           employeeId: log.employeeId,
           punchTime: log.punchTime,
           punchType: log.type,
+          deviceUserId: log.deviceUserId || null,
           rawData: log.raw || null,
         }).returning();
 
+        if (!employee) {
+          console.warn(`Employee not found for employeeId: ${log.employeeId}; log kept unsynced`);
+          continue;
+        }
+
         // Process into attendance record
         await this.processAttendanceFromLog(employee, log);
 
@@ -237,10 +268,11 @@ class AttendanceSyncService {
         storedCount++;
       } catch (error: any) {
         console.error(`Error processing device log:`, error.message);
+        failedCount++;
       }
     }
 
-    return storedCount;
+    return { storedCount, failedCount };
   }
 
   /**
@@ -356,6 +388,10 @@ class AttendanceSyncService {
       throw new Error("Device is not active");
     }
 
+    if (isPushDevice(device.deviceType)) {
+      throw new Error("This device pushes its logs via ADMS and cannot be synced manually");
+    }
+
     return this.syncDevice(device);
   }
 
@@ -375,20 +411,43 @@ class AttendanceSyncService {
 
     const adapter = createDeviceAdapter(device.deviceType);
 
-    const connected = await adapter.connect({
-      id: device.id,
-      name: device.name,
-      ipAddress: device.ipAddress,
-      port: device.port,
-      apiKey: device.apiKey,
-      apiUrl: device.apiUrl,
-      ...(device.connectionParams || {}),
-    });
+    const connected = await adapter.connect(this.buildAdapterConfig(device));
 
     await adapter.disconnect();
 
     return connected;
   }
+
+  /**
+   * Read the enrolled user table from a specific device
+   */
+  async getDeviceUsers(deviceId: string): Promise<DeviceUser[]> {
+    const [device] = await db
+      .select()
+      .from(attendanceDevices)
+      .where(eq(attendanceDevices.id, deviceId))
+      .limit(1);
+
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    const adapter = createDeviceAdapter(device.deviceType);
+    if (!adapter.fetchUsers) {
+      throw new Error(`Reading users is not supported for ${device.deviceType} devices`);
+    }
+
+    const connected = await adapter.connect(this.buildAdapterConfig(device));
+    if (!connected) {
+      throw new Error("Failed to connect to device");
+    }
+
+    try {
+      return await adapter.fetchUsers();
+    } finally {
+      await adapter.disconnect();
+    }
+  }
 }
 
 export const attendanceSyncService = new AttendanceSyncService();
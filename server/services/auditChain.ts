@@ -0,0 +1,192 @@
+/**
+ * Audit Chain Service
+ * Links audit_logs rows into a hash chain: each entry stores a hash of its
+ * own content plus the previous entry's hash, so editing or deleting a row
+ * breaks every link after it. Also builds HMAC-signed audit reports.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { auditLogs, type AuditLog } from "@shared/schema";
+import { and, asc, desc, gt, gte, lte, isNotNull, sql } from "drizzle-orm";
+
+const GENESIS_HASH = "0".repeat(64);
+// Serializes appends so two writers never link to the same predecessor
+const CHAIN_LOCK_KEY = 72_410_031;
+const VERIFY_BATCH_SIZE = 1000;
+const REPORT_SIGNING_KEY = process.env.AUDIT_REPORT_SIGNING_KEY || process.env.JWT_SECRET || "dev-secret-change-in-production";
+
+export interface AuditEntryInput {
+  userId: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  details: unknown;
+}
+
+export interface ChainBreak {
+  id: string;
+  sequence: number;
+  createdAt: Date;
+  reason: "content_modified" | "previous_hash_mismatch" | "entry_missing";
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  // Entries written before the chain was introduced
+  unchainedEntries: number;
+  firstBrokenLink: ChainBreak | null;
+  lastSequence: number | null;
+  verifiedAt: string;
+}
+
+export interface SignedAuditReport {
+  report: {
+    from: string;
+    to: string;
+    generatedAt: string;
+    generatedBy: string;
+    chain: ChainVerification;
+    entries: AuditLog[];
+  };
+  algorithm: "HMAC-SHA256";
+  signature: string;
+}
+
+/**
+ * JSON with object keys sorted at every level; jsonb does not keep key order
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashEntry(entry: AuditEntryInput & { sequence: number; createdAt: Date; previousHash: string }): string {
+  const content = canonicalJson({
+    sequence: entry.sequence,
+    userId: entry.userId,
+    action: entry.action,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    details: entry.details ?? null,
+    createdAt: entry.createdAt,
+    previousHash: entry.previousHash,
+  });
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function sign(payload: unknown): string {
+  return crypto.createHmac("sha256", REPORT_SIGNING_KEY).update(canonicalJson(payload)).digest("hex");
+}
+
+class AuditChainService {
+  /**
+   * Append an entry to the end of the chain
+   */
+  async append(entry: AuditEntryInput): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`);
+
+      const [last] = await tx.select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+        .from(auditLogs)
+        .where(isNotNull(auditLogs.sequence))
+        .orderBy(desc(auditLogs.sequence))
+        .limit(1);
+
+      const sequence = (last?.sequence ?? 0) + 1;
+      const previousHash = last?.hash ?? GENESIS_HASH;
+      const createdAt = new Date();
+
+      await tx.insert(auditLogs).values({
+        ...entry,
+        details: entry.details ?? null,
+        createdAt,
+        sequence,
+        previousHash,
+        hash: hashEntry({ ...entry, sequence, createdAt, previousHash }),
+      });
+    });
+  }
+
+  /**
+   * Walk the whole chain in sequence order and report the first broken link
+   */
+  async verify(): Promise<ChainVerification> {
+    const [{ count: unchainedEntries }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(auditLogs)
+      .where(sql`${auditLogs.sequence} is null`);
+
+    let expectedSequence = 1;
+    let previousHash = GENESIS_HASH;
+    let checkedEntries = 0;
+    let firstBrokenLink: ChainBreak | null = null;
+
+    while (!firstBrokenLink) {
+      const batch = await db.select()
+        .from(auditLogs)
+        .where(and(isNotNull(auditLogs.sequence), gt(auditLogs.sequence, expectedSequence - 1)))
+        .orderBy(asc(auditLogs.sequence))
+        .limit(VERIFY_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const sequence = row.sequence!;
+        const brokenLink = (reason: ChainBreak["reason"]): ChainBreak => ({ id: row.id, sequence, createdAt: row.createdAt, reason });
+
+        if (sequence !== expectedSequence) {
+          firstBrokenLink = brokenLink("entry_missing");
+        } else if (row.previousHash !== previousHash) {
+          firstBrokenLink = brokenLink("previous_hash_mismatch");
+        } else if (row.hash !== hashEntry({ ...row, sequence, previousHash })) {
+          firstBrokenLink = brokenLink("content_modified");
+        }
+        if (firstBrokenLink) break;
+
+        previousHash = row.hash!;
+        expectedSequence++;
+        checkedEntries++;
+      }
+    }
+
+    return {
+      valid: !firstBrokenLink,
+      checkedEntries,
+      unchainedEntries,
+      firstBrokenLink,
+      lastSequence: checkedEntries > 0 ? expectedSequence - 1 : null,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Entries in a date range together with the chain status, signed with HMAC-SHA256
+   */
+  async buildReport(from: Date, to: Date, generatedBy: string): Promise<SignedAuditReport> {
+    const entries = await db.select()
+      .from(auditLogs)
+      .where(and(gte(auditLogs.createdAt, from), lte(auditLogs.createdAt, to)))
+      .orderBy(asc(auditLogs.createdAt));
+
+    const report = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      generatedAt: new Date().toISOString(),
+      generatedBy,
+      chain: await this.verify(),
+      entries,
+    };
+
+    return { report, algorithm: "HMAC-SHA256", signature: sign(report) };
+  }
+}
+
+export const auditChainService = new AuditChainService();
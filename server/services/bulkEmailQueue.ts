@@ -0,0 +1,347 @@
+/**
+ * Bulk Email Queue Service
+ * Persists bulk sends as jobs with one row per recipient and works them off
+ * in the background at a throttled rate, retrying transient SMTP errors with
+ * exponential backoff. Jobs survive restarts and can be paused or cancelled.
+ */
+
+import { db } from "../db";
+import {
+  bulkEmailJobs,
+  bulkEmailRecipients,
+  leads,
+  leadEmails,
+  leadMessageHistory,
+  users,
+  type BulkEmailJob,
+  type BulkEmailRecipient,
+} from "@shared/schema";
+import { EmailNotConfiguredError, EmailSuppressedError, type EmailService } from "./email";
+import { emailSuppressionService } from "./emailSuppression";
+import { leadScoringService } from "./leadScoring";
+import { wsService } from "../websocket";
+import { eq, and, or, asc, inArray, isNull, lte, sql } from "drizzle-orm";
+
+// Emails per minute across all jobs, to stay under the SMTP provider's limits
+const RATE_PER_MINUTE = Math.max(1, parseInt(process.env.BULK_EMAIL_RATE_PER_MINUTE || "30", 10));
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.BULK_EMAIL_MAX_ATTEMPTS || "4", 10));
+const RETRY_BASE_SECONDS = 60;
+const IDLE_POLL_MS = 30 * 1000;
+
+const TRANSIENT_ERROR_CODES = ["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS", "ECONNRESET", "ECONNREFUSED"];
+
+export interface BulkEmailContent {
+  subject: string;
+  message: string;
+  attachments?: { name: string; url: string; type?: string }[];
+}
+
+/**
+ * 4xx SMTP replies and dropped connections are worth retrying; 5xx replies
+ * (unknown mailbox, rejected content) are not
+ */
+function isTransientSmtpError(error: any): boolean {
+  if (error instanceof EmailNotConfiguredError || error instanceof EmailSuppressedError) return false;
+  if (typeof error?.responseCode === "number") {
+    return error.responseCode >= 400 && error.responseCode < 500;
+  }
+  return TRANSIENT_ERROR_CODES.includes(error?.code);
+}
+
+function suppressedNote(reason: string): string {
+  return `Suppressed (${reason.replace(/_/g, " ")})`;
+}
+
+class BulkEmailQueueService {
+  private emailService: EmailService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private wakeRequested = false;
+
+  start(emailService: EmailService) {
+    this.emailService = emailService;
+    this.wake();
+    console.log(`Bulk email queue started (${RATE_PER_MINUTE}/min, ${MAX_ATTEMPTS} attempts)`);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.emailService = null;
+  }
+
+  /**
+   * Queue one email per lead; leads without an address or with a suppressed
+   * address are recorded as skipped
+   */
+  async createJob(content: BulkEmailContent, leadIds: string[], createdBy: string): Promise<BulkEmailJob> {
+    const recipients = leadIds.length > 0
+      ? await db.select({ id: leads.id, email: leads.email }).from(leads).where(inArray(leads.id, leadIds))
+      : [];
+    const suppressed = await emailSuppressionService.findSuppressed(recipients.flatMap(lead => lead.email ? [lead.email] : []));
+    const skipReason = (email: string | null): string | null => {
+      if (!email) return "No email address";
+      const entry = suppressed.get(email.trim().toLowerCase());
+      return entry ? suppressedNote(entry.reason) : null;
+    };
+    const skipped = recipients.filter(lead => skipReason(lead.email)).length;
+    const pending = recipients.length - skipped;
+
+    const job = await db.transaction(async (tx) => {
+      const [job] = await tx.insert(bulkEmailJobs).values({
+        subject: content.subject,
+        message: content.message,
+        attachments: content.attachments || [],
+        status: pending > 0 ? "queued" : "completed",
+        totalRecipients: recipients.length,
+        skippedCount: skipped,
+        createdBy,
+        completedAt: pending > 0 ? null : new Date(),
+      }).returning();
+
+      if (recipients.length > 0) {
+        await tx.insert(bulkEmailRecipients).values(recipients.map(lead => {
+          const reason = skipReason(lead.email);
+          return {
+            jobId: job.id,
+            leadId: lead.id,
+            email: lead.email,
+            status: reason ? "skipped" : "pending",
+            lastError: reason,
+          };
+        }));
+      }
+      return job;
+    });
+
+    this.wake();
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<BulkEmailJob | undefined> {
+    const [job] = await db.select().from(bulkEmailJobs).where(eq(bulkEmailJobs.id, jobId)).limit(1);
+    return job;
+  }
+
+  /**
+   * Stop sending after the current email; remaining recipients stay pending
+   */
+  async pause(jobId: string): Promise<BulkEmailJob | undefined> {
+    return this.transition(jobId, ["queued", "running"], { status: "paused" });
+  }
+
+  async resume(jobId: string): Promise<BulkEmailJob | undefined> {
+    const job = await this.transition(jobId, ["paused"], { status: "running" });
+    if (job) this.wake();
+    return job;
+  }
+
+  async cancel(jobId: string): Promise<BulkEmailJob | undefined> {
+    const job = await this.transition(jobId, ["queued", "running", "paused"], { status: "cancelled", completedAt: new Date() });
+    if (job) {
+      await db.update(bulkEmailRecipients)
+        .set({ status: "cancelled", nextAttemptAt: null })
+        .where(and(eq(bulkEmailRecipients.jobId, jobId), eq(bulkEmailRecipients.status, "pending")));
+    }
+    return job;
+  }
+
+  private async transition(jobId: string, from: string[], set: Partial<BulkEmailJob>): Promise<BulkEmailJob | undefined> {
+    const [job] = await db.update(bulkEmailJobs)
+      .set(set)
+      .where(and(eq(bulkEmailJobs.id, jobId), inArray(bulkEmailJobs.status, from)))
+      .returning();
+    if (job) this.notify(job);
+    return job;
+  }
+
+  /**
+   * Run the worker now instead of waiting for the next idle poll
+   */
+  private wake() {
+    if (!this.emailService) return;
+    if (this.processing) {
+      this.wakeRequested = true;
+      return;
+    }
+    this.schedule(0);
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick() {
+    this.timer = null;
+    if (!this.emailService) return;
+
+    this.processing = true;
+    this.wakeRequested = false;
+    let delay = IDLE_POLL_MS;
+    try {
+      if (await this.processNext()) {
+        delay = Math.ceil(60 * 1000 / RATE_PER_MINUTE);
+      }
+    } catch (error) {
+      console.error("Bulk email queue error:", error);
+    } finally {
+      this.processing = false;
+      if (this.wakeRequested) delay = Math.min(delay, Math.ceil(60 * 1000 / RATE_PER_MINUTE));
+      if (this.emailService) this.schedule(delay);
+    }
+  }
+
+  /**
+   * Send the oldest due recipient of the oldest active job
+   * @returns false when there was nothing to send
+   */
+  private async processNext(): Promise<boolean> {
+    const [next] = await db.select({ recipient: bulkEmailRecipients, job: bulkEmailJobs })
+      .from(bulkEmailRecipients)
+      .innerJoin(bulkEmailJobs, eq(bulkEmailRecipients.jobId, bulkEmailJobs.id))
+      .where(and(
+        inArray(bulkEmailJobs.status, ["queued", "running"]),
+        eq(bulkEmailRecipients.status, "pending"),
+        or(isNull(bulkEmailRecipients.nextAttemptAt), lte(bulkEmailRecipients.nextAttemptAt, new Date()))
+      ))
+      .orderBy(asc(bulkEmailJobs.createdAt), asc(bulkEmailRecipients.id))
+      .limit(1);
+
+    if (!next) {
+      await this.completeFinishedJobs();
+      return false;
+    }
+
+    let { job } = next;
+    if (job.status === "queued") {
+      const started = await this.transition(job.id, ["queued"], { status: "running", startedAt: new Date() });
+      if (!started) return true; // paused or cancelled in the meantime
+      job = started;
+    }
+
+    await this.sendTo(job, next.recipient);
+    await this.completeFinishedJobs(job.id);
+    return true;
+  }
+
+  private async sendTo(job: BulkEmailJob, recipient: BulkEmailRecipient): Promise<void> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, recipient.leadId)).limit(1);
+    if (!lead?.email) {
+      await db.update(bulkEmailRecipients)
+        .set({ status: "skipped", lastError: lead ? "No email address" : "Lead deleted" })
+        .where(eq(bulkEmailRecipients.id, recipient.id));
+      await this.bumpCount(job.id, "skippedCount");
+      return;
+    }
+
+    // The address may have unsubscribed or bounced since the job was queued
+    const suppression = await emailSuppressionService.getSuppression(lead.email);
+    if (suppression) {
+      await db.update(bulkEmailRecipients)
+        .set({ status: "skipped", email: lead.email, lastError: suppressedNote(suppression.reason), nextAttemptAt: null })
+        .where(eq(bulkEmailRecipients.id, recipient.id));
+      await this.bumpCount(job.id, "skippedCount");
+      return;
+    }
+
+    const [sender] = await db.select().from(users).where(eq(users.id, job.createdBy)).limit(1);
+    const attempts = recipient.attempts + 1;
+
+    // One lead_emails row per recipient, created on the first attempt; it carries open/click tracking
+    let leadEmailId = recipient.leadEmailId;
+    if (!leadEmailId) {
+      const [emailRecord] = await db.insert(leadEmails).values({
+        leadId: lead.id,
+        templateName: "custom_bulk",
+        subject: job.subject,
+        status: "pending",
+        sentBy: job.createdBy,
+      }).returning();
+      leadEmailId = emailRecord.id;
+      await db.update(bulkEmailRecipients).set({ leadEmailId }).where(eq(bulkEmailRecipients.id, recipient.id));
+    }
+
+    try {
+      await this.emailService!.deliverCustomEmail(lead, {
+        subject: job.subject,
+        message: job.message,
+        attachments: (job.attachments as any[]) || [],
+      }, sender, leadEmailId);
+
+      await db.update(bulkEmailRecipients)
+        .set({ status: "sent", attempts, email: lead.email, sentAt: new Date(), lastError: null, nextAttemptAt: null })
+        .where(eq(bulkEmailRecipients.id, recipient.id));
+      await this.recordHistory(job, lead.id, leadEmailId, null);
+      await this.bumpCount(job.id, "sentCount");
+      await leadScoringService.rescore(lead.id);
+    } catch (error: any) {
+      const message = error?.message || "Failed to send";
+
+      if (isTransientSmtpError(error) && attempts < MAX_ATTEMPTS) {
+        const backoffSeconds = RETRY_BASE_SECONDS * 2 ** (attempts - 1);
+        await db.update(bulkEmailRecipients)
+          .set({ attempts, lastError: message, nextAttemptAt: new Date(Date.now() + backoffSeconds * 1000) })
+          .where(eq(bulkEmailRecipients.id, recipient.id));
+        return;
+      }
+
+      await db.update(bulkEmailRecipients)
+        .set({ status: "failed", attempts, lastError: message, nextAttemptAt: null })
+        .where(eq(bulkEmailRecipients.id, recipient.id));
+      await this.recordHistory(job, lead.id, leadEmailId, message);
+      await this.bumpCount(job.id, "failedCount");
+    }
+  }
+
+  /**
+   * Final outcome per lead, shown in the lead's email and message history
+   */
+  private async recordHistory(job: BulkEmailJob, leadId: string, leadEmailId: string, errorMessage: string | null): Promise<void> {
+    const status = errorMessage ? "failed" : "sent";
+
+    await db.update(leadEmails)
+      .set({ status, sentAt: errorMessage ? null : new Date(), errorMessage })
+      .where(eq(leadEmails.id, leadEmailId));
+
+    await db.insert(leadMessageHistory).values({
+      leadId,
+      subject: job.subject,
+      message: job.message,
+      status,
+      sentBy: job.createdBy,
+      errorMessage,
+      leadEmailId,
+    });
+  }
+
+  private async bumpCount(jobId: string, field: "sentCount" | "failedCount" | "skippedCount"): Promise<void> {
+    const column = bulkEmailJobs[field];
+    const [job] = await db.update(bulkEmailJobs)
+      .set({ [field]: sql`${column} + 1` })
+      .where(eq(bulkEmailJobs.id, jobId))
+      .returning();
+    if (job) this.notify(job);
+  }
+
+  /**
+   * Mark running jobs without pending recipients as completed
+   */
+  private async completeFinishedJobs(jobId?: string): Promise<void> {
+    const completed = await db.update(bulkEmailJobs)
+      .set({ status: "completed", completedAt: new Date() })
+      .where(and(
+        jobId ? eq(bulkEmailJobs.id, jobId) : undefined,
+        inArray(bulkEmailJobs.status, ["queued", "running"]),
+        sql`NOT EXISTS (SELECT 1 FROM ${bulkEmailRecipients} WHERE ${bulkEmailRecipients.jobId} = ${bulkEmailJobs.id} AND ${bulkEmailRecipients.status} = 'pending')`
+      ))
+      .returning();
+    completed.forEach(job => this.notify(job));
+  }
+
+  private notify(job: BulkEmailJob) {
+    wsService.sendToUser(job.createdBy, "bulk_email_progress", { job });
+  }
+}
+
+export const bulkEmailQueueService = new BulkEmailQueueService();
@@ -3,53 +3,106 @@
  * Supports pluggable adapters for different device manufacturers
  */
 
+import { ZKClient } from "./zkProtocol";
+
 export interface DeviceLog {
   deviceId: string;
   employeeId: string;
   punchTime: Date;
   type: "check-in" | "check-out";
+  deviceUserId?: string;
   raw?: any;
 }
 
+export interface DeviceUser {
+  deviceUserId: string;
+  employeeId: string;
+  name: string;
+  cardNo?: string;
+  privilege?: number;
+}
+
 export interface DeviceAdapter {
   connect(config: any): Promise<boolean>;
   disconnect(): Promise<void>;
   fetchLogs(lastSyncTime?: Date): Promise<DeviceLog[]>;
   testConnection(): Promise<boolean>;
+  fetchUsers?(): Promise<DeviceUser[]>;
+  clearLogs?(): Promise<void>;
+}
+
+// ZK punch states: 0 check-in, 1 check-out, 2 break-out, 3 break-in, 4 OT-in, 5 OT-out
+const ZKTECO_CHECK_OUT_PUNCHES = [1, 2, 5];
+const ZKTECO_SYNC_OVERLAP_MS = 10 * 60 * 1000;
+
+// Device types that upload logs themselves (ADMS / iClock) and cannot be polled
+export const PUSH_DEVICE_TYPES = ["zkteco-adms"];
+
+export function isPushDevice(deviceType: string): boolean {
+  return PUSH_DEVICE_TYPES.includes(deviceType.toLowerCase());
+}
+
+/**
+ * Map a ZK punch state (shared by the binary and ADMS protocols) to a punch type
+ */
+export function zkPunchToType(punch: number): DeviceLog["type"] {
+  return ZKTECO_CHECK_OUT_PUNCHES.includes(punch) ? "check-out" : "check-in";
 }
 
 /**
  * ZKTeco Device Adapter
- * Supports ZKTeco biometric devices via TCP/IP
+ * Supports ZKTeco biometric devices via the ZK binary protocol (TCP/UDP, port 4370)
+ *
+ * Connection params: protocol ("tcp" | "udp"), commKey (device COMM key),
+ * timeoutMs, clearLogsAfterSync (wipe the device log buffer once synced)
  */
 export class ZKTecoAdapter implements DeviceAdapter {
   private config: any;
   private connected: boolean = false;
+  private client: ZKClient | null = null;
 
   async connect(config: any): Promise<boolean> {
     this.config = config;
     
     try {
-      // In production, this would use ZKTeco SDK or TCP socket connection
-      // For now, we'll simulate the connection
-      console.log(`Connecting to ZKTeco device at ${config.ipAddress}:${config.port || 4370}`);
-      
-      // Simulated connection validation
       if (!config.ipAddress) {
         throw new Error("IP address is required for ZKTeco device");
       }
+
+      const port = config.port || 4370;
+      console.log(`Connecting to ZKTeco device at ${config.ipAddress}:${port}`);
+
+      this.client = new ZKClient({
+        host: config.ipAddress,
+        port,
+        protocol: config.protocol === "udp" ? "udp" : "tcp",
+        password: Number(config.commKey) || 0,
+        timeoutMs: config.timeoutMs,
+      });
+      await this.client.connect();
       
       this.connected = true;
       console.log(`ZKTeco device connected: ${config.name}`);
       return true;
     } catch (error: any) {
       console.error(`Failed to connect to ZKTeco device: ${error.message}`);
+      this.client = null;
       this.connected = false;
       return false;
     }
   }
 
   async disconnect(): Promise<void> {
+    if (this.client?.isConnected) {
+      try {
+        // Re-enable in case a sync left the terminal disabled
+        await this.client.enableDevice();
+        await this.client.disconnect();
+      } catch (error: any) {
+        console.error(`Error disconnecting ZKTeco device: ${error.message}`);
+      }
+    }
+    this.client = null;
     this.connected = false;
     console.log(`ZKTeco device disconnected: ${this.config?.name}`);
   }
@@ -62,30 +115,68 @@ export class ZKTecoAdapter implements DeviceAdapter {
   }
 
   async fetchLogs(lastSyncTime?: Date): Promise<DeviceLog[]> {
-    if (!this.connected) {
+    if (!this.connected || !this.client) {
       throw new Error("Device not connected. Call connect() first.");
     }
 
     try {
-      // In production, this would fetch from actual ZKTeco device
-      // Using ZKTeco SDK commands or raw TCP protocol
-      
-      // Simulated log fetching for demonstration
       console.log(`Fetching logs from ZKTeco device since ${lastSyncTime?.toISOString() || 'beginning'}`);
-      
-      // Return empty array for now - in production this would return actual device logs
-      // Example format:
-      // return [
-      //   { deviceId: this.config.id, employeeId: 'EMP001', punchTime: new Date(), type: 'check-in' },
-      //   { deviceId: this.config.id, employeeId: 'EMP001', punchTime: new Date(), type: 'check-out' },
-      // ];
-      
-      return [];
+
+      // Keep the terminal from accepting punches while the buffer is read.
+      // When logs are cleared after sync it stays disabled until clearLogs()/disconnect()
+      await this.client.disableDevice();
+      const records = await this.client.getAttendance();
+      if (!this.config.clearLogsAfterSync) {
+        await this.client.enableDevice();
+      }
+
+      // Overlap the previous sync window; duplicates are dropped during processing
+      const since = lastSyncTime ? new Date(lastSyncTime.getTime() - ZKTECO_SYNC_OVERLAP_MS) : undefined;
+
+      return records
+        .filter((record) => !since || record.timestamp >= since)
+        .map((record) => ({
+          deviceId: this.config.id,
+          employeeId: record.userId,
+          punchTime: record.timestamp,
+          type: zkPunchToType(record.punch),
+          deviceUserId: String(record.uid),
+          raw: {
+            uid: record.uid,
+            userId: record.userId,
+            status: record.status,
+            punch: record.punch,
+          },
+        }));
     } catch (error: any) {
       console.error(`Failed to fetch logs from ZKTeco device: ${error.message}`);
       throw error;
     }
   }
+
+  async fetchUsers(): Promise<DeviceUser[]> {
+    if (!this.connected || !this.client) {
+      throw new Error("Device not connected. Call connect() first.");
+    }
+
+    const users = await this.client.getUsers();
+    return users.map((user) => ({
+      deviceUserId: String(user.uid),
+      employeeId: user.userId,
+      name: user.name,
+      cardNo: user.cardNo ? String(user.cardNo) : undefined,
+      privilege: user.privilege,
+    }));
+  }
+
+  async clearLogs(): Promise<void> {
+    if (!this.connected || !this.client) {
+      throw new Error("Device not connected. Call connect() first.");
+    }
+
+    await this.client.clearAttendance();
+    console.log(`Cleared attendance logs on ZKTeco device: ${this.config?.name}`);
+  }
 }
 
 /**
@@ -221,6 +312,8 @@ export function createDeviceAdapter(deviceType: string): DeviceAdapter {
       return new SupremaAdapter();
     case "http":
       return new HttpDeviceAdapter();
+    case "zkteco-adms":
+      throw new Error("ZKTeco ADMS devices push their logs to /iclock/cdata and cannot be polled");
     default:
       throw new Error(`Unsupported device type: ${deviceType}`);
   }
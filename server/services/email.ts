@@ -3,6 +3,31 @@ import type { Transporter } from "nodemailer";
 import fs from "fs";
 import type { Task, Invoice, Lead, User } from "@shared/schema";
 import path from "path";
+import { emailTrackingService } from "./emailTracking";
+import { emailSuppressionService } from "./emailSuppression";
+
+/** Raised when an email is sent before SMTP credentials are configured */
+export class EmailNotConfiguredError extends Error {
+  constructor() {
+    super("Email transporter not configured");
+    this.name = "EmailNotConfiguredError";
+  }
+}
+
+/** Raised when a lead email is addressed to someone on the suppression list */
+export class EmailSuppressedError extends Error {
+  constructor(public email: string, public reason: string) {
+    super(`${email} is on the suppression list (${reason.replace(/_/g, " ")})`);
+    this.name = "EmailSuppressedError";
+  }
+}
+
+interface DeliveryOptions {
+  /** lead_emails id that opens and link clicks are tracked against */
+  trackingId?: string;
+  /** Lead email: honours the suppression list and carries an unsubscribe link */
+  leadEmail?: boolean;
+}
 
 interface EmailConfig {
   host: string;
@@ -101,7 +126,7 @@ export class EmailService {
     }
   }
 
-  private async sendEmail(to: string | null, subject: string, html: string, attachments: any[] = []) {
+  private async sendEmail(to: string | null, subject: string, html: string, attachments: any[] = [], options: DeliveryOptions = {}) {
     if (!to) {
       console.warn(`Email not sent: recipient address is null or empty (subject: ${subject})`);
       return false;
@@ -113,57 +138,115 @@ export class EmailService {
     }
 
     try {
-      try {
-        const logEntry = `[${new Date().toISOString()}] [EMAIL SERVICE]\n` +
-          `To: ${to}\n` +
-          `Attachments Count: ${attachments?.length}\n` +
-          `Attachments Raw: ${JSON.stringify(attachments)}\n\n`;
-        fs.appendFileSync(path.join(process.cwd(), "debug_logs.txt"), logEntry);
-      } catch (logErr) { console.error("Failed to write log", logErr); }
-
-      console.log("[EMAIL SERVICE] sendEmail called for:", to);
-      console.log("[EMAIL SERVICE] Attachments count:", attachments?.length);
-
-      // Process attachments to point to local file system
-      const processedAttachments = attachments.map(att => {
-        // If url starts with /uploads, modify to point to local path
-        if (att.url && att.url.startsWith('/uploads/')) {
-          const localPath = path.join(process.cwd(), att.url);
-
-          try {
-            fs.appendFileSync(path.join(process.cwd(), "debug_logs.txt"),
-              `[${new Date().toISOString()}] Processing Path: ${localPath}\nExists: ${fs.existsSync(localPath)}\n\n`);
-          } catch (e) { }
-
-          console.log(`[EMAIL SERVICE] Processing attachment: ${att.name}, URL: ${att.url} -> Path: ${localPath}`);
-          return {
-            filename: att.name,
-            path: localPath
-          };
-        }
-        console.log(`[EMAIL SERVICE] Processing attachment (raw URL): ${att.name}, URL: ${att.url}`);
+      await this.deliver(to, subject, html, attachments, options);
+      return true;
+    } catch (error: any) {
+      if (error instanceof EmailSuppressedError) {
+        console.warn(`Email not sent: ${error.message}`);
+        return false;
+      }
+      console.error(`Failed to send email to ${to}:`, error && error.message ? error.message : error);
+      if (process.env.NODE_ENV !== "production") {
+        console.error(error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Send through the transporter and let SMTP errors propagate to the caller.
+   * With a trackingId (lead_emails id) opens and link clicks are tracked.
+   */
+  private async deliver(to: string, subject: string, html: string, attachments: any[] = [], options: DeliveryOptions = {}) {
+    const { trackingId, leadEmail } = options;
+    if (!this.transporter) {
+      throw new EmailNotConfiguredError();
+    }
+
+    if (leadEmail) {
+      const suppression = await emailSuppressionService.getSuppression(to);
+      if (suppression) {
+        throw new EmailSuppressedError(to, suppression.reason);
+      }
+    }
+
+    if (trackingId) {
+      html = emailTrackingService.instrument(html, trackingId);
+    }
+
+    // Added after instrumenting so the link is not routed through click tracking
+    const unsubscribeUrl = leadEmail ? emailSuppressionService.unsubscribeUrl(to) : null;
+    if (unsubscribeUrl) {
+      html = this.withUnsubscribeLink(html, unsubscribeUrl);
+    }
+
+    try {
+      const logEntry = `[${new Date().toISOString()}] [EMAIL SERVICE]\n` +
+        `To: ${to}\n` +
+        `Attachments Count: ${attachments?.length}\n` +
+        `Attachments Raw: ${JSON.stringify(attachments)}\n\n`;
+      fs.appendFileSync(path.join(process.cwd(), "debug_logs.txt"), logEntry);
+    } catch (logErr) { console.error("Failed to write log", logErr); }
+
+    console.log("[EMAIL SERVICE] sendEmail called for:", to);
+    console.log("[EMAIL SERVICE] Attachments count:", attachments?.length);
+
+    // Process attachments to point to local file system
+    const processedAttachments = attachments.map(att => {
+      // If url starts with /uploads, modify to point to local path
+      if (att.url && att.url.startsWith('/uploads/')) {
+        const localPath = path.join(process.cwd(), att.url);
+
+        try {
+          fs.appendFileSync(path.join(process.cwd(), "debug_logs.txt"),
+            `[${new Date().toISOString()}] Processing Path: ${localPath}\nExists: ${fs.existsSync(localPath)}\n\n`);
+        } catch (e) { }
+
+        console.log(`[EMAIL SERVICE] Processing attachment: ${att.name}, URL: ${att.url} -> Path: ${localPath}`);
         return {
           filename: att.name,
-          path: att.url // Assuming absolute path if not /uploads
+          path: localPath
         };
-      });
-
-      const info = await this.transporter.sendMail({
+      }
+      console.log(`[EMAIL SERVICE] Processing attachment (raw URL): ${att.name}, URL: ${att.url}`);
+      return {
+        filename: att.name,
+        path: att.url // Assuming absolute path if not /uploads
+      };
+    });
+
+    let info;
+    try {
+      info = await this.transporter.sendMail({
         from: this.getFromAddress(),
         to,
         subject,
         html,
-        attachments: processedAttachments
+        attachments: processedAttachments,
+        ...(trackingId ? { messageId: emailTrackingService.messageIdFor(trackingId) } : {}),
+        // RFC 8058 one-click unsubscribe
+        ...(unsubscribeUrl ? {
+          list: { unsubscribe: unsubscribeUrl },
+          headers: { "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" },
+        } : {}),
       });
-      console.log(`Email sent to ${to}: messageId=${(info && (info as any).messageId) || "unknown"}`);
-      return true;
     } catch (error: any) {
-      console.error(`Failed to send email to ${to}:`, error && error.message ? error.message : error);
-      if (process.env.NODE_ENV !== "production") {
-        console.error(error);
+      if (leadEmail && emailSuppressionService.isHardBounce(error)) {
+        await emailSuppressionService.suppress(to, "hard_bounce", error.response || error.message);
       }
-      return false;
+      throw error;
     }
+    console.log(`Email sent to ${to}: messageId=${(info && (info as any).messageId) || "unknown"}`);
+  }
+
+  private withUnsubscribeLink(html: string, url: string): string {
+    const notice = `
+      <p style="text-align: center; font-size: 11px; color: #9ca3af; margin: 16px 0;">
+        You are receiving this email because you were in touch with MaxTech BD.
+        <a href="${url}" style="color: #9ca3af;">Unsubscribe</a>
+      </p>
+    `;
+    return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${notice}</body>`) : html + notice;
   }
 
   // ---------- Templates and public methods (full HTML preserved) ----------
@@ -387,7 +470,53 @@ export class EmailService {
     return this.sendEmail(user.email, subject, html);
   }
 
-  async sendLeadServiceIntroduction(lead: Lead): Promise<boolean> {
+  async sendPasswordReset(user: User, resetUrl: string, expiresInMinutes: number) {
+    if (!user?.email) {
+      console.warn("Cannot send password reset: user email missing");
+      return false;
+    }
+
+    const subject = "Reset your MaxTech BD password";
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #C8102E; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center; }
+          .content { background: #f9fafb; padding: 20px; }
+          .button { display: inline-block; background: #C8102E; color: white; padding: 12px 24px; 
+                    text-decoration: none; border-radius: 6px; margin-top: 15px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Password Reset</h1>
+          </div>
+          <div class="content">
+            <p>Hi ${user.fullName},</p>
+            <p>We received a request to reset the password for your account (${user.email}).</p>
+            
+            <a href="${resetUrl}" class="button">Choose a New Password</a>
+            
+            <p style="margin-top: 20px;">
+              This link can be used once and expires in ${expiresInMinutes} minutes.
+              If you did not request a reset, you can ignore this email; your password will not change.
+            </p>
+            
+            ${this.getEmailFooter()}
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail(user.email, subject, html);
+  }
+
+  async sendLeadServiceIntroduction(lead: Lead, trackingId?: string): Promise<boolean> {
     if (!lead?.email) {
       console.warn("Cannot send service introduction: lead email missing");
       return false;
@@ -468,10 +597,10 @@ export class EmailService {
       </html>
     `;
 
-    return this.sendEmail(lead.email, subject, html);
+    return this.sendEmail(lead.email, subject, html, [], { trackingId, leadEmail: true });
   }
 
-  async sendLeadCompanyProfile(lead: Lead): Promise<boolean> {
+  async sendLeadCompanyProfile(lead: Lead, trackingId?: string): Promise<boolean> {
     if (!lead?.email) {
       console.warn("Cannot send company profile: lead email missing");
       return false;
@@ -553,10 +682,10 @@ export class EmailService {
       </html>
     `;
 
-    return this.sendEmail(lead.email, subject, html);
+    return this.sendEmail(lead.email, subject, html, [], { trackingId, leadEmail: true });
   }
 
-  async sendLeadPricingBrochure(lead: Lead): Promise<boolean> {
+  async sendLeadPricingBrochure(lead: Lead, trackingId?: string): Promise<boolean> {
     if (!lead?.email) {
       console.warn("Cannot send pricing brochure: lead email missing");
       return false;
@@ -649,10 +778,10 @@ export class EmailService {
       </html>
     `;
 
-    return this.sendEmail(lead.email, subject, html);
+    return this.sendEmail(lead.email, subject, html, [], { trackingId, leadEmail: true });
   }
 
-  async sendLeadFollowUpEmail(lead: Lead): Promise<boolean> {
+  async sendLeadFollowUpEmail(lead: Lead, trackingId?: string): Promise<boolean> {
     if (!lead?.email) {
       console.warn("Cannot send follow-up email: lead email missing");
       return false;
@@ -714,7 +843,7 @@ export class EmailService {
       </html>
     `;
 
-    return this.sendEmail(lead.email, subject, html);
+    return this.sendEmail(lead.email, subject, html, [], { trackingId, leadEmail: true });
   }
 
   getTemplateSubject(templateName: string): string {
@@ -727,28 +856,46 @@ export class EmailService {
     return subjects[templateName] || "Message from MaxTech BD";
   }
 
-  async sendLeadTemplateEmail(lead: Lead, templateName: string): Promise<boolean> {
+  async sendLeadTemplateEmail(lead: Lead, templateName: string, trackingId?: string): Promise<boolean> {
     switch (templateName) {
       case "service_introduction":
-        return this.sendLeadServiceIntroduction(lead);
+        return this.sendLeadServiceIntroduction(lead, trackingId);
       case "company_profile":
-        return this.sendLeadCompanyProfile(lead);
+        return this.sendLeadCompanyProfile(lead, trackingId);
       case "pricing_brochure":
-        return this.sendLeadPricingBrochure(lead);
+        return this.sendLeadPricingBrochure(lead, trackingId);
       case "follow_up_reminder":
-        return this.sendLeadFollowUpEmail(lead);
+        return this.sendLeadFollowUpEmail(lead, trackingId);
       default:
         console.warn(`Unknown template: ${templateName}`);
         return false;
     }
   }
 
-  async sendCustomEmail(lead: Lead, template: { subject: string; message: string; attachments?: any[] }, sender?: User | null): Promise<boolean> {
+  async sendCustomEmail(lead: Lead, template: { subject: string; message: string; attachments?: any[] }, sender?: User | null, trackingId?: string): Promise<boolean> {
     if (!lead?.email) {
       console.warn("Cannot send custom email: lead email missing");
       return false;
     }
 
+    const { subject, html } = this.renderCustomEmail(lead, template, sender);
+    return this.sendEmail(lead.email, subject, html, template.attachments || [], { trackingId, leadEmail: true });
+  }
+
+  /**
+   * Same as sendCustomEmail, but throws the SMTP error instead of returning false
+   * so queued sends can decide whether to retry
+   */
+  async deliverCustomEmail(lead: Lead, template: { subject: string; message: string; attachments?: any[] }, sender?: User | null, trackingId?: string): Promise<void> {
+    if (!lead?.email) {
+      throw new Error("Lead has no email address");
+    }
+
+    const { subject, html } = this.renderCustomEmail(lead, template, sender);
+    await this.deliver(lead.email, subject, html, template.attachments || [], { trackingId, leadEmail: true });
+  }
+
+  private renderCustomEmail(lead: Lead, template: { subject: string; message: string }, sender?: User | null): { subject: string; html: string } {
     let subject = template.subject;
     let messageBody = template.message;
 
@@ -795,7 +942,7 @@ export class EmailService {
       </html>
     `;
 
-    return this.sendEmail(lead.email, subject, html, template.attachments || []);
+    return { subject, html };
   }
 
   isConfigured(): boolean {
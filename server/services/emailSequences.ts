@@ -0,0 +1,342 @@
+/**
+ * Email Sequence Service
+ * Drip campaigns for leads: enrollment (manual or by folder/category),
+ * sending each step once its delay has passed, and exiting leads that
+ * convert, are lost, reply or unsubscribe. Sequences are sent on their own
+ * timer, independent of the dev-only scheduler.
+ */
+
+import { db } from "../db";
+import {
+  emailSequences,
+  emailSequenceSteps,
+  emailSequenceEnrollments,
+  emailTemplates,
+  leads,
+  leadEmails,
+  leadMessageHistory,
+  users,
+  LEAD_EMAIL_TEMPLATES,
+  type EmailSequence,
+  type EmailSequenceEnrollment,
+  type EmailSequenceStep,
+  type Lead,
+} from "@shared/schema";
+import type { EmailService } from "./email";
+import { emailSuppressionService } from "./emailSuppression";
+import { leadPipelineService } from "./leadPipeline";
+import { leadScoringService } from "./leadScoring";
+import { eq, and, or, lte, asc, inArray, isNotNull, notInArray, sql } from "drizzle-orm";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = 3;
+const PROCESS_INTERVAL_MS = 15 * 60 * 1000;
+
+type StepInput = { delayDays: number; templateName: string };
+
+class EmailSequenceService {
+  private emailService: EmailService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Enroll leads and send due steps now and every 15 minutes
+   */
+  start(emailService: EmailService) {
+    this.emailService = emailService;
+    this.timer = setInterval(() => this.process(), PROCESS_INTERVAL_MS);
+    this.process();
+    console.log("Email sequences started (every 15 minutes)");
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.emailService = null;
+  }
+
+  async getSteps(sequenceId: string): Promise<EmailSequenceStep[]> {
+    return db.select().from(emailSequenceSteps)
+      .where(eq(emailSequenceSteps.sequenceId, sequenceId))
+      .orderBy(asc(emailSequenceSteps.stepOrder));
+  }
+
+  // A slow run (many due steps) must not overlap the next one
+  private async process(): Promise<void> {
+    if (!this.emailService || this.processing) return;
+    this.processing = true;
+    try {
+      const enrolled = await this.autoEnroll();
+      const { sent, failed, exited } = await this.processDueSteps(this.emailService);
+
+      if (enrolled > 0 || sent > 0 || failed > 0 || exited > 0) {
+        console.log(`Email sequences: ${enrolled} enrolled, ${sent} sent, ${failed} failed, ${exited} exited`);
+      }
+    } catch (error) {
+      console.error("Error processing email sequences:", error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Replace a sequence's steps; delays must not go backwards
+   */
+  async replaceSteps(sequenceId: string, steps: StepInput[]): Promise<void> {
+    for (let i = 1; i < steps.length; i++) {
+      if (steps[i].delayDays < steps[i - 1].delayDays) {
+        throw new Error("Each step must be scheduled on or after the previous step");
+      }
+    }
+
+    await db.delete(emailSequenceSteps).where(eq(emailSequenceSteps.sequenceId, sequenceId));
+    await db.insert(emailSequenceSteps).values(
+      steps.map((step, index) => ({ sequenceId, stepOrder: index, delayDays: step.delayDays, templateName: step.templateName }))
+    );
+  }
+
+  /**
+   * Enroll leads that are not already (or previously) in the sequence
+   * @returns Number of leads newly enrolled
+   */
+  async enroll(sequence: EmailSequence, leadIds: string[], enrolledBy: string | null = null): Promise<number> {
+    if (leadIds.length === 0) return 0;
+
+    const [firstStep] = await this.getSteps(sequence.id);
+    if (!firstStep) return 0;
+
+    const existing = await db.select({ leadId: emailSequenceEnrollments.leadId })
+      .from(emailSequenceEnrollments)
+      .where(and(eq(emailSequenceEnrollments.sequenceId, sequence.id), inArray(emailSequenceEnrollments.leadId, leadIds)));
+    const alreadyEnrolled = new Set(existing.map(e => e.leadId));
+
+    // Leads in won or lost stages are out of the pipeline
+    const closedStages = await leadPipelineService.closedStageKeys();
+    const eligible = await db.select({ id: leads.id })
+      .from(leads)
+      .where(and(
+        inArray(leads.id, leadIds.filter(id => !alreadyEnrolled.has(id))),
+        isNotNull(leads.email),
+        notInArray(leads.status, closedStages)
+      ));
+    if (eligible.length === 0) return 0;
+
+    const now = Date.now();
+    await db.insert(emailSequenceEnrollments).values(eligible.map(lead => ({
+      sequenceId: sequence.id,
+      leadId: lead.id,
+      enrolledBy,
+      nextSendAt: new Date(now + firstStep.delayDays * DAY_MS),
+    })));
+    return eligible.length;
+  }
+
+  /**
+   * Enroll every lead matching an active sequence's folder or category rule
+   */
+  async autoEnroll(): Promise<number> {
+    const sequences = await db.select().from(emailSequences)
+      .where(and(
+        eq(emailSequences.isActive, true),
+        or(isNotNull(emailSequences.enrollFolderId), isNotNull(emailSequences.enrollCategory))
+      ));
+
+    let enrolled = 0;
+    for (const sequence of sequences) {
+      const criteria = [];
+      if (sequence.enrollFolderId) criteria.push(eq(leads.folderId, sequence.enrollFolderId));
+      if (sequence.enrollCategory) criteria.push(eq(leads.category, sequence.enrollCategory));
+
+      const matching = await db.select({ id: leads.id })
+        .from(leads)
+        .where(and(
+          or(...criteria),
+          sql`NOT EXISTS (SELECT 1 FROM ${emailSequenceEnrollments} WHERE ${emailSequenceEnrollments.leadId} = ${leads.id} AND ${emailSequenceEnrollments.sequenceId} = ${sequence.id})`
+        ));
+
+      enrolled += await this.enroll(sequence, matching.map(l => l.id));
+    }
+    return enrolled;
+  }
+
+  /**
+   * Stop all active enrollments of a lead
+   * @param reason e.g. "status_converted", "replied", "manual"
+   */
+  async exitLead(leadId: string, reason: string): Promise<number> {
+    const exited = await db.update(emailSequenceEnrollments)
+      .set({ status: "exited", exitReason: reason, nextSendAt: null, completedAt: new Date() })
+      .where(and(eq(emailSequenceEnrollments.leadId, leadId), eq(emailSequenceEnrollments.status, "active")))
+      .returning({ id: emailSequenceEnrollments.id });
+    return exited.length;
+  }
+
+  async exitEnrollment(enrollmentId: string, reason: string): Promise<void> {
+    await db.update(emailSequenceEnrollments)
+      .set({ status: "exited", exitReason: reason, nextSendAt: null, completedAt: new Date() })
+      .where(and(eq(emailSequenceEnrollments.id, enrollmentId), eq(emailSequenceEnrollments.status, "active")));
+  }
+
+  /**
+   * Send every step that has come due; called periodically by the scheduler
+   */
+  async processDueSteps(emailService: EmailService): Promise<{ sent: number; failed: number; exited: number }> {
+    const result = { sent: 0, failed: 0, exited: 0 };
+    const closedStages = await leadPipelineService.closedStageKeys();
+
+    const due = await db.select({ enrollment: emailSequenceEnrollments, sequence: emailSequences, lead: leads })
+      .from(emailSequenceEnrollments)
+      .innerJoin(emailSequences, eq(emailSequenceEnrollments.sequenceId, emailSequences.id))
+      .innerJoin(leads, eq(emailSequenceEnrollments.leadId, leads.id))
+      .where(and(
+        eq(emailSequenceEnrollments.status, "active"),
+        eq(emailSequences.isActive, true),
+        lte(emailSequenceEnrollments.nextSendAt, new Date())
+      ));
+
+    for (const { enrollment, sequence, lead } of due) {
+      try {
+        if (closedStages.includes(lead.status)) {
+          await this.exitEnrollment(enrollment.id, `status_${lead.status}`);
+          result.exited++;
+          continue;
+        }
+        if (!lead.email) {
+          await this.exitEnrollment(enrollment.id, "no_email");
+          result.exited++;
+          continue;
+        }
+        const suppression = await emailSuppressionService.getSuppression(lead.email);
+        if (suppression) {
+          await this.exitEnrollment(enrollment.id, suppression.reason === "unsubscribe" ? "unsubscribed" : "suppressed");
+          result.exited++;
+          continue;
+        }
+
+        const steps = await this.getSteps(sequence.id);
+        const step = steps[enrollment.stepsSent];
+        if (!step) {
+          await db.update(emailSequenceEnrollments)
+            .set({ status: "completed", nextSendAt: null, completedAt: new Date() })
+            .where(eq(emailSequenceEnrollments.id, enrollment.id));
+          continue;
+        }
+
+        const error = await this.sendStep(emailService, enrollment, sequence, step, lead);
+        const sent = error === null;
+        const attempts = sent ? 0 : enrollment.failedAttempts + 1;
+
+        if (sent || attempts >= MAX_SEND_ATTEMPTS) {
+          // Move on to the next step; a step that keeps failing is skipped and counted
+          const skipped = !sent;
+          const next = steps[enrollment.stepsSent + 1];
+          await db.update(emailSequenceEnrollments)
+            .set({
+              stepsSent: enrollment.stepsSent + 1,
+              failedAttempts: 0,
+              stepLeadEmailId: null,
+              ...(skipped ? {
+                skippedSteps: enrollment.skippedSteps + 1,
+                lastError: `Step ${step.stepOrder + 1} skipped after ${attempts} failed attempts: ${error}`,
+              } : {}),
+              status: next ? "active" : "completed",
+              nextSendAt: next ? new Date(enrollment.enrolledAt.getTime() + next.delayDays * DAY_MS) : null,
+              completedAt: next ? null : new Date(),
+            })
+            .where(eq(emailSequenceEnrollments.id, enrollment.id));
+        } else {
+          await db.update(emailSequenceEnrollments)
+            .set({ failedAttempts: attempts, nextSendAt: new Date(Date.now() + RETRY_DELAY_MS) })
+            .where(eq(emailSequenceEnrollments.id, enrollment.id));
+        }
+
+        if (sent) result.sent++; else result.failed++;
+      } catch (error) {
+        console.error(`Error processing sequence step for lead ${lead.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one step and record it in lead_emails and lead_message_history.
+   * A step has one row in each however often it is retried: the first attempt
+   * creates them and later attempts update them.
+   * @returns null when sent, else why it failed
+   */
+  private async sendStep(
+    emailService: EmailService,
+    enrollment: EmailSequenceEnrollment,
+    sequence: EmailSequence,
+    step: EmailSequenceStep,
+    lead: Lead,
+  ): Promise<string | null> {
+    const isSystemTemplate = (LEAD_EMAIL_TEMPLATES as readonly string[]).includes(step.templateName);
+    const [template] = isSystemTemplate
+      ? []
+      : await db.select().from(emailTemplates).where(eq(emailTemplates.id, step.templateName)).limit(1);
+
+    if (!isSystemTemplate && !template) {
+      console.warn(`Sequence ${sequence.name}: template ${step.templateName} no longer exists`);
+      return "Email template no longer exists";
+    }
+
+    const subject = template ? template.subject : emailService.getTemplateSubject(step.templateName);
+    const message = template ? template.message : `Sequence "${sequence.name}" step ${step.stepOrder + 1}: ${step.templateName}`;
+
+    let leadEmailId = enrollment.stepLeadEmailId;
+    if (!leadEmailId) {
+      const [emailRecord] = await db.insert(leadEmails).values({
+        leadId: lead.id,
+        templateName: template ? "custom" : step.templateName,
+        templateId: template?.id ?? null,
+        subject,
+        status: "pending",
+        sentBy: sequence.createdBy,
+      }).returning();
+      leadEmailId = emailRecord.id;
+      await db.update(emailSequenceEnrollments).set({ stepLeadEmailId: leadEmailId }).where(eq(emailSequenceEnrollments.id, enrollment.id));
+    }
+
+    let sent: boolean;
+    if (template) {
+      const [sender] = await db.select().from(users).where(eq(users.id, sequence.createdBy)).limit(1);
+      sent = await emailService.sendCustomEmail(lead, {
+        subject: template.subject,
+        message: template.message,
+        attachments: (template.attachments as any[]) || [],
+      }, sender, leadEmailId);
+    } else {
+      sent = await emailService.sendLeadTemplateEmail(lead, step.templateName, leadEmailId);
+    }
+
+    const errorMessage = sent ? null : "Email service failed to send";
+    await db.update(leadEmails)
+      .set({ status: sent ? "sent" : "failed", sentAt: sent ? new Date() : null, errorMessage })
+      .where(eq(leadEmails.id, leadEmailId));
+
+    const outcome = { status: sent ? "sent" : "failed", errorMessage, sentAt: new Date() };
+    const retried = await db.update(leadMessageHistory)
+      .set(outcome)
+      .where(eq(leadMessageHistory.leadEmailId, leadEmailId))
+      .returning({ id: leadMessageHistory.id });
+    if (retried.length === 0) {
+      await db.insert(leadMessageHistory).values({
+        ...outcome,
+        leadId: lead.id,
+        subject,
+        message,
+        sentBy: sequence.createdBy,
+        leadEmailId,
+      });
+    }
+
+    if (sent) await leadScoringService.rescore(lead.id);
+    return errorMessage;
+  }
+}
+
+export const emailSequenceService = new EmailSequenceService();
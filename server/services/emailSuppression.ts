@@ -0,0 +1,130 @@
+/**
+ * Email Suppression Service
+ * Global list of addresses that lead emails are never sent to: people who
+ * unsubscribed, hard bounces and manual entries. Every lead email carries a
+ * signed unsubscribe link (and List-Unsubscribe header) pointing back here.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { emailSuppressions, leads, type EmailSuppression } from "@shared/schema";
+import { eq, desc, inArray, ilike, sql } from "drizzle-orm";
+import { emailSequenceService } from "./emailSequences";
+
+const UNSUBSCRIBE_SECRET = process.env.EMAIL_TRACKING_SECRET || process.env.JWT_SECRET || "dev-secret-change-in-production";
+
+// Permanent SMTP failures that mean the mailbox does not exist
+const HARD_BOUNCE_CODES = [550, 551, 553];
+
+type SuppressionReason = "unsubscribe" | "hard_bounce" | "manual";
+
+function normalize(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function sign(email: string): string {
+  return crypto.createHmac("sha256", UNSUBSCRIBE_SECRET).update(`unsubscribe:${email}`).digest("hex").slice(0, 32);
+}
+
+class EmailSuppressionService {
+  /**
+   * Signed link that unsubscribes the address without logging in
+   */
+  unsubscribeUrl(email: string): string {
+    const address = normalize(email);
+    const params = new URLSearchParams({ email: address, sig: sign(address) });
+    return `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}/api/unsubscribe?${params.toString()}`;
+  }
+
+  isValidUnsubscribe(email: string, signature: string): boolean {
+    const expected = sign(normalize(email));
+    return signature.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
+  /**
+   * Page shown by the unsubscribe link; the confirm step keeps link scanners
+   * from unsubscribing people by merely fetching the URL
+   */
+  renderUnsubscribePage(state: "confirm" | "done" | "invalid", email = ""): string {
+    const address = escapeHtml(email);
+    const body = {
+      confirm: `<p>Stop receiving emails from MaxTech BD at <strong>${address}</strong>?</p>
+        <form method="POST"><button type="submit" style="background: #C8102E; color: white; border: 0; padding: 10px 24px; border-radius: 6px; cursor: pointer;">Unsubscribe</button></form>`,
+      done: `<p><strong>${address}</strong> has been unsubscribed. You will not receive further emails from us.</p>`,
+      invalid: `<p>This unsubscribe link is invalid or incomplete. Reply to any of our emails and we will remove you manually.</p>`,
+    }[state];
+
+    return `<!DOCTYPE html>
+      <html>
+      <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Unsubscribe - MaxTech BD</title></head>
+      <body style="font-family: Arial, sans-serif; color: #333; max-width: 480px; margin: 60px auto; padding: 0 20px; text-align: center;">
+        <h2 style="color: #C8102E;">MaxTech BD</h2>
+        ${body}
+      </body>
+      </html>`;
+  }
+
+  /**
+   * 5xx replies for an unknown mailbox; these addresses should not be tried again
+   */
+  isHardBounce(error: any): boolean {
+    return typeof error?.responseCode === "number" && HARD_BOUNCE_CODES.includes(error.responseCode);
+  }
+
+  async getSuppression(email: string): Promise<EmailSuppression | undefined> {
+    const [entry] = await db.select().from(emailSuppressions)
+      .where(eq(emailSuppressions.email, normalize(email)))
+      .limit(1);
+    return entry;
+  }
+
+  /**
+   * Suppression entries for the given addresses, keyed by lowercase address
+   */
+  async findSuppressed(emails: string[]): Promise<Map<string, EmailSuppression>> {
+    const addresses = Array.from(new Set(emails.map(normalize)));
+    if (addresses.length === 0) return new Map();
+
+    const entries = await db.select().from(emailSuppressions).where(inArray(emailSuppressions.email, addresses));
+    return new Map(entries.map(entry => [entry.email, entry]));
+  }
+
+  /**
+   * Add an address; an existing entry is kept as is
+   * @returns the new entry, or undefined when the address was already suppressed
+   */
+  async suppress(email: string, reason: SuppressionReason, note?: string | null, createdBy?: string | null): Promise<EmailSuppression | undefined> {
+    const address = normalize(email);
+    const [entry] = await db.insert(emailSuppressions)
+      .values({ email: address, reason, note: note ?? null, createdBy: createdBy ?? null })
+      .onConflictDoNothing({ target: emailSuppressions.email })
+      .returning();
+
+    if (entry) {
+      // Stop drip sequences of every lead using the address
+      const matching = await db.select({ id: leads.id }).from(leads).where(sql`lower(${leads.email}) = ${address}`);
+      for (const lead of matching) {
+        await emailSequenceService.exitLead(lead.id, reason === "unsubscribe" ? "unsubscribed" : "suppressed");
+      }
+    }
+    return entry;
+  }
+
+  async remove(id: string): Promise<EmailSuppression | undefined> {
+    const [entry] = await db.delete(emailSuppressions).where(eq(emailSuppressions.id, id)).returning();
+    return entry;
+  }
+
+  async list(search?: string): Promise<EmailSuppression[]> {
+    return db.select().from(emailSuppressions)
+      .where(search ? ilike(emailSuppressions.email, `%${search}%`) : undefined)
+      .orderBy(desc(emailSuppressions.createdAt));
+  }
+}
+
+export const emailSuppressionService = new EmailSuppressionService();
@@ -0,0 +1,110 @@
+/**
+ * Email Tracking Service
+ * Adds an open-tracking pixel and redirecting links to outgoing lead emails
+ * and records the resulting opens and clicks against the lead_emails row.
+ * Redirect targets are HMAC-signed so the click endpoint is not an open redirect.
+ * The same id goes into the Message-ID so replies can be matched to the email.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { leadEmails, leadEmailEvents } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { leadScoringService } from "./leadScoring";
+
+const TRACKING_SECRET = process.env.EMAIL_TRACKING_SECRET || process.env.JWT_SECRET || "dev-secret-change-in-production";
+const REPLY_TOKEN_PREFIX = "lead-email.";
+const REPLY_TOKEN_PATTERN = /lead-email\.([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})@/i;
+
+// 1x1 transparent GIF
+export const TRACKING_PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+function baseUrl(): string {
+  return (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+}
+
+function messageIdDomain(): string {
+  const sender = (process.env.SMTP_USER || process.env.EMAIL_USER || "").trim();
+  return sender.includes("@") ? sender.split("@")[1] : "maxtechbd.com";
+}
+
+function signLink(leadEmailId: string, url: string): string {
+  return crypto.createHmac("sha256", TRACKING_SECRET).update(`${leadEmailId}:${url}`).digest("hex").slice(0, 32);
+}
+
+interface TrackingRequest {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+class EmailTrackingService {
+  /**
+   * Rewrite http(s) links through the click endpoint and append the open pixel
+   */
+  instrument(html: string, leadEmailId: string): string {
+    const tracked = html.replace(/href="(https?:\/\/[^"]+)"/gi, (_match, url: string) => {
+      const target = url.replace(/&amp;/g, "&");
+      const params = new URLSearchParams({ url: target, sig: signLink(leadEmailId, target) });
+      return `href="${baseUrl()}/api/track/click/${leadEmailId}?${params.toString().replace(/&/g, "&amp;")}"`;
+    });
+
+    const pixel = `<img src="${baseUrl()}/api/track/open/${leadEmailId}.gif" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`;
+    return /<\/body>/i.test(tracked) ? tracked.replace(/<\/body>/i, `${pixel}</body>`) : tracked + pixel;
+  }
+
+  /**
+   * Message-ID for an outgoing lead email; replies quote it in In-Reply-To/References
+   */
+  messageIdFor(leadEmailId: string): string {
+    return `<${REPLY_TOKEN_PREFIX}${leadEmailId}@${messageIdDomain()}>`;
+  }
+
+  /**
+   * The lead_emails id carried by the first of our Message-IDs found in the headers
+   */
+  leadEmailIdFromReply(messageIds: string[]): string | null {
+    for (const id of messageIds) {
+      const match = id.match(REPLY_TOKEN_PATTERN);
+      if (match) return match[1].toLowerCase();
+    }
+    return null;
+  }
+
+  isValidLink(leadEmailId: string, url: string, signature: string): boolean {
+    const expected = signLink(leadEmailId, url);
+    return signature.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
+  async recordOpen(leadEmailId: string, request: TrackingRequest): Promise<void> {
+    const [email] = await db.update(leadEmails)
+      .set({
+        openCount: sql`${leadEmails.openCount} + 1`,
+        firstOpenedAt: sql`coalesce(${leadEmails.firstOpenedAt}, now())`,
+      })
+      .where(eq(leadEmails.id, leadEmailId))
+      .returning({ leadId: leadEmails.leadId });
+    if (!email) return;
+
+    await db.insert(leadEmailEvents).values({ leadEmailId, leadId: email.leadId, type: "open", ...request });
+    await leadScoringService.rescore(email.leadId);
+  }
+
+  async recordClick(leadEmailId: string, url: string, request: TrackingRequest): Promise<void> {
+    // A click implies the email was opened even when images were blocked
+    const [email] = await db.update(leadEmails)
+      .set({
+        clickCount: sql`${leadEmails.clickCount} + 1`,
+        firstClickedAt: sql`coalesce(${leadEmails.firstClickedAt}, now())`,
+        firstOpenedAt: sql`coalesce(${leadEmails.firstOpenedAt}, now())`,
+      })
+      .where(eq(leadEmails.id, leadEmailId))
+      .returning({ leadId: leadEmails.leadId });
+    if (!email) return;
+
+    await db.insert(leadEmailEvents).values({ leadEmailId, leadId: email.leadId, type: "click", url, ...request });
+    await leadScoringService.rescore(email.leadId);
+  }
+}
+
+export const emailTrackingService = new EmailTrackingService();
@@ -0,0 +1,261 @@
+/**
+ * Inbound Email Service
+ * Polls an IMAP mailbox for replies from leads and stores them as inbound
+ * entries in lead_message_history. Messages are matched by the reply token in
+ * our outgoing Message-ID (In-Reply-To/References) or else by sender address.
+ * The mailbox is only read: flags are left alone so people can keep using it.
+ * Polling runs on its own timer, independent of the dev-only scheduler.
+ *
+ * Configure with IMAP_HOST, IMAP_PORT, IMAP_SECURE, IMAP_USER, IMAP_PASS and
+ * IMAP_MAILBOX; scripts/fake-imap-server.ts is a local stand-in for testing.
+ */
+
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import { db } from "../db";
+import { leads, leadEmails, leadMessageHistory, type Lead } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { emailTrackingService } from "./emailTracking";
+import { emailSequenceService } from "./emailSequences";
+import { notificationService } from "./notification";
+import { leadPipelineService } from "./leadPipeline";
+import { leadScoringService } from "./leadScoring";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Messages newer than this are considered on every poll; duplicates are skipped by Message-ID
+const LOOKBACK_DAYS = Math.max(1, parseInt(process.env.IMAP_LOOKBACK_DAYS || "3", 10));
+// Statuses that a reply moves on to "replied" when IMAP_MARK_LEADS_REPLIED=true
+const REPLIED_FROM_STATUSES = ["new", "contacted"];
+
+interface ImapConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+  mailbox: string;
+  rejectUnauthorized: boolean;
+}
+
+interface CandidateMessage {
+  uid: number;
+  messageId: string;
+  fromAddress: string;
+  replyToIds: string[];
+}
+
+export interface InboundPollResult {
+  checked: number;
+  captured: number;
+  unmatched: number;
+}
+
+function getConfig(): ImapConfig | null {
+  const host = (process.env.IMAP_HOST || "").trim();
+  const user = (process.env.IMAP_USER || process.env.SMTP_USER || process.env.EMAIL_USER || "").trim();
+  const pass = process.env.IMAP_PASS || process.env.SMTP_PASS || process.env.EMAIL_PASS || "";
+  if (!host || !user || !pass) return null;
+
+  const port = parseInt(process.env.IMAP_PORT || "993", 10);
+  return {
+    host,
+    port,
+    secure: process.env.IMAP_SECURE ? process.env.IMAP_SECURE === "true" : port === 993,
+    user,
+    pass,
+    mailbox: process.env.IMAP_MAILBOX || "INBOX",
+    rejectUnauthorized: process.env.IMAP_TLS_REJECT_UNAUTHORIZED !== "false",
+  };
+}
+
+/**
+ * Message-IDs listed in a raw References header
+ */
+function parseReferences(headers?: Buffer): string[] {
+  if (!headers) return [];
+  const unfolded = headers.toString("utf8").replace(/\r?\n[ \t]+/g, " ");
+  const match = unfolded.match(/^references:(.*)$/im);
+  return match ? match[1].match(/<[^>]+>/g) ?? [] : [];
+}
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+class InboundEmailService {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  // Highest UID already looked at, so unchanged mailboxes are cheap to poll
+  private lastSeen: { uidValidity: string; uid: number } | null = null;
+
+  isConfigured(): boolean {
+    return getConfig() !== null;
+  }
+
+  /**
+   * Poll now and every 5 minutes; does nothing without an IMAP configuration
+   */
+  start() {
+    if (!this.isConfigured()) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+    console.log("Inbound email polling started (every 5 minutes)");
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Fetch new messages and capture the ones that come from leads
+   */
+  async poll(): Promise<InboundPollResult> {
+    const result: InboundPollResult = { checked: 0, captured: 0, unmatched: 0 };
+    const config = getConfig();
+    if (!config || this.polling) return result;
+
+    this.polling = true;
+    const client = new ImapFlow({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: { user: config.user, pass: config.pass },
+      tls: { rejectUnauthorized: config.rejectUnauthorized },
+      logger: false,
+    });
+
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(config.mailbox);
+      try {
+        await this.processMailbox(client, config, result);
+      } finally {
+        lock.release();
+      }
+      await client.logout();
+    } catch (error) {
+      console.error("IMAP poll failed:", error);
+      client.close();
+    } finally {
+      this.polling = false;
+    }
+
+    if (result.captured > 0) {
+      console.log(`Captured ${result.captured} lead repl${result.captured === 1 ? "y" : "ies"} from IMAP`);
+    }
+    return result;
+  }
+
+  private async processMailbox(client: ImapFlow, config: ImapConfig, result: InboundPollResult): Promise<void> {
+    const mailbox = client.mailbox;
+    const uidValidity = mailbox ? String(mailbox.uidValidity) : "";
+    const lastUid = this.lastSeen?.uidValidity === uidValidity ? this.lastSeen.uid : 0;
+
+    const uids = await client.search({ since: new Date(Date.now() - LOOKBACK_DAYS * DAY_MS) }, { uid: true });
+    const newUids = (uids || []).filter(uid => uid > lastUid);
+    if (newUids.length === 0) return;
+
+    // Envelopes first; a command cannot be issued while a fetch is streaming
+    const candidates: CandidateMessage[] = [];
+    for await (const message of client.fetch(newUids, { uid: true, envelope: true, headers: ["references"] }, { uid: true })) {
+      const fromAddress = message.envelope?.from?.[0]?.address?.toLowerCase();
+      if (!fromAddress || fromAddress === config.user.toLowerCase()) continue;
+
+      candidates.push({
+        uid: message.uid,
+        messageId: message.envelope?.messageId || `<${uidValidity}.${message.uid}@imap>`,
+        fromAddress,
+        replyToIds: [message.envelope?.inReplyTo, ...parseReferences(message.headers)].filter((id): id is string => !!id),
+      });
+    }
+
+    // Failed messages are retried on the next poll
+    let retryFromUid = Infinity;
+    for (const candidate of candidates) {
+      result.checked++;
+      try {
+        const captured = await this.capture(candidate, async () => {
+          const message = await client.fetchOne(String(candidate.uid), { source: true }, { uid: true });
+          return message && message.source ? message.source : null;
+        });
+        if (captured) result.captured++; else result.unmatched++;
+      } catch (error) {
+        console.error(`Failed to capture inbound email ${candidate.messageId}:`, error);
+        retryFromUid = Math.min(retryFromUid, candidate.uid);
+      }
+    }
+
+    const seenUid = Math.max(lastUid, ...newUids.filter(uid => uid < retryFromUid));
+    this.lastSeen = { uidValidity, uid: seenUid };
+  }
+
+  /**
+   * Store one message if it belongs to a lead
+   * @returns false when no lead matches or the message was captured before
+   */
+  private async capture(candidate: CandidateMessage, loadSource: () => Promise<Buffer | null>): Promise<boolean> {
+    const [existing] = await db.select({ id: leadMessageHistory.id })
+      .from(leadMessageHistory)
+      .where(eq(leadMessageHistory.externalMessageId, candidate.messageId))
+      .limit(1);
+    if (existing) return false;
+
+    const match = await this.matchLead(candidate);
+    if (!match) return false;
+    const { lead, leadEmail } = match;
+
+    const source = await loadSource();
+    if (!source) return false;
+    const parsed = await simpleParser(source);
+    const subject = parsed.subject || "(no subject)";
+    const body = (parsed.text || (typeof parsed.html === "string" ? parsed.html.replace(/<[^>]+>/g, " ") : "")).trim();
+
+    const [entry] = await db.insert(leadMessageHistory).values({
+      leadId: lead.id,
+      direction: "inbound",
+      subject,
+      message: body,
+      status: "received",
+      sentBy: null,
+      fromAddress: candidate.fromAddress,
+      externalMessageId: candidate.messageId,
+      leadEmailId: leadEmail?.id ?? null,
+      sentAt: parsed.date ?? new Date(),
+    }).onConflictDoNothing({ target: leadMessageHistory.externalMessageId }).returning();
+    if (!entry) return false;
+
+    // A reply ends any drip sequence the lead is in
+    await emailSequenceService.exitLead(lead.id, "replied");
+
+    if (process.env.IMAP_MARK_LEADS_REPLIED === "true" && REPLIED_FROM_STATUSES.includes(lead.status)
+      && await leadPipelineService.getStage("replied")) {
+      await leadPipelineService.changeStage(lead, "replied", null);
+    }
+    await leadScoringService.rescore(lead.id);
+
+    const notifyUserId = lead.assignedTo || leadEmail?.sentBy;
+    if (notifyUserId) {
+      await notificationService.notifyLeadReply(notifyUserId, lead.name, subject);
+    }
+    return true;
+  }
+
+  private async matchLead(candidate: CandidateMessage): Promise<{ lead: Lead; leadEmail?: typeof leadEmails.$inferSelect } | null> {
+    const leadEmailId = emailTrackingService.leadEmailIdFromReply(candidate.replyToIds);
+    if (leadEmailId) {
+      const [row] = await db.select({ lead: leads, leadEmail: leadEmails })
+        .from(leadEmails)
+        .innerJoin(leads, eq(leadEmails.leadId, leads.id))
+        .where(eq(leadEmails.id, leadEmailId))
+        .limit(1);
+      if (row) return row;
+    }
+
+    const [lead] = await db.select().from(leads)
+      .where(sql`lower(${leads.email}) = ${candidate.fromAddress}`)
+      .orderBy(sql`${leads.createdAt} desc`)
+      .limit(1);
+    return lead ? { lead } : null;
+  }
+}
+
+export const inboundEmailService = new InboundEmailService();
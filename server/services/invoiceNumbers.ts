@@ -0,0 +1,18 @@
+/**
+ * Invoice Numbers
+ * Invoices created by the server are numbered from a database sequence, so
+ * two invoices created in the same millisecond never share a number.
+ */
+
+import { sql } from "drizzle-orm";
+import { format } from "date-fns";
+import { db, type DbTransaction } from "../db";
+import { invoiceNumberSequence } from "@shared/schema";
+
+/**
+ * Next invoice number, e.g. INV-202610-0042
+ */
+export async function nextInvoiceNumber(tx: typeof db | DbTransaction = db): Promise<string> {
+  const result = await tx.execute<{ value: string }>(sql`select nextval(${invoiceNumberSequence.seqName}) as value`);
+  return `INV-${format(new Date(), "yyyyMM")}-${String(result.rows[0].value).padStart(4, "0")}`;
+}
@@ -0,0 +1,165 @@
+/**
+ * Lead Assignment Service
+ * Gives new unassigned leads an owner so follow-up reminders reach someone.
+ * Rules are tried in priority order; the first rule that matches the lead's
+ * category or source hands it to the next active user in its pool who is
+ * under the rule's open-lead limit.
+ */
+
+import { db } from "../db";
+import {
+  leads,
+  users,
+  leadAssignmentRules,
+  type LeadAssignmentRule,
+  type InsertLeadAssignmentRule,
+} from "@shared/schema";
+import { eq, and, asc, inArray, notInArray, isNull, sql } from "drizzle-orm";
+import { leadPipelineService } from "./leadPipeline";
+import { notificationService } from "./notification";
+
+type AssignableLead = { id: string; name: string; category: string | null; source: string | null };
+
+function sameText(a: string | null, b: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function ruleMatches(rule: LeadAssignmentRule, lead: AssignableLead): boolean {
+  switch (rule.matchType) {
+    case "any":
+      return true;
+    case "category":
+      return sameText(lead.category, rule.matchValue);
+    case "source":
+      return sameText(lead.source, rule.matchValue);
+    default:
+      return false;
+  }
+}
+
+class LeadAssignmentService {
+  async getRules(): Promise<LeadAssignmentRule[]> {
+    return db.select().from(leadAssignmentRules).orderBy(asc(leadAssignmentRules.priority), asc(leadAssignmentRules.createdAt));
+  }
+
+  async getRule(id: string): Promise<LeadAssignmentRule | undefined> {
+    const [rule] = await db.select().from(leadAssignmentRules).where(eq(leadAssignmentRules.id, id)).limit(1);
+    return rule;
+  }
+
+  async createRule(data: InsertLeadAssignmentRule): Promise<LeadAssignmentRule> {
+    const [rule] = await db.insert(leadAssignmentRules).values(data).returning();
+    return rule;
+  }
+
+  async updateRule(id: string, data: InsertLeadAssignmentRule): Promise<LeadAssignmentRule | undefined> {
+    const [rule] = await db.update(leadAssignmentRules).set(data).where(eq(leadAssignmentRules.id, id)).returning();
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<LeadAssignmentRule | undefined> {
+    const [rule] = await db.delete(leadAssignmentRules).where(eq(leadAssignmentRules.id, id)).returning();
+    return rule;
+  }
+
+  /**
+   * Open leads held by each of the given users; closed and converted leads do not count
+   */
+  private async openLeadCounts(userIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (userIds.length === 0) return counts;
+
+    const closedStages = await leadPipelineService.closedStageKeys();
+    const rows = await db.select({
+      userId: leads.assignedTo,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(leads)
+      .where(and(
+        inArray(leads.assignedTo, userIds),
+        notInArray(leads.status, closedStages),
+        isNull(leads.convertedClientId),
+      ))
+      .groupBy(leads.assignedTo);
+    for (const row of rows) {
+      if (row.userId) counts.set(row.userId, row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Assign the given leads that have no assignee yet and notify the assignees.
+   * Failures are logged only: an unassigned lead can still be assigned by hand.
+   * @returns the number of leads assigned
+   */
+  async assignLeads(leadIds: string[]): Promise<number> {
+    if (leadIds.length === 0) return 0;
+
+    try {
+      const pending: AssignableLead[] = await db.select({
+        id: leads.id,
+        name: leads.name,
+        category: leads.category,
+        source: leads.source,
+      })
+        .from(leads)
+        .where(and(inArray(leads.id, leadIds), isNull(leads.assignedTo)));
+      const rules = (await this.getRules()).filter(rule => rule.isActive && rule.userIds.length > 0);
+      if (pending.length === 0 || rules.length === 0) return 0;
+
+      const poolIds = Array.from(new Set(rules.flatMap(rule => rule.userIds)));
+      const activeUsers = new Set((await db.select({ id: users.id })
+        .from(users)
+        .where(and(inArray(users.id, poolIds), eq(users.isActive, true)))).map(user => user.id));
+      const openCounts = await this.openLeadCounts(poolIds);
+
+      // Round-robin position per rule, advanced in memory and saved at the end
+      const lastAssigned = new Map(rules.map(rule => [rule.id, rule.lastAssignedUserId]));
+      const assigned = new Map<string, { rule: LeadAssignmentRule; userId: string; leadNames: string[] }>();
+
+      for (const lead of pending) {
+        for (const rule of rules) {
+          if (!ruleMatches(rule, lead)) continue;
+
+          const pool = rule.userIds;
+          const start = pool.indexOf(lastAssigned.get(rule.id) ?? "") + 1;
+          const userId = Array.from({ length: pool.length }, (_, i) => pool[(start + i) % pool.length])
+            .find(id => activeUsers.has(id) && (rule.maxOpenLeads == null || (openCounts.get(id) ?? 0) < rule.maxOpenLeads));
+          // Everyone in this pool is inactive or full; a lower-priority rule may still take the lead
+          if (!userId) continue;
+
+          await db.update(leads)
+            .set({ assignedTo: userId, assignmentRuleId: rule.id })
+            .where(and(eq(leads.id, lead.id), isNull(leads.assignedTo)));
+          lastAssigned.set(rule.id, userId);
+          openCounts.set(userId, (openCounts.get(userId) ?? 0) + 1);
+
+          const key = `${rule.id}:${userId}`;
+          const entry = assigned.get(key) ?? { rule, userId, leadNames: [] };
+          entry.leadNames.push(lead.name);
+          assigned.set(key, entry);
+          break;
+        }
+      }
+
+      for (const rule of rules) {
+        const userId = lastAssigned.get(rule.id);
+        if (userId && userId !== rule.lastAssignedUserId) {
+          await db.update(leadAssignmentRules).set({ lastAssignedUserId: userId }).where(eq(leadAssignmentRules.id, rule.id));
+        }
+      }
+
+      let total = 0;
+      for (const { rule, userId, leadNames } of Array.from(assigned.values())) {
+        await notificationService.notifyLeadsAssigned(userId, leadNames, rule.name);
+        total += leadNames.length;
+      }
+      return total;
+    } catch (error) {
+      console.error("Failed to assign leads:", error);
+      return 0;
+    }
+  }
+}
+
+export const leadAssignmentService = new LeadAssignmentService();
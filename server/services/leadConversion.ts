@@ -0,0 +1,106 @@
+/**
+ * Lead Conversion Service
+ * Turns a won lead into a client, optionally with a first project and a draft
+ * opening invoice, in one transaction. The lead is kept and linked to the new
+ * client so its email and message history stays reachable from the client.
+ */
+
+import { db } from "../db";
+import {
+  leads,
+  clients,
+  projects,
+  invoices,
+  type Lead,
+  type Client,
+  type Project,
+  type Invoice,
+  type LeadConversion,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { leadPipelineService } from "./leadPipeline";
+import { emailSequenceService } from "./emailSequences";
+import { nextInvoiceNumber } from "./invoiceNumbers";
+
+/** Raised when a lead cannot be converted; message is user-facing */
+export class LeadConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeadConversionError";
+  }
+}
+
+export interface LeadConversionResult {
+  lead: Lead;
+  client: Client;
+  project: Project | null;
+  invoice: Invoice | null;
+}
+
+class LeadConversionService {
+  /**
+   * @returns undefined when the lead does not exist
+   */
+  async convert(leadId: string, data: LeadConversion, userId: string): Promise<LeadConversionResult | undefined> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, leadId)).limit(1);
+    if (!lead) return undefined;
+    if (lead.convertedClientId) {
+      throw new LeadConversionError("This lead has already been converted to a client");
+    }
+
+    const [existingClient] = await db.select({ id: clients.id }).from(clients)
+      .where(eq(clients.email, data.client.email))
+      .limit(1);
+    if (existingClient) {
+      throw new LeadConversionError("A client with this email already exists");
+    }
+
+    const created = await db.transaction(async (tx) => {
+      const [client] = await tx.insert(clients).values(data.client).returning();
+
+      let project: Project | null = null;
+      if (data.project) {
+        [project] = await tx.insert(projects).values({
+          ...data.project,
+          clientId: client.id,
+          createdBy: userId,
+        }).returning();
+      }
+
+      let invoice: Invoice | null = null;
+      if (data.invoice) {
+        const amount = data.invoice.amount.toFixed(2);
+        [invoice] = await tx.insert(invoices).values({
+          clientId: client.id,
+          projectId: project?.id ?? null,
+          invoiceNumber: await nextInvoiceNumber(tx),
+          amount,
+          dueDate: data.invoice.dueDate,
+          status: "draft",
+          items: [{ description: data.invoice.description, quantity: 1, rate: Number(amount), amount: Number(amount) }],
+          notes: `Opening invoice for ${lead.name}`,
+        }).returning();
+      }
+
+      await tx.update(leads)
+        .set({ convertedClientId: client.id, convertedAt: new Date() })
+        .where(eq(leads.id, lead.id));
+
+      return { client, project, invoice };
+    });
+
+    // Close the lead in the pipeline; without a won stage only its sequences are stopped
+    const stageKey = await leadPipelineService.convertedStageKey();
+    const linked = { ...lead, convertedClientId: created.client.id, convertedAt: new Date() };
+    let updated: Lead = linked;
+    if (stageKey) {
+      updated = await leadPipelineService.changeStage(linked, stageKey, userId);
+    } else {
+      await emailSequenceService.exitLead(lead.id, "converted");
+    }
+
+    return { lead: updated, ...created };
+  }
+}
+
+export const leadConversionService = new LeadConversionService();
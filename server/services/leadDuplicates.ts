@@ -0,0 +1,223 @@
+/**
+ * Lead Duplicate Service
+ * Finds leads that are probably the same business despite differently written
+ * names, phone formats or website URLs, and merges a pair into one lead: its
+ * emails, message history, sequences and stage history move to the survivor.
+ */
+
+import { db } from "../db";
+import {
+  leads,
+  leadEmails,
+  leadEmailEvents,
+  leadMessageHistory,
+  leadStageHistory,
+  leadDuplicateDismissals,
+  emailSequenceEnrollments,
+  bulkEmailRecipients,
+  LEAD_MERGE_FIELDS,
+  type Lead,
+  type LeadMerge,
+} from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+/** Raised when two leads cannot be merged; message is user-facing */
+export class LeadMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeadMergeError";
+  }
+}
+
+export type DuplicateReason = "name" | "phone" | "email" | "email_domain" | "website";
+
+export interface DuplicateCandidate {
+  pairKey: string;
+  leads: [Lead, Lead];
+  reasons: DuplicateReason[];
+}
+
+// Local numbers without a country code are read as this country's (Bangladesh by default)
+const DEFAULT_COUNTRY_CODE = (process.env.DEFAULT_PHONE_COUNTRY_CODE || "880").replace(/\D/g, "");
+
+const COMPANY_SUFFIXES = /\s+(ltd|limited|llc|inc|incorporated|corp|corporation|co|company|pvt|private|plc|bd)$/;
+
+// A shared domain on these says nothing about the business
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "ymail.com", "hotmail.com", "outlook.com",
+  "live.com", "msn.com", "icloud.com", "me.com", "aol.com", "proton.me", "protonmail.com",
+]);
+
+// Pages on these hosts belong to different businesses, so the path is part of the key
+const SHARED_HOSTS = new Set(["facebook.com", "m.facebook.com", "instagram.com", "linkedin.com", "sites.google.com", "business.site"]);
+
+// Larger groups are generic keys (e.g. a placeholder phone); pairing them all would flood the queue
+const MAX_GROUP_SIZE = 10;
+
+export function normalizeName(name: string): string {
+  let normalized = name.toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  while (COMPANY_SUFFIXES.test(normalized)) {
+    normalized = normalized.replace(COMPANY_SUFFIXES, "");
+  }
+  return normalized;
+}
+
+/**
+ * Phone number in E.164 form, or null when there are too few digits to compare
+ */
+export function normalizePhone(phone: string): string | null {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  if (digits.length < 7) return null;
+
+  if (trimmed.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE) && digits.length > 10) return `+${digits}`;
+  if (digits.startsWith("0")) digits = digits.slice(1);
+  return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+}
+
+export function emailDomain(email: string): string | null {
+  const domain = email.trim().toLowerCase().split("@")[1];
+  return domain && !FREE_MAIL_DOMAINS.has(domain) ? domain : null;
+}
+
+export function websiteKey(website: string): string | null {
+  const trimmed = website.trim().toLowerCase();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`);
+    const host = url.hostname.replace(/^www\./, "");
+    return SHARED_HOSTS.has(host) ? `${host}${url.pathname.replace(/\/+$/, "")}` : host;
+  } catch {
+    return null;
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+class LeadDuplicateService {
+  /**
+   * Candidate duplicate pairs, strongest first; dismissed pairs are left out
+   */
+  async findCandidates(): Promise<DuplicateCandidate[]> {
+    const allLeads = await db.select().from(leads);
+    const dismissed = new Set((await db.select({ pairKey: leadDuplicateDismissals.pairKey }).from(leadDuplicateDismissals)).map(d => d.pairKey));
+
+    const keyers: [DuplicateReason, (lead: Lead) => string | null][] = [
+      ["name", lead => normalizeName(lead.name) || null],
+      ["phone", lead => (lead.phone ? normalizePhone(lead.phone) : null)],
+      ["email", lead => lead.email?.trim().toLowerCase() || null],
+      ["email_domain", lead => (lead.email ? emailDomain(lead.email) : null)],
+      ["website", lead => (lead.website ? websiteKey(lead.website) : null)],
+    ];
+
+    const candidates = new Map<string, DuplicateCandidate>();
+    for (const [reason, keyOf] of keyers) {
+      const groups = new Map<string, Lead[]>();
+      for (const lead of allLeads) {
+        const key = keyOf(lead);
+        if (!key) continue;
+        groups.set(key, [...(groups.get(key) || []), lead]);
+      }
+
+      for (const group of Array.from(groups.values())) {
+        if (group.length < 2 || group.length > MAX_GROUP_SIZE) continue;
+        for (let i = 0; i < group.length; i++) {
+          for (let j = i + 1; j < group.length; j++) {
+            const key = pairKey(group[i].id, group[j].id);
+            if (dismissed.has(key)) continue;
+            const candidate = candidates.get(key) ?? { pairKey: key, leads: [group[i], group[j]], reasons: [] };
+            candidate.reasons.push(reason);
+            candidates.set(key, candidate);
+          }
+        }
+      }
+    }
+
+    // A shared email domain alone is too weak to list
+    return Array.from(candidates.values())
+      .filter(candidate => !(candidate.reasons.length === 1 && candidate.reasons[0] === "email_domain"))
+      .sort((a, b) => b.reasons.length - a.reasons.length);
+  }
+
+  async dismiss(leadIds: [string, string], userId: string): Promise<void> {
+    const [leadId, otherLeadId] = [...leadIds].sort();
+    await db.insert(leadDuplicateDismissals)
+      .values({ pairKey: pairKey(leadId, otherLeadId), leadId, otherLeadId, dismissedBy: userId })
+      .onConflictDoNothing({ target: leadDuplicateDismissals.pairKey });
+  }
+
+  /**
+   * Merge the duplicate into the survivor and delete the duplicate
+   * @returns the survivor before and after the merge, and the deleted duplicate
+   */
+  async merge(data: LeadMerge): Promise<{ before: Lead; after: Lead; duplicate: Lead }> {
+    const found = await db.select().from(leads).where(inArray(leads.id, [data.survivorId, data.duplicateId]));
+    const survivor = found.find(lead => lead.id === data.survivorId);
+    const duplicate = found.find(lead => lead.id === data.duplicateId);
+    if (!survivor || !duplicate) {
+      throw new LeadMergeError("Lead not found");
+    }
+    if (survivor.convertedClientId && duplicate.convertedClientId && survivor.convertedClientId !== duplicate.convertedClientId) {
+      throw new LeadMergeError("Both leads were converted to different clients");
+    }
+
+    const merged: Partial<Lead> = {};
+    for (const field of LEAD_MERGE_FIELDS) {
+      const useDuplicate = data.prefer?.[field] === "duplicate" || isEmpty(survivor[field]);
+      if (useDuplicate && !isEmpty(duplicate[field])) {
+        (merged as Record<string, unknown>)[field] = duplicate[field];
+      }
+    }
+    if (duplicate.notes?.trim() && duplicate.notes !== survivor.notes) {
+      merged.notes = [survivor.notes, `Merged from "${duplicate.name}":\n${duplicate.notes}`].filter(Boolean).join("\n\n");
+    }
+    if ((duplicate.rating ?? 0) > (survivor.rating ?? 0)) merged.rating = duplicate.rating;
+    if ((duplicate.reviewCount ?? 0) > (survivor.reviewCount ?? 0)) merged.reviewCount = duplicate.reviewCount;
+    if (!survivor.convertedClientId && duplicate.convertedClientId) {
+      merged.convertedClientId = duplicate.convertedClientId;
+      merged.convertedAt = duplicate.convertedAt;
+    }
+
+    const after = await db.transaction(async (tx) => {
+      // The survivor is already in some of the duplicate's sequences; those enrollments stop
+      const survivorSequences = (await tx.select({ sequenceId: emailSequenceEnrollments.sequenceId })
+        .from(emailSequenceEnrollments)
+        .where(eq(emailSequenceEnrollments.leadId, survivor.id))).map(e => e.sequenceId);
+      if (survivorSequences.length > 0) {
+        await tx.update(emailSequenceEnrollments)
+          .set({ status: "exited", exitReason: "merged", nextSendAt: null, completedAt: new Date() })
+          .where(and(
+            eq(emailSequenceEnrollments.leadId, duplicate.id),
+            eq(emailSequenceEnrollments.status, "active"),
+            inArray(emailSequenceEnrollments.sequenceId, survivorSequences),
+          ));
+      }
+
+      for (const table of [leadEmails, leadEmailEvents, leadMessageHistory, leadStageHistory, emailSequenceEnrollments, bulkEmailRecipients]) {
+        await tx.update(table).set({ leadId: survivor.id }).where(eq(table.leadId, duplicate.id));
+      }
+
+      await tx.delete(leads).where(eq(leads.id, duplicate.id));
+      const [updated] = Object.keys(merged).length > 0
+        ? await tx.update(leads).set(merged).where(eq(leads.id, survivor.id)).returning()
+        : [survivor];
+      return updated;
+    });
+
+    return { before: survivor, after, duplicate };
+  }
+}
+
+export const leadDuplicateService = new LeadDuplicateService();
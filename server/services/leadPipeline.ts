@@ -0,0 +1,220 @@
+/**
+ * Lead Pipeline Service
+ * Admin-defined pipeline stages (order, colour, win probability, outcome) and
+ * the stage history of each lead. leads.status holds the stage key; changes
+ * go through changeStage so every transition is recorded for time-in-stage.
+ */
+
+import { db } from "../db";
+import {
+  leads,
+  leadStages,
+  leadStageHistory,
+  DEFAULT_LEAD_STAGES,
+  type Lead,
+  type LeadStage,
+  type InsertLeadStage,
+} from "@shared/schema";
+import { eq, asc, desc, sql, count } from "drizzle-orm";
+import { emailSequenceService } from "./emailSequences";
+
+/** Raised for stage changes the pipeline does not allow; message is user-facing */
+export class LeadStageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeadStageError";
+  }
+}
+
+export interface StageDuration {
+  stage: string;
+  transitions: number;
+  averageSeconds: number;
+}
+
+function slugify(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "stage";
+}
+
+class LeadPipelineService {
+  /**
+   * Stages in pipeline order; the defaults are created on first use
+   */
+  async getStages(): Promise<LeadStage[]> {
+    const stages = await db.select().from(leadStages).orderBy(asc(leadStages.sortOrder), asc(leadStages.createdAt));
+    if (stages.length > 0) return stages;
+
+    await db.insert(leadStages)
+      .values(DEFAULT_LEAD_STAGES.map((stage, index) => ({ ...stage, sortOrder: index })))
+      .onConflictDoNothing({ target: leadStages.key });
+    return db.select().from(leadStages).orderBy(asc(leadStages.sortOrder), asc(leadStages.createdAt));
+  }
+
+  async getStage(key: string): Promise<LeadStage | undefined> {
+    const stages = await this.getStages();
+    return stages.find(stage => stage.key === key);
+  }
+
+  /**
+   * Stage new leads start in: the first one of the pipeline
+   */
+  async defaultStageKey(): Promise<string> {
+    const [first] = await this.getStages();
+    return first.key;
+  }
+
+  /**
+   * Keys of won and lost stages; leads there are out of the active pipeline
+   */
+  async closedStageKeys(): Promise<string[]> {
+    const stages = await this.getStages();
+    return stages.filter(stage => stage.outcome !== "open").map(stage => stage.key);
+  }
+
+  /**
+   * Stage a lead moves to when it becomes a client: "converted" if it exists, else the first won stage
+   */
+  async convertedStageKey(): Promise<string | undefined> {
+    const stages = await this.getStages();
+    const won = stages.filter(stage => stage.outcome === "won");
+    return (won.find(stage => stage.key === "converted") ?? won[0])?.key;
+  }
+
+  async assertStage(key: string): Promise<LeadStage> {
+    const stage = await this.getStage(key);
+    if (!stage) {
+      throw new LeadStageError(`Unknown stage "${key}"`);
+    }
+    return stage;
+  }
+
+  async createStage(data: InsertLeadStage): Promise<LeadStage> {
+    const stages = await this.getStages();
+    const base = slugify(data.name);
+    let key = base;
+    for (let i = 2; stages.some(stage => stage.key === key); i++) {
+      key = `${base}_${i}`;
+    }
+
+    const [stage] = await db.insert(leadStages).values({
+      ...data,
+      key,
+      sortOrder: stages.length,
+    }).returning();
+    return stage;
+  }
+
+  async updateStage(id: string, data: Partial<InsertLeadStage>): Promise<LeadStage | undefined> {
+    const [stage] = await db.update(leadStages).set(data).where(eq(leadStages.id, id)).returning();
+    return stage;
+  }
+
+  /**
+   * Set the pipeline order; ids not listed keep their relative order after the listed ones
+   */
+  async reorder(ids: string[]): Promise<LeadStage[]> {
+    const stages = await this.getStages();
+    const ordered = [
+      ...ids.map(id => stages.find(stage => stage.id === id)).filter((stage): stage is LeadStage => !!stage),
+      ...stages.filter(stage => !ids.includes(stage.id)),
+    ];
+
+    await db.transaction(async (tx) => {
+      for (const [index, stage] of ordered.entries()) {
+        await tx.update(leadStages).set({ sortOrder: index }).where(eq(leadStages.id, stage.id));
+      }
+    });
+    return this.getStages();
+  }
+
+  /**
+   * Delete a stage, moving its leads to another stage first
+   */
+  async deleteStage(id: string, moveTo: string | undefined, changedBy: string | null): Promise<LeadStage | undefined> {
+    const stages = await this.getStages();
+    const stage = stages.find(s => s.id === id);
+    if (!stage) return undefined;
+    if (stages.length === 1) {
+      throw new LeadStageError("The pipeline needs at least one stage");
+    }
+
+    const [{ value: leadCount }] = await db.select({ value: count() }).from(leads).where(eq(leads.status, stage.key));
+    if (leadCount > 0) {
+      if (!moveTo) {
+        throw new LeadStageError(`${leadCount} lead(s) are in "${stage.name}"; choose a stage to move them to`);
+      }
+      if (moveTo === stage.key || !stages.some(s => s.key === moveTo)) {
+        throw new LeadStageError(`Cannot move leads to "${moveTo}"`);
+      }
+
+      const affected = await db.select().from(leads).where(eq(leads.status, stage.key));
+      for (const lead of affected) {
+        await this.changeStage(lead, moveTo, changedBy);
+      }
+    }
+
+    await db.delete(leadStages).where(eq(leadStages.id, id));
+    return stage;
+  }
+
+  /**
+   * Move a lead to another stage and record the transition
+   * @returns the updated lead, or the lead unchanged when it is already in the stage
+   */
+  async changeStage(lead: Lead, toStage: string, changedBy: string | null): Promise<Lead> {
+    if (lead.status === toStage) return lead;
+    const stage = await this.assertStage(toStage);
+
+    const [updated] = await db.update(leads).set({ status: toStage }).where(eq(leads.id, lead.id)).returning();
+    await this.recordTransition(lead, toStage, changedBy);
+
+    if (stage.outcome !== "open") {
+      await emailSequenceService.exitLead(lead.id, `status_${toStage}`);
+    }
+    return updated;
+  }
+
+  /**
+   * @param lead the lead as it was before the change
+   */
+  private async recordTransition(lead: Pick<Lead, "id" | "status" | "createdAt">, toStage: string, changedBy: string | null): Promise<void> {
+    if (lead.status === toStage) return;
+
+    const [previous] = await db.select({ changedAt: leadStageHistory.changedAt })
+      .from(leadStageHistory)
+      .where(eq(leadStageHistory.leadId, lead.id))
+      .orderBy(desc(leadStageHistory.changedAt))
+      .limit(1);
+    const enteredAt = previous?.changedAt ?? lead.createdAt;
+
+    await db.insert(leadStageHistory).values({
+      leadId: lead.id,
+      fromStage: lead.status,
+      toStage,
+      secondsInPreviousStage: Math.max(0, Math.round((Date.now() - enteredAt.getTime()) / 1000)),
+      changedBy,
+    });
+  }
+
+  /**
+   * Average time leads spent in each stage before moving on
+   */
+  async timeInStage(): Promise<StageDuration[]> {
+    const rows = await db.select({
+      stage: leadStageHistory.fromStage,
+      transitions: count(),
+      averageSeconds: sql<number>`coalesce(avg(${leadStageHistory.secondsInPreviousStage}), 0)::float`,
+    })
+      .from(leadStageHistory)
+      .where(sql`${leadStageHistory.fromStage} IS NOT NULL`)
+      .groupBy(leadStageHistory.fromStage);
+
+    return rows.map(row => ({
+      stage: row.stage!,
+      transitions: row.transitions,
+      averageSeconds: Math.round(row.averageSeconds),
+    }));
+  }
+}
+
+export const leadPipelineService = new LeadPipelineService();
@@ -0,0 +1,252 @@
+/**
+ * Lead Scoring Service
+ * Admin-defined rules that add or subtract points for what we know about a
+ * lead (contact details, category, source, Google rating, email opens, time
+ * since last contact). The total is stored on leads.score so the list can be
+ * sorted by it; leads are rescored when they change and nightly for all.
+ * The nightly rescore runs on its own timer, independent of the dev-only
+ * scheduler.
+ */
+
+import { db } from "../db";
+import {
+  leads,
+  leadEmails,
+  leadMessageHistory,
+  leadScoringRules,
+  DEFAULT_LEAD_SCORING_RULES,
+  type Lead,
+  type LeadScoringRule,
+  type InsertLeadScoringRule,
+} from "@shared/schema";
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// "Days since contact" changes daily, so every lead is rescored once a night
+const NIGHTLY_HOUR = 2;
+
+type ScoredLead = Pick<Lead, "id" | "website" | "email" | "phone" | "category" | "source" | "rating" | "reviewCount" | "score" | "createdAt">;
+
+interface LeadSignals {
+  emailOpens: number;
+  lastContactAt: Date | null;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  matches: { ruleId: string; name: string; points: number }[];
+}
+
+function sameText(a: string | null, b: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function ruleMatches(rule: LeadScoringRule, lead: ScoredLead, signals: LeadSignals, now: number): boolean {
+  const threshold = Number(rule.value);
+  switch (rule.type) {
+    case "has_website":
+      return !!lead.website?.trim();
+    case "has_email":
+      return !!lead.email?.trim();
+    case "has_phone":
+      return !!lead.phone?.trim();
+    case "category":
+      return sameText(lead.category, rule.value);
+    case "source":
+      return sameText(lead.source, rule.value);
+    case "min_rating":
+      return lead.rating != null && lead.rating >= threshold;
+    case "min_reviews":
+      return lead.reviewCount != null && lead.reviewCount >= threshold;
+    case "min_email_opens":
+      return signals.emailOpens >= threshold;
+    case "days_since_contact": {
+      // Never contacted counts from when the lead was added
+      const since = (signals.lastContactAt ?? lead.createdAt).getTime();
+      return (now - since) / DAY_MS >= threshold;
+    }
+    default:
+      return false;
+  }
+}
+
+function evaluate(rules: LeadScoringRule[], lead: ScoredLead, signals: LeadSignals, now: number): ScoreBreakdown {
+  const matches = rules
+    .filter(rule => ruleMatches(rule, lead, signals, now))
+    .map(rule => ({ ruleId: rule.id, name: rule.name, points: rule.points }));
+  const total = matches.reduce((sum, match) => sum + match.points, 0);
+  return { score: Math.max(0, total), matches };
+}
+
+class LeadScoringService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Check every hour and rescore all leads during the nightly hour
+   */
+  start() {
+    this.timer = setInterval(() => {
+      if (new Date().getHours() === NIGHTLY_HOUR) this.rescoreAll();
+    }, HOUR_MS);
+    console.log(`Lead scoring started (nightly at ${NIGHTLY_HOUR}:00)`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async getRules(): Promise<LeadScoringRule[]> {
+    return db.select().from(leadScoringRules).orderBy(asc(leadScoringRules.createdAt));
+  }
+
+  async getRule(id: string): Promise<LeadScoringRule | undefined> {
+    const [rule] = await db.select().from(leadScoringRules).where(eq(leadScoringRules.id, id)).limit(1);
+    return rule;
+  }
+
+  async createRule(data: InsertLeadScoringRule): Promise<LeadScoringRule> {
+    const [rule] = await db.insert(leadScoringRules).values(data).returning();
+    return rule;
+  }
+
+  async updateRule(id: string, data: InsertLeadScoringRule): Promise<LeadScoringRule | undefined> {
+    const [rule] = await db.update(leadScoringRules).set(data).where(eq(leadScoringRules.id, id)).returning();
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<LeadScoringRule | undefined> {
+    const [rule] = await db.delete(leadScoringRules).where(eq(leadScoringRules.id, id)).returning();
+    return rule;
+  }
+
+  /**
+   * Add the suggested starter rules; does nothing once any rule exists
+   */
+  async addDefaultRules(): Promise<LeadScoringRule[]> {
+    const existing = await this.getRules();
+    if (existing.length > 0) return [];
+    return db.insert(leadScoringRules).values(DEFAULT_LEAD_SCORING_RULES).returning();
+  }
+
+  /**
+   * Email opens and the last email exchanged, per lead
+   */
+  private async loadSignals(leadIds?: string[]): Promise<Map<string, LeadSignals>> {
+    const signals = new Map<string, LeadSignals>();
+    const get = (leadId: string) => {
+      if (!signals.has(leadId)) signals.set(leadId, { emailOpens: 0, lastContactAt: null });
+      return signals.get(leadId)!;
+    };
+    const later = (a: Date | null, b: Date | null) => (!a || (b && b > a) ? b : a);
+
+    const emailRows = await db.select({
+      leadId: leadEmails.leadId,
+      opens: sql<number>`coalesce(sum(${leadEmails.openCount}), 0)::int`,
+      lastSentAt: sql<Date | null>`max(${leadEmails.sentAt})`.mapWith(leadEmails.sentAt),
+    })
+      .from(leadEmails)
+      .where(leadIds ? inArray(leadEmails.leadId, leadIds) : undefined)
+      .groupBy(leadEmails.leadId);
+    for (const row of emailRows) {
+      const entry = get(row.leadId);
+      entry.emailOpens = row.opens;
+      entry.lastContactAt = later(entry.lastContactAt, row.lastSentAt);
+    }
+
+    // Sent messages and replies captured from the mailbox; failed sends are not contact
+    const messageRows = await db.select({
+      leadId: leadMessageHistory.leadId,
+      lastAt: sql<Date | null>`max(${leadMessageHistory.sentAt})`.mapWith(leadMessageHistory.sentAt),
+    })
+      .from(leadMessageHistory)
+      .where(and(
+        inArray(leadMessageHistory.status, ["sent", "received"]),
+        leadIds ? inArray(leadMessageHistory.leadId, leadIds) : undefined,
+      ))
+      .groupBy(leadMessageHistory.leadId);
+    for (const row of messageRows) {
+      const entry = get(row.leadId);
+      entry.lastContactAt = later(entry.lastContactAt, row.lastAt);
+    }
+
+    return signals;
+  }
+
+  private async rescoreAll(): Promise<void> {
+    try {
+      const changed = await this.scoreLeads();
+      console.log(`Lead scoring: ${changed} score(s) changed`);
+    } catch (error) {
+      console.error("Error recomputing lead scores:", error);
+    }
+  }
+
+  /**
+   * Recompute and store the score of the given leads, or of every lead
+   * @returns the number of leads whose score changed
+   */
+  async scoreLeads(leadIds?: string[]): Promise<number> {
+    if (leadIds && leadIds.length === 0) return 0;
+
+    const rules = (await this.getRules()).filter(rule => rule.isActive);
+    const rows: ScoredLead[] = await db.select({
+      id: leads.id,
+      website: leads.website,
+      email: leads.email,
+      phone: leads.phone,
+      category: leads.category,
+      source: leads.source,
+      rating: leads.rating,
+      reviewCount: leads.reviewCount,
+      score: leads.score,
+      createdAt: leads.createdAt,
+    })
+      .from(leads)
+      .where(leadIds ? inArray(leads.id, leadIds) : undefined);
+    const signals = await this.loadSignals(leadIds);
+
+    const now = new Date();
+    let changed = 0;
+    for (const lead of rows) {
+      const { score } = evaluate(rules, lead, signals.get(lead.id) ?? { emailOpens: 0, lastContactAt: null }, now.getTime());
+      if (score !== lead.score) {
+        await db.update(leads).set({ score }).where(eq(leads.id, lead.id));
+        changed++;
+      }
+    }
+
+    await db.update(leads)
+      .set({ scoredAt: now })
+      .where(leadIds ? inArray(leads.id, leadIds) : undefined);
+    return changed;
+  }
+
+  /**
+   * Rescore one lead after something it is scored on changed. Failures are
+   * logged only: the stored score stays stale until the nightly run.
+   * @returns the lead's new score, or null when scoring failed
+   */
+  async rescore(leadId: string): Promise<number | null> {
+    try {
+      await this.scoreLeads([leadId]);
+      const [lead] = await db.select({ score: leads.score }).from(leads).where(eq(leads.id, leadId)).limit(1);
+      return lead?.score ?? null;
+    } catch (error) {
+      console.error(`Failed to rescore lead ${leadId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The rules that currently match a lead, for showing why it scored what it did
+   */
+  async explain(lead: Lead): Promise<ScoreBreakdown> {
+    const rules = (await this.getRules()).filter(rule => rule.isActive);
+    const signals = await this.loadSignals([lead.id]);
+    return evaluate(rules, lead, signals.get(lead.id) ?? { emailOpens: 0, lastContactAt: null }, Date.now());
+  }
+}
+
+export const leadScoringService = new LeadScoringService();
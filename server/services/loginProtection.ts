@@ -0,0 +1,135 @@
+/**
+ * Login Protection Service
+ * Throttles password guessing per client IP (in memory) and per account
+ * (persisted on the user row), with progressive delays and a temporary
+ * lockout once an account collects too many consecutive failures
+ */
+
+import { db } from "../db";
+import { users, type User } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+
+// Per account: delays start after a few failures, lockout follows
+const ACCOUNT_DELAY_AFTER = 3;
+export const ACCOUNT_LOCK_THRESHOLD = 5;
+export const ACCOUNT_LOCK_MINUTES = 15;
+
+// Per IP: counted over a sliding window across all accounts
+const IP_WINDOW_MINUTES = 15;
+const IP_DELAY_AFTER = 10;
+const IP_BLOCK_THRESHOLD = 50;
+const MAX_DELAY_SECONDS = 60;
+const MAX_TRACKED_IPS = 10000;
+
+export interface LoginThrottle {
+  retryAfterSeconds: number;
+  locked: boolean;
+}
+
+function progressiveDelaySeconds(failures: number, delayAfter: number): number {
+  if (failures < delayAfter) return 0;
+  return Math.min(2 ** (failures - delayAfter), MAX_DELAY_SECONDS);
+}
+
+function secondsUntil(time: number): number {
+  return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+class LoginProtectionService {
+  private ipFailures = new Map<string, number[]>();
+
+  private recentIpFailures(ip: string): number[] {
+    const cutoff = Date.now() - IP_WINDOW_MINUTES * 60 * 1000;
+    const recent = (this.ipFailures.get(ip) || []).filter(t => t > cutoff);
+
+    if (recent.length > 0) {
+      this.ipFailures.set(ip, recent);
+    } else {
+      this.ipFailures.delete(ip);
+    }
+    return recent;
+  }
+
+  /**
+   * Whether this IP must wait before trying again; null when it may proceed
+   */
+  checkIp(ip: string): LoginThrottle | null {
+    const recent = this.recentIpFailures(ip);
+    if (recent.length === 0) return null;
+
+    const last = recent[recent.length - 1];
+    if (recent.length >= IP_BLOCK_THRESHOLD) {
+      return { retryAfterSeconds: secondsUntil(recent[0] + IP_WINDOW_MINUTES * 60 * 1000), locked: true };
+    }
+
+    const delay = progressiveDelaySeconds(recent.length, IP_DELAY_AFTER);
+    if (delay > 0 && last + delay * 1000 > Date.now()) {
+      return { retryAfterSeconds: secondsUntil(last + delay * 1000), locked: false };
+    }
+    return null;
+  }
+
+  /**
+   * Whether the account is locked or still inside its progressive delay
+   */
+  checkAccount(user: User): LoginThrottle | null {
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      return { retryAfterSeconds: secondsUntil(user.lockedUntil.getTime()), locked: true };
+    }
+    if (user.lockedUntil) return null; // lock has run out; the next attempt starts a fresh count
+
+    const delay = progressiveDelaySeconds(user.failedLoginAttempts, ACCOUNT_DELAY_AFTER);
+    const nextAllowed = (user.lastFailedLoginAt?.getTime() ?? 0) + delay * 1000;
+    if (delay > 0 && nextAllowed > Date.now()) {
+      return { retryAfterSeconds: secondsUntil(nextAllowed), locked: false };
+    }
+    return null;
+  }
+
+  /**
+   * Count a failed attempt (bad password or second factor)
+   * @returns true when this failure locked the account
+   */
+  async recordFailure(ip: string, user?: User): Promise<boolean> {
+    if (this.ipFailures.size > MAX_TRACKED_IPS) {
+      this.ipFailures.forEach((_, key) => this.recentIpFailures(key));
+    }
+    this.ipFailures.set(ip, [...this.recentIpFailures(ip), Date.now()]);
+
+    if (!user) return false;
+
+    const lockExpired = !!user.lockedUntil && user.lockedUntil.getTime() <= Date.now();
+    const [updated] = await db.update(users)
+      .set({
+        failedLoginAttempts: lockExpired ? 1 : sql`${users.failedLoginAttempts} + 1`,
+        lastFailedLoginAt: new Date(),
+        lockedUntil: lockExpired ? null : user.lockedUntil,
+      })
+      .where(eq(users.id, user.id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+
+    if (updated.failedLoginAttempts >= ACCOUNT_LOCK_THRESHOLD) {
+      await db.update(users)
+        .set({ lockedUntil: new Date(Date.now() + ACCOUNT_LOCK_MINUTES * 60 * 1000) })
+        .where(eq(users.id, user.id));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Successful sign-in clears the account's failure count; the IP history stays
+   */
+  async recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) return;
+    await this.unlock(user.id);
+  }
+
+  async unlock(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
@@ -193,6 +193,96 @@ export class NotificationService {
       console.error("Error notifying project status change:", error);
     }
   }
+
+  /**
+   * Notify project members when a milestone is submitted for sign-off, approved or sent back
+   */
+  async notifyMilestoneStatus(projectId: string, changedBy: string, milestoneTitle: string, status: string) {
+    try {
+      const recipients = await this.getProjectNotificationRecipients(projectId, changedBy);
+      const [changedByUser] = await db.select().from(users).where(eq(users.id, changedBy)).limit(1);
+      const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+
+      if (!changedByUser || !project) {
+        return;
+      }
+
+      const action = status === "submitted"
+        ? "submitted milestone"
+        : status === "approved" ? "approved milestone" : "requested changes to milestone";
+      const suffix = status === "submitted" ? " for approval" : "";
+
+      const notifications = [];
+      for (const recipientId of recipients) {
+        const notification = await this.createNotification(
+          recipientId,
+          "milestone",
+          `${changedByUser.fullName} ${action} "${milestoneTitle}" in ${project.name}${suffix}`,
+          projectId
+        );
+        notifications.push(notification);
+      }
+
+      return notifications;
+    } catch (error) {
+      console.error("Error notifying milestone status:", error);
+    }
+  }
+
+  /**
+   * Notify a user that they were @mentioned in a task comment, or that their task got a comment
+   */
+  async notifyTaskComment(userId: string, projectId: string, authorId: string, taskTitle: string, content: string, mentioned: boolean) {
+    try {
+      const [author] = await db.select().from(users).where(eq(users.id, authorId)).limit(1);
+      if (!author) {
+        return;
+      }
+
+      const excerpt = `${content.substring(0, 50)}${content.length > 50 ? '...' : ''}`;
+      return await this.createNotification(
+        userId,
+        mentioned ? "mention" : "task_comment",
+        mentioned
+          ? `${author.fullName} mentioned you on task "${taskTitle}": "${excerpt}"`
+          : `${author.fullName} commented on your task "${taskTitle}": "${excerpt}"`,
+        projectId
+      );
+    } catch (error) {
+      console.error("Error notifying task comment:", error);
+    }
+  }
+
+  /**
+   * Notify a lead's assignee that the lead replied by email
+   */
+  async notifyLeadReply(userId: string, leadName: string, subject: string) {
+    try {
+      return await this.createNotification(
+        userId,
+        "lead_reply",
+        `${leadName} replied: "${subject.substring(0, 50)}${subject.length > 50 ? '...' : ''}"`
+      );
+    } catch (error) {
+      console.error("Error notifying lead reply:", error);
+    }
+  }
+
+  /**
+   * Notify a user that leads were assigned to them by an assignment rule
+   */
+  async notifyLeadsAssigned(userId: string, leadNames: string[], ruleName: string) {
+    try {
+      const what = leadNames.length === 1 ? `Lead "${leadNames[0]}" was` : `${leadNames.length} new leads were`;
+      return await this.createNotification(
+        userId,
+        "lead_assigned",
+        `${what} assigned to you by rule "${ruleName}"`
+      );
+    } catch (error) {
+      console.error("Error notifying lead assignment:", error);
+    }
+  }
 }
 
 export const notificationService = new NotificationService();
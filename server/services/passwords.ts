@@ -0,0 +1,146 @@
+/**
+ * Password Service
+ * Applies the password policy on every change, keeps the reuse history
+ * and issues single-use reset tokens for the "forgot password" flow
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { db } from "../db";
+import { users, passwordHistory, passwordResetTokens, type User } from "@shared/schema";
+import { PASSWORD_HISTORY_SIZE, validatePasswordStrength } from "@shared/password-policy";
+import { eq, and, isNull, gt, desc, inArray } from "drizzle-orm";
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+const BCRYPT_ROUNDS = 10;
+
+export class PasswordPolicyError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join(". "));
+    this.name = "PasswordPolicyError";
+  }
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+class PasswordService {
+  /**
+   * Check strength and reuse; throws PasswordPolicyError listing every problem
+   */
+  async validateNewPassword(user: User, password: string): Promise<void> {
+    const problems = validatePasswordStrength(password, { email: user.email });
+
+    if (problems.length === 0) {
+      const previous = await db.select({ passwordHash: passwordHistory.passwordHash })
+        .from(passwordHistory)
+        .where(eq(passwordHistory.userId, user.id))
+        .orderBy(desc(passwordHistory.createdAt))
+        .limit(PASSWORD_HISTORY_SIZE - 1);
+
+      for (const hash of [user.password, ...previous.map(p => p.passwordHash)]) {
+        if (await bcrypt.compare(password, hash)) {
+          problems.push(`Password must differ from your last ${PASSWORD_HISTORY_SIZE} passwords`);
+          break;
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new PasswordPolicyError(problems);
+    }
+  }
+
+  /**
+   * Validate and store a new password, archiving the old hash.
+   * mustChangePassword marks admin-issued temporary passwords.
+   */
+  async changePassword(user: User, password: string, options: { mustChangePassword?: boolean } = {}): Promise<void> {
+    await this.validateNewPassword(user, password);
+
+    await db.insert(passwordHistory).values({ userId: user.id, passwordHash: user.password });
+
+    await db.update(users)
+      .set({
+        password: await bcrypt.hash(password, BCRYPT_ROUNDS),
+        mustChangePassword: options.mustChangePassword ?? false,
+        passwordChangedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    await this.pruneHistory(user.id);
+  }
+
+  private async pruneHistory(userId: string): Promise<void> {
+    const entries = await db.select({ id: passwordHistory.id })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt));
+
+    const stale = entries.slice(PASSWORD_HISTORY_SIZE - 1).map(e => e.id);
+    if (stale.length > 0) {
+      await db.delete(passwordHistory).where(inArray(passwordHistory.id, stale));
+    }
+  }
+
+  /**
+   * Random temporary password that satisfies the policy
+   */
+  generateTemporaryPassword(): string {
+    return `${crypto.randomBytes(9).toString("base64url")}${crypto.randomInt(10)}`;
+  }
+
+  /**
+   * Issue a reset token, invalidating any earlier unused ones for the user
+   * @returns The raw token to embed in the emailed link
+   */
+  async createResetToken(userId: string, requestedIp?: string): Promise<string> {
+    await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await db.insert(passwordResetTokens).values({
+      userId,
+      tokenHash: hashResetToken(token),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+      requestedIp: requestedIp || null,
+    });
+
+    return token;
+  }
+
+  /**
+   * Look up the user for a reset token that is unused and unexpired
+   */
+  async findUserByResetToken(token: string): Promise<User | undefined> {
+    const [row] = await db.select({ user: users })
+      .from(passwordResetTokens)
+      .innerJoin(users, eq(passwordResetTokens.userId, users.id))
+      .where(and(
+        eq(passwordResetTokens.tokenHash, hashResetToken(token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .limit(1);
+
+    return row?.user;
+  }
+
+  async markResetTokenUsed(token: string): Promise<void> {
+    await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(passwordResetTokens.tokenHash, hashResetToken(token)));
+  }
+
+  /**
+   * Remove reset tokens and history before the user itself is deleted
+   */
+  async deleteAllForUser(userId: string): Promise<void> {
+    await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+    await db.delete(passwordHistory).where(eq(passwordHistory.userId, userId));
+  }
+}
+
+export const passwordService = new PasswordService();
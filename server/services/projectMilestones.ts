@@ -0,0 +1,176 @@
+/**
+ * Project Milestone Service
+ * Milestones of fixed-price projects: staff submit a milestone when its
+ * deliverables are ready, the client signs it off (or asks for changes) from
+ * the client portal, and an approved milestone becomes a draft invoice.
+ */
+
+import { db } from "../db";
+import {
+  projectMilestones,
+  projects,
+  invoices,
+  type ProjectMilestone,
+  type InsertProjectMilestone,
+  type Invoice,
+} from "@shared/schema";
+import { eq, and, asc, isNull, sql } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { nextInvoiceNumber } from "./invoiceNumbers";
+
+/** Raised when a milestone cannot change state; message is user-facing */
+export class MilestoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MilestoneError";
+  }
+}
+
+// Days until a milestone invoice is due when no due date is given
+const INVOICE_DUE_DAYS = 14;
+
+export type MilestoneWithProject = ProjectMilestone & { projectName: string; clientId: string; invoiceNumber: string | null };
+
+const milestoneWithProject = {
+  id: projectMilestones.id,
+  projectId: projectMilestones.projectId,
+  title: projectMilestones.title,
+  description: projectMilestones.description,
+  deliverables: projectMilestones.deliverables,
+  amount: projectMilestones.amount,
+  dueDate: projectMilestones.dueDate,
+  status: projectMilestones.status,
+  submittedAt: projectMilestones.submittedAt,
+  reviewedBy: projectMilestones.reviewedBy,
+  reviewedAt: projectMilestones.reviewedAt,
+  clientNote: projectMilestones.clientNote,
+  invoiceId: projectMilestones.invoiceId,
+  createdAt: projectMilestones.createdAt,
+  projectName: projects.name,
+  clientId: projects.clientId,
+  invoiceNumber: invoices.invoiceNumber,
+};
+
+class ProjectMilestoneService {
+  async get(id: string): Promise<MilestoneWithProject | undefined> {
+    const [milestone] = await db.select(milestoneWithProject)
+      .from(projectMilestones)
+      .innerJoin(projects, eq(projectMilestones.projectId, projects.id))
+      .leftJoin(invoices, eq(projectMilestones.invoiceId, invoices.id))
+      .where(eq(projectMilestones.id, id))
+      .limit(1);
+    return milestone;
+  }
+
+  /**
+   * Milestones of a project, or of every project of a client, in due-date order
+   */
+  async list(filter: { projectId?: string; clientId?: string } = {}): Promise<MilestoneWithProject[]> {
+    const conditions = [];
+    if (filter.projectId) conditions.push(eq(projectMilestones.projectId, filter.projectId));
+    if (filter.clientId) conditions.push(eq(projects.clientId, filter.clientId));
+
+    return db.select(milestoneWithProject)
+      .from(projectMilestones)
+      .innerJoin(projects, eq(projectMilestones.projectId, projects.id))
+      .leftJoin(invoices, eq(projectMilestones.invoiceId, invoices.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(sql`${projectMilestones.dueDate} asc nulls last`, asc(projectMilestones.createdAt));
+  }
+
+  async create(data: InsertProjectMilestone): Promise<ProjectMilestone> {
+    const [milestone] = await db.insert(projectMilestones).values(data).returning();
+    return milestone;
+  }
+
+  /**
+   * Only pending milestones and those sent back for changes can be edited, so
+   * the client always signs off on exactly what they were shown
+   */
+  async update(milestone: ProjectMilestone, data: Partial<InsertProjectMilestone>): Promise<ProjectMilestone> {
+    if (milestone.status === "submitted") {
+      throw new MilestoneError("This milestone is awaiting client approval and can no longer be changed");
+    }
+    if (milestone.status === "approved") {
+      throw new MilestoneError("An approved milestone can no longer be changed");
+    }
+    const [updated] = await db.update(projectMilestones).set(data).where(eq(projectMilestones.id, milestone.id)).returning();
+    return updated;
+  }
+
+  async delete(milestone: ProjectMilestone): Promise<void> {
+    if (milestone.invoiceId) {
+      throw new MilestoneError("This milestone has been invoiced; delete the invoice first");
+    }
+    await db.delete(projectMilestones).where(eq(projectMilestones.id, milestone.id));
+  }
+
+  async submit(milestone: ProjectMilestone): Promise<ProjectMilestone> {
+    if (!["pending", "changes_requested"].includes(milestone.status)) {
+      throw new MilestoneError(`This milestone is already ${milestone.status}`);
+    }
+    const [updated] = await db.update(projectMilestones)
+      .set({ status: "submitted", submittedAt: new Date() })
+      .where(eq(projectMilestones.id, milestone.id))
+      .returning();
+    return updated;
+  }
+
+  async review(milestone: ProjectMilestone, approve: boolean, reviewerId: string, note?: string | null): Promise<ProjectMilestone> {
+    if (milestone.status !== "submitted") {
+      throw new MilestoneError("Only milestones submitted for approval can be reviewed");
+    }
+    if (!approve && !note) {
+      throw new MilestoneError("Describe the changes you need");
+    }
+
+    const [updated] = await db.update(projectMilestones)
+      .set({
+        status: approve ? "approved" : "changes_requested",
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        clientNote: note || null,
+      })
+      .where(eq(projectMilestones.id, milestone.id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Draft invoice for an approved milestone, linked back to it so it is billed once
+   */
+  async createInvoice(milestone: MilestoneWithProject, dueDate?: Date): Promise<Invoice> {
+    if (milestone.status !== "approved") {
+      throw new MilestoneError("Only approved milestones can be invoiced");
+    }
+    if (milestone.invoiceId) {
+      throw new MilestoneError(`This milestone is already on invoice ${milestone.invoiceNumber ?? ""}`.trim());
+    }
+
+    return db.transaction(async (tx) => {
+      const amount = Number(milestone.amount);
+      const [invoice] = await tx.insert(invoices).values({
+        clientId: milestone.clientId,
+        projectId: milestone.projectId,
+        invoiceNumber: await nextInvoiceNumber(tx),
+        amount: milestone.amount,
+        dueDate: dueDate ?? addDays(new Date(), INVOICE_DUE_DAYS),
+        status: "draft",
+        items: [{ description: `${milestone.projectName}: ${milestone.title}`, quantity: 1, rate: amount, amount }],
+        notes: `Milestone "${milestone.title}" of ${milestone.projectName}`,
+      }).returning();
+
+      // Guard against a second invoice created at the same moment
+      const linked = await tx.update(projectMilestones)
+        .set({ invoiceId: invoice.id })
+        .where(and(eq(projectMilestones.id, milestone.id), isNull(projectMilestones.invoiceId)))
+        .returning({ id: projectMilestones.id });
+      if (linked.length === 0) {
+        throw new MilestoneError("This milestone has already been invoiced");
+      }
+      return invoice;
+    });
+  }
+}
+
+export const projectMilestoneService = new ProjectMilestoneService();
@@ -0,0 +1,141 @@
+/**
+ * Project Template Service
+ * Reusable task lists for repeat work such as monthly maintenance. Applying a
+ * template creates a project for a client with the template's tasks, their
+ * checklists and recurrence, dated relative to the project's start.
+ */
+
+import { db, type DbTransaction } from "../db";
+import {
+  projectTemplates,
+  projects,
+  clients,
+  tasks,
+  type ProjectTemplate,
+  type InsertProjectTemplate,
+  type ApplyProjectTemplate,
+  type Project,
+  type Task,
+} from "@shared/schema";
+import { eq, and, ne, asc } from "drizzle-orm";
+import { addDays, startOfDay } from "date-fns";
+import { taskRecurrenceService } from "./taskRecurrence";
+
+/** Raised when a template cannot be saved or applied; message is user-facing */
+export class ProjectTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectTemplateError";
+  }
+}
+
+export interface AppliedTemplate {
+  project: Project;
+  tasks: Task[];
+}
+
+class ProjectTemplateService {
+  async list(activeOnly = false): Promise<ProjectTemplate[]> {
+    return db.select()
+      .from(projectTemplates)
+      .where(activeOnly ? eq(projectTemplates.isActive, true) : undefined)
+      .orderBy(asc(projectTemplates.name));
+  }
+
+  async get(id: string): Promise<ProjectTemplate | undefined> {
+    const [template] = await db.select().from(projectTemplates).where(eq(projectTemplates.id, id)).limit(1);
+    return template;
+  }
+
+  async create(data: InsertProjectTemplate, userId: string): Promise<ProjectTemplate> {
+    await this.ensureUniqueName(data.name);
+    const [template] = await db.insert(projectTemplates).values({ ...data, createdBy: userId }).returning();
+    return template;
+  }
+
+  async update(template: ProjectTemplate, data: Partial<InsertProjectTemplate>): Promise<ProjectTemplate> {
+    if (data.name) {
+      await this.ensureUniqueName(data.name, template.id);
+    }
+    const [updated] = await db.update(projectTemplates).set(data).where(eq(projectTemplates.id, template.id)).returning();
+    return updated;
+  }
+
+  /**
+   * Projects created from a template are independent copies, so deleting it never touches them
+   */
+  async delete(id: string): Promise<ProjectTemplate | undefined> {
+    const [deleted] = await db.delete(projectTemplates).where(eq(projectTemplates.id, id)).returning();
+    return deleted;
+  }
+
+  /**
+   * Create a project for a client from the template. Task dates are the
+   * template's day offsets from the start date (today by default); the
+   * project's deadline is the template's duration, or its last task deadline.
+   * Pass a transaction to apply it together with the caller's own writes.
+   */
+  async apply(template: ProjectTemplate, data: ApplyProjectTemplate, userId: string, tx?: DbTransaction): Promise<AppliedTemplate> {
+    if (!tx) {
+      return db.transaction((inner) => this.apply(template, data, userId, inner));
+    }
+    if (!template.isActive) {
+      throw new ProjectTemplateError(`The template "${template.name}" is inactive`);
+    }
+    const [client] = await tx.select().from(clients).where(eq(clients.id, data.clientId)).limit(1);
+    if (!client) {
+      throw new ProjectTemplateError("Client not found");
+    }
+
+    const start = startOfDay(data.startDate ?? new Date());
+    const at = (offset: number | null | undefined) => offset == null ? null : addDays(start, offset);
+    const lastDeadline = Math.max(-1, ...template.tasks.map(task => task.deadlineOffsetDays ?? -1));
+    const deadline = template.durationDays ? addDays(start, template.durationDays) : at(lastDeadline >= 0 ? lastDeadline : null);
+    const now = new Date();
+
+    const [project] = await tx.insert(projects).values({
+      clientId: client.id,
+      name: data.name ?? `${template.name} – ${client.name}`,
+      description: template.description,
+      deadline,
+      createdBy: userId,
+    }).returning();
+
+    const created: Task[] = [];
+    for (const item of template.tasks) {
+      const rule = {
+        recurrence: item.recurrence ?? null,
+        recurrenceInterval: item.recurrenceInterval ?? 1,
+        recurrenceEndDate: null,
+        startDate: at(item.startOffsetDays),
+        deadline: at(item.deadlineOffsetDays),
+        createdAt: now,
+      };
+      const [task] = await tx.insert(tasks).values({
+        ...rule,
+        projectId: project.id,
+        title: item.title,
+        description: item.description ?? null,
+        priority: item.priority,
+        checklist: item.checklist.map(text => ({ text, done: false })),
+        estimatedHours: item.estimatedHours != null ? String(item.estimatedHours) : null,
+        nextOccurrenceAt: taskRecurrenceService.occurrencesAround(rule, now).next,
+      }).returning();
+      created.push(task);
+    }
+
+    return { project, tasks: created };
+  }
+
+  private async ensureUniqueName(name: string, exceptId?: string): Promise<void> {
+    const [existing] = await db.select({ id: projectTemplates.id })
+      .from(projectTemplates)
+      .where(exceptId ? and(eq(projectTemplates.name, name), ne(projectTemplates.id, exceptId)) : eq(projectTemplates.name, name))
+      .limit(1);
+    if (existing) {
+      throw new ProjectTemplateError(`A template named "${name}" already exists`);
+    }
+  }
+}
+
+export const projectTemplateService = new ProjectTemplateService();
@@ -1,7 +1,8 @@
 import { db } from "../db";
 import { leads, invoices, users, clients } from "@shared/schema";
-import { eq, and, lte, gte, sql } from "drizzle-orm";
+import { eq, and, lte, gte, notInArray, sql } from "drizzle-orm";
 import { attendanceSyncService } from "./attendanceSync";
+import { leadPipelineService } from "./leadPipeline";
 
 class SchedulerService {
   private intervals: NodeJS.Timeout[] = [];
@@ -58,6 +59,9 @@ class SchedulerService {
       const now = new Date();
       const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
+      // Leads in won or lost stages need no follow-up
+      const closedStages = await leadPipelineService.closedStageKeys();
+
       // Get leads with follow-up date now or in the past, not reminded in last 24 hours
       // Skip leads without a followUpDate set
       const leadsToFollow = await db
@@ -67,7 +71,7 @@ class SchedulerService {
           and(
             sql`${leads.followUpDate} IS NOT NULL`,
             lte(leads.followUpDate, now),
-            sql`${leads.status} NOT IN ('converted', 'lost')`,
+            notInArray(leads.status, closedStages),
             sql`(${leads.lastFollowUpReminderAt} IS NULL OR ${leads.lastFollowUpReminderAt} < ${twentyFourHoursAgo})`
           )
         );
@@ -0,0 +1,194 @@
+/**
+ * Session Service
+ * Issues rotating refresh tokens backed by user_sessions rows so logins
+ * can be listed per device and revoked server-side
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { userSessions, users, type UserSession, type User } from "@shared/schema";
+import { eq, and, isNull, gt, ne, desc } from "drizzle-orm";
+
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Parallel refreshes from several tabs may present the token that was just
+// rotated; within this window that is treated as a race, not token theft
+const ROTATION_GRACE_MS = 60 * 1000;
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+function hashToken(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Refresh tokens are "<sessionId>.<secret>"; only the secret's hash is stored
+ */
+function buildRefreshToken(sessionId: string, secret: string): string {
+  return `${sessionId}.${secret}`;
+}
+
+function parseRefreshToken(token: unknown): { sessionId: string; secret: string } | null {
+  if (typeof token !== "string") return null;
+  const [sessionId, secret] = token.split(".");
+  if (!sessionId || !secret) return null;
+  return { sessionId, secret };
+}
+
+class SessionService {
+  /**
+   * Open a session for a user who has just authenticated
+   */
+  async createSession(userId: string, metadata: SessionMetadata = {}): Promise<{ session: UserSession; refreshToken: string }> {
+    const secret = crypto.randomBytes(48).toString("base64url");
+
+    const [session] = await db.insert(userSessions).values({
+      userId,
+      refreshTokenHash: hashToken(secret),
+      userAgent: metadata.userAgent?.slice(0, 500) || null,
+      ipAddress: metadata.ipAddress || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    }).returning();
+
+    return { session, refreshToken: buildRefreshToken(session.id, secret) };
+  }
+
+  /**
+   * Exchange a refresh token for a new one, invalidating the old token.
+   * Presenting an already rotated token outside the grace window revokes the session.
+   */
+  async rotateRefreshToken(token: unknown, metadata: SessionMetadata = {}): Promise<{ session: UserSession; user: User; refreshToken: string }> {
+    const parsed = parseRefreshToken(token);
+    if (!parsed) {
+      throw new Error("Invalid refresh token");
+    }
+
+    const [row] = await db
+      .select({ session: userSessions, user: users })
+      .from(userSessions)
+      .innerJoin(users, eq(userSessions.userId, users.id))
+      .where(eq(userSessions.id, parsed.sessionId))
+      .limit(1);
+
+    if (!row || row.session.revokedAt || row.session.expiresAt <= new Date()) {
+      throw new Error("Session expired or revoked");
+    }
+
+    const { session, user } = row;
+    const presentedHash = hashToken(parsed.secret);
+
+    if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+      const isPrevious = session.previousRefreshTokenHash
+        && hashesMatch(presentedHash, session.previousRefreshTokenHash);
+      const withinGrace = session.rotatedAt && Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+      if (!isPrevious || !withinGrace) {
+        console.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+        await this.revokeSession(session.id);
+      }
+      throw new Error("Invalid refresh token");
+    }
+
+    if (!user.isActive) {
+      await this.revokeSession(session.id);
+      throw new Error("Account is deactivated");
+    }
+
+    const secret = crypto.randomBytes(48).toString("base64url");
+    const [updated] = await db.update(userSessions)
+      .set({
+        refreshTokenHash: hashToken(secret),
+        previousRefreshTokenHash: session.refreshTokenHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        ipAddress: metadata.ipAddress || session.ipAddress,
+        userAgent: metadata.userAgent?.slice(0, 500) || session.userAgent,
+      })
+      .where(eq(userSessions.id, session.id))
+      .returning();
+
+    return { session: updated, user, refreshToken: buildRefreshToken(session.id, secret) };
+  }
+
+  /**
+   * Check that an access token's session is still live and its user still active
+   * Returns null when the token must be rejected
+   */
+  async validateSession(sessionId: string, userId: string): Promise<{ mustChangePassword: boolean } | null> {
+    const [row] = await db
+      .select({ mustChangePassword: users.mustChangePassword })
+      .from(userSessions)
+      .innerJoin(users, eq(userSessions.userId, users.id))
+      .where(and(
+        eq(userSessions.id, sessionId),
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date()),
+        eq(users.isActive, true)
+      ))
+      .limit(1);
+
+    return row ?? null;
+  }
+
+  /**
+   * Active sessions for a user, most recently used first
+   */
+  async listActiveSessions(userId: string): Promise<UserSession[]> {
+    return db.select()
+      .from(userSessions)
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(userSessions.lastUsedAt));
+  }
+
+  /**
+   * Revoke one session; pass userId to only allow revoking the user's own sessions
+   */
+  async revokeSession(sessionId: string, userId?: string): Promise<boolean> {
+    const conditions = [eq(userSessions.id, sessionId), isNull(userSessions.revokedAt)];
+    if (userId) conditions.push(eq(userSessions.userId, userId));
+
+    const revoked = await db.update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: userSessions.id });
+
+    return revoked.length > 0;
+  }
+
+  /**
+   * Revoke every session of a user, optionally keeping one (e.g. the caller's)
+   * Returns the revoked session ids
+   */
+  async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<string[]> {
+    const conditions = [eq(userSessions.userId, userId), isNull(userSessions.revokedAt)];
+    if (exceptSessionId) conditions.push(ne(userSessions.id, exceptSessionId));
+
+    const revoked = await db.update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: userSessions.id });
+
+    return revoked.map((s) => s.id);
+  }
+
+  /**
+   * Remove a user's session rows before the user itself is deleted
+   */
+  async deleteAllForUser(userId: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.userId, userId));
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,227 @@
+/**
+ * Task Activity Service
+ * Threaded comments on a task with @mentions, and the task's activity feed:
+ * its comments merged with recorded status changes, reassignments and
+ * checklist ticks. Mentioned users and the assignee are notified, and open
+ * feeds are refreshed over the WebSocket.
+ */
+
+import { db } from "../db";
+import {
+  taskComments,
+  taskActivities,
+  users,
+  type Task,
+  type TaskComment,
+  type TaskActivity,
+  type InsertTaskComment,
+} from "@shared/schema";
+import { eq, and, ne, asc, inArray } from "drizzle-orm";
+import { notificationService } from "./notification";
+import { wsService } from "../websocket";
+
+/** Raised when a comment cannot be posted or changed; message is user-facing */
+export class TaskCommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskCommentError";
+  }
+}
+
+export type CommentWithAuthor = TaskComment & { userName: string; replies: CommentWithAuthor[] };
+
+export type TaskFeedEntry =
+  | { kind: "comment"; createdAt: Date; comment: CommentWithAuthor }
+  | { kind: "activity"; createdAt: Date; activity: TaskActivity & { userName: string | null } };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+class TaskActivityService {
+  async getComment(id: string): Promise<TaskComment | undefined> {
+    const [comment] = await db.select().from(taskComments).where(eq(taskComments.id, id)).limit(1);
+    return comment;
+  }
+
+  /**
+   * Staff users mentioned as "@Full Name" in the text, other than the author.
+   * Longer names are matched first so "@Ann Lee" is not read as "@Ann".
+   */
+  async parseMentions(content: string, authorId: string): Promise<string[]> {
+    if (!content.includes("@")) return [];
+
+    const staff = await db.select({ id: users.id, fullName: users.fullName })
+      .from(users)
+      .where(and(eq(users.isActive, true), ne(users.role, "client")));
+
+    let remaining = content;
+    const mentioned = new Set<string>();
+    for (const user of staff.sort((a, b) => b.fullName.length - a.fullName.length)) {
+      const pattern = new RegExp(`@${escapeRegExp(user.fullName)}(?![\\p{L}\\p{N}_])`, "giu");
+      if (pattern.test(remaining)) {
+        remaining = remaining.replace(pattern, "");
+        if (user.id !== authorId) mentioned.add(user.id);
+      }
+    }
+    return Array.from(mentioned);
+  }
+
+  /**
+   * Comments in threads, merged with the task's recorded changes, oldest first
+   */
+  async feed(taskId: string): Promise<TaskFeedEntry[]> {
+    const comments = await db.select({ comment: taskComments, userName: users.fullName })
+      .from(taskComments)
+      .leftJoin(users, eq(taskComments.userId, users.id))
+      .where(eq(taskComments.taskId, taskId))
+      .orderBy(asc(taskComments.createdAt));
+
+    const activities = await db.select({ activity: taskActivities, userName: users.fullName })
+      .from(taskActivities)
+      .leftJoin(users, eq(taskActivities.userId, users.id))
+      .where(eq(taskActivities.taskId, taskId))
+      .orderBy(asc(taskActivities.createdAt));
+
+    const threads = new Map<string, CommentWithAuthor>();
+    const entries: TaskFeedEntry[] = [];
+    for (const { comment, userName } of comments) {
+      const withAuthor: CommentWithAuthor = { ...comment, userName: userName ?? "Deleted user", replies: [] };
+      const thread = comment.parentCommentId ? threads.get(comment.parentCommentId) : undefined;
+      if (thread) {
+        thread.replies.push(withAuthor);
+      } else {
+        threads.set(comment.id, withAuthor);
+        entries.push({ kind: "comment", createdAt: comment.createdAt, comment: withAuthor });
+      }
+    }
+    for (const { activity, userName } of activities) {
+      entries.push({ kind: "activity", createdAt: activity.createdAt, activity: { ...activity, userName } });
+    }
+
+    return entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Post a comment or a reply. Replies to a reply join the thread of its parent.
+   */
+  async addComment(task: Task, userId: string, data: InsertTaskComment): Promise<TaskComment> {
+    let parentCommentId: string | null = null;
+    if (data.parentCommentId) {
+      const parent = await this.getComment(data.parentCommentId);
+      if (!parent || parent.taskId !== task.id) {
+        throw new TaskCommentError("The comment you are replying to is not on this task");
+      }
+      parentCommentId = parent.parentCommentId ?? parent.id;
+    }
+
+    const mentions = await this.parseMentions(data.content, userId);
+    const [comment] = await db.insert(taskComments).values({
+      taskId: task.id,
+      parentCommentId,
+      userId,
+      content: data.content,
+      mentions,
+    }).returning();
+
+    await this.notifyComment(task, comment, userId, mentions);
+    this.push(task);
+    return comment;
+  }
+
+  /**
+   * Edit the text of your own comment; only newly mentioned users are notified
+   */
+  async updateComment(task: Task, comment: TaskComment, userId: string, content: string): Promise<TaskComment> {
+    if (comment.userId !== userId) {
+      throw new TaskCommentError("You can only edit your own comments");
+    }
+
+    const mentions = await this.parseMentions(content, userId);
+    const [updated] = await db.update(taskComments)
+      .set({ content, mentions, editedAt: new Date() })
+      .where(eq(taskComments.id, comment.id))
+      .returning();
+
+    const added = mentions.filter(id => !comment.mentions.includes(id));
+    for (const mentionedId of added) {
+      await notificationService.notifyTaskComment(mentionedId, task.projectId, userId, task.title, content, true);
+    }
+    this.push(task);
+    return updated;
+  }
+
+  /**
+   * Authors delete their own comments, admins any; replies go with the thread
+   */
+  async deleteComment(task: Task, comment: TaskComment, userId: string, isAdmin: boolean): Promise<void> {
+    if (comment.userId !== userId && !isAdmin) {
+      throw new TaskCommentError("You can only delete your own comments");
+    }
+    await db.delete(taskComments).where(eq(taskComments.id, comment.id));
+    this.push(task);
+  }
+
+  async recordCreated(task: Task, userId: string): Promise<void> {
+    await this.record(task, userId, [{ type: "created", details: { title: task.title } }]);
+  }
+
+  /**
+   * Record the status, assignee and checklist ticks that changed in an update
+   */
+  async recordChanges(before: Task, after: Task, userId: string): Promise<void> {
+    const changes: { type: string; details: Record<string, unknown> }[] = [];
+
+    if (before.status !== after.status) {
+      changes.push({ type: "status", details: { from: before.status, to: after.status } });
+    }
+
+    if (before.assignedTo !== after.assignedTo) {
+      const ids = [before.assignedTo, after.assignedTo].filter((id): id is string => !!id);
+      const names = ids.length > 0
+        ? await db.select({ id: users.id, fullName: users.fullName }).from(users).where(inArray(users.id, ids))
+        : [];
+      const nameOf = (id: string | null) => names.find(u => u.id === id)?.fullName ?? null;
+      changes.push({
+        type: "assigned",
+        details: { from: before.assignedTo, to: after.assignedTo, fromName: nameOf(before.assignedTo), toName: nameOf(after.assignedTo) },
+      });
+    }
+
+    // Items are matched by text, so reordering or adding items records nothing
+    const wasDone = new Map((before.checklist ?? []).map(item => [item.text, item.done]));
+    for (const item of after.checklist ?? []) {
+      const previous = wasDone.get(item.text);
+      if (previous !== undefined && previous !== item.done) {
+        changes.push({ type: "checklist", details: { item: item.text, done: item.done } });
+      }
+    }
+
+    await this.record(after, userId, changes);
+  }
+
+  // Best-effort: a failed feed entry never fails the task update itself
+  private async record(task: Task, userId: string, changes: { type: string; details: Record<string, unknown> }[]): Promise<void> {
+    if (changes.length === 0) return;
+    try {
+      await db.insert(taskActivities).values(changes.map(change => ({ ...change, taskId: task.id, userId })));
+      this.push(task);
+    } catch (error) {
+      console.error(`Error recording activity for task ${task.id}:`, error);
+    }
+  }
+
+  private async notifyComment(task: Task, comment: TaskComment, authorId: string, mentions: string[]): Promise<void> {
+    for (const mentionedId of mentions) {
+      await notificationService.notifyTaskComment(mentionedId, task.projectId, authorId, task.title, comment.content, true);
+    }
+    if (task.assignedTo && task.assignedTo !== authorId && !mentions.includes(task.assignedTo)) {
+      await notificationService.notifyTaskComment(task.assignedTo, task.projectId, authorId, task.title, comment.content, false);
+    }
+  }
+
+  // Refresh the feed for anyone viewing the task's project
+  private push(task: Task) {
+    wsService.sendToProject(task.projectId, "task_activity", { taskId: task.id });
+  }
+}
+
+export const taskActivityService = new TaskActivityService();
@@ -0,0 +1,342 @@
+/**
+ * Task Planning Service
+ * Subtasks, finish-to-start dependencies between tasks of a project, the
+ * project's Gantt timeline with its critical path, and project progress
+ * derived from task completion.
+ */
+
+import { db } from "../db";
+import {
+  tasks,
+  projects,
+  taskDependencies,
+  type Task,
+  type TaskDependency,
+  type InsertTask,
+} from "@shared/schema";
+import { eq, and, inArray, or } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+
+/** Raised when a subtask or dependency would be invalid; message is user-facing */
+export class TaskPlanningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskPlanningError";
+  }
+}
+
+// Statuses that mean work on the task has begun
+const STARTED_STATUSES = ["in-progress", "review", "done"];
+const DONE_STATUS = "done";
+// Working hours in a day, for sizing tasks that only have an estimate
+const HOURS_PER_DAY = 8;
+
+export interface GanttTask {
+  id: string;
+  title: string;
+  status: string;
+  assignedTo: string | null;
+  parentTaskId: string | null;
+  depth: number;
+  start: string;
+  end: string;
+  // False when the dates are inferred because the task has no start date or deadline
+  scheduled: boolean;
+  critical: boolean;
+  dependsOn: string[];
+}
+
+export interface ProjectGantt {
+  projectId: string;
+  progress: number;
+  start: string | null;
+  end: string | null;
+  tasks: GanttTask[];
+  criticalPath: string[];
+}
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+class TaskPlanningService {
+  async getTask(id: string): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+    return task;
+  }
+
+  /**
+   * Check a task's new parent, project or status before saving.
+   * @param task the saved task, or null when creating one
+   */
+  async validateTask(task: Task | null, data: Partial<InsertTask>): Promise<void> {
+    const projectId = data.projectId ?? task?.projectId;
+    const parentTaskId = data.parentTaskId !== undefined ? data.parentTaskId : task?.parentTaskId;
+
+    if (task && data.projectId && data.projectId !== task.projectId) {
+      const [linked] = await db.select({ id: taskDependencies.id })
+        .from(taskDependencies)
+        .where(or(eq(taskDependencies.taskId, task.id), eq(taskDependencies.dependsOnTaskId, task.id)))
+        .limit(1);
+      const [child] = await db.select({ id: tasks.id }).from(tasks).where(eq(tasks.parentTaskId, task.id)).limit(1);
+      if (linked || child) {
+        throw new TaskPlanningError("Remove this task's dependencies and subtasks before moving it to another project");
+      }
+    }
+
+    if (parentTaskId && projectId) {
+      await this.validateParent(task?.id ?? null, parentTaskId, projectId);
+    }
+
+    const startDate = data.startDate !== undefined ? data.startDate : task?.startDate;
+    const deadline = data.deadline !== undefined ? data.deadline : task?.deadline;
+    if (startDate && deadline && startOfDay(startDate) > startOfDay(deadline)) {
+      throw new TaskPlanningError("The start date must be on or before the deadline");
+    }
+
+    if (task && data.status && data.status !== task.status
+      && STARTED_STATUSES.includes(data.status) && !STARTED_STATUSES.includes(task.status)) {
+      const waiting = await this.unfinishedDependencies(task.id);
+      if (waiting.length > 0) {
+        throw new TaskPlanningError(`This task is waiting on: ${waiting.map(t => t.title).join(", ")}`);
+      }
+    }
+  }
+
+  private async validateParent(taskId: string | null, parentTaskId: string, projectId: string): Promise<void> {
+    if (parentTaskId === taskId) {
+      throw new TaskPlanningError("A task cannot be its own subtask");
+    }
+
+    let current = await this.getTask(parentTaskId);
+    if (!current) {
+      throw new TaskPlanningError("Parent task not found");
+    }
+    if (current.projectId !== projectId) {
+      throw new TaskPlanningError("A subtask must be in the same project as its parent");
+    }
+
+    // Walk up from the new parent; meeting the task itself means the chain would loop
+    const seen = new Set<string>();
+    while (current?.parentTaskId && !seen.has(current.id)) {
+      if (current.parentTaskId === taskId) {
+        throw new TaskPlanningError("A task cannot be moved under one of its own subtasks");
+      }
+      seen.add(current.id);
+      current = await this.getTask(current.parentTaskId);
+    }
+  }
+
+  /**
+   * Tasks the given task depends on that are not done yet
+   */
+  async unfinishedDependencies(taskId: string): Promise<{ id: string; title: string }[]> {
+    const rows = await db.select({ id: tasks.id, title: tasks.title, status: tasks.status })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.dependsOnTaskId, tasks.id))
+      .where(eq(taskDependencies.taskId, taskId));
+    return rows.filter(row => row.status !== DONE_STATUS).map(({ id, title }) => ({ id, title }));
+  }
+
+  private async projectDependencies(projectId: string): Promise<TaskDependency[]> {
+    const projectTasks = db.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, projectId));
+    return db.select().from(taskDependencies).where(inArray(taskDependencies.taskId, projectTasks));
+  }
+
+  async addDependency(task: Task, dependsOn: Task): Promise<TaskDependency> {
+    if (task.id === dependsOn.id) {
+      throw new TaskPlanningError("A task cannot depend on itself");
+    }
+    if (task.projectId !== dependsOn.projectId) {
+      throw new TaskPlanningError("Dependencies must be between tasks of the same project");
+    }
+
+    // The new edge closes a cycle if the prerequisite already (indirectly) waits on this task
+    const edges = await this.projectDependencies(task.projectId);
+    const waitsOn = new Map<string, string[]>();
+    for (const edge of edges) {
+      waitsOn.set(edge.taskId, [...(waitsOn.get(edge.taskId) ?? []), edge.dependsOnTaskId]);
+    }
+    const stack = [dependsOn.id];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === task.id) {
+        throw new TaskPlanningError(`"${dependsOn.title}" already depends on "${task.title}"; this would create a cycle`);
+      }
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(waitsOn.get(id) ?? []));
+    }
+
+    const [dependency] = await db.insert(taskDependencies)
+      .values({ taskId: task.id, dependsOnTaskId: dependsOn.id })
+      .onConflictDoNothing()
+      .returning();
+    if (!dependency) {
+      throw new TaskPlanningError(`"${task.title}" already depends on "${dependsOn.title}"`);
+    }
+    return dependency;
+  }
+
+  async removeDependency(taskId: string, dependsOnTaskId: string): Promise<TaskDependency | undefined> {
+    const [dependency] = await db.delete(taskDependencies)
+      .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)))
+      .returning();
+    return dependency;
+  }
+
+  /**
+   * Set the project's progress to the share of its tasks that are done.
+   * Parent tasks are counted through their subtasks. Failures are logged only.
+   */
+  async recomputeProgress(projectId: string): Promise<void> {
+    try {
+      const projectTasks = await db.select({ id: tasks.id, parentTaskId: tasks.parentTaskId, status: tasks.status })
+        .from(tasks)
+        .where(eq(tasks.projectId, projectId));
+      const parents = new Set(projectTasks.map(task => task.parentTaskId).filter(Boolean));
+      const leaves = projectTasks.filter(task => !parents.has(task.id));
+      const done = leaves.filter(task => task.status === DONE_STATUS).length;
+      const progress = leaves.length === 0 ? 0 : Math.round((done / leaves.length) * 100);
+
+      await db.update(projects).set({ progress }).where(eq(projects.id, projectId));
+    } catch (error) {
+      console.error("Failed to recompute project progress:", error);
+    }
+  }
+
+  /**
+   * Timeline of a project's tasks. Tasks without dates start when they were
+   * created and last as long as their estimate (at least a day); parent tasks
+   * stretch to cover their subtasks. The critical path is the longest chain
+   * of dependent tasks by duration.
+   */
+  async gantt(projectId: string, progress: number): Promise<ProjectGantt> {
+    const projectTasks = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+    const edges = await this.projectDependencies(projectId);
+
+    const dates = new Map<string, { start: Date; end: Date }>();
+    for (const task of projectTasks) {
+      const start = startOfDay(task.startDate ?? (task.deadline && task.deadline < task.createdAt ? task.deadline : task.createdAt));
+      const days = task.estimatedHours ? Math.max(1, Math.ceil(Number(task.estimatedHours) / HOURS_PER_DAY)) : 1;
+      const end = task.deadline ? startOfDay(task.deadline) : addDays(start, days - 1);
+      dates.set(task.id, { start, end: end < start ? start : end });
+    }
+
+    const children = new Map<string, Task[]>();
+    for (const task of projectTasks) {
+      if (task.parentTaskId && dates.has(task.parentTaskId)) {
+        children.set(task.parentTaskId, [...(children.get(task.parentTaskId) ?? []), task]);
+      }
+    }
+    // Widen parents to their subtasks, deepest first
+    const span = (id: string, seen: Set<string>): { start: Date; end: Date } => {
+      const own = dates.get(id)!;
+      if (seen.has(id)) return own;
+      seen.add(id);
+      for (const child of children.get(id) ?? []) {
+        const range = span(child.id, seen);
+        if (range.start < own.start) own.start = range.start;
+        if (range.end > own.end) own.end = range.end;
+      }
+      return own;
+    };
+    const visited = new Set<string>();
+    projectTasks.forEach(task => span(task.id, visited));
+
+    const dependsOn = new Map<string, string[]>();
+    for (const edge of edges) {
+      dependsOn.set(edge.taskId, [...(dependsOn.get(edge.taskId) ?? []), edge.dependsOnTaskId]);
+    }
+    const criticalPath = this.criticalPath(projectTasks.map(task => task.id), dependsOn, dates);
+    const critical = new Set(criticalPath);
+
+    // Parents followed by their subtasks, each level ordered by start date
+    const byStart = (a: Task, b: Task) => dates.get(a.id)!.start.getTime() - dates.get(b.id)!.start.getTime();
+    const ordered: GanttTask[] = [];
+    const placed = new Set<string>();
+    const place = (task: Task, depth: number) => {
+      if (placed.has(task.id)) return;
+      placed.add(task.id);
+      const range = dates.get(task.id)!;
+      ordered.push({
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        assignedTo: task.assignedTo,
+        parentTaskId: task.parentTaskId,
+        depth,
+        start: toDay(range.start),
+        end: toDay(range.end),
+        scheduled: !!task.startDate && !!task.deadline,
+        critical: critical.has(task.id),
+        dependsOn: dependsOn.get(task.id) ?? [],
+      });
+      [...(children.get(task.id) ?? [])].sort(byStart).forEach(child => place(child, depth + 1));
+    };
+    projectTasks.filter(task => !task.parentTaskId || !dates.has(task.parentTaskId)).sort(byStart).forEach(task => place(task, 0));
+    projectTasks.filter(task => !placed.has(task.id)).sort(byStart).forEach(task => place(task, 0));
+
+    const ranges = Array.from(dates.values());
+    return {
+      projectId,
+      progress,
+      start: ranges.length ? toDay(new Date(Math.min(...ranges.map(r => r.start.getTime())))) : null,
+      end: ranges.length ? toDay(new Date(Math.max(...ranges.map(r => r.end.getTime())))) : null,
+      tasks: ordered,
+      criticalPath,
+    };
+  }
+
+  /**
+   * Longest chain through the dependency graph, weighting each task by its length in days
+   */
+  private criticalPath(
+    taskIds: string[],
+    dependsOn: Map<string, string[]>,
+    dates: Map<string, { start: Date; end: Date }>,
+  ): string[] {
+    const finish = new Map<string, number>();
+    const previous = new Map<string, string | null>();
+    const inProgress = new Set<string>();
+
+    const longest = (id: string): number => {
+      const known = finish.get(id);
+      if (known !== undefined) return known;
+      // Dependencies are kept acyclic; this only guards against bad data
+      if (inProgress.has(id)) return 0;
+      inProgress.add(id);
+
+      let best = 0;
+      let bestPrevious: string | null = null;
+      for (const before of dependsOn.get(id) ?? []) {
+        if (!dates.has(before)) continue;
+        const length = longest(before);
+        if (length > best) {
+          best = length;
+          bestPrevious = before;
+        }
+      }
+      const range = dates.get(id)!;
+      const total = best + differenceInCalendarDays(range.end, range.start) + 1;
+      finish.set(id, total);
+      previous.set(id, bestPrevious);
+      inProgress.delete(id);
+      return total;
+    };
+
+    let last: string | null = null;
+    for (const id of taskIds) {
+      if (last === null || longest(id) > longest(last)) last = id;
+    }
+    // A lone task is not a path
+    if (!last || !previous.get(last)) return [];
+
+    const path: string[] = [];
+    for (let id: string | null = last; id; id = previous.get(id) ?? null) {
+      path.unshift(id);
+    }
+    return path;
+  }
+}
+
+export const taskPlanningService = new TaskPlanningService();
@@ -0,0 +1,154 @@
+/**
+ * Task Recurrence Service
+ * A task with a recurrence rule is a series: each time an occurrence falls
+ * due the scheduler copies it as a fresh to-do task, shifted to the new date
+ * and with its checklist unticked, until the series' end date. Due series
+ * are checked hourly on their own timer, independent of the dev-only scheduler.
+ */
+
+import { db } from "../db";
+import { tasks, type Task } from "@shared/schema";
+import { eq, and, lte, isNotNull } from "drizzle-orm";
+import { addDays, addMonths, addWeeks, endOfDay } from "date-fns";
+import { taskPlanningService } from "./taskPlanning";
+
+type RecurrenceRule = Pick<Task, "recurrence" | "recurrenceInterval" | "recurrenceEndDate" | "startDate" | "deadline" | "createdAt">;
+
+// Stop looking for the next occurrence after this many steps (over 100 years of daily tasks)
+const MAX_STEPS = 40000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const step = (anchor: Date, frequency: string, count: number) => {
+  switch (frequency) {
+    case "daily": return addDays(anchor, count);
+    case "weekly": return addWeeks(anchor, count);
+    // Step from the anchor each time so the 31st stays the 31st after a short month
+    default: return addMonths(anchor, count);
+  }
+};
+
+// Series are dated by their start date, else their deadline, else when they were created
+const anchorOf = (task: RecurrenceRule) => task.startDate ?? task.deadline ?? task.createdAt;
+
+class TaskRecurrenceService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create due occurrences now and every hour
+   */
+  start() {
+    this.timer = setInterval(() => this.createDue(), CHECK_INTERVAL_MS);
+    this.createDue();
+    console.log("Recurring tasks started (hourly)");
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * The latest occurrence on or before `now` (if any after the anchor) and the
+   * first one after it, or null once the series has ended
+   */
+  occurrencesAround(task: RecurrenceRule, now: Date): { latest: Date | null; next: Date | null } {
+    if (!task.recurrence) return { latest: null, next: null };
+
+    const anchor = anchorOf(task);
+    const interval = Math.max(1, task.recurrenceInterval);
+    const end = task.recurrenceEndDate ? endOfDay(task.recurrenceEndDate) : null;
+    let latest: Date | null = null;
+
+    for (let i = 1; i <= MAX_STEPS; i++) {
+      const occurrence = step(anchor, task.recurrence, i * interval);
+      if (end && occurrence > end) return { latest, next: null };
+      if (occurrence > now) return { latest, next: occurrence };
+      latest = occurrence;
+    }
+    return { latest, next: null };
+  }
+
+  /**
+   * Recompute when the series next repeats, after its rule or dates change
+   */
+  async reschedule(task: Task): Promise<Task> {
+    const { next } = this.occurrencesAround(task, new Date());
+    if (next?.getTime() === task.nextOccurrenceAt?.getTime()) return task;
+
+    const [updated] = await db.update(tasks).set({ nextOccurrenceAt: next }).where(eq(tasks.id, task.id)).returning();
+    return updated;
+  }
+
+  /**
+   * Create the tasks of every series whose next occurrence is due. A series
+   * that missed several occurrences (e.g. while the server was down) only
+   * gets the latest one. Returns how many tasks were created.
+   */
+  async materializeDue(): Promise<number> {
+    const now = new Date();
+    const due = await db.select()
+      .from(tasks)
+      .where(and(isNotNull(tasks.recurrence), isNotNull(tasks.nextOccurrenceAt), lte(tasks.nextOccurrenceAt, now)));
+
+    let created = 0;
+    const touchedProjects = new Set<string>();
+
+    for (const series of due) {
+      try {
+        const { latest, next } = this.occurrencesAround(series, now);
+        const occurrence = latest ?? series.nextOccurrenceAt!;
+        const shift = occurrence.getTime() - anchorOf(series).getTime();
+
+        const copied = await db.transaction(async (tx) => {
+          // Claim the occurrence first so two schedulers never both create it
+          const claimed = await tx.update(tasks)
+            .set({ nextOccurrenceAt: next })
+            .where(and(eq(tasks.id, series.id), eq(tasks.nextOccurrenceAt, series.nextOccurrenceAt!)))
+            .returning({ id: tasks.id });
+          if (claimed.length === 0) return false;
+
+          await tx.insert(tasks).values({
+            projectId: series.projectId,
+            parentTaskId: series.parentTaskId,
+            title: series.title,
+            description: series.description,
+            assignedTo: series.assignedTo,
+            status: "todo",
+            priority: series.priority,
+            startDate: series.startDate ? new Date(series.startDate.getTime() + shift) : null,
+            deadline: series.deadline ? new Date(series.deadline.getTime() + shift) : null,
+            checklist: (series.checklist ?? []).map(item => ({ text: item.text, done: false })),
+            estimatedHours: series.estimatedHours,
+            recurrenceSourceId: series.id,
+          });
+          return true;
+        });
+
+        if (copied) {
+          created++;
+          touchedProjects.add(series.projectId);
+        }
+      } catch (error) {
+        console.error(`Error creating next occurrence of task ${series.id}:`, error);
+      }
+    }
+
+    for (const projectId of Array.from(touchedProjects)) {
+      await taskPlanningService.recomputeProgress(projectId);
+    }
+    return created;
+  }
+
+  private async createDue(): Promise<void> {
+    try {
+      const created = await this.materializeDue();
+      if (created > 0) {
+        console.log(`Recurring tasks: ${created} task(s) created`);
+      }
+    } catch (error) {
+      console.error("Error creating recurring tasks:", error);
+    }
+  }
+}
+
+export const taskRecurrenceService = new TaskRecurrenceService();
@@ -0,0 +1,421 @@
+/**
+ * Time Tracking Service
+ * Timers and manual time entries against tasks, weekly timesheets that users
+ * submit and managers approve, and the approved billable hours of a project
+ * that can be turned into invoice line items.
+ */
+
+import { db, type DbTransaction } from "../db";
+import {
+  timeEntries,
+  timesheets,
+  tasks,
+  projects,
+  users,
+  type TimeEntry,
+  type Timesheet,
+  type ManualTimeEntry,
+  type InvoiceItem,
+} from "@shared/schema";
+import { eq, and, asc, desc, gte, lt, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+import { addDays, format, startOfWeek } from "date-fns";
+import { calculateLineTotal, sumAmounts } from "@shared/currency";
+
+/** Raised when time cannot be logged or a timesheet cannot change state; message is user-facing */
+export class TimeTrackingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeTrackingError";
+  }
+}
+
+export type TimeEntryWithTask = TimeEntry & { taskTitle: string; projectId: string; projectName: string };
+
+export interface TimesheetWeek {
+  weekStart: string;
+  timesheet: Timesheet | null;
+  entries: TimeEntryWithTask[];
+  totalMinutes: number;
+}
+
+export interface BillableHours {
+  projectId: string;
+  hourlyRate: string | null;
+  tasks: { taskId: string; title: string; minutes: number; amount: string }[];
+  entryIds: string[];
+  totalMinutes: number;
+  totalAmount: string;
+  // Billable time in weeks that are not approved yet
+  pendingMinutes: number;
+}
+
+const LOCKED_STATUSES = ["submitted", "approved"];
+
+/**
+ * Monday of the week a date falls in, as YYYY-MM-DD
+ */
+export function weekStartOf(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000));
+}
+
+const entryWithTask = {
+  id: timeEntries.id,
+  taskId: timeEntries.taskId,
+  userId: timeEntries.userId,
+  startedAt: timeEntries.startedAt,
+  endedAt: timeEntries.endedAt,
+  minutes: timeEntries.minutes,
+  description: timeEntries.description,
+  billable: timeEntries.billable,
+  invoiceId: timeEntries.invoiceId,
+  createdAt: timeEntries.createdAt,
+  taskTitle: tasks.title,
+  projectId: tasks.projectId,
+  projectName: projects.name,
+};
+
+class TimeTrackingService {
+  async getEntry(id: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id)).limit(1);
+    return entry;
+  }
+
+  async getRunning(userId: string): Promise<TimeEntryWithTask | undefined> {
+    const [entry] = await db.select(entryWithTask)
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .innerJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)))
+      .limit(1);
+    return entry;
+  }
+
+  async listForTask(taskId: string): Promise<(TimeEntry & { userName: string })[]> {
+    const rows = await db.select({ entry: timeEntries, userName: users.fullName })
+      .from(timeEntries)
+      .innerJoin(users, eq(timeEntries.userId, users.id))
+      .where(eq(timeEntries.taskId, taskId))
+      .orderBy(desc(timeEntries.startedAt));
+    return rows.map(row => ({ ...row.entry, userName: row.userName }));
+  }
+
+  /**
+   * Entries in a submitted or approved week are frozen until the timesheet is rejected
+   */
+  private async assertWeekOpen(userId: string, date: Date): Promise<void> {
+    const [timesheet] = await db.select({ status: timesheets.status })
+      .from(timesheets)
+      .where(and(eq(timesheets.userId, userId), eq(timesheets.weekStart, weekStartOf(date))))
+      .limit(1);
+    if (timesheet && LOCKED_STATUSES.includes(timesheet.status)) {
+      throw new TimeTrackingError(`The timesheet for the week of ${weekStartOf(date)} is ${timesheet.status} and can no longer be changed`);
+    }
+  }
+
+  /**
+   * Start a timer on a task; a timer already running for the user is stopped first
+   */
+  async start(taskId: string, userId: string): Promise<TimeEntry> {
+    const now = new Date();
+    await this.assertWeekOpen(userId, now);
+    await this.stop(userId);
+
+    const [entry] = await db.insert(timeEntries).values({ taskId, userId, startedAt: now }).returning();
+    return entry;
+  }
+
+  /**
+   * @returns the stopped entry, or undefined when no timer was running
+   */
+  async stop(userId: string): Promise<TimeEntry | undefined> {
+    const [running] = await db.select().from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)))
+      .limit(1);
+    if (!running) return undefined;
+
+    const now = new Date();
+    const [entry] = await db.update(timeEntries)
+      .set({ endedAt: now, minutes: minutesBetween(running.startedAt, now) })
+      .where(eq(timeEntries.id, running.id))
+      .returning();
+    return entry;
+  }
+
+  async addManual(taskId: string, userId: string, data: ManualTimeEntry): Promise<TimeEntry> {
+    const startedAt = new Date(`${data.date}T00:00:00`);
+    await this.assertWeekOpen(userId, startedAt);
+
+    const minutes = Math.round(data.hours * 60);
+    const [entry] = await db.insert(timeEntries).values({
+      taskId,
+      userId,
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + minutes * 60000),
+      minutes,
+      description: data.description || null,
+      billable: data.billable ?? true,
+    }).returning();
+    return entry;
+  }
+
+  async updateEntry(entry: TimeEntry, data: Partial<ManualTimeEntry>): Promise<TimeEntry> {
+    if (entry.invoiceId) {
+      throw new TimeTrackingError("This time has already been invoiced");
+    }
+    await this.assertWeekOpen(entry.userId, entry.startedAt);
+
+    const changes: Partial<TimeEntry> = {};
+    if (data.description !== undefined) changes.description = data.description || null;
+    if (data.billable !== undefined) changes.billable = data.billable;
+    if (data.date !== undefined || data.hours !== undefined) {
+      if (!entry.endedAt) {
+        throw new TimeTrackingError("Stop the timer before changing its time");
+      }
+      const startedAt = data.date ? new Date(`${data.date}T00:00:00`) : entry.startedAt;
+      await this.assertWeekOpen(entry.userId, startedAt);
+      const minutes = data.hours !== undefined ? Math.round(data.hours * 60) : entry.minutes;
+      Object.assign(changes, { startedAt, minutes, endedAt: new Date(startedAt.getTime() + minutes * 60000) });
+    }
+
+    const [updated] = await db.update(timeEntries).set(changes).where(eq(timeEntries.id, entry.id)).returning();
+    return updated;
+  }
+
+  async deleteEntry(entry: TimeEntry): Promise<void> {
+    if (entry.invoiceId) {
+      throw new TimeTrackingError("This time has already been invoiced");
+    }
+    await this.assertWeekOpen(entry.userId, entry.startedAt);
+    await db.delete(timeEntries).where(eq(timeEntries.id, entry.id));
+  }
+
+  async getTimesheet(id: string): Promise<Timesheet | undefined> {
+    const [timesheet] = await db.select().from(timesheets).where(eq(timesheets.id, id)).limit(1);
+    return timesheet;
+  }
+
+  async getWeek(userId: string, weekStart: string): Promise<TimesheetWeek> {
+    const from = new Date(`${weekStart}T00:00:00`);
+    const [timesheet] = await db.select().from(timesheets)
+      .where(and(eq(timesheets.userId, userId), eq(timesheets.weekStart, weekStart)))
+      .limit(1);
+    const entries = await db.select(entryWithTask)
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .innerJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(
+        eq(timeEntries.userId, userId),
+        gte(timeEntries.startedAt, from),
+        lt(timeEntries.startedAt, addDays(from, 7)),
+      ))
+      .orderBy(asc(timeEntries.startedAt));
+
+    return {
+      weekStart,
+      timesheet: timesheet ?? null,
+      entries,
+      totalMinutes: entries.reduce((sum, entry) => sum + entry.minutes, 0),
+    };
+  }
+
+  async submit(userId: string, weekStart: string): Promise<Timesheet> {
+    const week = await this.getWeek(userId, weekStart);
+    if (week.timesheet && LOCKED_STATUSES.includes(week.timesheet.status)) {
+      throw new TimeTrackingError(`This timesheet is already ${week.timesheet.status}`);
+    }
+    if (week.entries.length === 0) {
+      throw new TimeTrackingError("There is no time logged in this week");
+    }
+    if (week.entries.some(entry => !entry.endedAt)) {
+      throw new TimeTrackingError("Stop the running timer before submitting");
+    }
+
+    const values = { status: "submitted", submittedAt: new Date(), reviewedBy: null, reviewedAt: null, reviewNote: null };
+    const [timesheet] = await db.insert(timesheets)
+      .values({ userId, weekStart, ...values })
+      .onConflictDoUpdate({ target: [timesheets.userId, timesheets.weekStart], set: values })
+      .returning();
+    return timesheet;
+  }
+
+  async review(timesheet: Timesheet, approve: boolean, reviewerId: string, note?: string | null): Promise<Timesheet> {
+    if (timesheet.status !== "submitted") {
+      throw new TimeTrackingError("Only submitted timesheets can be reviewed");
+    }
+    if (timesheet.userId === reviewerId) {
+      throw new TimeTrackingError("You cannot review your own timesheet");
+    }
+
+    const [updated] = await db.update(timesheets)
+      .set({ status: approve ? "approved" : "rejected", reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note || null })
+      .where(eq(timesheets.id, timesheet.id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Timesheets for review, with the owner's name and the week's logged minutes
+   */
+  async listTimesheets(status?: string) {
+    return db.select({
+      timesheet: timesheets,
+      userName: users.fullName,
+      totalMinutes: sql<number>`(
+        select coalesce(sum(${timeEntries.minutes}), 0)::int from ${timeEntries}
+        where ${timeEntries.userId} = ${timesheets.userId}
+          and ${timeEntries.startedAt} >= ${timesheets.weekStart}::timestamp
+          and ${timeEntries.startedAt} < ${timesheets.weekStart}::timestamp + interval '7 days'
+      )`,
+    })
+      .from(timesheets)
+      .innerJoin(users, eq(timesheets.userId, users.id))
+      .where(status ? eq(timesheets.status, status) : undefined)
+      .orderBy(desc(timesheets.weekStart));
+  }
+
+  /**
+   * Approved, not yet invoiced billable time on a project, grouped by task
+   * @returns undefined when the project does not exist
+   */
+  async billableHours(projectId: string): Promise<BillableHours | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) return undefined;
+
+    const entries = await db.select({
+      id: timeEntries.id,
+      userId: timeEntries.userId,
+      startedAt: timeEntries.startedAt,
+      minutes: timeEntries.minutes,
+      taskId: tasks.id,
+      title: tasks.title,
+    })
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .where(and(
+        eq(tasks.projectId, projectId),
+        eq(timeEntries.billable, true),
+        isNull(timeEntries.invoiceId),
+        isNotNull(timeEntries.endedAt),
+      ))
+      .orderBy(asc(timeEntries.startedAt));
+
+    const userIds = Array.from(new Set(entries.map(entry => entry.userId)));
+    const approvedWeeks = new Set(userIds.length === 0 ? [] : (await db.select({ userId: timesheets.userId, weekStart: timesheets.weekStart })
+      .from(timesheets)
+      .where(and(inArray(timesheets.userId, userIds), eq(timesheets.status, "approved"))))
+      .map(t => `${t.userId}:${t.weekStart}`));
+
+    const rate = project.hourlyRate ?? "0";
+    const byTask = new Map<string, { taskId: string; title: string; minutes: number }>();
+    const entryIds: string[] = [];
+    let pendingMinutes = 0;
+    for (const entry of entries) {
+      if (!approvedWeeks.has(`${entry.userId}:${weekStartOf(entry.startedAt)}`)) {
+        pendingMinutes += entry.minutes;
+        continue;
+      }
+      const task = byTask.get(entry.taskId) ?? { taskId: entry.taskId, title: entry.title, minutes: 0 };
+      task.minutes += entry.minutes;
+      byTask.set(entry.taskId, task);
+      entryIds.push(entry.id);
+    }
+
+    const taskTotals = Array.from(byTask.values()).map(task => ({
+      ...task,
+      amount: calculateLineTotal((task.minutes / 60).toFixed(2), rate),
+    }));
+    return {
+      projectId,
+      hourlyRate: project.hourlyRate,
+      tasks: taskTotals,
+      entryIds,
+      totalMinutes: taskTotals.reduce((sum, task) => sum + task.minutes, 0),
+      totalAmount: sumAmounts(taskTotals.map(task => task.amount)),
+      pendingMinutes,
+    };
+  }
+
+  /**
+   * Invoice line items for billable hours, one per task
+   */
+  toInvoiceItems(hours: BillableHours): InvoiceItem[] {
+    const rate = Number(hours.hourlyRate ?? 0);
+    return hours.tasks.map(task => ({
+      description: task.title,
+      quantity: Number((task.minutes / 60).toFixed(2)),
+      rate,
+      amount: Number(task.amount),
+    }));
+  }
+
+  /**
+   * Whether the user has billed time or approved timesheets, which are kept as
+   * financial records (deleting the user would cascade to them)
+   */
+  async hasBillingRecords(userId: string): Promise<boolean> {
+    const [billed] = await db.select({ id: timeEntries.id })
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNotNull(timeEntries.invoiceId)))
+      .limit(1);
+    const [approved] = await db.select({ id: timesheets.id })
+      .from(timesheets)
+      .where(and(eq(timesheets.userId, userId), eq(timesheets.status, "approved")))
+      .limit(1);
+    return !!billed || !!approved;
+  }
+
+  /**
+   * Link billed entries to their invoice. Every entry must be unbilled, billable
+   * time on the invoice's project from an approved week, or nothing is marked;
+   * run it in the invoice's transaction so a failure also drops the invoice.
+   * @returns the number of entries marked
+   */
+  async markBilled(entryIds: string[], invoiceId: string, projectId: string | null, tx: typeof db | DbTransaction = db): Promise<number> {
+    const ids = Array.from(new Set(entryIds));
+    if (ids.length === 0) return 0;
+    if (!projectId) {
+      throw new TimeTrackingError("Hours can only be billed on an invoice for their project");
+    }
+
+    const projectTasks = tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.projectId, projectId));
+    const unbilled = and(
+      inArray(timeEntries.id, ids),
+      inArray(timeEntries.taskId, projectTasks),
+      eq(timeEntries.billable, true),
+      isNull(timeEntries.invoiceId),
+      isNotNull(timeEntries.endedAt),
+    );
+
+    const entries = await tx.select({ userId: timeEntries.userId, startedAt: timeEntries.startedAt })
+      .from(timeEntries)
+      .where(unbilled);
+    if (entries.length !== ids.length) {
+      throw new TimeTrackingError("Some of these hours are already billed or no longer billable; pull the billable hours again");
+    }
+
+    const userIds = Array.from(new Set(entries.map(entry => entry.userId)));
+    const approvedWeeks = new Set((await tx.select({ userId: timesheets.userId, weekStart: timesheets.weekStart })
+      .from(timesheets)
+      .where(and(inArray(timesheets.userId, userIds), eq(timesheets.status, "approved"))))
+      .map(t => `${t.userId}:${t.weekStart}`));
+    if (entries.some(entry => !approvedWeeks.has(`${entry.userId}:${weekStartOf(entry.startedAt)}`))) {
+      throw new TimeTrackingError("Only hours from approved timesheets can be billed");
+    }
+
+    // The unbilled condition again, so a concurrent invoice that got there first fails this one
+    const billed = await tx.update(timeEntries)
+      .set({ invoiceId })
+      .where(unbilled)
+      .returning({ id: timeEntries.id });
+    if (billed.length !== ids.length) {
+      throw new TimeTrackingError("Some of these hours were billed on another invoice meanwhile; pull the billable hours again");
+    }
+    return billed.length;
+  }
+}
+
+export const timeTrackingService = new TimeTrackingService();
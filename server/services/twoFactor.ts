@@ -0,0 +1,248 @@
+/**
+ * Two-Factor Authentication Service
+ * RFC 6238 TOTP (SHA-1, 6 digits, 30 s steps) compatible with Google
+ * Authenticator, Authy and similar apps, plus single-use recovery codes
+ */
+
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { db } from "../db";
+import { userTwoFactor, roles, type User } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+const ISSUER = process.env.TOTP_ISSUER || "Smart Agency Hub";
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Accept codes from one step either side to tolerate clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+// System roles that must always use two-factor authentication
+export const TWO_FACTOR_REQUIRED_SYSTEM_ROLES = ["admin", "operational_head"];
+
+/** Raised when an enrollment code does not match, so callers can count the failed attempt */
+export class InvalidTwoFactorCodeError extends Error {
+  constructor() {
+    super("Invalid verification code");
+    this.name = "InvalidTwoFactorCodeError";
+  }
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Find the time step a code belongs to, or null if it matches none in the window
+ */
+function matchCode(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentStep();
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = generateCode(secret, now + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return now + offset;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+class TwoFactorService {
+  private async getRecord(userId: string) {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    return record;
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    return !!record?.enabledAt;
+  }
+
+  /**
+   * Whether the user's role makes two-factor authentication mandatory
+   */
+  async isRequiredForRole(userRole: string): Promise<boolean> {
+    if (TWO_FACTOR_REQUIRED_SYSTEM_ROLES.includes(userRole)) return true;
+
+    const [role] = await db.select().from(roles).where(eq(roles.name, userRole)).limit(1);
+    return role?.requireTwoFactor ?? false;
+  }
+
+  async getStatus(user: User) {
+    const record = await this.getRecord(user.id);
+    return {
+      enabled: !!record?.enabledAt,
+      enabledAt: record?.enabledAt ?? null,
+      required: await this.isRequiredForRole(user.role),
+      recoveryCodesRemaining: record?.enabledAt ? (record.recoveryCodeHashes as string[]).length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment: stores a pending secret until the user proves they scanned it
+   */
+  async beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    const secret = base32Encode(crypto.randomBytes(20));
+    const existing = await this.getRecord(user.id);
+
+    if (existing) {
+      await db.update(userTwoFactor).set({ pendingSecret: secret }).where(eq(userTwoFactor.id, existing.id));
+    } else {
+      await db.insert(userTwoFactor).values({ userId: user.id, pendingSecret: secret });
+    }
+
+    const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app.
+   * Returns the plain recovery codes, which are only ever shown once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const record = await this.getRecord(userId);
+    if (!record?.pendingSecret) {
+      throw new Error("No two-factor enrollment in progress");
+    }
+
+    const step = matchCode(record.pendingSecret, code);
+    if (step === null) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.update(userTwoFactor)
+      .set({
+        secret: record.pendingSecret,
+        pendingSecret: null,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+        lastUsedStep: step,
+        enabledAt: new Date(),
+      })
+      .where(eq(userTwoFactor.id, record.id));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code for an enrolled user; each code is accepted only once
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    if (!record?.enabledAt || !record.secret) return false;
+
+    const step = matchCode(record.secret, code);
+    if (step === null || (record.lastUsedStep !== null && step <= record.lastUsedStep)) {
+      return false;
+    }
+
+    await db.update(userTwoFactor).set({ lastUsedStep: step }).where(eq(userTwoFactor.id, record.id));
+    return true;
+  }
+
+  /**
+   * Consume a recovery code; returns how many remain, or null if it was not valid
+   */
+  async useRecoveryCode(userId: string, code: string): Promise<number | null> {
+    const record = await this.getRecord(userId);
+    if (!record?.enabledAt) return null;
+
+    const hashes = record.recoveryCodeHashes as string[];
+    const hash = hashRecoveryCode(code);
+    if (!hashes.includes(hash)) return null;
+
+    const remaining = hashes.filter(h => h !== hash);
+    await db.update(userTwoFactor).set({ recoveryCodeHashes: remaining }).where(eq(userTwoFactor.id, record.id));
+    return remaining.length;
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await db.update(userTwoFactor)
+      .set({ recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) })
+      .where(eq(userTwoFactor.userId, userId));
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
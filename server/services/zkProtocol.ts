@@ -0,0 +1,661 @@
+/**
+ * ZKTeco Binary Protocol Client
+ * Implements the ZK standalone terminal protocol (default port 4370)
+ * over TCP or UDP: session handshake, buffered data reads, user table
+ * and attendance log decoding
+ */
+
+import net from "net";
+import dgram from "dgram";
+
+export const ZK_COMMANDS = {
+  USERTEMP_RRQ: 9,
+  ATTLOG_RRQ: 13,
+  CLEAR_ATTLOG: 15,
+  GET_FREE_SIZES: 50,
+  CONNECT: 1000,
+  EXIT: 1001,
+  ENABLE_DEVICE: 1002,
+  DISABLE_DEVICE: 1003,
+  REFRESH_DATA: 1013,
+  AUTH: 1102,
+  PREPARE_DATA: 1500,
+  DATA: 1501,
+  FREE_DATA: 1502,
+  PREPARE_BUFFER: 1503,
+  READ_BUFFER: 1504,
+  ACK_OK: 2000,
+  ACK_ERROR: 2001,
+  ACK_DATA: 2002,
+  ACK_UNAUTH: 2005,
+} as const;
+
+export const FCT_USER = 5;
+
+const USHRT_MAX = 65535;
+const HEADER_SIZE = 8;
+const TCP_MAGIC = Buffer.from([0x50, 0x50, 0x82, 0x7d]);
+const MAX_CHUNK_TCP = 0xffc0;
+const MAX_CHUNK_UDP = 16 * 1024;
+
+export interface ZKPacket {
+  command: number;
+  checksum: number;
+  sessionId: number;
+  replyId: number;
+  data: Buffer;
+}
+
+export interface ZKUser {
+  uid: number;
+  userId: string;
+  name: string;
+  privilege: number;
+  password: string;
+  cardNo: number;
+  groupId: string;
+}
+
+export interface ZKAttendanceRecord {
+  uid: number;
+  userId: string;
+  timestamp: Date;
+  status: number;
+  punch: number;
+}
+
+export interface ZKDeviceSizes {
+  users: number;
+  fingers: number;
+  records: number;
+  cards: number;
+  fingersCapacity: number;
+  usersCapacity: number;
+  recordsCapacity: number;
+}
+
+export interface ZKClientOptions {
+  host: string;
+  port?: number;
+  protocol?: "tcp" | "udp";
+  /** Numeric communication key configured on the terminal (COMM Key) */
+  password?: number;
+  timeoutMs?: number;
+}
+
+// ==================== PACKET ENCODING ====================
+
+/**
+ * 16-bit one's-complement style checksum used by the ZK firmware
+ */
+export function zkChecksum(packet: Buffer): number {
+  let checksum = 0;
+  let i = 0;
+
+  while (i + 1 < packet.length) {
+    checksum += packet.readUInt16LE(i);
+    if (checksum > USHRT_MAX) checksum -= USHRT_MAX;
+    i += 2;
+  }
+
+  if (i < packet.length) {
+    checksum += packet[packet.length - 1];
+  }
+
+  while (checksum > USHRT_MAX) checksum -= USHRT_MAX;
+
+  checksum = ~checksum;
+  while (checksum < 0) checksum += USHRT_MAX;
+
+  return checksum;
+}
+
+export function createPacket(command: number, sessionId: number, replyId: number, data: Buffer = Buffer.alloc(0)): Buffer {
+  const packet = Buffer.alloc(HEADER_SIZE + data.length);
+  packet.writeUInt16LE(command, 0);
+  packet.writeUInt16LE(0, 2);
+  packet.writeUInt16LE(sessionId, 4);
+  packet.writeUInt16LE(replyId, 6);
+  data.copy(packet, HEADER_SIZE);
+  packet.writeUInt16LE(zkChecksum(packet), 2);
+  return packet;
+}
+
+export function parsePacket(packet: Buffer): ZKPacket {
+  if (packet.length < HEADER_SIZE) {
+    throw new Error(`Invalid ZK packet: expected at least ${HEADER_SIZE} bytes, got ${packet.length}`);
+  }
+
+  return {
+    command: packet.readUInt16LE(0),
+    checksum: packet.readUInt16LE(2),
+    sessionId: packet.readUInt16LE(4),
+    replyId: packet.readUInt16LE(6),
+    data: packet.subarray(HEADER_SIZE),
+  };
+}
+
+/**
+ * TCP frames carry an 8-byte prefix: magic 0x5050 0x7D82 and the packet length
+ */
+export function wrapTcpFrame(packet: Buffer): Buffer {
+  const prefix = Buffer.alloc(8);
+  TCP_MAGIC.copy(prefix, 0);
+  prefix.writeUInt32LE(packet.length, 4);
+  return Buffer.concat([prefix, packet]);
+}
+
+/**
+ * Splits complete TCP frames off the front of a stream buffer
+ */
+export function extractTcpFrames(buffer: Buffer): { packets: Buffer[]; rest: Buffer } {
+  const packets: Buffer[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 8) {
+    if (!buffer.subarray(offset, offset + 4).equals(TCP_MAGIC)) {
+      throw new Error("Invalid ZK TCP frame: bad magic header");
+    }
+    const length = buffer.readUInt32LE(offset + 4);
+    if (buffer.length - offset - 8 < length) break;
+
+    packets.push(buffer.subarray(offset + 8, offset + 8 + length));
+    offset += 8 + length;
+  }
+
+  return { packets, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Derives the CMD_AUTH payload from the device COMM key and session id
+ */
+export function makeCommKey(key: number, sessionId: number, ticks: number = 50): Buffer {
+  let k = 0;
+  for (let i = 0; i < 32; i++) {
+    k = (key & (1 << i)) ? ((k << 1) | 1) : (k << 1);
+    k >>>= 0;
+  }
+  k = (k + sessionId) >>> 0;
+
+  const raw = Buffer.alloc(4);
+  raw.writeUInt32LE(k, 0);
+
+  const xored = Buffer.from([
+    raw[0] ^ "Z".charCodeAt(0),
+    raw[1] ^ "K".charCodeAt(0),
+    raw[2] ^ "S".charCodeAt(0),
+    raw[3] ^ "O".charCodeAt(0),
+  ]);
+
+  // Swap the two 16-bit halves
+  const swapped = Buffer.alloc(4);
+  swapped.writeUInt16LE(xored.readUInt16LE(2), 0);
+  swapped.writeUInt16LE(xored.readUInt16LE(0), 2);
+
+  const b = ticks & 0xff;
+  return Buffer.from([swapped[0] ^ b, swapped[1] ^ b, b, swapped[3] ^ b]);
+}
+
+// ==================== RECORD DECODING ====================
+
+/**
+ * Device timestamps are packed into a 32-bit counter of seconds
+ * (months are always 31 days long, years are offset from 2000)
+ */
+export function decodeZKTime(value: number): Date {
+  let t = value;
+  const second = t % 60; t = Math.floor(t / 60);
+  const minute = t % 60; t = Math.floor(t / 60);
+  const hour = t % 24; t = Math.floor(t / 24);
+  const day = (t % 31) + 1; t = Math.floor(t / 31);
+  const month = (t % 12) + 1; t = Math.floor(t / 12);
+  const year = t + 2000;
+
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+export function encodeZKTime(date: Date): number {
+  return (
+    ((date.getFullYear() % 100) * 12 * 31 + date.getMonth() * 31 + date.getDate() - 1) * (24 * 60 * 60) +
+    (date.getHours() * 60 + date.getMinutes()) * 60 +
+    date.getSeconds()
+  );
+}
+
+function readCString(buffer: Buffer, start: number, length: number): string {
+  const slice = buffer.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return slice.subarray(0, end === -1 ? slice.length : end).toString("utf8").trim();
+}
+
+/**
+ * Decodes the user table returned for CMD_USERTEMP_RRQ / FCT_USER.
+ * Older firmware uses 28-byte records, newer firmware 72-byte records.
+ */
+export function parseUserRecords(buffer: Buffer, userCount: number): ZKUser[] {
+  if (userCount === 0 || buffer.length < 4) return [];
+
+  const totalSize = buffer.readUInt32LE(0);
+  const recordSize = totalSize / userCount;
+  const data = buffer.subarray(4, 4 + totalSize);
+  const users: ZKUser[] = [];
+
+  if (recordSize !== 28 && recordSize !== 72) {
+    throw new Error(`Unsupported ZK user record size: ${recordSize}`);
+  }
+
+  for (let offset = 0; offset + recordSize <= data.length; offset += recordSize) {
+    if (recordSize === 28) {
+      const uid = data.readUInt16LE(offset);
+      users.push({
+        uid,
+        privilege: data[offset + 2],
+        password: readCString(data, offset + 3, 5),
+        name: readCString(data, offset + 8, 8) || `NN-${uid}`,
+        cardNo: data.readUInt32LE(offset + 16),
+        groupId: String(data[offset + 21]),
+        userId: String(data.readUInt32LE(offset + 24)),
+      });
+    } else {
+      const uid = data.readUInt16LE(offset);
+      users.push({
+        uid,
+        privilege: data[offset + 2],
+        password: readCString(data, offset + 3, 8),
+        name: readCString(data, offset + 11, 24) || `NN-${uid}`,
+        cardNo: data.readUInt32LE(offset + 35),
+        groupId: readCString(data, offset + 40, 7),
+        userId: readCString(data, offset + 48, 24),
+      });
+    }
+  }
+
+  return users;
+}
+
+/**
+ * Decodes the attendance buffer returned for CMD_ATTLOG_RRQ.
+ * Record layouts are 8, 16 or 40 bytes depending on firmware; the
+ * short layouts only carry one of uid / user id, so the user table
+ * is used to fill in the other.
+ */
+export function parseAttendanceRecords(buffer: Buffer, recordCount: number, users: ZKUser[] = []): ZKAttendanceRecord[] {
+  if (recordCount === 0 || buffer.length < 4) return [];
+
+  const totalSize = buffer.readUInt32LE(0);
+  const recordSize = totalSize / recordCount;
+  const data = buffer.subarray(4, 4 + totalSize);
+  const records: ZKAttendanceRecord[] = [];
+
+  if (recordSize !== 8 && recordSize !== 16 && recordSize !== 40) {
+    throw new Error(`Unsupported ZK attendance record size: ${recordSize}`);
+  }
+
+  const usersByUid = new Map(users.map((u) => [u.uid, u]));
+  const usersByUserId = new Map(users.map((u) => [u.userId, u]));
+
+  for (let offset = 0; offset + recordSize <= data.length; offset += recordSize) {
+    if (recordSize === 8) {
+      const uid = data.readUInt16LE(offset);
+      records.push({
+        uid,
+        userId: usersByUid.get(uid)?.userId ?? String(uid),
+        status: data[offset + 2],
+        timestamp: decodeZKTime(data.readUInt32LE(offset + 3)),
+        punch: data[offset + 7],
+      });
+    } else if (recordSize === 16) {
+      const userId = String(data.readUInt32LE(offset));
+      records.push({
+        uid: usersByUserId.get(userId)?.uid ?? Number(userId),
+        userId,
+        timestamp: decodeZKTime(data.readUInt32LE(offset + 4)),
+        status: data[offset + 8],
+        punch: data[offset + 9],
+      });
+    } else {
+      records.push({
+        uid: data.readUInt16LE(offset),
+        userId: readCString(data, offset + 2, 24),
+        status: data[offset + 26],
+        timestamp: decodeZKTime(data.readUInt32LE(offset + 27)),
+        punch: data[offset + 31],
+      });
+    }
+  }
+
+  return records;
+}
+
+// ==================== TRANSPORTS ====================
+
+interface ZKTransport {
+  readonly maxChunk: number;
+  send(packet: Buffer): void;
+  receive(timeoutMs: number): Promise<Buffer>;
+  close(): void;
+}
+
+/**
+ * Queues incoming packets and hands them to waiting receivers in order
+ */
+class PacketQueue {
+  private packets: Buffer[] = [];
+  private waiters: Array<{ resolve: (p: Buffer) => void; reject: (e: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  push(packet: Buffer) {
+    const waiter = this.waiters.shift();
+    if (waiter) waiter.resolve(packet);
+    else this.packets.push(packet);
+  }
+
+  fail(error: Error) {
+    this.failure = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  next(timeoutMs: number): Promise<Buffer> {
+    const queued = this.packets.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: (p: Buffer) => { clearTimeout(timer); resolve(p); },
+        reject: (e: Error) => { clearTimeout(timer); reject(e); },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new Error(`ZKTeco device did not respond within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+}
+
+class TcpTransport implements ZKTransport {
+  readonly maxChunk = MAX_CHUNK_TCP;
+  private queue = new PacketQueue();
+  private pending: Buffer = Buffer.alloc(0);
+
+  private constructor(private socket: net.Socket) {
+    socket.on("data", (chunk) => {
+      try {
+        const { packets, rest } = extractTcpFrames(Buffer.concat([this.pending, chunk]));
+        this.pending = rest;
+        packets.forEach((p) => this.queue.push(p));
+      } catch (error: any) {
+        this.queue.fail(error);
+        socket.destroy();
+      }
+    });
+    socket.on("error", (error) => this.queue.fail(error));
+    socket.on("close", () => this.queue.fail(new Error("ZKTeco connection closed")));
+  }
+
+  static open(host: string, port: number, timeoutMs: number): Promise<TcpTransport> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host, port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to ${host}:${port}`));
+      }, timeoutMs);
+
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        socket.removeAllListeners("error");
+        resolve(new TcpTransport(socket));
+      });
+      socket.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  send(packet: Buffer) {
+    this.socket.write(wrapTcpFrame(packet));
+  }
+
+  receive(timeoutMs: number) {
+    return this.queue.next(timeoutMs);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+class UdpTransport implements ZKTransport {
+  readonly maxChunk = MAX_CHUNK_UDP;
+  private queue = new PacketQueue();
+  private socket: dgram.Socket;
+
+  constructor(private host: string, private port: number) {
+    this.socket = dgram.createSocket("udp4");
+    this.socket.on("message", (msg) => this.queue.push(msg));
+    this.socket.on("error", (error) => this.queue.fail(error));
+  }
+
+  send(packet: Buffer) {
+    this.socket.send(packet, this.port, this.host);
+  }
+
+  receive(timeoutMs: number) {
+    return this.queue.next(timeoutMs);
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+// ==================== CLIENT ====================
+
+export class ZKClient {
+  private transport: ZKTransport | null = null;
+  private sessionId = 0;
+  private replyId = USHRT_MAX - 1;
+  private readonly port: number;
+  private readonly protocol: "tcp" | "udp";
+  private readonly timeoutMs: number;
+
+  constructor(private options: ZKClientOptions) {
+    this.port = options.port || 4370;
+    this.protocol = options.protocol || "tcp";
+    this.timeoutMs = options.timeoutMs || 10000;
+  }
+
+  get isConnected(): boolean {
+    return this.transport !== null;
+  }
+
+  /**
+   * Opens the socket and performs the CMD_CONNECT handshake,
+   * answering a CMD_AUTH challenge when the device has a COMM key set
+   */
+  async connect(): Promise<void> {
+    this.transport = this.protocol === "udp"
+      ? new UdpTransport(this.options.host, this.port)
+      : await TcpTransport.open(this.options.host, this.port, this.timeoutMs);
+    this.sessionId = 0;
+    this.replyId = USHRT_MAX - 1;
+
+    try {
+      let response = await this.command(ZK_COMMANDS.CONNECT);
+      this.sessionId = response.sessionId;
+
+      if (response.command === ZK_COMMANDS.ACK_UNAUTH) {
+        response = await this.command(ZK_COMMANDS.AUTH, makeCommKey(this.options.password || 0, this.sessionId));
+      }
+
+      if (response.command !== ZK_COMMANDS.ACK_OK) {
+        throw new Error(response.command === ZK_COMMANDS.ACK_UNAUTH
+          ? "ZKTeco device rejected the communication key"
+          : `ZKTeco handshake failed (response ${response.command})`);
+      }
+    } catch (error) {
+      this.transport.close();
+      this.transport = null;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.transport) return;
+
+    try {
+      await this.command(ZK_COMMANDS.EXIT);
+    } finally {
+      this.transport?.close();
+      this.transport = null;
+    }
+  }
+
+  /**
+   * Sends a command and waits for the next packet from the device
+   */
+  async command(command: number, data: Buffer = Buffer.alloc(0)): Promise<ZKPacket> {
+    const transport = this.requireTransport();
+
+    this.replyId += 1;
+    if (this.replyId >= USHRT_MAX) this.replyId -= USHRT_MAX;
+
+    transport.send(createPacket(command, this.sessionId, this.replyId, data));
+    return parsePacket(await transport.receive(this.timeoutMs));
+  }
+
+  async disableDevice(): Promise<void> {
+    await this.expectOk(ZK_COMMANDS.DISABLE_DEVICE, Buffer.alloc(0), "disable device");
+  }
+
+  async enableDevice(): Promise<void> {
+    await this.expectOk(ZK_COMMANDS.ENABLE_DEVICE, Buffer.alloc(0), "enable device");
+  }
+
+  async getSizes(): Promise<ZKDeviceSizes> {
+    const response = await this.command(ZK_COMMANDS.GET_FREE_SIZES);
+    if (response.command !== ZK_COMMANDS.ACK_OK || response.data.length < 80) {
+      throw new Error("ZKTeco device did not return storage sizes");
+    }
+
+    const field = (i: number) => response.data.readInt32LE(i * 4);
+    return {
+      users: field(4),
+      fingers: field(6),
+      records: field(8),
+      cards: field(12),
+      fingersCapacity: field(14),
+      usersCapacity: field(15),
+      recordsCapacity: field(16),
+    };
+  }
+
+  async getUsers(sizes?: ZKDeviceSizes): Promise<ZKUser[]> {
+    const { users } = sizes ?? await this.getSizes();
+    if (users === 0) return [];
+
+    const buffer = await this.readWithBuffer(ZK_COMMANDS.USERTEMP_RRQ, FCT_USER);
+    return parseUserRecords(buffer, users);
+  }
+
+  async getAttendance(): Promise<ZKAttendanceRecord[]> {
+    const sizes = await this.getSizes();
+    if (sizes.records === 0) return [];
+
+    const users = await this.getUsers(sizes);
+    const buffer = await this.readWithBuffer(ZK_COMMANDS.ATTLOG_RRQ);
+    return parseAttendanceRecords(buffer, sizes.records, users);
+  }
+
+  async clearAttendance(): Promise<void> {
+    await this.expectOk(ZK_COMMANDS.CLEAR_ATTLOG, Buffer.alloc(0), "clear attendance logs");
+    await this.expectOk(ZK_COMMANDS.REFRESH_DATA, Buffer.alloc(0), "refresh data");
+  }
+
+  /**
+   * Reads a data set through the device's prepared buffer: small sets
+   * come back inline, larger ones are pulled in chunks and then freed
+   */
+  private async readWithBuffer(command: number, fct: number = 0, ext: number = 0): Promise<Buffer> {
+    const request = Buffer.alloc(11);
+    request.writeInt8(1, 0);
+    request.writeInt16LE(command, 1);
+    request.writeInt32LE(fct, 3);
+    request.writeInt32LE(ext, 7);
+
+    const response = await this.command(ZK_COMMANDS.PREPARE_BUFFER, request);
+
+    if (response.command === ZK_COMMANDS.DATA) {
+      return Buffer.from(response.data);
+    }
+    if (response.command !== ZK_COMMANDS.ACK_OK || response.data.length < 5) {
+      throw new Error(`ZKTeco device refused buffered read (response ${response.command})`);
+    }
+
+    const size = response.data.readUInt32LE(1);
+    const maxChunk = this.requireTransport().maxChunk;
+    const chunks: Buffer[] = [];
+
+    for (let start = 0; start < size; start += maxChunk) {
+      chunks.push(await this.readChunk(start, Math.min(maxChunk, size - start)));
+    }
+
+    await this.command(ZK_COMMANDS.FREE_DATA);
+    return Buffer.concat(chunks);
+  }
+
+  private async readChunk(start: number, size: number): Promise<Buffer> {
+    const request = Buffer.alloc(8);
+    request.writeInt32LE(start, 0);
+    request.writeInt32LE(size, 4);
+
+    const response = await this.command(ZK_COMMANDS.READ_BUFFER, request);
+
+    if (response.command === ZK_COMMANDS.DATA) {
+      return Buffer.from(response.data);
+    }
+    if (response.command !== ZK_COMMANDS.PREPARE_DATA) {
+      throw new Error(`Unexpected ZKTeco response ${response.command} while reading data`);
+    }
+
+    // Device announces the size, streams CMD_DATA packets, then ACKs
+    const expected = response.data.readUInt32LE(0);
+    const parts: Buffer[] = [];
+    let received = 0;
+    const transport = this.requireTransport();
+
+    while (received < expected) {
+      const packet = parsePacket(await transport.receive(this.timeoutMs));
+      if (packet.command !== ZK_COMMANDS.DATA) {
+        throw new Error(`Unexpected ZKTeco response ${packet.command} in data stream`);
+      }
+      parts.push(Buffer.from(packet.data));
+      received += packet.data.length;
+    }
+
+    const ack = parsePacket(await transport.receive(this.timeoutMs));
+    if (ack.command !== ZK_COMMANDS.ACK_OK) {
+      throw new Error(`ZKTeco data stream not acknowledged (response ${ack.command})`);
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  private async expectOk(command: number, data: Buffer, description: string): Promise<void> {
+    const response = await this.command(command, data);
+    if (response.command !== ZK_COMMANDS.ACK_OK) {
+      throw new Error(`ZKTeco device failed to ${description} (response ${response.command})`);
+    }
+  }
+
+  private requireTransport(): ZKTransport {
+    if (!this.transport) {
+      throw new Error("ZKTeco client is not connected");
+    }
+    return this.transport;
+  }
+}
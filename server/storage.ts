@@ -36,6 +36,11 @@ export class MemStorage implements IStorage {
       id,
       createdAt: new Date(),
       isActive: insertUser.isActive ?? true,
+      mustChangePassword: false,
+      passwordChangedAt: null,
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
     };
     this.users.set(id, user);
     return user;
@@ -1,16 +1,15 @@
 import { WebSocketServer, WebSocket } from "ws";
 import { type Server } from "http";
-import jwt from "jsonwebtoken";
 import { db } from "./db";
 import { users, projects, tasks } from "@shared/schema";
 import { eq } from "drizzle-orm";
-
-// Use the same JWT secret as the REST API for consistency
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-in-production";
+import { verifyToken } from "./middleware/auth";
+import { sessionService } from "./services/sessions";
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   userRole?: string;
+  sessionId?: string;
   isAlive?: boolean;
 }
 
@@ -46,11 +45,19 @@ export class WebSocketService {
       }
 
       try {
-        // Verify JWT token using the same secret as REST API
-        const decoded = jwt.verify(token, JWT_SECRET) as {
-          userId: string;
-          role: string;
-        };
+        // Verify the access token and that its session has not been revoked
+        const decoded = verifyToken(token);
+        if (!decoded && verifyToken(token, { ignoreExpiration: true })) {
+          // Not an auth failure: the client reconnects once it has refreshed its token
+          console.log("WebSocket connection rejected: Access token expired");
+          ws.close(4001, "Token expired");
+          return;
+        }
+        if (!decoded || !await sessionService.validateSession(decoded.sessionId, decoded.userId)) {
+          console.log("WebSocket connection rejected: Invalid token or revoked session");
+          ws.close(1008, "Authentication failed");
+          return;
+        }
 
         // Verify user exists
         const [user] = await db.select().from(users).where(eq(users.id, decoded.userId)).limit(1);
@@ -62,6 +69,7 @@ export class WebSocketService {
 
         ws.userId = decoded.userId;
         ws.userRole = decoded.role;
+        ws.sessionId = decoded.sessionId;
         ws.isAlive = true;
 
         // Track user connection for notification broadcasting
@@ -355,6 +363,49 @@ export class WebSocketService {
     console.log(`Broadcasted notification to ${sentCount} connections for user ${userId}`);
   }
 
+  // Push any other typed event to a user's open connections (e.g. bulk email progress)
+  public sendToUser(userId: string, type: string, data: Record<string, unknown>) {
+    const userSockets = this.userConnections.get(userId);
+    if (!userSockets || userSockets.size === 0) return;
+
+    const payload = JSON.stringify({ type, ...data });
+    userSockets.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    });
+  }
+
+  // Push a typed event to everyone subscribed to a project (e.g. new task comments)
+  public sendToProject(projectId: string, type: string, data: Record<string, unknown>) {
+    const subscribers = this.projectSubscriptions.get(projectId);
+    if (!subscribers || subscribers.size === 0) return;
+
+    const payload = JSON.stringify({ type, projectId, ...data });
+    subscribers.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    });
+  }
+
+  // Close live connections of revoked sessions (logout, deactivation, deletion)
+  public disconnectSessions(sessionIds: string[]) {
+    if (!this.wss || sessionIds.length === 0) return;
+
+    let closedCount = 0;
+    this.wss.clients.forEach((ws: AuthenticatedWebSocket) => {
+      if (ws.sessionId && sessionIds.includes(ws.sessionId)) {
+        ws.close(1008, "Session revoked");
+        closedCount++;
+      }
+    });
+
+    if (closedCount > 0) {
+      console.log(`Closed ${closedCount} WebSocket connection(s) for revoked sessions`);
+    }
+  }
+
   private startHeartbeat() {
     // Ping clients every 30 seconds
     this.heartbeatInterval = setInterval(() => {
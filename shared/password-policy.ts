@@ -0,0 +1,47 @@
+/**
+ * Password Policy
+ *
+ * Strength rules shared by the server (enforced on every password change)
+ * and the client forms (shown before submitting). Reuse of recent passwords
+ * can only be checked server-side against the stored history.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Number of previous passwords (including the current one) that cannot be reused
+ */
+export const PASSWORD_HISTORY_SIZE = 5;
+
+export const PASSWORD_REQUIREMENTS = [
+  `At least ${PASSWORD_MIN_LENGTH} characters`,
+  "At least one letter and one number",
+  "Must not contain your email name",
+  `Must differ from your last ${PASSWORD_HISTORY_SIZE} passwords`,
+];
+
+/**
+ * Check a candidate password against the strength rules
+ * @returns A list of problems; empty when the password is acceptable
+ */
+export function validatePasswordStrength(password: string, context: { email?: string } = {}): string[] {
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    errors.push("Password must contain at least one letter and one number");
+  }
+
+  const emailName = context.email?.split("@")[0]?.toLowerCase();
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    errors.push("Password must not contain your email name");
+  }
+
+  return errors;
+}
@@ -0,0 +1,156 @@
+// Role permission model shared by the server and the Team/roles UI.
+// Dynamic roles store a map of resource id -> allowed actions in roles.permissions,
+// e.g. { finance: ["view", "export"], leads: ["view", "create", "update"] }.
+// Roles created before actions existed store a plain array of resource ids,
+// which is read as "every action on those resources".
+
+export const PERMISSION_ACTIONS = ["view", "create", "update", "delete", "export", "approve"] as const;
+
+export type PermissionAction = typeof PERMISSION_ACTIONS[number];
+
+export type RolePermissions = Record<string, PermissionAction[]>;
+
+export const PERMISSION_ACTION_LABELS: Record<PermissionAction, string> = {
+  view: "View",
+  create: "Create",
+  update: "Update",
+  delete: "Delete",
+  export: "Export",
+  approve: "Approve",
+};
+
+export interface PermissionResource {
+  id: string;
+  name: string;
+  paths: string[];
+  actions: readonly PermissionAction[];
+}
+
+export const RESOURCES: PermissionResource[] = [
+  { id: 'leads', name: 'Leads', paths: ['/api/leads', '/api/lead-folders', '/api/lead-categories', '/api/email-sequences', '/api/bulk-email-jobs', '/api/email-suppressions', '/api/lead-stages', '/api/lead-scoring-rules', '/api/lead-duplicates', '/api/lead-assignment-rules'], actions: ["view", "create", "update", "delete", "export"] },
+  { id: 'clients', name: 'Clients', paths: ['/api/clients'], actions: ["view", "create", "update", "delete"] },
+  { id: 'projects', name: 'Projects & Tasks', paths: ['/api/projects', '/api/tasks', '/api/files', '/api/dashboard', '/api/time-entries', '/api/timesheets', '/api/milestones', '/api/project-templates'], actions: ["view", "create", "update", "delete", "approve"] },
+  { id: 'finance', name: 'Finance', paths: ['/api/income', '/api/expenses', '/api/expense-categories', '/api/invoices', '/api/payments', '/api/payment-receipt', '/api/profit-loss', '/api/general-ledger', '/api/financial-reports'], actions: PERMISSION_ACTIONS },
+  { id: 'hr', name: 'HR & Payroll', paths: ['/api/employees', '/api/attendance', '/api/device-logs', '/api/departments', '/api/designations', '/api/hr-settings', '/api/hr-attendance-report', '/api/payroll', '/api/leave', '/api/punch-corrections', '/api/salary', '/api/performance'], actions: PERMISSION_ACTIONS },
+  { id: 'communication', name: 'Communication', paths: ['/api/messages', '/api/chat'], actions: ["view", "create", "delete"] },
+  { id: 'project-credentials', name: 'Project Credentials', paths: ['/api/project-credentials'], actions: ["view", "create", "update", "delete"] },
+  { id: 'templates', name: 'Email Templates', paths: ['/api/email-templates'], actions: ["view", "create", "update", "delete"] },
+  { id: 'settings', name: 'Settings', paths: ['/api/office-settings', '/api/audit-logs'], actions: ["view", "update", "export"] },
+  { id: 'users', name: 'User Management', paths: ['/api/users', '/api/roles'], actions: ["view", "create", "update", "delete"] },
+];
+
+// Routes that approve or reject something rather than plainly creating/updating it
+const APPROVAL_PATHS = [
+  /\/approve$/,
+  /\/reject$/,
+  /^\/api\/payroll\/[^/]+\/status$/,
+];
+
+export function findResourceForPath(path: string): PermissionResource | undefined {
+  return RESOURCES.find(r => r.paths.some(p => path.startsWith(p)));
+}
+
+/**
+ * Work out which action a request performs from its method and path
+ */
+export function resolveAction(method: string, path: string): PermissionAction {
+  if (APPROVAL_PATHS.some(pattern => pattern.test(path))) return "approve";
+  if (/\/export(-|\/|$)/.test(path)) return "export";
+
+  switch (method.toUpperCase()) {
+    case "POST":
+      return "create";
+    case "PUT":
+    case "PATCH":
+      return "update";
+    case "DELETE":
+      return "delete";
+    default:
+      return "view";
+  }
+}
+
+/**
+ * Read roles.permissions in either the legacy array form or the action map form
+ */
+export function normalizePermissions(raw: unknown): RolePermissions {
+  const permissions: RolePermissions = {};
+
+  if (Array.isArray(raw)) {
+    for (const resourceId of raw) {
+      if (typeof resourceId === "string") {
+        permissions[resourceId] = [...PERMISSION_ACTIONS];
+      }
+    }
+    return permissions;
+  }
+
+  if (raw && typeof raw === "object") {
+    for (const [resourceId, actions] of Object.entries(raw as Record<string, unknown>)) {
+      if (!Array.isArray(actions)) continue;
+      const valid = PERMISSION_ACTIONS.filter(action => actions.includes(action));
+      if (valid.length > 0) {
+        permissions[resourceId] = valid;
+      }
+    }
+  }
+
+  return permissions;
+}
+
+export function hasPermission(raw: unknown, resourceId: string, action: PermissionAction): boolean {
+  return normalizePermissions(raw)[resourceId]?.includes(action) ?? false;
+}
+
+// Row-level scoping: which records of a resource a role sees in list views.
+// Stored per role in roles.scopes, e.g. { leads: "own", "leave-requests": "department" }.
+export const DATA_SCOPES = ["own", "department", "all"] as const;
+
+export type DataScope = typeof DATA_SCOPES[number];
+
+export type RoleScopes = Partial<Record<ScopedResourceId, DataScope>>;
+
+export const DATA_SCOPE_LABELS: Record<DataScope, string> = {
+  own: "Own records",
+  department: "Own department",
+  all: "All records",
+};
+
+export interface ScopedResource {
+  id: string;
+  name: string;
+  // Scope applied to dynamic roles that have not configured one
+  defaultScope: DataScope;
+}
+
+export const SCOPED_RESOURCES = [
+  { id: "leads", name: "Leads", defaultScope: "all" },
+  { id: "tasks", name: "Tasks", defaultScope: "all" },
+  { id: "attendance", name: "Attendance", defaultScope: "own" },
+  { id: "leave-requests", name: "Leave Requests", defaultScope: "own" },
+  { id: "payroll", name: "Payroll", defaultScope: "all" },
+] as const satisfies readonly ScopedResource[];
+
+export type ScopedResourceId = typeof SCOPED_RESOURCES[number]["id"];
+
+/**
+ * Read roles.scopes, dropping unknown resources and scope values
+ */
+export function normalizeScopes(raw: unknown): RoleScopes {
+  const scopes: RoleScopes = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return scopes;
+
+  for (const resource of SCOPED_RESOURCES) {
+    const value = (raw as Record<string, unknown>)[resource.id];
+    if (DATA_SCOPES.includes(value as DataScope)) {
+      scopes[resource.id] = value as DataScope;
+    }
+  }
+
+  return scopes;
+}
+
+export function getDataScope(raw: unknown, resourceId: ScopedResourceId): DataScope {
+  const resource = SCOPED_RESOURCES.find(r => r.id === resourceId)!;
+  return normalizeScopes(raw)[resourceId] ?? resource.defaultScope;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, jsonb, date, boolean } from "drizzle-orm/pg-core";
+import { pgTable, pgSequence, text, varchar, timestamp, integer, decimal, real, jsonb, date, boolean, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { DATE_ONLY_REGEX, parseOptionalDate, parseRequiredDate } from "./date-utils";
@@ -26,6 +26,58 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("developer"),
   clientId: varchar("client_id").references(() => clients.id),
   isActive: boolean("is_active").default(true).notNull(),
+  mustChangePassword: boolean("must_change_password").default(false).notNull(),
+  passwordChangedAt: timestamp("password_changed_at"),
+  // Brute-force protection: consecutive failed logins and temporary lockout
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Login sessions backing rotating refresh tokens; one row per signed-in device
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  rotatedAt: timestamp("rotated_at"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// TOTP two-factor settings, kept apart from users so secrets never ride along with user rows
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  secret: text("secret"), // Base32 TOTP secret, set once enrollment is confirmed
+  pendingSecret: text("pending_secret"), // Secret awaiting its first valid code
+  recoveryCodeHashes: jsonb("recovery_code_hashes").default([]).notNull(),
+  lastUsedStep: integer("last_used_step"), // Last accepted TOTP time step, blocks code replay
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use "forgot password" links; only the token hash is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Previous password hashes, checked to block reuse
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  passwordHash: text("password_hash").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -42,6 +94,8 @@ export const roles = pgTable("roles", {
   name: text("name").notNull().unique(),
   description: text("description"),
   permissions: jsonb("permissions").default([]),
+  scopes: jsonb("scopes").default({}),
+  requireTwoFactor: boolean("require_two_factor").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -69,9 +123,54 @@ export const leads = pgTable("leads", {
   followUpDate: timestamp("follow_up_date"),
   lastFollowUpReminderAt: timestamp("last_follow_up_reminder_at"),
   notes: text("notes"),
+  // Google rating and review count from the Smart Lead Finder, used for scoring
+  rating: real("rating"),
+  reviewCount: integer("review_count"),
+  // Computed by the scoring rules; see server/services/leadScoring.ts
+  score: integer("score").notNull().default(0),
+  scoredAt: timestamp("scored_at"),
+  // Set when the lead was converted; its email history stays visible from the client
+  convertedClientId: varchar("converted_client_id").references(() => clients.id, { onDelete: "set null" }),
+  convertedAt: timestamp("converted_at"),
+  // The automatic assignment rule that picked assignedTo; cleared on manual reassignment
+  assignmentRuleId: varchar("assignment_rule_id").references(() => leadAssignmentRules.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Each rule adds its points (negative to subtract) when it matches a lead.
+// value is the category/source name, or the threshold for the numeric rules.
+export const LEAD_SCORING_RULE_TYPES = [
+  "has_website",
+  "has_email",
+  "has_phone",
+  "category",
+  "source",
+  "min_rating",
+  "min_reviews",
+  "min_email_opens",
+  "days_since_contact",
+] as const;
+
+export const leadScoringRules = pgTable("lead_scoring_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  value: text("value"),
+  points: integer("points").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const DEFAULT_LEAD_SCORING_RULES: { name: string; type: typeof LEAD_SCORING_RULE_TYPES[number]; value: string | null; points: number }[] = [
+  { name: "Has a website", type: "has_website", value: null, points: 10 },
+  { name: "Has an email address", type: "has_email", value: null, points: 15 },
+  { name: "Has a phone number", type: "has_phone", value: null, points: 5 },
+  { name: "Rated 4 stars or more", type: "min_rating", value: "4", points: 10 },
+  { name: "50+ reviews", type: "min_reviews", value: "50", points: 10 },
+  { name: "Opened an email", type: "min_email_opens", value: "1", points: 20 },
+  { name: "No contact for 30 days", type: "days_since_contact", value: "30", points: -10 },
+];
+
 export const LEAD_EMAIL_TEMPLATES = [
   "service_introduction",
   "company_profile",
@@ -81,13 +180,61 @@ export const LEAD_EMAIL_TEMPLATES = [
 
 export const leadEmails = pgTable("lead_emails", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  leadId: varchar("lead_id").references(() => leads.id).notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
   templateName: text("template_name").notNull(),
+  // Set when a saved email_templates row was used (templateName is then "custom")
+  templateId: varchar("template_id").references(() => emailTemplates.id),
   subject: text("subject").notNull(),
   status: text("status").notNull().default("pending"),
   sentBy: varchar("sent_by").references(() => users.id).notNull(),
   sentAt: timestamp("sent_at"),
   errorMessage: text("error_message"),
+  // Open/click tracking; individual hits are in lead_email_events
+  openCount: integer("open_count").notNull().default(0),
+  clickCount: integer("click_count").notNull().default(0),
+  firstOpenedAt: timestamp("first_opened_at"),
+  firstClickedAt: timestamp("first_clicked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const LEAD_EMAIL_EVENT_TYPES = ["open", "click"] as const;
+
+export const leadEmailEvents = pgTable("lead_email_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadEmailId: varchar("lead_email_id").references(() => leadEmails.id, { onDelete: "cascade" }).notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(),
+  url: text("url"), // clicks only
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Candidate duplicate pairs a user marked as distinct leads, hidden from the review queue
+export const leadDuplicateDismissals = pgTable("lead_duplicate_dismissals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pairKey: text("pair_key").notNull().unique(), // "<lower id>:<higher id>"
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  otherLeadId: varchar("other_lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  dismissedBy: varchar("dismissed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Rules are tried in priority order when leads are created; the first one that
+// matches the lead and has a user under capacity assigns it, round-robin in its pool.
+export const LEAD_ASSIGNMENT_MATCH_TYPES = ["any", "category", "source"] as const;
+
+export const leadAssignmentRules = pgTable("lead_assignment_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  matchType: text("match_type").notNull().default("any"),
+  matchValue: text("match_value"), // category or source name
+  userIds: jsonb("user_ids").$type<string[]>().default([]).notNull(),
+  // Most open leads a user may hold before the rule skips them; null is unlimited
+  maxOpenLeads: integer("max_open_leads"),
+  priority: integer("priority").notNull().default(0),
+  lastAssignedUserId: varchar("last_assigned_user_id").references(() => users.id, { onDelete: "set null" }),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -117,15 +264,151 @@ export const leadCategories = pgTable("lead_categories", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Admin-defined sales pipeline; leads.status holds the stage key
+export const LEAD_STAGE_OUTCOMES = ["open", "won", "lost"] as const;
+
+export const DEFAULT_LEAD_STAGES = [
+  { key: "new", name: "New", color: "#3b82f6", probability: 10, outcome: "open" },
+  { key: "contacted", name: "Contacted", color: "#eab308", probability: 20, outcome: "open" },
+  { key: "replied", name: "Replied", color: "#14b8a6", probability: 30, outcome: "open" },
+  { key: "qualified", name: "Qualified", color: "#22c55e", probability: 50, outcome: "open" },
+  { key: "converted", name: "Converted", color: "#a855f7", probability: 100, outcome: "won" },
+  { key: "lost", name: "Lost", color: "#6b7280", probability: 0, outcome: "lost" },
+] as const;
+
+export const leadStages = pgTable("lead_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(), // fixed once created; stored in leads.status
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6366f1"),
+  probability: integer("probability").notNull().default(0), // chance of winning, in percent
+  // Won and lost stages close the lead: no follow-up reminders or sequence emails
+  outcome: text("outcome").notNull().default("open"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per stage change, for time-in-stage reporting
+export const leadStageHistory = pgTable("lead_stage_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  fromStage: text("from_stage"),
+  toStage: text("to_stage").notNull(),
+  // Time spent in fromStage, measured from the previous change or lead creation
+  secondsInPreviousStage: integer("seconds_in_previous_stage"),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }), // null for automatic changes
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+export const LEAD_MESSAGE_DIRECTIONS = ["outbound", "inbound"] as const;
+
 export const leadMessageHistory = pgTable("lead_message_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  leadId: varchar("lead_id").references(() => leads.id).notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  // Inbound rows are replies captured from the IMAP mailbox
+  direction: text("direction").notNull().default("outbound"),
   subject: text("subject").notNull(),
   message: text("message").notNull(),
   status: text("status").notNull().default("sent"),
-  sentBy: varchar("sent_by").references(() => users.id).notNull(),
+  sentBy: varchar("sent_by").references(() => users.id, { onDelete: "set null" }), // null for inbound replies
+  fromAddress: text("from_address"),
+  externalMessageId: text("external_message_id").unique(),
   sentAt: timestamp("sent_at").defaultNow().notNull(),
   errorMessage: text("error_message"),
+  // The lead_emails row carrying this message's open/click tracking
+  leadEmailId: varchar("lead_email_id").references(() => leadEmails.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Drip campaigns: ordered template steps sent to enrolled leads over several days
+export const emailSequences = pgTable("email_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(true).notNull(),
+  // Leads in this folder or category are enrolled automatically
+  enrollFolderId: varchar("enroll_folder_id").references(() => leadFolders.id),
+  enrollCategory: text("enroll_category"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const emailSequenceSteps = pgTable("email_sequence_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequenceId: varchar("sequence_id").references(() => emailSequences.id).notNull(),
+  stepOrder: integer("step_order").notNull(),
+  // Days after enrollment, e.g. 0 = immediately, 3 = on day three
+  delayDays: integer("delay_days").notNull().default(0),
+  // A LEAD_EMAIL_TEMPLATES name or an email_templates id
+  templateName: text("template_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const SEQUENCE_ENROLLMENT_STATUSES = ["active", "completed", "exited"] as const;
+
+export const emailSequenceEnrollments = pgTable("email_sequence_enrollments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequenceId: varchar("sequence_id").references(() => emailSequences.id).notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").notNull().default("active"),
+  // Number of steps already sent, including skipped ones
+  stepsSent: integer("steps_sent").notNull().default(0),
+  nextSendAt: timestamp("next_send_at"),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  // The lead_emails row of the step being attempted, reused when it is retried
+  stepLeadEmailId: varchar("step_lead_email_id").references(() => leadEmails.id, { onDelete: "set null" }),
+  // Steps given up after repeated failures, and why the last one failed
+  skippedSteps: integer("skipped_steps").notNull().default(0),
+  lastError: text("last_error"),
+  exitReason: text("exit_reason"),
+  enrolledBy: varchar("enrolled_by").references(() => users.id, { onDelete: "set null" }), // null when enrolled automatically
+  enrolledAt: timestamp("enrolled_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Bulk sends are queued and worked off in the background at a throttled rate
+export const BULK_EMAIL_JOB_STATUSES = ["queued", "running", "paused", "cancelled", "completed"] as const;
+export const BULK_EMAIL_RECIPIENT_STATUSES = ["pending", "sent", "failed", "skipped", "cancelled"] as const;
+
+export const bulkEmailJobs = pgTable("bulk_email_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subject: text("subject").notNull(),
+  message: text("message").notNull(),
+  attachments: jsonb("attachments").default([]),
+  status: text("status").notNull().default("queued"),
+  totalRecipients: integer("total_recipients").notNull().default(0),
+  sentCount: integer("sent_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const bulkEmailRecipients = pgTable("bulk_email_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").references(() => bulkEmailJobs.id).notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }).notNull(),
+  email: text("email"),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  // Retries of transient SMTP errors wait until this time
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastError: text("last_error"),
+  leadEmailId: varchar("lead_email_id").references(() => leadEmails.id, { onDelete: "set null" }),
+  sentAt: timestamp("sent_at"),
+});
+
+// Addresses that lead emails must never go to again
+export const EMAIL_SUPPRESSION_REASONS = ["unsubscribe", "hard_bounce", "manual"] as const;
+
+export const emailSuppressions = pgTable("email_suppressions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(), // stored lowercase
+  reason: text("reason").notNull(),
+  note: text("note"), // bounce response or why it was added manually
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // null for unsubscribes and bounces
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -135,6 +418,7 @@ export const clients = pgTable("clients", {
   email: text("email").notNull(),
   phone: text("phone"),
   company: text("company"),
+  website: text("website"),
   whatsapp: text("whatsapp"),
   address: text("address"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -147,22 +431,160 @@ export const projects = pgTable("projects", {
   description: text("description"),
   status: text("status").notNull().default("planning"),
   budget: decimal("budget", { precision: 10, scale: 2 }),
+  // Billing rate for tracked hours on this project
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
   deadline: timestamp("deadline"),
+  // Percentage of tasks done; recomputed whenever the project's tasks change
   progress: integer("progress").default(0),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const TASK_RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+
+export type TaskChecklistItem = { text: string; done: boolean };
+
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id).notNull(),
+  // Subtasks belong to a parent task in the same project
+  parentTaskId: varchar("parent_task_id").references((): AnyPgColumn => tasks.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description"),
   assignedTo: varchar("assigned_to").references(() => users.id),
   status: text("status").notNull().default("todo"),
   priority: text("priority").notNull().default("medium"),
+  startDate: timestamp("start_date"),
   deadline: timestamp("deadline"),
-  checklist: jsonb("checklist").default([]),
+  checklist: jsonb("checklist").$type<TaskChecklistItem[]>().default([]),
+  estimatedHours: decimal("estimated_hours", { precision: 6, scale: 2 }),
+  // A recurring task is a series: the scheduler copies it every recurrenceInterval
+  // days/weeks/months until recurrenceEndDate. Copies point back via recurrenceSourceId.
+  recurrence: text("recurrence"),
+  recurrenceInterval: integer("recurrence_interval").notNull().default(1),
+  recurrenceEndDate: timestamp("recurrence_end_date"),
+  nextOccurrenceAt: timestamp("next_occurrence_at"),
+  recurrenceSourceId: varchar("recurrence_source_id").references((): AnyPgColumn => tasks.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A task in a project template; offsets are days from the project's start date
+export type ProjectTemplateTask = {
+  title: string;
+  description?: string | null;
+  priority: string;
+  startOffsetDays?: number | null;
+  deadlineOffsetDays?: number | null;
+  estimatedHours?: number | null;
+  checklist: string[];
+  recurrence?: typeof TASK_RECURRENCE_FREQUENCIES[number] | null;
+  recurrenceInterval?: number;
+};
+
+// Reusable task lists for repeat work such as monthly maintenance
+export const projectTemplates = pgTable("project_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  // Project length in days; sets the new project's deadline
+  durationDays: integer("duration_days"),
+  tasks: jsonb("tasks").$type<ProjectTemplateTask[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Finish-to-start: taskId cannot start until dependsOnTaskId is done.
+// Both tasks are in the same project and the dependencies never form a cycle.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  dependsOnTaskId: varchar("depends_on_task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  taskDependsOnUnique: unique("task_dependencies_task_depends_on_unique").on(table.taskId, table.dependsOnTaskId),
+}));
+
+// Discussion on a task. Replies point at the first comment of their thread.
+export const taskComments = pgTable("task_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  parentCommentId: varchar("parent_comment_id").references((): AnyPgColumn => taskComments.id, { onDelete: "cascade" }),
+  // Null once the author is deleted, so their threads and others' replies stay
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  content: text("content").notNull(),
+  // Users @mentioned in the content, notified when the comment is posted
+  mentions: jsonb("mentions").$type<string[]>().notNull().default([]),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const TASK_ACTIVITY_TYPES = ["created", "status", "assigned", "checklist"] as const;
+
+// Changes to a task shown in its activity feed alongside the comments
+export const taskActivities = pgTable("task_activities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  type: text("type").notNull(),
+  // Old and new value, e.g. { from: "todo", to: "in-progress" }, or the checklist item and whether it was ticked
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Effort logged against a task, by timer or by hand. A running timer has no
+// endedAt; minutes is filled in when it stops.
+export const timeEntries = pgTable("time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  minutes: integer("minutes").notNull().default(0),
+  description: text("description"),
+  billable: boolean("billable").notNull().default(true),
+  // Set once the entry is billed so it is not invoiced twice
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// draft -> submitted -> approved, or back to rejected for changes.
+// Entries in a submitted or approved week can no longer be changed.
+export const TIMESHEET_STATUSES = ["draft", "submitted", "approved", "rejected"] as const;
+
+export const timesheets = pgTable("timesheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  weekStart: date("week_start").notNull(), // Monday
+  status: text("status").notNull().default("draft"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userWeekUnique: unique("timesheets_user_week_unique").on(table.userId, table.weekStart),
+}));
+
+// Fixed-price billing points of a project. Staff submit a milestone when its
+// deliverables are ready; the client approves it or asks for changes, and an
+// approved milestone can be invoiced once (invoiceId).
+export const MILESTONE_STATUSES = ["pending", "submitted", "approved", "changes_requested"] as const;
+
+export const projectMilestones = pgTable("project_milestones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  deliverables: jsonb("deliverables").$type<string[]>().notNull().default([]),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  dueDate: timestamp("due_date"),
+  status: text("status").notNull().default("pending"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  clientNote: text("client_note"),
+  invoiceId: varchar("invoice_id").references((): AnyPgColumn => invoices.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -223,6 +645,9 @@ export const expenses = pgTable("expenses", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Numbers invoices created by the server (milestones, lead conversion) without collisions
+export const invoiceNumberSequence = pgSequence("invoice_number_seq", { startWith: 1 });
+
 export const invoices = pgTable("invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientId: varchar("client_id").references(() => clients.id).notNull(),
@@ -259,12 +684,17 @@ export const expenseCategories = pgTable("expense_categories", {
 
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id),
+  // No foreign key: the user id is hashed into the chain, so it must outlive deleted users
+  userId: varchar("user_id"),
   action: text("action").notNull(),
   resourceType: text("resource_type").notNull(),
   resourceId: varchar("resource_id"),
   details: jsonb("details"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Tamper-evident hash chain; rows written before the chain existed have no sequence
+  sequence: integer("sequence").unique(),
+  previousHash: text("previous_hash"),
+  hash: text("hash"),
 });
 
 export const notifications = pgTable("notifications", {
@@ -340,6 +770,7 @@ export const attendanceDevices = pgTable("attendance_devices", {
   apiEndpoint: text("api_endpoint"),
   apiKey: text("api_key"),
   apiUrl: text("api_url"),
+  serialNumber: text("serial_number").unique(), // Matched against the SN sent by ADMS push devices
   status: text("status").notNull().default("active"),
   isActive: boolean("is_active").notNull().default(true),
   lastSyncAt: timestamp("last_sync_at"),
@@ -525,10 +956,20 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   role: true, // Role cannot be set during public registration - defaults to developer
   clientId: true, // ClientId cannot be set during public registration
+  mustChangePassword: true,
+  passwordChangedAt: true,
+  failedLoginAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
 });
 
 export const insertLeadSchema = createInsertSchema(leads).omit({
   id: true,
+  score: true,
+  scoredAt: true,
+  convertedClientId: true,
+  convertedAt: true,
+  assignmentRuleId: true,
   createdAt: true,
 }).extend({
   folderId: z.preprocess(
@@ -554,6 +995,10 @@ export const insertLeadEmailSchema = createInsertSchema(leadEmails).omit({
   sentAt: true,
   errorMessage: true,
   status: true,
+  openCount: true,
+  clickCount: true,
+  firstOpenedAt: true,
+  firstClickedAt: true,
 });
 
 export const insertLeadCategorySchema = createInsertSchema(leadCategories).omit({
@@ -561,6 +1006,82 @@ export const insertLeadCategorySchema = createInsertSchema(leadCategories).omit(
   createdAt: true,
 });
 
+export const insertLeadStageSchema = createInsertSchema(leadStages).omit({
+  id: true,
+  key: true,
+  sortOrder: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Stage name is required"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #3b82f6").optional(),
+  probability: z.coerce.number().int().min(0).max(100).optional(),
+  outcome: z.enum(LEAD_STAGE_OUTCOMES).optional(),
+});
+
+// Numeric rule types need a number, category/source a name; the presence checks take no value
+const NUMERIC_RULE_TYPES: string[] = ["min_rating", "min_reviews", "min_email_opens", "days_since_contact"];
+
+export const insertLeadScoringRuleSchema = createInsertSchema(leadScoringRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Rule name is required"),
+  type: z.enum(LEAD_SCORING_RULE_TYPES),
+  value: z.string().trim().nullable().optional(),
+  points: z.coerce.number().int().min(-100).max(100),
+}).superRefine((rule, ctx) => {
+  if (NUMERIC_RULE_TYPES.includes(rule.type) && (!rule.value || isNaN(Number(rule.value)))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "A numeric threshold is required" });
+  }
+  if ((rule.type === "category" || rule.type === "source") && !rule.value) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `A ${rule.type} is required` });
+  }
+});
+
+export const insertLeadAssignmentRuleSchema = createInsertSchema(leadAssignmentRules).omit({
+  id: true,
+  lastAssignedUserId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Rule name is required"),
+  matchType: z.enum(LEAD_ASSIGNMENT_MATCH_TYPES),
+  matchValue: z.string().trim().nullable().optional(),
+  userIds: z.array(z.string().min(1)).min(1, "Pick at least one user"),
+  maxOpenLeads: z.coerce.number().int().min(1).nullable().optional(),
+  priority: z.coerce.number().int().optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.matchType !== "any" && !rule.matchValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["matchValue"], message: `A ${rule.matchType} is required` });
+  }
+});
+
+export const LEAD_MERGE_FIELDS = [
+  "name",
+  "email",
+  "phone",
+  "website",
+  "category",
+  "source",
+  "assignedTo",
+  "folderId",
+  "followUpDate",
+] as const;
+
+// prefer picks the duplicate's value for a field; other fields keep the survivor's unless it is empty
+export const leadMergeSchema = z.object({
+  survivorId: z.string().min(1),
+  duplicateId: z.string().min(1),
+  prefer: z.record(z.enum(LEAD_MERGE_FIELDS), z.enum(["survivor", "duplicate"])).optional(),
+}).refine((data) => data.survivorId !== data.duplicateId, { message: "Cannot merge a lead into itself" });
+
+export const leadDuplicateDismissSchema = z.object({
+  leadIds: z.tuple([z.string().min(1), z.string().min(1)]),
+});
+
+export const leadStageOrderSchema = z.object({
+  ids: z.array(z.string()).min(1, "No stages given"),
+});
+
 export const insertLeadMessageHistorySchema = createInsertSchema(leadMessageHistory).omit({
   id: true,
   createdAt: true,
@@ -580,6 +1101,31 @@ export const bulkEmailSchema = z.object({
   })).optional().default([]),
 });
 
+export const emailSequenceStepInputSchema = z.object({
+  delayDays: z.coerce.number().int().min(0, "Delay cannot be negative").max(365),
+  templateName: z.string().min(1, "Template is required"),
+});
+
+export const insertEmailSequenceSchema = createInsertSchema(emailSequences).omit({
+  id: true,
+  createdAt: true,
+  createdBy: true,
+}).extend({
+  enrollFolderId: z.string().nullable().optional(),
+  enrollCategory: z.string().nullable().optional(),
+  steps: z.array(emailSequenceStepInputSchema).min(1, "Add at least one step"),
+});
+
+export const insertEmailSuppressionSchema = createInsertSchema(emailSuppressions).omit({
+  id: true,
+  createdAt: true,
+  createdBy: true,
+}).extend({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  reason: z.enum(EMAIL_SUPPRESSION_REASONS).default("manual"),
+  note: z.string().nullable().optional(),
+});
+
 export const insertClientSchema = createInsertSchema(clients).omit({
   id: true,
   createdAt: true,
@@ -592,8 +1138,13 @@ export const insertClientSchema = createInsertSchema(clients).omit({
 
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
+  progress: true,
   createdAt: true,
 }).extend({
+  hourlyRate: z.preprocess(
+    (val) => val === "" ? null : val,
+    z.coerce.string().nullable().optional()
+  ),
   deadline: z.preprocess(
     (val) => val === "" ? undefined : val,
     z.union([
@@ -603,10 +1154,37 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   ),
 });
 
+const taskChecklistSchema = z.array(z.object({
+  text: z.string().trim().min(1),
+  done: z.boolean().default(false),
+}));
+
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
+  nextOccurrenceAt: true,
+  recurrenceSourceId: true,
   createdAt: true,
 }).extend({
+  checklist: taskChecklistSchema.optional(),
+  recurrence: z.preprocess(
+    (val) => val === "" ? null : val,
+    z.enum(TASK_RECURRENCE_FREQUENCIES).nullable().optional()
+  ),
+  recurrenceInterval: z.coerce.number().int().min(1, "Repeat at least every 1").max(365).optional(),
+  recurrenceEndDate: z.preprocess(
+    (val) => val === "" ? null : val,
+    z.union([
+      z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD"),
+      z.date()
+    ]).nullable().optional().transform(parseOptionalDate)
+  ),
+  startDate: z.preprocess(
+    (val) => val === "" ? undefined : val,
+    z.union([
+      z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD"),
+      z.date()
+    ]).nullable().optional().transform(parseOptionalDate)
+  ),
   deadline: z.preprocess(
     (val) => val === "" ? undefined : val,
     z.union([
@@ -614,10 +1192,100 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
       z.date()
     ]).optional().transform(parseOptionalDate)
   ),
+  parentTaskId: z.preprocess(
+    (val) => val === "" ? null : val,
+    z.string().nullable().optional()
+  ),
   assignedTo: z.preprocess(
     (val) => val === "" ? undefined : val,
     z.string().optional()
   ),
+  estimatedHours: z.preprocess(
+    (val) => val === "" ? null : val,
+    z.coerce.string().nullable().optional()
+  ),
+});
+
+// Time logged by hand: hours on a day rather than a start and stop
+export const manualTimeEntrySchema = z.object({
+  date: z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD"),
+  hours: z.coerce.number().positive("Hours must be positive").max(24, "Cannot log more than 24 hours in a day"),
+  description: z.string().trim().nullable().optional(),
+  billable: z.boolean().optional(),
+});
+
+export const updateTimeEntrySchema = manualTimeEntrySchema.partial();
+
+export const timesheetReviewSchema = z.object({
+  note: z.string().trim().nullable().optional(),
+});
+
+export const projectTemplateTaskSchema = z.object({
+  title: z.string().trim().min(1, "Task title is required"),
+  description: z.string().trim().nullable().optional(),
+  priority: z.enum(["high", "medium", "low"]).default("medium"),
+  startOffsetDays: z.coerce.number().int().min(0).nullable().optional(),
+  deadlineOffsetDays: z.coerce.number().int().min(0).nullable().optional(),
+  estimatedHours: z.coerce.number().positive().nullable().optional(),
+  checklist: z.array(z.string().trim().min(1)).default([]),
+  recurrence: z.enum(TASK_RECURRENCE_FREQUENCIES).nullable().optional(),
+  recurrenceInterval: z.coerce.number().int().min(1).max(365).optional(),
+}).refine(
+  (task) => task.startOffsetDays == null || task.deadlineOffsetDays == null || task.startOffsetDays <= task.deadlineOffsetDays,
+  { message: "A task cannot start after its deadline", path: ["deadlineOffsetDays"] },
+);
+
+export const insertProjectTemplateSchema = createInsertSchema(projectTemplates).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  durationDays: z.coerce.number().int().positive().nullable().optional(),
+  tasks: z.array(projectTemplateTaskSchema).min(1, "Add at least one task"),
+});
+
+// Start a project for a client from a template
+export const applyProjectTemplateSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  name: z.string().trim().min(1).optional(),
+  startDate: z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD").transform(parseRequiredDate).optional(),
+});
+
+export const insertTaskCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+  parentCommentId: z.string().nullable().optional(),
+});
+
+export const insertProjectMilestoneSchema = createInsertSchema(projectMilestones).omit({
+  id: true,
+  status: true,
+  submittedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  clientNote: true,
+  invoiceId: true,
+  createdAt: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  deliverables: z.array(z.string().trim().min(1)).default([]),
+  amount: z.coerce.number().positive("Amount must be positive").transform(amount => amount.toFixed(2)),
+  dueDate: z.preprocess(
+    (val) => val === "" ? undefined : val,
+    z.union([
+      z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD"),
+      z.date()
+    ]).nullable().optional().transform(parseOptionalDate)
+  ),
+});
+
+export const milestoneReviewSchema = z.object({
+  note: z.string().trim().nullable().optional(),
+});
+
+// One-click invoice for an approved milestone; due date defaults on the server
+export const milestoneInvoiceSchema = z.object({
+  dueDate: z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD").transform(parseRequiredDate).optional(),
 });
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
@@ -673,6 +1341,17 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   ),
 });
 
+// Converting a lead: the client to create, plus an optional first project and draft invoice
+export const leadConversionSchema = z.object({
+  client: insertClientSchema,
+  project: insertProjectSchema.omit({ clientId: true, createdBy: true }).nullable().optional(),
+  invoice: z.object({
+    description: z.string().trim().min(1, "Invoice description is required"),
+    amount: z.coerce.number().positive("Invoice amount must be positive"),
+    dueDate: z.string().regex(DATE_ONLY_REGEX, "Invalid date format, use YYYY-MM-DD").transform(parseRequiredDate),
+  }).nullable().optional(),
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
@@ -686,6 +1365,9 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
+  sequence: true,
+  previousHash: true,
+  hash: true,
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -844,6 +1526,16 @@ export type Lead = typeof leads.$inferSelect;
 
 export type InsertLeadEmail = z.infer<typeof insertLeadEmailSchema>;
 export type LeadEmail = typeof leadEmails.$inferSelect;
+export type LeadEmailEvent = typeof leadEmailEvents.$inferSelect;
+
+export type InsertLeadStage = z.infer<typeof insertLeadStageSchema>;
+export type LeadStage = typeof leadStages.$inferSelect;
+export type LeadStageHistory = typeof leadStageHistory.$inferSelect;
+export type InsertLeadScoringRule = z.infer<typeof insertLeadScoringRuleSchema>;
+export type LeadScoringRule = typeof leadScoringRules.$inferSelect;
+export type InsertLeadAssignmentRule = z.infer<typeof insertLeadAssignmentRuleSchema>;
+export type LeadAssignmentRule = typeof leadAssignmentRules.$inferSelect;
+export type LeadMerge = z.infer<typeof leadMergeSchema>;
 
 export type InsertLeadCategory = z.infer<typeof insertLeadCategorySchema>;
 export type LeadCategory = typeof leadCategories.$inferSelect;
@@ -874,6 +1566,19 @@ export type Project = typeof projects.$inferSelect;
 
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+export type TaskComment = typeof taskComments.$inferSelect;
+export type TaskActivity = typeof taskActivities.$inferSelect;
+
+export type ManualTimeEntry = z.infer<typeof manualTimeEntrySchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type Timesheet = typeof timesheets.$inferSelect;
+export type InsertProjectTemplate = z.infer<typeof insertProjectTemplateSchema>;
+export type ProjectTemplate = typeof projectTemplates.$inferSelect;
+export type ApplyProjectTemplate = z.infer<typeof applyProjectTemplateSchema>;
+export type InsertProjectMilestone = z.infer<typeof insertProjectMilestoneSchema>;
+export type ProjectMilestone = typeof projectMilestones.$inferSelect;
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
@@ -894,11 +1599,23 @@ export type InsertExpenseCategory = z.infer<typeof insertExpenseCategorySchema>;
 export type ExpenseCategory = typeof expenseCategories.$inferSelect;
 
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type LeadConversion = z.infer<typeof leadConversionSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
+export type UserSession = typeof userSessions.$inferSelect;
+
+export type InsertEmailSequence = z.infer<typeof insertEmailSequenceSchema>;
+export type EmailSequence = typeof emailSequences.$inferSelect;
+export type EmailSequenceStep = typeof emailSequenceSteps.$inferSelect;
+export type EmailSequenceEnrollment = typeof emailSequenceEnrollments.$inferSelect;
+export type BulkEmailJob = typeof bulkEmailJobs.$inferSelect;
+export type BulkEmailRecipient = typeof bulkEmailRecipients.$inferSelect;
+export type InsertEmailSuppression = z.infer<typeof insertEmailSuppressionSchema>;
+export type EmailSuppression = typeof emailSuppressions.$inferSelect;
+
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 